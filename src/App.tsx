@@ -3,8 +3,14 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import Beneficiaries from "./pages/Beneficiaries";
+import BulkTransfers from "./pages/BulkTransfers";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Reconciliation from "./pages/Reconciliation";
+import RecurringTransfers from "./pages/RecurringTransfers";
+import TransferDetail from "./pages/TransferDetail";
+import TransferHistory from "./pages/TransferHistory";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +22,12 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/transfers" element={<TransferHistory />} />
+          <Route path="/transfers/bulk" element={<BulkTransfers />} />
+          <Route path="/transfers/:id" element={<TransferDetail />} />
+          <Route path="/beneficiaries" element={<Beneficiaries />} />
+          <Route path="/recurring" element={<RecurringTransfers />} />
+          <Route path="/reconciliation" element={<Reconciliation />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Loader2 } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ExecutionDatePicker from "@/components/ExecutionDatePicker";
+import { ORIGINATOR_ACCOUNT } from "@/data/originatorAccount";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { generateNacha, NACHA_SEC_CODE_LABELS, NachaSecCode, NachaTransfer, parseNacha } from "@/lib/nacha";
+
+// Issues listed in the dialog; the rest are summarised in a count
+const MAX_LISTED_ISSUES = 10;
+
+interface AchExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What is exported, e.g. "the domestic transfers matching your filters"
+  description: string;
+  // Loads the transfers when the file is created, so lists that need fetching are only fetched on demand
+  loadTransfers: () => Promise<NachaTransfer[]> | NachaTransfer[];
+  // Hands the transfers off to the file before it's downloaded, so they can't also be sent from here
+  markExported: (transfers: NachaTransfer[]) => Promise<unknown> | void;
+}
+
+// Dialog for creating a NACHA ACH file of domestic transfers, which is read back and checked before it's downloaded
+const AchExportDialog: React.FC<AchExportDialogProps> = ({
+  open,
+  onOpenChange,
+  description,
+  loadTransfers,
+  markExported,
+}) => {
+  const { toast } = useToast();
+  const [companyId, setCompanyId] = useState(ORIGINATOR_ACCOUNT.achCompanyId);
+  const [secCode, setSecCode] = useState<NachaSecCode>("PPD");
+  const [effectiveDate, setEffectiveDate] = useState<Date | undefined>();
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const transfers = await loadTransfers();
+      const createdAt = new Date();
+      const file = generateNacha(transfers, { companyId, secCode, effectiveDate, createdAt });
+      // Read the file back, so a file the bank would reject is never downloaded
+      const parsed = parseNacha(file);
+      const issues = parsed.transfers.length === transfers.length
+        ? parsed.issues
+        : [...parsed.issues, { line: 0, message: `The file holds ${parsed.transfers.length} of ${transfers.length} transfers.` }];
+      if (issues.length === 0) {
+        await markExported(transfers);
+      }
+      return { file, count: transfers.length, createdAt, issues };
+    },
+    onSuccess: ({ file, count, createdAt, issues }) => {
+      if (issues.length > 0) {
+        return;
+      }
+      const stamp = createdAt.toISOString().slice(0, 19).replace(/\D/g, "");
+      downloadFile(file, `ach-${stamp}.txt`, "text/plain;charset=utf-8");
+      toast({
+        title: "ACH file downloaded",
+        description: `${count} transfer${count === 1 ? "" : "s"} as ${secCode} credit entries. `
+          + "They're marked as exported and won't be sent from here.",
+      });
+      onOpenChange(false);
+    },
+  });
+  const { reset } = exportMutation;
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  const issues = exportMutation.data?.issues ?? [];
+  const companyIdError = /^[A-Za-z0-9 ]{10}$/.test(companyId) ? undefined : "Company ID must be 10 letters or digits.";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Download ACH file</DialogTitle>
+          <DialogDescription>
+            A NACHA file of ACH credits with {description}, for uploading to your bank.
+            The transfers are marked as exported, so only the file pays them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ach-company-id">Company ID</Label>
+            <Input
+              id="ach-company-id"
+              value={companyId}
+              maxLength={10}
+              onChange={(event) => {
+                setCompanyId(event.target.value.toUpperCase());
+                reset();
+              }}
+              className="bg-black/50 font-mono"
+            />
+            {companyIdError && <p className="text-sm text-red-400">{companyIdError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ach-sec-code">Recipients</Label>
+            <Select
+              value={secCode}
+              onValueChange={(value) => {
+                setSecCode(value as NachaSecCode);
+                reset();
+              }}
+            >
+              <SelectTrigger id="ach-sec-code" className="bg-black/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(NACHA_SEC_CODE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Effective entry date</Label>
+            <ExecutionDatePicker
+              value={effectiveDate}
+              onChange={(date) => {
+                setEffectiveDate(date);
+                reset();
+              }}
+              currencies={["USD"]}
+              placeholder="Each transfer's execution date"
+            />
+          </div>
+        </div>
+
+        {exportMutation.error && <p className="text-sm text-red-400">{exportMutation.error.message}</p>}
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>The file doesn't pass the ACH checks</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-2 list-disc space-y-1 pl-4">
+                {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <li key={index}>
+                    {issue.line > 0 && <span className="font-mono text-xs opacity-70">Line {issue.line}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {issues.length > MAX_LISTED_ISSUES && (
+                <p className="mt-2">and {issues.length - MAX_LISTED_ISSUES} more.</p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || issues.length > 0 || !!companyIdError}
+          >
+            {exportMutation.isPending ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Checking file…</>
+            ) : (
+              <><FileText className="mr-2 h-4 w-4" /> Check and download</>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AchExportDialog;
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FieldPath, FieldValues, useForm, UseFormReturn } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { ACCOUNT_SCHEMES, AccountScheme, getAccountFieldValues, getAccountSchemes } from "@/lib/accountFormats";
+import { COUNTRY_OPTIONS, resolveCountryCode } from "@/lib/countries";
+import {
+  BeneficiaryFormData,
+  DomesticBeneficiaryValues,
+  domesticBeneficiarySchema,
+  InternationalBeneficiaryValues,
+  internationalBeneficiarySchema,
+  toBeneficiaryInput,
+} from "@/lib/transferSchemas";
+import {
+  Beneficiary,
+  createBeneficiary,
+  getBeneficiaryLabel,
+  MAX_NICKNAME_LENGTH,
+  updateBeneficiary,
+} from "@/services/beneficiaryService";
+import { getQuotableCurrencies } from "@/services/quoteService";
+import CurrencyCombobox from "./CurrencyCombobox";
+
+interface BeneficiaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The beneficiary to edit; a new one is created when omitted
+  beneficiary?: Beneficiary;
+}
+
+interface TextFieldProps<T extends FieldValues> {
+  form: UseFormReturn<T>;
+  name: FieldPath<T>;
+  label: string;
+  placeholder?: string;
+  description?: string;
+}
+
+function TextField<T extends FieldValues>({ form, name, label, placeholder, description }: TextFieldProps<T>) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} value={field.value ?? ""} className="bg-black/50" />
+          </FormControl>
+          {description && <FormDescription className="text-xs text-gray-500">{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function getDomesticDefaults(beneficiary?: Beneficiary): DomesticBeneficiaryValues {
+  return {
+    nickname: beneficiary?.nickname ?? "",
+    recipientName: beneficiary?.recipientName ?? "",
+    routingNumber: beneficiary?.routingNumber ?? "",
+    accountNumber: beneficiary?.accountNumber ?? "",
+    bankName: beneficiary?.bankName ?? "",
+  };
+}
+
+function getInternationalDefaults(beneficiary?: Beneficiary): InternationalBeneficiaryValues {
+  const identifier = beneficiary?.accountIdentifier ?? { scheme: "iban" as const, iban: beneficiary?.iban ?? "" };
+  return {
+    nickname: beneficiary?.nickname ?? "",
+    recipientName: beneficiary?.recipientName ?? "",
+    accountScheme: identifier.scheme,
+    iban: "",
+    sortCode: "",
+    bsb: "",
+    ifsc: "",
+    clabe: "",
+    institutionNumber: "",
+    transitNumber: "",
+    routingNumber: "",
+    accountNumber: "",
+    ...getAccountFieldValues(identifier),
+    swiftCode: beneficiary?.swiftCode ?? "",
+    bankName: beneficiary?.bankName ?? "",
+    bankAddress: beneficiary?.bankAddress ?? "",
+    bankCountry: beneficiary?.bankCountry ?? "",
+    currency: beneficiary?.currency ?? "EUR",
+  };
+}
+
+// Dialog for adding a beneficiary or editing a saved one
+const BeneficiaryDialog: React.FC<BeneficiaryDialogProps> = ({ open, onOpenChange, beneficiary }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [transferType, setTransferType] = useState<Beneficiary["transferType"]>(beneficiary?.transferType ?? "international");
+
+  const domesticForm = useForm<DomesticBeneficiaryValues>({
+    resolver: zodResolver(domesticBeneficiarySchema),
+    defaultValues: getDomesticDefaults(beneficiary),
+  });
+  const internationalForm = useForm<InternationalBeneficiaryValues>({
+    resolver: zodResolver(internationalBeneficiarySchema),
+    defaultValues: getInternationalDefaults(beneficiary),
+  });
+
+  // Start from the selected beneficiary each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTransferType(beneficiary?.transferType ?? "international");
+      domesticForm.reset(getDomesticDefaults(beneficiary));
+      internationalForm.reset(getInternationalDefaults(beneficiary));
+    }
+  }, [open, beneficiary, domesticForm, internationalForm]);
+
+  // Offer only the account schemes used in the selected bank country
+  const bankCountry = internationalForm.watch("bankCountry");
+  const accountScheme = internationalForm.watch("accountScheme");
+  const accountSchemes = useMemo(() => getAccountSchemes(resolveCountryCode(bankCountry)), [bankCountry]);
+  useEffect(() => {
+    if (!accountSchemes.includes(accountScheme)) {
+      internationalForm.setValue("accountScheme", accountSchemes[0]);
+    }
+  }, [accountSchemes, accountScheme, internationalForm]);
+
+  const saveMutation = useMutation({
+    mutationFn: (formData: BeneficiaryFormData) => {
+      const input = toBeneficiaryInput(formData);
+      return beneficiary ? updateBeneficiary(beneficiary.id, input) : createBeneficiary(input);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["beneficiaries"] });
+      toast({
+        title: beneficiary ? "Recipient updated" : "Recipient saved",
+        description: `${getBeneficiaryLabel(saved)} is in your saved recipients.`,
+      });
+      onOpenChange(false);
+    },
+  });
+
+  const onDomesticSubmit = (values: DomesticBeneficiaryValues) =>
+    saveMutation.mutate({ transferType: "domestic", ...values });
+  const onInternationalSubmit = (values: InternationalBeneficiaryValues) =>
+    saveMutation.mutate({ transferType: "international", ...values });
+
+  const footer = (
+    <DialogFooter className="pt-2">
+      {saveMutation.error && <p className="mr-auto text-sm text-red-400">{saveMutation.error.message}</p>}
+      <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+        Cancel
+      </Button>
+      <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple" disabled={saveMutation.isPending}>
+        {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {beneficiary ? "Save changes" : "Add recipient"}
+      </Button>
+    </DialogFooter>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{beneficiary ? `Edit ${getBeneficiaryLabel(beneficiary)}` : "Add a recipient"}</DialogTitle>
+          <DialogDescription>
+            Saved recipients can be picked in the transfer form to fill in their bank details.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!beneficiary && (
+          <Tabs value={transferType} onValueChange={(value) => setTransferType(value as Beneficiary["transferType"])}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="international">International</TabsTrigger>
+              <TabsTrigger value="domestic">Domestic (US)</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {transferType === "domestic" ? (
+          <Form {...domesticForm}>
+            <form onSubmit={domesticForm.handleSubmit(onDomesticSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TextField form={domesticForm} name="recipientName" label="Recipient Name" placeholder="John Doe" />
+                <TextField
+                  form={domesticForm}
+                  name="nickname"
+                  label="Nickname"
+                  placeholder="Optional, e.g. Landlord"
+                  description={`Up to ${MAX_NICKNAME_LENGTH} characters`}
+                />
+                <TextField form={domesticForm} name="routingNumber" label="Routing Number" placeholder="026009593" />
+                <TextField form={domesticForm} name="accountNumber" label="Account Number" placeholder="000123456789" />
+                <TextField form={domesticForm} name="bankName" label="Bank Name" placeholder="Bank of America" />
+              </div>
+              {footer}
+            </form>
+          </Form>
+        ) : (
+          <Form {...internationalForm}>
+            <form onSubmit={internationalForm.handleSubmit(onInternationalSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TextField form={internationalForm} name="recipientName" label="Recipient Name" placeholder="Jane Smith" />
+                <TextField
+                  form={internationalForm}
+                  name="nickname"
+                  label="Nickname"
+                  placeholder="Optional, e.g. Berlin office"
+                  description={`Up to ${MAX_NICKNAME_LENGTH} characters`}
+                />
+                <FormField
+                  control={internationalForm.control}
+                  name="bankCountry"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bank Country</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-black/50">
+                            <SelectValue placeholder="Select the bank's country" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {COUNTRY_OPTIONS.map(([code, name]) => (
+                            <SelectItem key={code} value={name}>
+                              {name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={internationalForm.control}
+                  name="accountScheme"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Details</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value as AccountScheme)}
+                        value={field.value}
+                        disabled={accountSchemes.length < 2}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="bg-black/50">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accountSchemes.map((scheme) => (
+                            <SelectItem key={scheme} value={scheme}>
+                              {ACCOUNT_SCHEMES[scheme].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {ACCOUNT_SCHEMES[accountScheme].fields.map((definition) => (
+                  <TextField
+                    key={`${accountScheme}-${definition.name}`}
+                    form={internationalForm}
+                    name={definition.name}
+                    label={definition.label}
+                    placeholder={definition.placeholder}
+                  />
+                ))}
+                <TextField form={internationalForm} name="swiftCode" label="SWIFT/BIC Code" placeholder="DEUTDEFF" />
+                <TextField form={internationalForm} name="bankName" label="Bank Name" placeholder="Deutsche Bank" />
+                <TextField form={internationalForm} name="bankAddress" label="Bank Address" placeholder="Taunusanlage 12, Frankfurt" />
+                <FormField
+                  control={internationalForm.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Usual Currency</FormLabel>
+                      <FormControl>
+                        <CurrencyCombobox {...field} currencies={getQuotableCurrencies()} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {footer}
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BeneficiaryDialog;
@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { BookUser, ChevronsUpDown } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Beneficiary,
+  getBeneficiaries,
+  getBeneficiaryAccountHint,
+  getBeneficiaryLabel,
+} from "@/services/beneficiaryService";
+
+interface BeneficiaryPickerProps {
+  transferType: Beneficiary["transferType"];
+  onSelect: (beneficiary: Beneficiary) => void;
+}
+
+// Searchable list of saved beneficiaries for one transfer type
+const BeneficiaryPicker: React.FC<BeneficiaryPickerProps> = ({ transferType, onSelect }) => {
+  const [open, setOpen] = useState(false);
+  const { data: beneficiaries = [] } = useQuery({
+    queryKey: ["beneficiaries"],
+    queryFn: getBeneficiaries,
+  });
+  const matching = beneficiaries.filter((beneficiary) => beneficiary.transferType === transferType);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between bg-black/50 font-normal text-gray-400"
+        >
+          <span className="flex items-center">
+            <BookUser className="mr-2 h-4 w-4 text-primary-purple" />
+            Pay a saved recipient
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by name, nickname or bank..." />
+          <CommandList>
+            <CommandEmpty>
+              {matching.length === 0 ? (
+                <span>
+                  No saved {transferType} recipients yet.{" "}
+                  <Link to="/beneficiaries" className="text-primary-purple underline">Manage recipients</Link>
+                </span>
+              ) : (
+                "No recipient found."
+              )}
+            </CommandEmpty>
+            <CommandGroup>
+              {matching.map((beneficiary) => (
+                <CommandItem
+                  key={beneficiary.id}
+                  value={[beneficiary.id, beneficiary.nickname, beneficiary.recipientName, beneficiary.bankName].join(" ")}
+                  onSelect={() => {
+                    onSelect(beneficiary);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex flex-col">
+                    <span className="font-medium">{getBeneficiaryLabel(beneficiary)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {beneficiary.nickname ? `${beneficiary.recipientName} · ` : ""}
+                      {beneficiary.bankName} · {getBeneficiaryAccountHint(beneficiary)}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default BeneficiaryPicker;
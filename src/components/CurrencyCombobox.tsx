@@ -0,0 +1,71 @@
+import React, { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CURRENCIES, Currency, getCurrency } from "@/lib/currencies";
+import { cn } from "@/lib/utils";
+
+interface CurrencyComboboxProps {
+  value: string;
+  onChange: (code: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  // Currencies to offer; every ISO 4217 currency when left out
+  currencies?: Currency[];
+}
+
+const CurrencyCombobox = React.forwardRef<HTMLButtonElement, CurrencyComboboxProps>(
+  ({ value, onChange, disabled, placeholder = "Select currency", currencies = CURRENCIES, ...props }, ref) => {
+    const [open, setOpen] = useState(false);
+    const selected = getCurrency(value);
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between bg-black/50 font-normal"
+            {...props}
+          >
+            {selected ? `${selected.code} – ${selected.name}` : placeholder}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[300px] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search currency..." />
+            <CommandList>
+              <CommandEmpty>No currency found.</CommandEmpty>
+              <CommandGroup>
+                {currencies.map((currency) => (
+                  <CommandItem
+                    key={currency.code}
+                    value={`${currency.code} ${currency.name}`}
+                    onSelect={() => {
+                      onChange(currency.code);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value === currency.code ? "opacity-100" : "opacity-0")} />
+                    <span className="font-medium mr-2">{currency.code}</span>
+                    <span className="text-muted-foreground">{currency.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+CurrencyCombobox.displayName = "CurrencyCombobox";
+
+export default CurrencyCombobox;
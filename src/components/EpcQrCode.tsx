@@ -0,0 +1,86 @@
+import React, { useMemo } from "react";
+import { Copy, Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { createEpcQrPayload, getEpcPayment } from "@/lib/epcQr";
+import { encodeQrCode, getQrCodePath, toQrCodeSvg } from "@/lib/qrCode";
+import { TransferRecord } from "@/services/transferService";
+
+// Light modules kept around the code, as scanners need
+const QUIET_ZONE = 4;
+
+interface EpcQrCodeProps {
+  transfer: TransferRecord;
+}
+
+// EPC QR code holding a transfer's payment details, so someone else can scan it and pay the same recipient
+const EpcQrCode: React.FC<EpcQrCodeProps> = ({ transfer }) => {
+  const { toast } = useToast();
+
+  const result = useMemo(() => {
+    try {
+      const payload = createEpcQrPayload(getEpcPayment(transfer));
+      // EPC069-12 asks for error correction level M
+      return { payload, code: encodeQrCode(new TextEncoder().encode(payload), "M") };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [transfer]);
+
+  const copyPayload = async (payload: string) => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast({ title: "Payment details copied", description: "The text of the EPC QR code is on your clipboard." });
+    } catch {
+      toast({ title: "Couldn't copy payment details", description: "Select the text and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  if ("error" in result) {
+    return <p className="text-sm text-gray-400">There is no EPC QR code for this transfer. {result.error}</p>;
+  }
+  const { payload, code } = result;
+  const size = code.size + QUIET_ZONE * 2;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center gap-6 sm:flex-row sm:items-start">
+        <svg
+          viewBox={`0 0 ${size} ${size}`}
+          className="h-56 w-56 shrink-0 rounded-lg bg-white"
+          shapeRendering="crispEdges"
+          role="img"
+          aria-label={`EPC QR code for paying ${transfer.recipientName}`}
+        >
+          <path d={getQrCodePath(code, QUIET_ZONE)} fill="#000000" />
+        </svg>
+        <div className="space-y-4 text-sm text-gray-300">
+          <p>
+            Anyone can scan this code with a European banking app to pay {transfer.recipientName} the same amount,
+            with the same reference.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" className="border-white/20 text-gray-300 hover:text-white" onClick={() => copyPayload(payload)}>
+              <Copy className="mr-2 h-4 w-4" /> Copy text
+            </Button>
+            <Button
+              variant="outline"
+              className="border-white/20 text-gray-300 hover:text-white"
+              onClick={() => downloadFile(toQrCodeSvg(code, QUIET_ZONE), `${transfer.id}-epc-qr.svg`, "image/svg+xml;charset=utf-8")}
+            >
+              <Download className="mr-2 h-4 w-4" /> Download
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <pre className="overflow-x-auto rounded-lg bg-black/50 p-4 font-mono text-xs text-gray-200" aria-label="EPC QR code text">
+        {payload}
+      </pre>
+    </div>
+  );
+};
+
+export default EpcQrCode;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Check, Loader2, Upload } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { EpcPayment, EpcQrParseResult, parseEpcQr, parseEpcQrBytes } from "@/lib/epcQr";
+import { formatIban } from "@/lib/iban";
+import { formatMoney } from "@/lib/money";
+import { decodeQrCodeImageInWorker } from "@/lib/qrCode";
+import { cn } from "@/lib/utils";
+
+// Pictures are scaled down to this many pixels on their longest side before they're searched for a code
+const MAX_IMAGE_SIZE = 2000;
+
+interface EpcQrScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (payment: EpcPayment) => void;
+}
+
+// Function to draw an image file onto a canvas and read back its pixels
+async function readImageFile(file: File): Promise<ImageData> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`${file.name || "The file"} is not a picture that can be opened.`);
+  }
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+const PreviewRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-4">
+    <dt className="text-gray-400">{label}</dt>
+    <dd className="text-right font-medium text-white break-all">{value}</dd>
+  </div>
+);
+
+// Dialog for filling in a transfer from the EPC QR code on an invoice, from a picture of the code or
+// its text. Pictures are decoded on this device; the details are shown for checking before they're used.
+const EpcQrScanDialog: React.FC<EpcQrScanDialogProps> = ({ open, onOpenChange, onScan }) => {
+  const [source, setSource] = useState<"image" | "text">("image");
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<EpcQrParseResult | undefined>();
+
+  const scanMutation = useMutation({
+    mutationFn: async (file: File) => parseEpcQrBytes(await decodeQrCodeImageInWorker(await readImageFile(file))),
+    onSuccess: setResult,
+  });
+  const { reset } = scanMutation;
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset();
+      setResult(undefined);
+      setText("");
+    }
+  }, [open, reset]);
+
+  const handleFile = (file: File | undefined) => {
+    if (file) {
+      setResult(undefined);
+      scanMutation.mutate(file);
+    }
+  };
+
+  const payment = result?.valid === true ? result.payment : undefined;
+  const error = result?.valid === false ? result.error : scanMutation.error?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-lg"
+        onPaste={(event) => {
+          // A copied picture of the code can be pasted straight in
+          const file = Array.from(event.clipboardData.files).find((candidate) => candidate.type.startsWith("image/"));
+          if (file && !payment) {
+            event.preventDefault();
+            setSource("image");
+            handleFile(file);
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Pay from an invoice QR code</DialogTitle>
+          <DialogDescription>
+            Fill in the transfer from the EPC QR code on a European invoice, sometimes labelled GiroCode or
+            "Zahlen mit Code". Pictures are read on this device and are not uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {payment ? (
+          <dl className="space-y-3 rounded-lg bg-black/30 p-4 text-sm">
+            <PreviewRow label="Recipient" value={payment.name} />
+            <PreviewRow label="IBAN" value={formatIban(payment.iban)} />
+            {payment.bic && <PreviewRow label="SWIFT/BIC" value={payment.bic} />}
+            <PreviewRow label="Amount" value={payment.amount !== undefined ? formatMoney(payment.amount, "EUR") : "Not given, enter it yourself"} />
+            {payment.reference && <PreviewRow label="Reference" value={payment.reference} />}
+            {payment.remittance && <PreviewRow label="Description" value={payment.remittance} />}
+            {payment.purpose && <PreviewRow label="Purpose" value={payment.purpose} />}
+            {payment.information && <PreviewRow label="Note from the recipient" value={payment.information} />}
+          </dl>
+        ) : (
+          <Tabs value={source} onValueChange={(value) => setSource(value as "image" | "text")}>
+            <TabsList className="grid w-full grid-cols-2 bg-black/50">
+              <TabsTrigger value="image">Picture</TabsTrigger>
+              <TabsTrigger value="text">Text</TabsTrigger>
+            </TabsList>
+            <TabsContent value="image">
+              <label
+                className={cn(
+                  "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-white/20 p-8 text-center hover:border-primary-purple/60",
+                  scanMutation.isPending && "pointer-events-none opacity-50",
+                )}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  handleFile(event.dataTransfer.files[0]);
+                }}
+              >
+                {scanMutation.isPending ? (
+                  <Loader2 className="h-8 w-8 animate-spin text-primary-purple" />
+                ) : (
+                  <Upload className="h-8 w-8 text-primary-purple" />
+                )}
+                <span className="text-white">Drop a picture or screenshot of the code here, or click to choose one</span>
+                <span className="text-xs text-gray-500">You can also paste a copied picture.</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="sr-only"
+                  disabled={scanMutation.isPending}
+                  onChange={(event) => {
+                    handleFile(event.target.files?.[0]);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+            </TabsContent>
+            <TabsContent value="text" className="space-y-2">
+              <Textarea
+                aria-label="EPC QR code text"
+                rows={8}
+                value={text}
+                onChange={(event) => {
+                  setText(event.target.value);
+                  setResult(undefined);
+                }}
+                placeholder={"BCD\n002\n1\nSCT\nBIC\nRecipient name\nIBAN\nEUR12.50"}
+                className="bg-black/50 font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500">The text a QR scanner app shows for the code, starting with BCD.</p>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>The code can't be used</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          {payment ? (
+            <>
+              <Button variant="outline" onClick={() => setResult(undefined)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => {
+                  onScan(payment);
+                  onOpenChange(false);
+                }}
+              >
+                <Check className="mr-2 h-4 w-4" /> Use these details
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              {source === "text" && (
+                <Button onClick={() => setResult(parseEpcQr(text))} disabled={!text.trim()}>
+                  Read details
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EpcQrScanDialog;
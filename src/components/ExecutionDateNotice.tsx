@@ -0,0 +1,68 @@
+import React from "react";
+import { format, isSameDay, startOfToday } from "date-fns";
+import { AlertTriangle, CalendarClock, Clock } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  getCutOffs,
+  getEffectiveExecutionDate,
+  getMissingCalendarWarning,
+  getNonBusinessDayReason,
+} from "@/lib/businessDays";
+
+interface ExecutionDateNoticeProps {
+  executionDate?: Date;
+  currencies: string[];
+}
+
+// Explains when a transfer will be executed: on its scheduled date, or on the next business day when
+// today is closed or today's cut-off has passed. Warns when a currency has no holiday calendar.
+const ExecutionDateNotice: React.FC<ExecutionDateNoticeProps> = ({ executionDate, currencies }) => {
+  const calendarWarning = getMissingCalendarWarning(currencies);
+  return (
+    <>
+      <ExecutionDateAlert executionDate={executionDate} currencies={currencies} />
+      {calendarWarning && (
+        <Alert className="bg-yellow-500/10 border-yellow-600/30 text-yellow-200">
+          <AlertTriangle className="h-4 w-4 text-yellow-500" />
+          <AlertDescription className="text-sm">{calendarWarning}</AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+};
+
+const ExecutionDateAlert: React.FC<ExecutionDateNoticeProps> = ({ executionDate, currencies }) => {
+  const today = startOfToday();
+  const effectiveDate = getEffectiveExecutionDate(executionDate, currencies);
+  const formattedDate = format(effectiveDate, "EEEE, MMMM d");
+
+  if (executionDate && !isSameDay(executionDate, today)) {
+    return (
+      <Alert className="bg-black/30 border-white/10 text-gray-300">
+        <CalendarClock className="h-4 w-4 text-primary-purple" />
+        <AlertDescription className="text-sm">
+          The transfer will be sent on {formattedDate}. You can change or cancel it until then.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isSameDay(effectiveDate, today)) {
+    return null;
+  }
+
+  const passedCutOff = getCutOffs(currencies).find((cutOff) => cutOff.passed);
+  const reason = getNonBusinessDayReason(today, currencies)
+    ?? `Today's cut-off for ${passedCutOff?.currency} payments (${passedCutOff?.label}) has passed.`;
+  return (
+    <Alert className="bg-yellow-500/10 border-yellow-600/30 text-yellow-200">
+      <Clock className="h-4 w-4 text-yellow-500" />
+      <AlertDescription className="text-sm">
+        {reason} The transfer will be sent on the next business day, {formattedDate}.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ExecutionDateNotice;
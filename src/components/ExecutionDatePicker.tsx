@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { addDays, format, startOfToday } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MAX_SCHEDULE_DAYS, validateExecutionDate } from "@/lib/businessDays";
+import { cn } from "@/lib/utils";
+
+interface ExecutionDatePickerProps {
+  // Undefined sends the transfer as soon as possible
+  value?: Date;
+  onChange: (date: Date | undefined) => void;
+  // Currencies whose payment systems must be open on the chosen date
+  currencies: string[];
+  disabled?: boolean;
+  placeholder?: string;
+  // Hides the option to clear the date and send as soon as possible
+  required?: boolean;
+}
+
+// Date picker for scheduling a transfer, with weekends and bank holidays disabled
+const ExecutionDatePicker = React.forwardRef<HTMLButtonElement, ExecutionDatePickerProps>(
+  ({ value, onChange, currencies, disabled, placeholder = "As soon as possible", required, ...props }, ref) => {
+    const [open, setOpen] = useState(false);
+    const today = startOfToday();
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            className={cn("w-full justify-start bg-black/50 font-normal", !value && "text-muted-foreground")}
+            {...props}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "EEEE, MMMM d, yyyy") : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={(date) => {
+              // Clicking the selected day again clears it, unless a date is required
+              if (date || !required) {
+                onChange(date);
+              }
+              setOpen(false);
+            }}
+            fromDate={today}
+            toDate={addDays(today, MAX_SCHEDULE_DAYS)}
+            disabled={(date) => !!validateExecutionDate(date, currencies)}
+            initialFocus
+          />
+          {value && !required && (
+            <div className="border-t border-white/10 p-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full text-primary-purple"
+                onClick={() => {
+                  onChange(undefined);
+                  setOpen(false);
+                }}
+              >
+                Send as soon as possible instead
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    );
+  },
+);
+ExecutionDatePicker.displayName = "ExecutionDatePicker";
+
+export default ExecutionDatePicker;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from "react";
+import { Copy, Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { generateMt103, Mt103Charges, MT103_CHARGES_LABELS } from "@/lib/mt103";
+import { TransferRecord } from "@/services/transferService";
+
+interface Mt103PreviewProps {
+  transfer: TransferRecord;
+}
+
+// Read-only view of the MT103 message for an international transfer, with copy and download buttons
+const Mt103Preview: React.FC<Mt103PreviewProps> = ({ transfer }) => {
+  const { toast } = useToast();
+  const [charges, setCharges] = useState<Mt103Charges>("SHA");
+
+  const result = useMemo(() => {
+    try {
+      return { message: generateMt103(transfer, { charges, createdAt: new Date(transfer.createdAt) }) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [transfer, charges]);
+
+  const copyMessage = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Message copied", description: "The MT103 message is on your clipboard." });
+    } catch {
+      toast({ title: "Couldn't copy message", description: "Select the text and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  if ("error" in result) {
+    return <p className="text-sm text-red-400">Couldn't create the message: {result.error}</p>;
+  }
+  const { message } = result;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-2">
+          <Label htmlFor="mt103-charges">Charges (71A)</Label>
+          <Select value={charges} onValueChange={(value) => setCharges(value as Mt103Charges)}>
+            <SelectTrigger id="mt103-charges" className="bg-black/50 sm:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MT103_CHARGES_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="border-white/20 text-gray-300 hover:text-white" onClick={() => copyMessage(message.text)}>
+            <Copy className="mr-2 h-4 w-4" /> Copy
+          </Button>
+          <Button
+            variant="outline"
+            className="border-white/20 text-gray-300 hover:text-white"
+            onClick={() => downloadFile(message.text, `${transfer.id}-mt103.txt`, "text/plain;charset=utf-8")}
+          >
+            <Download className="mr-2 h-4 w-4" /> Download
+          </Button>
+        </div>
+      </div>
+
+      <pre className="overflow-x-auto rounded-lg bg-black/50 p-4 font-mono text-xs text-gray-200" aria-label="MT103 message">
+        {message.text.replace(/\r\n/g, "\n")}
+      </pre>
+
+      <dl className="space-y-2 text-sm">
+        {message.fields.map((field) => (
+          <div key={field.tag} className="flex gap-4">
+            <dt className="w-12 shrink-0 font-mono text-gray-400">{field.tag}</dt>
+            <dd className="text-gray-300">{field.label}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-gray-500">
+        Names, addresses and the description are written in the SWIFT character set, so accents and some symbols
+        are replaced, and long text is wrapped or shortened to fit each field.
+      </p>
+    </div>
+  );
+};
+
+export default Mt103Preview;
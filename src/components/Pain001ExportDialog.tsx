@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, FileCode, Loader2 } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { CHARGE_BEARER_LABELS, ChargeBearer, generatePain001, Pain001Transfer, validatePain001 } from "@/lib/pain001";
+
+// Charge bearers the user can pick; SLEV is set automatically for SEPA payments
+const CHARGE_BEARERS: ChargeBearer[] = ["SHAR", "DEBT", "CRED"];
+
+// Issues listed in the dialog; the rest are summarised in a count
+const MAX_LISTED_ISSUES = 10;
+
+interface Pain001ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What is exported, e.g. "the transfers matching your filters"
+  description: string;
+  // Loads the transfers when the file is created, so lists that need fetching are only fetched on demand
+  loadTransfers: () => Promise<Pain001Transfer[]> | Pain001Transfer[];
+  // Hands the transfers off to the file before it's downloaded, so they can't also be sent from here
+  markExported: (transfers: Pain001Transfer[]) => Promise<unknown> | void;
+}
+
+// Dialog for creating a pain.001 payment file, which is checked against the schema rules before it's downloaded
+const Pain001ExportDialog: React.FC<Pain001ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  description,
+  loadTransfers,
+  markExported,
+}) => {
+  const { toast } = useToast();
+  const [chargeBearer, setChargeBearer] = useState<ChargeBearer>("SHAR");
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const transfers = await loadTransfers();
+      const createdAt = new Date();
+      const xml = generatePain001(transfers, { createdAt, chargeBearer });
+      const issues = validatePain001(xml);
+      // A file that fails the checks is never downloaded, so its transfers stay as they are
+      if (issues.length === 0) {
+        await markExported(transfers);
+      }
+      return { xml, count: transfers.length, createdAt, issues };
+    },
+    onSuccess: ({ xml, count, createdAt, issues }) => {
+      if (issues.length > 0) {
+        return;
+      }
+      const stamp = createdAt.toISOString().slice(0, 19).replace(/\D/g, "");
+      downloadFile(xml, `pain001-${stamp}.xml`, "application/xml");
+      toast({
+        title: "Payment file downloaded",
+        description: `${count} transfer${count === 1 ? "" : "s"} in pain.001.001.09 format, checked against the schema rules. `
+          + "They're marked as exported and won't be sent from here.",
+      });
+      onOpenChange(false);
+    },
+  });
+  const { reset } = exportMutation;
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  const issues = exportMutation.data?.issues ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Download pain.001 file</DialogTitle>
+          <DialogDescription>
+            An ISO 20022 credit transfer file (pain.001.001.09) with {description}, for uploading to your bank.
+            The transfers are marked as exported, so only the file pays them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="pain001-charge-bearer">Charges</Label>
+          <Select
+            value={chargeBearer}
+            onValueChange={(value) => {
+              setChargeBearer(value as ChargeBearer);
+              reset();
+            }}
+          >
+            <SelectTrigger id="pain001-charge-bearer" className="bg-black/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHARGE_BEARERS.map((value) => (
+                <SelectItem key={value} value={value}>{CHARGE_BEARER_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">SEPA payments in euros always use the scheme's shared charges.</p>
+        </div>
+
+        {exportMutation.error && <p className="text-sm text-red-400">{exportMutation.error.message}</p>}
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>The file doesn't pass the schema checks</AlertTitle>
+            <AlertDescription>
+              <p>Fix these transfers before downloading:</p>
+              <ul className="mt-2 list-disc space-y-1 pl-4">
+                {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <li key={index}>
+                    {issue.message} <span className="font-mono text-xs opacity-70">{issue.path}</span>
+                  </li>
+                ))}
+              </ul>
+              {issues.length > MAX_LISTED_ISSUES && (
+                <p className="mt-2">and {issues.length - MAX_LISTED_ISSUES} more.</p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending || issues.length > 0}>
+            {exportMutation.isPending ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Checking file…</>
+            ) : (
+              <><FileCode className="mr-2 h-4 w-4" /> Check and download</>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default Pain001ExportDialog;
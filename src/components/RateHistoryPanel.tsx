@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChevronDown, LineChart as LineChartIcon, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { getRateHistory, RateHistoryRange } from "@/services/rateHistoryService";
+
+interface RateHistoryPanelProps {
+  sourceCurrency: string;
+  targetCurrency: string;
+}
+
+const RANGES: RateHistoryRange[] = [7, 30, 90];
+
+const formatRate = (rate: number) => rate.toFixed(rate >= 100 ? 2 : 4);
+
+const RateHistoryPanel: React.FC<RateHistoryPanelProps> = ({ sourceCurrency, targetCurrency }) => {
+  const [open, setOpen] = useState(false);
+  const [days, setDays] = useState<RateHistoryRange>(30);
+
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: ["rate-history", sourceCurrency, targetCurrency, days],
+    queryFn: () => getRateHistory(sourceCurrency, targetCurrency, days),
+    enabled: open,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const chartConfig = {
+    rate: {
+      label: `${sourceCurrency}/${targetCurrency}`,
+      color: "#9b87f5",
+    },
+  } satisfies ChartConfig;
+
+  const latest = history?.points[history.points.length - 1];
+  const changeFromAverage = latest && history ? ((latest.rate - history.average) / history.average) * 100 : 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border border-white/10">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between text-gray-400 hover:text-white">
+          <span className="flex items-center">
+            <LineChartIcon className="mr-2 h-4 w-4 text-primary-purple" />
+            {sourceCurrency} → {targetCurrency} rate history
+          </span>
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 p-4 pt-0">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={days.toString()}
+          onValueChange={(value) => value && setDays(Number(value) as RateHistoryRange)}
+          className="justify-start"
+        >
+          {RANGES.map((range) => (
+            <ToggleGroupItem key={range} value={range.toString()} className="text-xs">
+              {range} days
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {isLoading && (
+          <div className="flex h-48 items-center justify-center text-sm text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading rates…
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error.message}</p>}
+
+        {history && (
+          <>
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <LineChart data={history.points} margin={{ left: 8, right: 8, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+                />
+                <YAxis
+                  domain={["auto", "auto"]}
+                  tickLine={false}
+                  axisLine={false}
+                  width={56}
+                  tickFormatter={formatRate}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(value: string) => format(parseISO(value), "PP")}
+                      formatter={(value) => formatRate(Number(value))}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <ReferenceLine y={history.max.rate} stroke="#4ade80" strokeDasharray="4 4" label={{ value: "Max", fill: "#4ade80", fontSize: 10, position: "insideTopLeft" }} />
+                <ReferenceLine y={history.average} stroke="#9ca3af" strokeDasharray="2 4" label={{ value: "Avg", fill: "#9ca3af", fontSize: 10, position: "insideTopLeft" }} />
+                <ReferenceLine y={history.min.rate} stroke="#f87171" strokeDasharray="4 4" label={{ value: "Min", fill: "#f87171", fontSize: 10, position: "insideBottomLeft" }} />
+                <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <div>
+                <div className="text-gray-500">Min ({format(parseISO(history.min.date), "MMM d")})</div>
+                <div className="text-white font-medium">{formatRate(history.min.rate)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Max ({format(parseISO(history.max.date), "MMM d")})</div>
+                <div className="text-white font-medium">{formatRate(history.max.rate)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Average</div>
+                <div className="text-white font-medium">{formatRate(history.average)}</div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Today's rate is {Math.abs(changeFromAverage).toFixed(2)}% {changeFromAverage >= 0 ? "above" : "below"} the {days}-day average.
+            </p>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default RateHistoryPanel;
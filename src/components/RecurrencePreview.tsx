@@ -0,0 +1,42 @@
+import React from "react";
+import { format } from "date-fns";
+
+import { fromIsoDate } from "@/lib/businessDays";
+import { Occurrence } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+
+interface RecurrencePreviewProps {
+  occurrences: (Occurrence & { skipped?: boolean })[];
+  emptyMessage?: string;
+}
+
+// List of upcoming execution dates, noting dates moved off weekends and holidays
+const RecurrencePreview: React.FC<RecurrencePreviewProps> = ({
+  occurrences,
+  emptyMessage = "No more transfers are scheduled.",
+}) => {
+  if (occurrences.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ol className="grid grid-cols-1 gap-1 text-sm sm:grid-cols-2">
+      {occurrences.map((occurrence) => (
+        <li
+          key={occurrence.index}
+          className={cn("flex items-baseline gap-2", occurrence.skipped ? "text-gray-500 line-through" : "text-gray-300")}
+        >
+          <span className="w-5 text-right text-xs text-gray-500">{occurrence.index + 1}.</span>
+          <span>{format(fromIsoDate(occurrence.executionDate), "EEE, MMM d, yyyy")}</span>
+          {occurrence.executionDate !== occurrence.scheduledDate && (
+            <span className="text-xs text-yellow-500/80">
+              moved from {format(fromIsoDate(occurrence.scheduledDate), "EEE d")}
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RecurrencePreview;
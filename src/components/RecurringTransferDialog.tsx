@@ -0,0 +1,484 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { format, startOfToday } from "date-fns";
+import { CalendarIcon, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { getMissingCalendarWarning } from "@/lib/businessDays";
+import { getOccurrences, validateRecurrenceRule } from "@/lib/recurrence";
+import { fromMinorUnits, isAmountInputAllowed } from "@/lib/money";
+import {
+  DOMESTIC_CURRENCY,
+  RecurringTransferValues,
+  recurringTransferSchema,
+  toRecurrenceRule,
+  toRecurringTransferInput,
+  toRecurringTransferValues,
+} from "@/lib/transferSchemas";
+import { cn } from "@/lib/utils";
+import { getBeneficiaryAccountHint } from "@/services/beneficiaryService";
+import {
+  createRecurringTransfer,
+  RecurringTransfer,
+  updateRecurringTransfer,
+} from "@/services/recurringTransferService";
+import { getQuotableCurrencies } from "@/services/quoteService";
+import { getRecipientDetails, getSettlementCurrencies, RecipientDetails } from "@/services/transferService";
+import BeneficiaryPicker from "./BeneficiaryPicker";
+import CurrencyCombobox from "./CurrencyCombobox";
+import ExecutionDatePicker from "./ExecutionDatePicker";
+import RecurrencePreview from "./RecurrencePreview";
+
+interface RecurringTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The recurring transfer to edit; a new one is created when omitted
+  recurring?: RecurringTransfer;
+  // Recipient and payment to start a new recurring transfer from, e.g. a past transfer
+  source?: RecipientDetails & { amount?: number; currency?: string; description?: string };
+}
+
+const PATTERN_LABELS: Record<RecurringTransferValues["pattern"], string> = {
+  weekly: "Every week",
+  monthly: "Every month on a day",
+  last_business_day: "Last business day of the month",
+  custom: "Custom interval",
+};
+
+const UNIT_LABELS: Record<RecurringTransferValues["intervalUnit"], string> = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+};
+
+// Function to get the form's starting values: the saved schedule when editing, otherwise a monthly
+// schedule repeating the source payment, with the first date still to be picked
+function getDefaults(
+  recurring: RecurringTransfer | undefined,
+  source: RecurringTransferDialogProps["source"],
+): RecurringTransferValues {
+  if (recurring) {
+    return toRecurringTransferValues(recurring);
+  }
+  const currency = source?.transferType === "domestic" ? DOMESTIC_CURRENCY : source?.currency ?? "EUR";
+  return {
+    amount: source?.amount ? fromMinorUnits(source.amount, currency) : "",
+    currency,
+    description: source?.description ?? "",
+    pattern: "monthly",
+    interval: "1",
+    intervalUnit: "monthly",
+    monthDay: "1",
+    startDate: undefined,
+    ends: "never",
+    until: undefined,
+    count: "12",
+  };
+}
+
+// Dialog for setting up a recurring transfer (standing order) or changing its future transfers
+const RecurringTransferDialog: React.FC<RecurringTransferDialogProps> = ({ open, onOpenChange, recurring, source }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [recipient, setRecipient] = useState<RecipientDetails | undefined>();
+  const [transferType, setTransferType] = useState<RecipientDetails["transferType"]>("international");
+
+  const form = useForm<RecurringTransferValues>({
+    resolver: zodResolver(recurringTransferSchema),
+    defaultValues: getDefaults(recurring, source),
+  });
+
+  // Start from the recurring transfer or source each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      const initial = recurring?.transferData ?? source;
+      setRecipient(initial && getRecipientDetails(initial));
+      setTransferType(initial?.transferType ?? "international");
+      form.reset(getDefaults(recurring, source));
+    }
+  }, [open, recurring, source, form]);
+
+  // Domestic transfers are sent in US dollars, so the amount is checked in the currency it's converted with
+  useEffect(() => {
+    if (recipient?.transferType === "domestic" && form.getValues("currency") !== DOMESTIC_CURRENCY) {
+      form.setValue("currency", DOMESTIC_CURRENCY);
+    }
+  }, [recipient, form]);
+
+  const values = form.watch();
+  const currency = recipient?.transferType === "domestic" ? DOMESTIC_CURRENCY : values.currency;
+  const currencies = useMemo(
+    () => getSettlementCurrencies({ transferType: recipient?.transferType ?? transferType, currency }),
+    [recipient, transferType, currency],
+  );
+
+  // Preview the next 12 execution dates once the schedule is complete and valid
+  const rule = values.startDate ? toRecurrenceRule(values) : undefined;
+  const preview = rule && validateRecurrenceRule(rule).length === 0 ? getOccurrences(rule, currencies) : undefined;
+  const calendarWarning = getMissingCalendarWarning(currencies);
+
+  const saveMutation = useMutation({
+    mutationFn: (formValues: RecurringTransferValues) => {
+      const input = toRecurringTransferInput(formValues, recipient);
+      return recurring ? updateRecurringTransfer(recurring.id, input) : createRecurringTransfer(input);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-transfers"] });
+      // The schedule's occurrences are booked as scheduled transfers
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      toast({
+        title: recurring ? "Recurring transfer updated" : "Recurring transfer set up",
+        description: saved.paused
+          ? "The schedule stays paused until you resume it."
+          : `Transfers to ${saved.transferData.recipientName} are scheduled up to a year ahead.`,
+      });
+      onOpenChange(false);
+    },
+  });
+
+  const onSubmit = (formValues: RecurringTransferValues) => {
+    if (recipient) {
+      saveMutation.mutate(formValues);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{recurring ? "Change recurring transfer" : "Set up a recurring transfer"}</DialogTitle>
+          <DialogDescription>
+            {recurring
+              ? "Changes apply to future transfers only. Transfers already sent are not affected."
+              : "Repeat a payment, such as rent or payroll, on a schedule. Dates on weekends or bank holidays move to the next business day."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!recurring && !source && (
+          <div className="space-y-3">
+            <Tabs
+              value={transferType}
+              onValueChange={(value) => {
+                setTransferType(value as RecipientDetails["transferType"]);
+                setRecipient(undefined);
+              }}
+            >
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="international">International</TabsTrigger>
+                <TabsTrigger value="domestic">Domestic (US)</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <BeneficiaryPicker
+              transferType={transferType}
+              onSelect={(beneficiary) => {
+                setRecipient(getRecipientDetails(beneficiary));
+                if (beneficiary.currency) {
+                  form.setValue("currency", beneficiary.currency);
+                }
+              }}
+            />
+          </div>
+        )}
+
+        {recipient ? (
+          <div className="rounded-md border border-white/10 bg-black/30 p-3 text-sm">
+            <div className="text-white font-medium">{recipient.recipientName}</div>
+            <div className="text-gray-400">
+              {recipient.bankName} · {getBeneficiaryAccountHint(recipient)}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Pick a saved recipient to pay.</p>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount{recipient?.transferType === "domestic" && ` (${DOMESTIC_CURRENCY})`}</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        {...field}
+                        className="bg-black/50"
+                        onChange={(e) => {
+                          const value = e.target.value.trim();
+                          if (isAmountInputAllowed(value, currency)) {
+                            field.onChange(value);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {recipient?.transferType !== "domestic" && (
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <CurrencyCombobox value={field.value} onChange={field.onChange} currencies={getQuotableCurrencies()} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Rent, Payroll, etc." {...field} className="bg-black/50" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="pattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-black/50">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(PATTERN_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First Transfer</FormLabel>
+                    <FormControl>
+                      <ExecutionDatePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                        currencies={currencies}
+                        placeholder="Pick a date"
+                        required
+                      />
+                    </FormControl>
+                    {values.pattern === "weekly" && (
+                      <FormDescription className="text-xs text-gray-500">Repeats on the same weekday</FormDescription>
+                    )}
+                    {calendarWarning && (
+                      <FormDescription className="text-xs text-yellow-200">{calendarWarning}</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {values.pattern === "custom" && (
+                <div className="flex gap-2 md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="interval"
+                    render={({ field }) => (
+                      <FormItem className="w-24">
+                        <FormLabel>Every</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" {...field} className="bg-black/50" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="intervalUnit"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>&nbsp;</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-black/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(UNIT_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {(values.pattern === "monthly" || (values.pattern === "custom" && values.intervalUnit === "monthly")) && (
+                <FormField
+                  control={form.control}
+                  name="monthDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day of the Month</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" placeholder="1" {...field} className="bg-black/50" />
+                      </FormControl>
+                      <FormDescription className="text-xs text-gray-500">
+                        Days past the end of shorter months use their last day
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="ends"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-wrap gap-6">
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value="never" />
+                          </FormControl>
+                          <FormLabel className="font-normal">Never</FormLabel>
+                        </FormItem>
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value="on_date" />
+                          </FormControl>
+                          <FormLabel className="font-normal">On a date</FormLabel>
+                        </FormItem>
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value="after_count" />
+                          </FormControl>
+                          <FormLabel className="font-normal">After a number of transfers</FormLabel>
+                        </FormItem>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {values.ends === "on_date" && (
+                <FormField
+                  control={form.control}
+                  name="until"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Transfer On or Before</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className={cn("w-full justify-start bg-black/50 font-normal", !field.value && "text-muted-foreground")}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4" />
+                              {field.value ? format(field.value, "MMMM d, yyyy") : "Pick a date"}
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            fromDate={values.startDate ?? startOfToday()}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {values.ends === "after_count" && (
+                <FormField
+                  control={form.control}
+                  name="count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of Transfers</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} className="bg-black/50" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2 rounded-md bg-primary-purple/5 p-3">
+              <h4 className="text-sm font-medium text-white">Next transfers</h4>
+              {preview ? (
+                <RecurrencePreview occurrences={preview} />
+              ) : (
+                <p className="text-sm text-gray-500">Complete the schedule to see the next 12 dates.</p>
+              )}
+            </div>
+
+            <DialogFooter className="pt-2">
+              {saveMutation.error && <p className="mr-auto text-sm text-red-400">{saveMutation.error.message}</p>}
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-primary-purple hover:bg-secondary-purple"
+                disabled={!recipient || saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {recurring ? "Save changes" : "Set up"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringTransferDialog;
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BookmarkCheck, BookmarkPlus, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BeneficiaryInput,
+  createBeneficiary,
+  findBeneficiary,
+  getBeneficiaryLabel,
+  MAX_NICKNAME_LENGTH,
+} from "@/services/beneficiaryService";
+
+interface SaveBeneficiaryPromptProps {
+  details: BeneficiaryInput;
+}
+
+// Offers to add the recipient of a completed transfer to the saved beneficiaries
+const SaveBeneficiaryPrompt: React.FC<SaveBeneficiaryPromptProps> = ({ details }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [nickname, setNickname] = useState("");
+
+  const { data: existing, isPending } = useQuery({
+    queryKey: ["beneficiaries", "match", details],
+    queryFn: () => findBeneficiary(details).then((beneficiary) => beneficiary ?? null),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => createBeneficiary({ ...details, nickname }),
+    onSuccess: (beneficiary) => {
+      queryClient.invalidateQueries({ queryKey: ["beneficiaries"] });
+      toast({
+        title: "Recipient saved",
+        description: `${getBeneficiaryLabel(beneficiary)} is now in your saved recipients.`,
+      });
+    },
+  });
+
+  if (isPending) {
+    return null;
+  }
+
+  if (existing) {
+    return (
+      <p className="flex items-center justify-center text-sm text-gray-400">
+        <BookmarkCheck className="mr-2 h-4 w-4 text-primary-purple" />
+        Saved as {getBeneficiaryLabel(existing)}
+      </p>
+    );
+  }
+
+  if (!editing) {
+    return (
+      <Button variant="ghost" className="text-primary-purple" onClick={() => setEditing(true)}>
+        <BookmarkPlus className="mr-2 h-4 w-4" /> Save this recipient
+      </Button>
+    );
+  }
+
+  return (
+    <form
+      className="flex w-full max-w-sm flex-col gap-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      <div className="flex gap-2">
+        <Input
+          value={nickname}
+          onChange={(event) => setNickname(event.target.value)}
+          placeholder={`Nickname (optional), e.g. ${details.recipientName}`}
+          maxLength={MAX_NICKNAME_LENGTH}
+          className="bg-black/50"
+          autoFocus
+        />
+        <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+        </Button>
+      </div>
+      {saveMutation.error && <p className="text-sm text-red-400">{saveMutation.error.message}</p>}
+    </form>
+  );
+};
+
+export default SaveBeneficiaryPrompt;
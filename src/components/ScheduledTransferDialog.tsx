@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { fromIsoDate } from "@/lib/businessDays";
+import { fromMinorUnits, isAmountInputAllowed } from "@/lib/money";
+import { createScheduledTransferSchema, ScheduledTransferValues, toTransferChanges } from "@/lib/transferSchemas";
+import { getSettlementCurrencies, TransferRecord, updateScheduledTransfer } from "@/services/transferService";
+import ExecutionDateNotice from "./ExecutionDateNotice";
+import ExecutionDatePicker from "./ExecutionDatePicker";
+
+interface ScheduledTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transfer: TransferRecord;
+}
+
+function getDefaults(transfer: TransferRecord): ScheduledTransferValues {
+  return {
+    amount: fromMinorUnits(transfer.amount, transfer.currency ?? "USD"),
+    executionDate: transfer.executionDate ? fromIsoDate(transfer.executionDate) : undefined,
+    description: transfer.description ?? "",
+  };
+}
+
+// Dialog for changing the amount, execution date or description of a scheduled transfer
+const ScheduledTransferDialog: React.FC<ScheduledTransferDialogProps> = ({ open, onOpenChange, transfer }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currency = transfer.currency ?? "USD";
+  const currencies = useMemo(() => getSettlementCurrencies(transfer), [transfer]);
+  const schema = useMemo(() => createScheduledTransferSchema(transfer), [transfer]);
+
+  const form = useForm<ScheduledTransferValues>({
+    resolver: zodResolver(schema),
+    defaultValues: getDefaults(transfer),
+  });
+
+  // Start from the stored transfer each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(transfer));
+    }
+  }, [open, transfer, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ScheduledTransferValues) => updateScheduledTransfer(transfer.id, toTransferChanges(values, transfer)),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["transfer", transfer.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      toast({
+        title: "Transfer updated",
+        description: updated.status === "scheduled"
+          ? `Transfer ${updated.id} has been rescheduled.`
+          : `Transfer ${updated.id} is being sent now.`,
+      });
+      onOpenChange(false);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change scheduled transfer</DialogTitle>
+          <DialogDescription>
+            To pay someone else, cancel this transfer and send a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount ({currency})</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      {...field}
+                      className="bg-black/50"
+                      onChange={(e) => {
+                        const value = e.target.value.trim();
+                        if (isAmountInputAllowed(value, currency)) {
+                          field.onChange(value);
+                        }
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="executionDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Execution Date</FormLabel>
+                  <FormControl>
+                    <ExecutionDatePicker value={field.value} onChange={field.onChange} currencies={currencies} />
+                  </FormControl>
+                  <FormMessage />
+                  <ExecutionDateNotice executionDate={field.value} currencies={currencies} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-black/50" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-2">
+              {saveMutation.error && <p className="mr-auto text-sm text-red-400">{saveMutation.error.message}</p>}
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduledTransferDialog;
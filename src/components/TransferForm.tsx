@@ -1,10 +1,13 @@
 
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
-import { z } from "zod";
-import { ChevronRight, AlertCircle, CheckCircle, Info, CreditCard } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ChevronRight, AlertCircle, CheckCircle, Info, CreditCard, Landmark, Lock, QrCode } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTransferStatus } from "@/hooks/use-transfer-status";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,58 +15,65 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ACCOUNT_SCHEMES, AccountScheme, getAccountFieldValues, getAccountSchemes } from "@/lib/accountFormats";
+import { COUNTRY_OPTIONS, getCountryName, resolveCountryCode } from "@/lib/countries";
+import {
+  DOMESTIC_CURRENCY,
+  DomesticFormValues,
+  domesticFormSchema,
+  InternationalFormValues,
+  internationalFormSchema,
+  TransferFormData,
+  toTransferData,
+} from "@/lib/transferSchemas";
+import { getCurrency } from "@/lib/currencies";
+import { fromIsoDate } from "@/lib/businessDays";
+import { EpcPayment } from "@/lib/epcQr";
+import { formatMoney, fromMinorUnits, isAmountInputAllowed, toMinorUnits } from "@/lib/money";
+import { lookupBank, saveBankDirectoryEntry } from "@/services/bankDirectoryService";
+import { Beneficiary, getTransferRecipient, markBeneficiaryUsed } from "@/services/beneficiaryService";
+import { getAccountCurrency, getQuotableCurrencies, TransferQuote } from "@/services/quoteService";
+import { createIdempotencyKey, createTransfer, getSettlementCurrencies, TransferData } from "@/services/transferService";
+import BeneficiaryPicker from "./BeneficiaryPicker";
+import CurrencyCombobox from "./CurrencyCombobox";
+import EpcQrScanDialog from "./EpcQrScanDialog";
+import ExecutionDateNotice from "./ExecutionDateNotice";
+import ExecutionDatePicker from "./ExecutionDatePicker";
+import RateHistoryPanel from "./RateHistoryPanel";
+import SaveBeneficiaryPrompt from "./SaveBeneficiaryPrompt";
+import TransferStatusBadge from "./TransferStatusBadge";
 import TransferSummary from "./TransferSummary";
 
-// Updated form schema for international transfers
-const internationalFormSchema = z.object({
-  recipientName: z.string().min(2, { message: "Name must be at least 2 characters." }),
-  iban: z.string().min(15, { message: "IBAN must be at least 15 characters." }),
-  swiftCode: z.string().min(8, { message: "SWIFT/BIC code must be at least 8 characters." }).max(11),
-  bankName: z.string().min(2, { message: "Bank name is required." }),
-  bankAddress: z.string().min(5, { message: "Bank address is required." }),
-  bankCountry: z.string().min(2, { message: "Bank country is required." }),
-  amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Amount must be a positive number.",
-  }),
-  currency: z.string().min(3, { message: "Currency code is required." }),
-  description: z.string().optional(),
-  useStripe: z.boolean().default(false),
-  // Fixed Stripe fields validation
-  stripeAccountId: z.string().optional(),
-  stripePublishableKey: z.string().optional(),
-}).refine((data) => {
-  // If useStripe is true, validate that stripeAccountId is provided
-  if (data.useStripe && (!data.stripeAccountId || data.stripeAccountId.length < 3)) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Stripe Account ID is required when using Stripe.",
-  path: ["stripeAccountId"],
-}).refine((data) => {
-  // If useStripe is true, validate that stripePublishableKey is provided
-  if (data.useStripe && (!data.stripePublishableKey || data.stripePublishableKey.length < 10)) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Stripe Publishable Key is required when using Stripe.",
-  path: ["stripePublishableKey"],
-});
-
-type TransferFormValues = z.infer<typeof internationalFormSchema>;
+const formatExecutionDate = (isoDate: string) => format(fromIsoDate(isoDate), "EEEE, MMMM d, yyyy");
 
 const TransferForm: React.FC = () => {
   const [step, setStep] = useState<"form" | "summary" | "success">("form");
-  const [formData, setFormData] = useState<TransferFormValues | null>(null);
+  const [transferType, setTransferType] = useState<TransferFormData["transferType"]>("international");
+  const [formData, setFormData] = useState<TransferFormData | null>(null);
+  const [quote, setQuote] = useState<TransferQuote | null>(null);
+  // One key per reviewed transfer, reused by every confirm or retry of it
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   // Initialize form with default values
-  const form = useForm<TransferFormValues>({
+  const form = useForm<InternationalFormValues>({
     resolver: zodResolver(internationalFormSchema),
     defaultValues: {
       recipientName: "",
+      accountScheme: "iban",
       iban: "",
+      sortCode: "",
+      bsb: "",
+      ifsc: "",
+      clabe: "",
+      institutionNumber: "",
+      transitNumber: "",
+      routingNumber: "",
+      accountNumber: "",
       swiftCode: "",
       bankName: "",
       bankAddress: "",
@@ -71,275 +81,735 @@ const TransferForm: React.FC = () => {
       amount: "",
       currency: "USD",
       description: "",
+      executionDate: undefined,
       useStripe: false,
       stripeAccountId: "",
       stripePublishableKey: "",
     },
   });
 
+  const domesticForm = useForm<DomesticFormValues>({
+    resolver: zodResolver(domesticFormSchema),
+    defaultValues: {
+      recipientName: "",
+      accountNumber: "",
+      routingNumber: "",
+      bankName: "",
+      amount: "",
+      description: "",
+      executionDate: undefined,
+    },
+  });
+
   // Watch the useStripe field to show/hide Stripe fields
   const useStripe = form.watch("useStripe");
 
+  // Amount placeholder follows the minor units of the selected currency, e.g. "0" for JPY
+  const currency = form.watch("currency");
+  const minorUnits = getCurrency(currency)?.minorUnits ?? 2;
+  const amountPlaceholder = minorUnits > 0 ? "0." + "0".repeat(minorUnits) : "0";
+
+  // Execution dates must be business days for both the account and the transfer currency
+  const settlementCurrencies = useMemo(
+    () => getSettlementCurrencies({ transferType: "international", currency }),
+    [currency],
+  );
+  const domesticSettlementCurrencies = useMemo(() => getSettlementCurrencies({ transferType: "domestic" }), []);
+
+  // Swap the account identifier fields to the schemes used in the selected bank country
+  const bankCountry = form.watch("bankCountry");
+  const accountScheme = form.watch("accountScheme");
+  const accountSchemes = useMemo(() => getAccountSchemes(resolveCountryCode(bankCountry)), [bankCountry]);
+
+  useEffect(() => {
+    if (!accountSchemes.includes(accountScheme)) {
+      form.setValue("accountScheme", accountSchemes[0]);
+    }
+  }, [accountSchemes, accountScheme, form]);
+
+  // Look up the bank from the BIC or IBAN and auto-fill its details unless the user overrides them
+  const iban = form.watch("iban");
+  const swiftCode = form.watch("swiftCode");
+  const [overrideBankDetails, setOverrideBankDetails] = useState(false);
+  const [rememberBankDetails, setRememberBankDetails] = useState(false);
+  const [scanOpen, setScanOpen] = useState(false);
+  const bankMatch = useMemo(
+    () => lookupBank({ iban: accountScheme === "iban" ? iban : undefined, swiftCode }),
+    [accountScheme, iban, swiftCode],
+  );
+  const bankDetailsLocked = !!bankMatch && !overrideBankDetails;
+
+  useEffect(() => {
+    if (!bankMatch || overrideBankDetails) {
+      return;
+    }
+    const options = { shouldValidate: form.formState.isSubmitted };
+    form.setValue("bankName", bankMatch.name, options);
+    form.setValue("bankAddress", bankMatch.address, options);
+    form.setValue("bankCountry", getCountryName(bankMatch.countryCode) ?? bankMatch.countryCode, options);
+    if (!form.getValues("swiftCode")) {
+      form.setValue("swiftCode", bankMatch.bic, options);
+    }
+  }, [bankMatch, overrideBankDetails, form]);
+
+  // Fill the recipient and bank fields from a saved beneficiary
+  const handleSelectBeneficiary = (beneficiary: Beneficiary) => {
+    markBeneficiaryUsed(beneficiary.id);
+    const options = { shouldValidate: true, shouldDirty: true };
+
+    if (beneficiary.transferType === "domestic") {
+      domesticForm.setValue("recipientName", beneficiary.recipientName, options);
+      domesticForm.setValue("routingNumber", beneficiary.routingNumber ?? "", options);
+      domesticForm.setValue("accountNumber", beneficiary.accountNumber ?? "", options);
+      domesticForm.setValue("bankName", beneficiary.bankName, options);
+      return;
+    }
+
+    const identifier = beneficiary.accountIdentifier ?? { scheme: "iban", iban: beneficiary.iban ?? "" };
+    const accountValues = getAccountFieldValues(identifier);
+    form.setValue("recipientName", beneficiary.recipientName, options);
+    form.setValue("bankCountry", beneficiary.bankCountry ?? "", options);
+    form.setValue("accountScheme", identifier.scheme, options);
+    Object.values(ACCOUNT_SCHEMES).flatMap((scheme) => scheme.fields).forEach((definition) => {
+      form.setValue(definition.name, accountValues[definition.name] ?? "", options);
+    });
+    form.setValue("swiftCode", beneficiary.swiftCode ?? "", options);
+    form.setValue("bankName", beneficiary.bankName, options);
+    form.setValue("bankAddress", beneficiary.bankAddress ?? "", options);
+    if (beneficiary.currency) {
+      form.setValue("currency", beneficiary.currency, options);
+    }
+
+    // Keep saved bank details that were entered by hand instead of taken from the directory
+    const directoryMatch = lookupBank({
+      iban: identifier.scheme === "iban" ? identifier.iban : undefined,
+      swiftCode: beneficiary.swiftCode,
+    });
+    setOverrideBankDetails(
+      !!directoryMatch &&
+        (directoryMatch.name !== beneficiary.bankName || directoryMatch.address !== beneficiary.bankAddress),
+    );
+  };
+
+  // Fill the recipient, account and payment fields from a scanned EPC QR code
+  const handleScanPayment = (payment: EpcPayment) => {
+    const options = { shouldValidate: true, shouldDirty: true };
+    form.setValue("recipientName", payment.name, options);
+    form.setValue("bankCountry", getCountryName(payment.iban.slice(0, 2)) ?? "", options);
+    form.setValue("accountScheme", "iban", options);
+    const accountValues = getAccountFieldValues({ scheme: "iban", iban: payment.iban });
+    Object.values(ACCOUNT_SCHEMES).flatMap((scheme) => scheme.fields).forEach((definition) => {
+      form.setValue(definition.name, accountValues[definition.name] ?? "", options);
+    });
+    form.setValue("swiftCode", payment.bic ?? "", options);
+    // The bank's name and address come from the directory, when it knows the IBAN or BIC
+    form.setValue("bankName", "", options);
+    form.setValue("bankAddress", "", options);
+    setOverrideBankDetails(false);
+    form.setValue("currency", "EUR", options);
+    form.setValue("amount", payment.amount !== undefined ? fromMinorUnits(payment.amount, "EUR") : "", options);
+    form.setValue("description", payment.reference ?? payment.remittance ?? "", options);
+    toast({
+      title: "Payment details filled in",
+      description: payment.information ?? "Check the details before you continue.",
+    });
+  };
+
   // Handle form submission
-  const onSubmit = (data: TransferFormValues) => {
+  const onSubmit = (data: InternationalFormValues) => {
     console.log("Form submitted:", data);
-    setFormData(data);
+    // Remember overridden bank details on this device, so the next lookup fills them in
+    if (bankMatch && overrideBankDetails && rememberBankDetails) {
+      saveBankDirectoryEntry({
+        ...bankMatch,
+        bic: data.swiftCode || bankMatch.bic,
+        name: data.bankName,
+        address: data.bankAddress,
+      });
+    }
+    setFormData({ transferType: "international", ...data });
+    setIdempotencyKey(createIdempotencyKey());
     setStep("summary");
   };
 
-  // Handle confirmation of transfer
-  const handleConfirmTransfer = () => {
-    // Here you would typically make an API call to process the transfer
-    console.log("Transfer confirmed:", formData);
-    
-    // Simulate API call with a timeout
-    setTimeout(() => {
+  const onDomesticSubmit = (data: DomesticFormValues) => {
+    setFormData({ transferType: "domestic", ...data });
+    setIdempotencyKey(createIdempotencyKey());
+    setStep("summary");
+  };
+
+  const transferCurrency = formData?.transferType === "domestic" ? DOMESTIC_CURRENCY : formData?.currency;
+  const transferAmount = formData ? formatMoney(toMinorUnits(formData.amount, transferCurrency), transferCurrency) : "";
+
+  const transferMutation = useMutation({
+    mutationFn: (transferData: TransferData) => createTransfer(transferData),
+    onSuccess: (record) => {
       toast({
-        title: "Transfer Successful!",
-        description: `Your transfer of $${formData?.amount} has been initiated.`,
+        title: record.status === "scheduled" ? "Transfer Scheduled!" : "Transfer Successful!",
+        description: record.status === "scheduled"
+          ? `Your transfer of ${transferAmount} will be sent on ${formatExecutionDate(record.executionDate)}.`
+          : `Your transfer of ${transferAmount} has been initiated.`,
         variant: "default",
       });
       setStep("success");
-    }, 1500);
+    },
+  });
+  const isScheduled = transferMutation.data?.status === "scheduled";
+
+  const { status: transferStatus } = useTransferStatus(transferMutation.data?.id);
+
+  // Handle confirmation of transfer
+  const handleConfirmTransfer = (acceptedQuote: TransferQuote) => {
+    console.log("Transfer confirmed:", formData);
+    setQuote(acceptedQuote);
+    transferMutation.mutate({ ...toTransferData(formData), quoteId: acceptedQuote.id, idempotencyKey });
+  };
+
+  // Replace the recipient name with the one confirmation of payee found for the account
+  const handleUseSuggestedName = (name: string) => {
+    if (formData.transferType === "domestic") {
+      domesticForm.setValue("recipientName", name);
+    } else {
+      form.setValue("recipientName", name);
+    }
+    setFormData({ ...formData, recipientName: name });
+    setIdempotencyKey(createIdempotencyKey());
+    transferMutation.reset();
   };
 
   // Handle starting a new transfer
   const handleNewTransfer = () => {
     form.reset();
+    domesticForm.reset();
+    setOverrideBankDetails(false);
+    setRememberBankDetails(false);
     setStep("form");
     setFormData(null);
+    setQuote(null);
+    setIdempotencyKey(null);
+    transferMutation.reset();
   };
 
   return (
     <Card className="w-full max-w-3xl mx-auto shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20 animate-fade-in">
       <CardHeader className="border-b border-white/10 pb-8">
-        <CardTitle className="text-2xl font-bold text-gradient">International Bank Transfer</CardTitle>
+        <CardTitle className="text-2xl font-bold text-gradient">
+          {transferType === "domestic" ? "Domestic Bank Transfer" : "International Bank Transfer"}
+        </CardTitle>
         <CardDescription className="text-gray-400">
-          Send money securely to international accounts with optional Stripe integration.
+          {transferType === "domestic"
+            ? "Send money securely to US bank accounts using a routing and account number."
+            : "Send money securely to international accounts with optional Stripe integration."}
         </CardDescription>
       </CardHeader>
 
       {step === "form" && (
         <CardContent className="pt-6">
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <div className="grid gap-6">
-                <div className="grid grid-cols-1 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="recipientName"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Recipient Name</FormLabel>
-                        <FormControl>
-                          <Input placeholder="John Doe" {...field} className="bg-black/50" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="iban"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>IBAN</FormLabel>
-                        <FormControl>
-                          <Input placeholder="GBXX XXXX XXXX XXXX XXXX XX" {...field} className="bg-black/50" />
-                        </FormControl>
-                        <FormDescription className="text-xs text-gray-500">
-                          International Bank Account Number
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="swiftCode"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>SWIFT/BIC Code</FormLabel>
-                        <FormControl>
-                          <Input placeholder="XXXXGB2LXXX" {...field} className="bg-black/50" />
-                        </FormControl>
-                        <FormDescription className="text-xs text-gray-500">
-                          Bank Identifier Code
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <FormField
-                  control={form.control}
-                  name="bankName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Bank Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="International Bank" {...field} className="bg-black/50" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="bankAddress"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Bank Address</FormLabel>
-                      <FormControl>
-                        <Input placeholder="123 Bank St, City" {...field} className="bg-black/50" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="bankCountry"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Bank Country</FormLabel>
-                      <FormControl>
-                        <Input placeholder="United Kingdom" {...field} className="bg-black/50" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="amount"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Amount</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="0.00"
-                            {...field}
-                            className="bg-black/50"
-                            onChange={(e) => {
-                              // Only allow numbers and decimals
-                              const value = e.target.value.replace(/[^0-9.]/g, '');
-                              field.onChange(value);
-                            }}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+          <Tabs value={transferType} onValueChange={(value) => setTransferType(value as TransferFormData["transferType"])}>
+            <TabsList className="grid w-full grid-cols-2 bg-black/50 mb-6">
+              <TabsTrigger value="international">International</TabsTrigger>
+              <TabsTrigger value="domestic">Domestic (US)</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="international">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <BeneficiaryPicker transferType="international" onSelect={handleSelectBeneficiary} />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="bg-black/50 font-normal text-gray-400"
+                      onClick={() => setScanOpen(true)}
+                    >
+                      <QrCode className="mr-2 h-4 w-4 text-primary-purple" /> Scan invoice QR
+                    </Button>
+                  </div>
+                  <div className="grid gap-6">
+                    <div className="grid grid-cols-1 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="recipientName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Recipient Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="John Doe" {...field} className="bg-black/50" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="bankCountry"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Bank Country</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={bankDetailsLocked}>
+                            <FormControl>
+                              <SelectTrigger className="bg-black/50">
+                                <SelectValue placeholder="Select the recipient bank's country" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {COUNTRY_OPTIONS.map(([code, name]) => (
+                                <SelectItem key={code} value={name}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription className="text-xs text-gray-500">
+                            Determines which account details the recipient's bank needs
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {accountSchemes.length > 1 && (
+                      <FormField
+                        control={form.control}
+                        name="accountScheme"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account Details</FormLabel>
+                            <FormControl>
+                              <RadioGroup
+                                onValueChange={(value) => field.onChange(value as AccountScheme)}
+                                value={field.value}
+                                className="flex flex-wrap gap-6"
+                              >
+                                {accountSchemes.map((scheme) => (
+                                  <FormItem key={scheme} className="flex items-center space-x-2 space-y-0">
+                                    <FormControl>
+                                      <RadioGroupItem value={scheme} />
+                                    </FormControl>
+                                    <FormLabel className="font-normal">{ACCOUNT_SCHEMES[scheme].label}</FormLabel>
+                                  </FormItem>
+                                ))}
+                              </RadioGroup>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="currency"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Currency</FormLabel>
-                        <FormControl>
-                          <Input placeholder="USD" {...field} className="bg-black/50" />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {ACCOUNT_SCHEMES[accountScheme].fields.map((definition) => (
+                        <FormField
+                          key={`${accountScheme}-${definition.name}`}
+                          control={form.control}
+                          name={definition.name}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{definition.label}</FormLabel>
+                              <FormControl>
+                                <Input placeholder={definition.placeholder} {...field} className="bg-black/50" />
+                              </FormControl>
+                              {definition.description && (
+                                <FormDescription className="text-xs text-gray-500">
+                                  {definition.description}
+                                </FormDescription>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                      <FormField
+                        control={form.control}
+                        name="swiftCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>SWIFT/BIC Code</FormLabel>
+                            <FormControl>
+                              <Input placeholder="XXXXGB2LXXX" {...field} className="bg-black/50" />
+                            </FormControl>
+                            <FormDescription className="text-xs text-gray-500">
+                              Bank Identifier Code
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    {bankMatch && (
+                      <div className="flex items-center justify-between rounded-md border border-primary-purple/20 bg-black/30 p-3 text-sm">
+                        <div className="flex items-center text-gray-400">
+                          {bankDetailsLocked ? (
+                            <Lock className="mr-2 h-4 w-4 text-primary-purple" />
+                          ) : (
+                            <Landmark className="mr-2 h-4 w-4 text-primary-purple" />
+                          )}
+                          {bankDetailsLocked
+                            ? `Bank details filled in from the bank directory (${bankMatch.bic}).`
+                            : "Bank details are being entered manually."}
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-primary-purple hover:text-white"
+                          onClick={() => setOverrideBankDetails(!overrideBankDetails)}
+                        >
+                          {bankDetailsLocked ? "Override" : "Use directory"}
+                        </Button>
+                      </div>
                     )}
-                  />
-                </div>
-
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description (Optional)</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Rent payment, Gift, etc." {...field} className="bg-black/50" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <Separator className="my-2" />
-
-                <FormField
-                  control={form.control}
-                  name="useStripe"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border border-white/10 p-4">
-                      <FormControl>
+
+                    {bankMatch && !bankDetailsLocked && (
+                      <div className="flex items-center space-x-3 text-sm text-gray-400">
                         <Checkbox
-                          checked={field.value}
-                          onCheckedChange={field.onChange}
+                          id="remember-bank-details"
+                          checked={rememberBankDetails}
+                          onCheckedChange={(checked) => setRememberBankDetails(checked === true)}
                         />
-                      </FormControl>
-                      <div className="space-y-1 leading-none">
-                        <FormLabel className="flex items-center">
-                          <CreditCard className="mr-2 h-4 w-4 text-primary-purple" />
-                          Use Stripe for this transfer
-                        </FormLabel>
-                        <FormDescription>
-                          Enable Stripe integration for secure payment processing
-                        </FormDescription>
+                        <label htmlFor="remember-bank-details">
+                          Save these bank details to the directory on this device
+                        </label>
                       </div>
-                    </FormItem>
-                  )}
-                />
-
-                {useStripe && (
-                  <div className="space-y-4 p-4 bg-black/30 rounded-md border border-primary-purple/20">
-                    <h3 className="text-sm font-medium flex items-center">
-                      <CreditCard className="mr-2 h-4 w-4 text-primary-purple" /> 
-                      Stripe Account Details
-                    </h3>
-                    
+                    )}
+
                     <FormField
                       control={form.control}
-                      name="stripeAccountId"
+                      name="bankName"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Stripe Account ID</FormLabel>
+                          <FormLabel>Bank Name</FormLabel>
                           <FormControl>
-                            <Input placeholder="acct_xxxxxxxxxx" {...field} className="bg-black/50" />
+                            <Input placeholder="International Bank" {...field} readOnly={bankDetailsLocked} className="bg-black/50 read-only:text-gray-400" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    
+
+                    <FormField
+                      control={form.control}
+                      name="bankAddress"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Bank Address</FormLabel>
+                          <FormControl>
+                            <Input placeholder="123 Bank St, City" {...field} readOnly={bankDetailsLocked} className="bg-black/50 read-only:text-gray-400" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="amount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Amount</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder={amountPlaceholder}
+                                inputMode="decimal"
+                                {...field}
+                                className="bg-black/50"
+                                onChange={(e) => {
+                                  // Only allow digits and as many decimals as the currency has
+                                  const value = e.target.value.trim();
+                                  if (isAmountInputAllowed(value, currency)) {
+                                    field.onChange(value);
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <FormControl>
+                              <CurrencyCombobox
+                                value={field.value}
+                                currencies={getQuotableCurrencies()}
+                                onChange={(code) => {
+                                  field.onChange(code);
+                                  if (form.formState.isSubmitted) {
+                                    form.trigger(["amount", "executionDate"]);
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    {getCurrency(currency) && currency !== getAccountCurrency() && (
+                      <RateHistoryPanel sourceCurrency={getAccountCurrency()} targetCurrency={currency} />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="executionDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Execution Date</FormLabel>
+                          <FormControl>
+                            <ExecutionDatePicker
+                              value={field.value}
+                              onChange={field.onChange}
+                              currencies={settlementCurrencies}
+                            />
+                          </FormControl>
+                          <FormDescription className="text-xs text-gray-500">
+                            Schedule the transfer for a future business day, or send it as soon as possible
+                          </FormDescription>
+                          <FormMessage />
+                          <ExecutionDateNotice executionDate={field.value} currencies={settlementCurrencies} />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
-                      name="stripePublishableKey"
+                      name="description"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Stripe Publishable Key</FormLabel>
+                          <FormLabel>Description (Optional)</FormLabel>
                           <FormControl>
-                            <Input placeholder="pk_xxxx_xxxxxxxxxxxxxxxx" {...field} className="bg-black/50" />
+                            <Input placeholder="Rent payment, Gift, etc." {...field} className="bg-black/50" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+
+                    <Separator className="my-2" />
+
+                    <FormField
+                      control={form.control}
+                      name="useStripe"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border border-white/10 p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel className="flex items-center">
+                              <CreditCard className="mr-2 h-4 w-4 text-primary-purple" />
+                              Use Stripe for this transfer
+                            </FormLabel>
+                            <FormDescription>
+                              Enable Stripe integration for secure payment processing
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+
+                    {useStripe && (
+                      <div className="space-y-4 p-4 bg-black/30 rounded-md border border-primary-purple/20">
+                        <h3 className="text-sm font-medium flex items-center">
+                          <CreditCard className="mr-2 h-4 w-4 text-primary-purple" /> 
+                          Stripe Account Details
+                        </h3>
+                    
+                        <FormField
+                          control={form.control}
+                          name="stripeAccountId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Stripe Account ID</FormLabel>
+                              <FormControl>
+                                <Input placeholder="acct_xxxxxxxxxx" {...field} className="bg-black/50" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                    
+                        <FormField
+                          control={form.control}
+                          name="stripePublishableKey"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Stripe Publishable Key</FormLabel>
+                              <FormControl>
+                                <Input placeholder="pk_xxxx_xxxxxxxxxxxxxxxx" {...field} className="bg-black/50" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
 
-              <div className="flex justify-end pt-4">
-                <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple text-white">
-                  Continue <ChevronRight className="ml-2 h-4 w-4" />
-                </Button>
-              </div>
-            </form>
-          </Form>
+                  <div className="flex justify-end pt-4">
+                    <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple text-white">
+                      Continue <ChevronRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="domestic">
+              <Form {...domesticForm}>
+                <form onSubmit={domesticForm.handleSubmit(onDomesticSubmit)} className="space-y-6">
+                  <BeneficiaryPicker transferType="domestic" onSelect={handleSelectBeneficiary} />
+                  <div className="grid gap-6">
+                    <FormField
+                      control={domesticForm.control}
+                      name="recipientName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Recipient Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="John Doe" {...field} className="bg-black/50" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={domesticForm.control}
+                        name="routingNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Routing Number</FormLabel>
+                            <FormControl>
+                              <Input placeholder="XXXXXXXXX" maxLength={11} {...field} className="bg-black/50" />
+                            </FormControl>
+                            <FormDescription className="text-xs text-gray-500">
+                              9-digit ABA routing number
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={domesticForm.control}
+                        name="accountNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account Number</FormLabel>
+                            <FormControl>
+                              <Input placeholder="XXXXXXXXXXXX" maxLength={20} {...field} className="bg-black/50" />
+                            </FormControl>
+                            <FormDescription className="text-xs text-gray-500">
+                              4 to 17 digits
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <FormField
+                      control={domesticForm.control}
+                      name="bankName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Bank Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Bank of America" {...field} className="bg-black/50" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={domesticForm.control}
+                      name="amount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Amount ({DOMESTIC_CURRENCY})</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="0.00"
+                              inputMode="decimal"
+                              {...field}
+                              className="bg-black/50"
+                              onChange={(e) => {
+                                // Only allow digits and up to two decimals
+                                const value = e.target.value.trim();
+                                if (isAmountInputAllowed(value, DOMESTIC_CURRENCY)) {
+                                  field.onChange(value);
+                                }
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={domesticForm.control}
+                      name="executionDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Execution Date</FormLabel>
+                          <FormControl>
+                            <ExecutionDatePicker
+                              value={field.value}
+                              onChange={field.onChange}
+                              currencies={domesticSettlementCurrencies}
+                            />
+                          </FormControl>
+                          <FormDescription className="text-xs text-gray-500">
+                            Schedule the transfer for a future business day, or send it as soon as possible
+                          </FormDescription>
+                          <FormMessage />
+                          <ExecutionDateNotice executionDate={field.value} currencies={domesticSettlementCurrencies} />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={domesticForm.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description (Optional)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Rent payment, Gift, etc." {...field} className="bg-black/50" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="flex justify-end pt-4">
+                    <Button type="submit" className="bg-primary-purple hover:bg-secondary-purple text-white">
+                      Continue <ChevronRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+          <EpcQrScanDialog open={scanOpen} onOpenChange={setScanOpen} onScan={handleScanPayment} />
         </CardContent>
       )}
 
@@ -347,7 +817,13 @@ const TransferForm: React.FC = () => {
         <TransferSummary 
           formData={formData} 
           onConfirm={handleConfirmTransfer} 
-          onEdit={() => setStep("form")} 
+          onEdit={() => {
+            transferMutation.reset();
+            setStep("form");
+          }} 
+          isSubmitting={transferMutation.isPending}
+          submitError={transferMutation.error}
+          onUseSuggestedName={handleUseSuggestedName}
         />
       )}
 
@@ -357,15 +833,34 @@ const TransferForm: React.FC = () => {
             <CheckCircle className="h-12 w-12 text-primary-purple" />
           </div>
           <div className="text-center space-y-2">
-            <h3 className="text-2xl font-bold text-white">Transfer Initiated!</h3>
+            <h3 className="text-2xl font-bold text-white">{isScheduled ? "Transfer Scheduled!" : "Transfer Initiated!"}</h3>
             <p className="text-gray-400">
-              Your transfer of ${formData?.amount} ({formData?.currency}) has been successfully initiated.
+              {isScheduled
+                ? `Your transfer of ${transferAmount} will be sent on ${formatExecutionDate(transferMutation.data.executionDate)}.`
+                : `Your transfer of ${transferAmount} has been successfully initiated.`}
             </p>
+            {quote && (
+              <p className="text-sm text-gray-400">
+                {formatMoney(quote.totalDebit, quote.sourceCurrency)} will be debited from your account.
+              </p>
+            )}
+            {transferMutation.data && (
+              <p className="text-sm text-gray-400">
+                Transaction ID: <span className="font-mono text-white">{transferMutation.data.id}</span>
+              </p>
+            )}
+            {transferStatus && (
+              <div className="text-sm text-gray-400">
+                Status: <TransferStatusBadge status={transferStatus} className="ml-1" />
+              </div>
+            )}
             <p className="text-sm text-gray-500 mt-2">
               A confirmation has been sent to your email address.
             </p>
           </div>
 
+          {formData && <SaveBeneficiaryPrompt details={getTransferRecipient(toTransferData(formData))} />}
+
           <div className="flex flex-col space-y-2 w-full items-center pt-6">
             <Button 
               onClick={handleNewTransfer} 
@@ -376,13 +871,8 @@ const TransferForm: React.FC = () => {
             <Button 
               variant="outline" 
               className="border-white/20 text-gray-400 hover:text-white w-48"
-              onClick={() => {
-                // Navigate to transfer history (in a real app)
-                toast({
-                  title: "View Transfer History",
-                  description: "This would navigate to your transfer history in a real application.",
-                });
-              }}
+              onClick={() => navigate(`/transfers/${transferMutation.data.id}`)}
+              disabled={!transferMutation.data}
             >
               View Details
             </Button>
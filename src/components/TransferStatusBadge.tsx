@@ -0,0 +1,30 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { TRANSFER_STATUS_LABELS, TransferStatus } from "@/services/transferLifecycle";
+
+interface TransferStatusBadgeProps {
+  status: TransferStatus;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<TransferStatus, string> = {
+  draft: "bg-gray-500/20 text-gray-300",
+  scheduled: "bg-sky-500/20 text-sky-300",
+  pending_approval: "bg-yellow-500/20 text-yellow-300",
+  submitted: "bg-blue-500/20 text-blue-300",
+  processing: "bg-primary-purple/20 text-primary-purple",
+  completed: "bg-green-500/20 text-green-300",
+  failed: "bg-red-500/20 text-red-300",
+  returned: "bg-orange-500/20 text-orange-300",
+  cancelled: "bg-gray-500/20 text-gray-400",
+  exported: "bg-teal-500/20 text-teal-300",
+};
+
+const TransferStatusBadge: React.FC<TransferStatusBadgeProps> = ({ status, className }) => (
+  <Badge variant="outline" className={cn("border-transparent", STATUS_STYLES[status], className)}>
+    {TRANSFER_STATUS_LABELS[status]}
+  </Badge>
+);
+
+export default TransferStatusBadge;
@@ -1,29 +1,202 @@
 
-import React from 'react';
-import { ArrowLeft, AlertCircle, CreditCard } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, formatDistanceToNow, isToday, parseISO } from 'date-fns';
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  CreditCard,
+  HelpCircle,
+  Loader2,
+  RefreshCw,
+  ShieldAlert,
+  Timer,
+  UserCheck,
+  XCircle,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { DOMESTIC_CURRENCY, toTransferData, TransferFormData } from '@/lib/transferSchemas';
+import { ACCOUNT_SCHEMES, getAccountKey, maskAccountValue } from '@/lib/accountFormats';
+import { getEffectiveExecutionDate, toIsoDate } from '@/lib/businessDays';
+import { formatMoney, toMinorUnits } from '@/lib/money';
+import { useTransferQuote } from '@/hooks/use-transfer-quote';
+import ExecutionDateNotice from '@/components/ExecutionDateNotice';
+import { verifyPayee } from '@/services/payeeVerificationService';
+import { getAccountCurrency, QuoteRequest, TransferQuote } from '@/services/quoteService';
+import {
+  DUPLICATE_WINDOW_MINUTES,
+  findRecentDuplicates,
+  getRecipientAccount,
+  getSettlementCurrencies,
+  TransferError,
+  TransferFailureReason,
+} from '@/services/transferService';
 
 interface TransferSummaryProps {
-  formData: any;
-  onConfirm: () => void;
+  formData: TransferFormData;
+  onConfirm: (quote: TransferQuote) => void;
   onEdit: () => void;
+  isSubmitting?: boolean;
+  submitError?: Error | null;
+  // Replaces the recipient name with the one registered for the account
+  onUseSuggestedName?: (name: string) => void;
 }
 
-const TransferSummary: React.FC<TransferSummaryProps> = ({ formData, onConfirm, onEdit }) => {
+const FAILURE_TITLES: Record<TransferFailureReason, string> = {
+  validation: 'Some transfer details were rejected',
+  limit_exceeded: 'Transfer limit exceeded',
+  quote_expired: 'Your quote has expired',
+  network: "We couldn't reach the bank",
+  server: 'The bank could not process this transfer',
+  not_found: 'Transfer not found',
+  invalid_transition: 'This transfer can no longer be changed',
+};
+
+const formatCountdown = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const TransferSummary: React.FC<TransferSummaryProps> = ({
+  formData,
+  onConfirm,
+  onEdit,
+  isSubmitting,
+  submitError,
+  onUseSuggestedName,
+}) => {
+  const isDomestic = formData.transferType === 'domestic';
+  const currency = formData.transferType === 'domestic' ? DOMESTIC_CURRENCY : formData.currency;
+
+  // The entered amount is what the recipient receives; the quote prices it in the account currency
+  const quoteRequest = useMemo<QuoteRequest>(() => ({
+    transferType: formData.transferType,
+    sourceCurrency: getAccountCurrency(),
+    targetCurrency: currency,
+    amount: toMinorUnits(formData.amount, currency),
+    side: 'receive',
+  }), [formData.transferType, formData.amount, currency]);
+  const { quote, secondsRemaining, isExpired, isFetching, error, requote } = useTransferQuote(quoteRequest);
+  const transferData = useMemo(() => toTransferData(formData), [formData]);
+  const settlementCurrencies = useMemo(() => getSettlementCurrencies(transferData), [transferData]);
+  const executionDate = getEffectiveExecutionDate(formData.executionDate, settlementCurrencies);
+  const isScheduled = !!transferData.executionDate && transferData.executionDate > toIsoDate(new Date());
+
+  // Confirmation of payee: a name that doesn't match the account must be acknowledged before sending
+  const { data: payeeCheck, isPending: isCheckingPayee, error: payeeCheckError } = useQuery({
+    queryKey: ['payee-verification', transferData.recipientName, getAccountKey(getRecipientAccount(transferData))],
+    queryFn: () => verifyPayee(transferData),
+    staleTime: Infinity,
+  });
+  const [mismatchAcknowledged, setMismatchAcknowledged] = useState(false);
+  useEffect(() => {
+    setMismatchAcknowledged(false);
+  }, [payeeCheck]);
+  const needsAcknowledgement = payeeCheck?.status === 'no_match';
+
+  const canConfirm = !!quote && !isExpired && !isFetching && !isSubmitting && !isCheckingPayee
+    && (!needsAcknowledgement || mismatchAcknowledged);
+
+  const { data: duplicates = [] } = useQuery({
+    queryKey: ['transfer-duplicates', transferData.recipientName, transferData.amount, transferData.currency],
+    queryFn: () => findRecentDuplicates(transferData),
+  });
+  const failureTitle = submitError instanceof TransferError ? FAILURE_TITLES[submitError.reason] : 'Transfer failed';
+  // The bank no longer honours the quoted rate, so fetch a new quote to confirm against
+  const isQuoteRejected = submitError instanceof TransferError && submitError.reason === 'quote_expired';
+  useEffect(() => {
+    if (isQuoteRejected) {
+      requote();
+    }
+  }, [isQuoteRejected, requote]);
+
   return (
     <CardContent className="pt-6 space-y-6 animate-fade-in">
       <div className="space-y-2">
         <h3 className="text-lg font-medium text-white">Transfer Summary</h3>
-        <p className="text-sm text-gray-400">Review your international transfer details before confirming</p>
+        <p className="text-sm text-gray-400">Review your {isDomestic ? 'domestic' : 'international'} transfer details before confirming</p>
       </div>
       
+      {isCheckingPayee ? (
+        <Alert className="bg-black/30 border-white/10 text-gray-300">
+          <Loader2 className="h-4 w-4 animate-spin text-primary-purple" />
+          <AlertDescription className="text-sm">Checking the name on the recipient's account…</AlertDescription>
+        </Alert>
+      ) : payeeCheck?.status === 'match' ? (
+        <Alert className="bg-green-500/10 border-green-600/30 text-green-200">
+          <UserCheck className="h-4 w-4 text-green-400" />
+          <AlertTitle>Name matches the account</AlertTitle>
+          <AlertDescription className="text-sm">
+            {formData.recipientName} is the name registered for this account.
+          </AlertDescription>
+        </Alert>
+      ) : payeeCheck?.status === 'close_match' ? (
+        <Alert className="bg-yellow-500/10 border-yellow-600/30 text-yellow-200">
+          <HelpCircle className="h-4 w-4 text-yellow-500" />
+          <AlertTitle>Name is a close match</AlertTitle>
+          <AlertDescription className="text-sm space-y-2">
+            <p>
+              The account is registered to <span className="font-semibold text-white">{payeeCheck.suggestedName}</span>.
+              Check this is who you mean to pay.
+            </p>
+            {onUseSuggestedName && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-yellow-600/40 text-yellow-200 hover:text-white"
+                onClick={() => onUseSuggestedName(payeeCheck.suggestedName)}
+                disabled={isSubmitting}
+              >
+                <CheckCircle2 className="mr-2 h-3 w-3" /> Use {payeeCheck.suggestedName}
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      ) : payeeCheck?.status === 'no_match' ? (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-600/30 text-red-200">
+          <ShieldAlert className="h-4 w-4 text-red-400" />
+          <AlertTitle>Name doesn't match the account</AlertTitle>
+          <AlertDescription className="text-sm space-y-3">
+            <p>
+              The name you entered isn't the name registered for this account. If you continue, the money may go to
+              someone else and we may not be able to get it back.
+            </p>
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="acknowledge-payee-mismatch"
+                checked={mismatchAcknowledged}
+                onCheckedChange={(checked) => setMismatchAcknowledged(checked === true)}
+                className="mt-0.5 border-red-400"
+              />
+              <Label htmlFor="acknowledge-payee-mismatch" className="text-sm font-normal leading-snug text-red-100">
+                I understand the name doesn't match and I still want to pay this account
+              </Label>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Alert className="bg-black/30 border-white/10 text-gray-300">
+          <HelpCircle className="h-4 w-4 text-gray-400" />
+          <AlertTitle>Name couldn't be checked</AlertTitle>
+          <AlertDescription className="text-sm">
+            {payeeCheck?.status === 'unavailable' ? payeeCheck.message : payeeCheckError?.message}
+          </AlertDescription>
+        </Alert>
+      )}
+      
       <div className="space-y-4 bg-black/30 p-4 rounded-lg">
         <div className="flex justify-between">
           <span className="text-gray-400">Transfer Type:</span>
-          <span className="text-white font-medium">International Transfer</span>
+          <span className="text-white font-medium">{isDomestic ? 'Domestic Transfer' : 'International Transfer'}</span>
+        </div>
+        
+        <div className="flex justify-between">
+          <span className="text-gray-400">Execution Date:</span>
+          <span className="text-white font-medium">{isToday(executionDate) ? 'Today' : format(executionDate, 'EEE, MMM d, yyyy')}</span>
         </div>
         
         <Separator className="bg-white/10" />
@@ -38,34 +211,103 @@ const TransferSummary: React.FC<TransferSummaryProps> = ({ formData, onConfirm,
           <span className="text-white font-medium">{formData.bankName}</span>
         </div>
         
-        <div className="flex justify-between">
-          <span className="text-gray-400">IBAN:</span>
-          <span className="text-white font-medium">
-            {formData.iban.slice(0, 4) + '•••••••••' + formData.iban.slice(-4)}
-          </span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-gray-400">SWIFT/BIC:</span>
-          <span className="text-white font-medium">{formData.swiftCode}</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-gray-400">Bank Address:</span>
-          <span className="text-white font-medium">{formData.bankAddress}</span>
-        </div>
-        <div className="flex justify-between">
-          <span className="text-gray-400">Bank Country:</span>
-          <span className="text-white font-medium">{formData.bankCountry}</span>
-        </div>
+        {formData.transferType === 'domestic' ? (
+          <>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Routing Number:</span>
+              <span className="text-white font-medium">{formData.routingNumber}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Account Number:</span>
+              <span className="text-white font-medium">{'••••' + formData.accountNumber.slice(-4)}</span>
+            </div>
+          </>
+        ) : (
+          <>
+            {ACCOUNT_SCHEMES[formData.accountScheme].fields.map((definition) => {
+              const value = definition.normalize(formData[definition.name] ?? '');
+              return (
+                <div key={definition.name} className="flex justify-between">
+                  <span className="text-gray-400">{definition.label}:</span>
+                  <span className="text-white font-medium">{definition.sensitive ? maskAccountValue(value) : value}</span>
+                </div>
+              );
+            })}
+            <div className="flex justify-between">
+              <span className="text-gray-400">SWIFT/BIC:</span>
+              <span className="text-white font-medium">{formData.swiftCode}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Bank Address:</span>
+              <span className="text-white font-medium">{formData.bankAddress}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Bank Country:</span>
+              <span className="text-white font-medium">{formData.bankCountry}</span>
+            </div>
+          </>
+        )}
         
         <Separator className="bg-white/10" />
         
         <div className="flex justify-between text-lg">
           <span className="text-gray-400">Amount:</span>
           <span className="text-primary-purple font-bold">
-            ${parseFloat(formData.amount).toFixed(2)} {formData.currency}
+            {formatMoney(toMinorUnits(formData.amount, currency), currency)}
           </span>
         </div>
         
+        <div className="space-y-2 bg-primary-purple/5 p-3 rounded-md text-sm">
+          {quote && (
+            <>
+              {quote.sourceCurrency !== quote.targetCurrency && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Exchange Rate:</span>
+                  <span className="text-white font-medium">
+                    1 {quote.sourceCurrency} = {quote.rate.toFixed(4)} {quote.targetCurrency}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-400">Amount Converted:</span>
+                <span className="text-white font-medium">{formatMoney(quote.sendAmount, quote.sourceCurrency)}</span>
+              </div>
+              {quote.fees.map((fee) => (
+                <div key={fee.label} className="flex justify-between">
+                  <span className="text-gray-400">{fee.label}:</span>
+                  <span className="text-white font-medium">{formatMoney(fee.amount, quote.sourceCurrency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span className="text-gray-400">Total to Pay:</span>
+                <span className="text-white font-bold">{formatMoney(quote.totalDebit, quote.sourceCurrency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Recipient Gets:</span>
+                <span className="text-white font-bold">{formatMoney(quote.recipientAmount, quote.targetCurrency)}</span>
+              </div>
+            </>
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-400 pt-1">
+            {isFetching ? (
+              <span className="flex items-center">
+                <Loader2 className="mr-2 h-3 w-3 animate-spin" /> {quote ? 'Rate expired, getting a new quote…' : 'Getting a quote…'}
+              </span>
+            ) : error ? (
+              <span className="text-red-400">Couldn't get a quote: {error.message}</span>
+            ) : (
+              <span className="flex items-center">
+                <Timer className="mr-2 h-3 w-3 text-primary-purple" /> Rate guaranteed for {formatCountdown(secondsRemaining)}
+              </span>
+            )}
+            {error && !isFetching && (
+              <Button variant="ghost" size="sm" className="h-6 text-primary-purple" onClick={() => requote()}>
+                <RefreshCw className="mr-1 h-3 w-3" /> Retry
+              </Button>
+            )}
+          </div>
+        </div>
+        
         {formData.description && (
           <div className="flex justify-between">
             <span className="text-gray-400">Description:</span>
@@ -73,7 +315,7 @@ const TransferSummary: React.FC<TransferSummaryProps> = ({ formData, onConfirm,
           </div>
         )}
         
-        {formData.useStripe && (
+        {formData.transferType === 'international' && formData.useStripe && (
           <>
             <Separator className="bg-white/10" />
             <div className="bg-primary-purple/10 p-3 rounded-md">
@@ -89,6 +331,34 @@ const TransferSummary: React.FC<TransferSummaryProps> = ({ formData, onConfirm,
         )}
       </div>
       
+      <ExecutionDateNotice executionDate={formData.executionDate} currencies={settlementCurrencies} />
+      
+      {submitError && !isSubmitting && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-600/30 text-red-200">
+          <XCircle className="h-4 w-4 text-red-400" />
+          <AlertTitle>{failureTitle}</AlertTitle>
+          <AlertDescription className="text-sm">
+            {submitError.message}
+            {submitError instanceof TransferError && submitError.reason === 'validation'
+              ? ' Edit the transfer to correct it.'
+              : ' You can retry the transfer below.'}
+          </AlertDescription>
+        </Alert>
+      )}
+      
+      {duplicates.length > 0 && !submitError && (
+        <Alert className="bg-orange-500/10 border-orange-600/30 text-orange-200">
+          <Copy className="h-4 w-4 text-orange-400" />
+          <AlertTitle>Possible duplicate transfer</AlertTitle>
+          <AlertDescription className="text-sm">
+            You sent {formatMoney(duplicates[0].amount, duplicates[0].currency ?? currency)} to {duplicates[0].recipientName}{' '}
+            {formatDistanceToNow(parseISO(duplicates[0].createdAt), { addSuffix: true })} ({duplicates[0].id})
+            {duplicates.length > 1 && ` and ${duplicates.length - 1} more time${duplicates.length > 2 ? 's' : ''}`} in the
+            last {DUPLICATE_WINDOW_MINUTES} minutes. Only confirm if you mean to pay again.
+          </AlertDescription>
+        </Alert>
+      )}
+      
       <Alert className="bg-yellow-500/10 border-yellow-600/30 text-yellow-200">
         <AlertCircle className="h-4 w-4 text-yellow-500" />
         <AlertDescription className="text-sm">
@@ -101,14 +371,26 @@ const TransferSummary: React.FC<TransferSummaryProps> = ({ formData, onConfirm,
           variant="outline" 
           className="border-white/20 text-gray-400 hover:text-white" 
           onClick={onEdit}
+          disabled={isSubmitting}
         >
           <ArrowLeft className="mr-2 h-4 w-4" /> Edit
         </Button>
         <Button 
           className="bg-primary-purple hover:bg-secondary-purple flex-1"
-          onClick={onConfirm}
+          onClick={() => onConfirm(quote)}
+          disabled={!canConfirm}
         >
-          Confirm Transfer
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending…
+            </>
+          ) : submitError ? (
+            'Retry Transfer'
+          ) : isScheduled ? (
+            'Schedule Transfer'
+          ) : (
+            'Confirm Transfer'
+          )}
         </Button>
       </div>
     </CardContent>
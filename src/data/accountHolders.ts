@@ -0,0 +1,21 @@
+// Registered account holder names used by the local confirmation-of-payee stand-in,
+// keyed by getAccountKey (scheme followed by the account fields, normalized)
+export const ACCOUNT_HOLDERS: Record<string, string> = {
+  // IBAN example accounts published by the national banking associations
+  "iban:GB29NWBK60161331926819": "Jane Smith",
+  "iban:GB33BUKB20201555555555": "Acme Trading Limited",
+  "iban:DE89370400440532013000": "Max Mustermann",
+  "iban:FR1420041010050500013M02606": "Société Générale Fournitures SARL",
+  "iban:NL91ABNA0417164300": "Jan de Vries",
+  "iban:ES9121000418450200051332": "María José García López",
+  "iban:IT60X0542811101000000123456": "Giuseppe Rossi",
+  "iban:CH9300762011623852957": "Müller & Söhne AG",
+  "iban:BE68539007547034": "Sophie Dubois",
+  "iban:AT611904300234573201": "Lukas Gruber",
+  "sort_code:601613:31926819": "Jane Smith",
+  "sort_code:200000:55779911": "Oliver Brown",
+  "bsb:062000:12345678": "Charlotte Wilson",
+  "clabe:032180000118359719": "Distribuidora del Norte SA de CV",
+  "aba:026009593:12345678": "John Doe",
+  "aba:021000021:000123456789": "Emily Johnson",
+};
@@ -0,0 +1,76 @@
+// Bundled bank directory used for offline BIC and IBAN lookups.
+// To update, edit the entries below; local additions made at runtime are layered on top.
+
+export interface BankDirectoryEntry {
+  // Always stored in the 11 character form
+  bic: string;
+  name: string;
+  address: string;
+  countryCode: string;
+  // National bank codes as they appear inside the IBAN (see IBAN_BANK_CODE_POSITIONS)
+  ibanBankCodes?: string[];
+}
+
+// Start and end offsets of the bank code inside the BBAN, per IBAN country
+export const IBAN_BANK_CODE_POSITIONS: Record<string, [number, number]> = {
+  AT: [0, 5],
+  BE: [0, 3],
+  CH: [0, 5],
+  DE: [0, 8],
+  ES: [0, 4],
+  FR: [0, 5],
+  GB: [0, 4],
+  IE: [0, 4],
+  IT: [1, 6],
+  NL: [0, 4],
+  PL: [0, 3],
+};
+
+export const BANK_DIRECTORY: BankDirectoryEntry[] = [
+  // Austria
+  { bic: "BKAUATWWXXX", name: "UniCredit Bank Austria AG", address: "Rothschildplatz 1, 1020 Wien", countryCode: "AT", ibanBankCodes: ["12000"] },
+  { bic: "GIBAATWWXXX", name: "Erste Bank der oesterreichischen Sparkassen AG", address: "Am Belvedere 1, 1100 Wien", countryCode: "AT", ibanBankCodes: ["20111"] },
+  // Belgium
+  { bic: "GEBABEBBXXX", name: "BNP Paribas Fortis SA/NV", address: "Montagne du Parc 3, 1000 Bruxelles", countryCode: "BE", ibanBankCodes: ["001", "002"] },
+  { bic: "KREDBEBBXXX", name: "KBC Bank NV", address: "Havenlaan 2, 1080 Brussel", countryCode: "BE", ibanBankCodes: ["734", "735"] },
+  { bic: "BBRUBEBBXXX", name: "ING Belgium SA/NV", address: "Avenue Marnix 24, 1000 Bruxelles", countryCode: "BE", ibanBankCodes: ["310", "320"] },
+  // Switzerland
+  { bic: "UBSWCHZH80A", name: "UBS Switzerland AG", address: "Bahnhofstrasse 45, 8001 Zürich", countryCode: "CH", ibanBankCodes: ["00230"] },
+  { bic: "CRESCHZZ80A", name: "Credit Suisse (Schweiz) AG", address: "Paradeplatz 8, 8001 Zürich", countryCode: "CH", ibanBankCodes: ["04835"] },
+  // Germany
+  { bic: "DEUTDEFFXXX", name: "Deutsche Bank AG", address: "Taunusanlage 12, 60325 Frankfurt am Main", countryCode: "DE", ibanBankCodes: ["50070010"] },
+  { bic: "COBADEFFXXX", name: "Commerzbank AG", address: "Kaiserplatz, 60311 Frankfurt am Main", countryCode: "DE", ibanBankCodes: ["50040000", "37040044"] },
+  { bic: "INGDDEFFXXX", name: "ING-DiBa AG", address: "Theodor-Heuss-Allee 2, 60486 Frankfurt am Main", countryCode: "DE", ibanBankCodes: ["50010517"] },
+  { bic: "MARKDEFFXXX", name: "Deutsche Bundesbank", address: "Wilhelm-Epstein-Strasse 14, 60431 Frankfurt am Main", countryCode: "DE", ibanBankCodes: ["50000000"] },
+  // Spain
+  { bic: "BSCHESMMXXX", name: "Banco Santander S.A.", address: "Paseo de Pereda 9-12, 39004 Santander", countryCode: "ES", ibanBankCodes: ["0049"] },
+  { bic: "BBVAESMMXXX", name: "Banco Bilbao Vizcaya Argentaria S.A.", address: "Plaza de San Nicolás 4, 48005 Bilbao", countryCode: "ES", ibanBankCodes: ["0182"] },
+  { bic: "CAIXESBBXXX", name: "CaixaBank S.A.", address: "Calle Pintor Sorolla 2-4, 46002 Valencia", countryCode: "ES", ibanBankCodes: ["2100"] },
+  // France
+  { bic: "BNPAFRPPXXX", name: "BNP Paribas", address: "16 Boulevard des Italiens, 75009 Paris", countryCode: "FR", ibanBankCodes: ["30004"] },
+  { bic: "SOGEFRPPXXX", name: "Société Générale", address: "29 Boulevard Haussmann, 75009 Paris", countryCode: "FR", ibanBankCodes: ["30003"] },
+  { bic: "CRLYFRPPXXX", name: "LCL - Le Crédit Lyonnais", address: "18 Rue de la République, 69002 Lyon", countryCode: "FR", ibanBankCodes: ["30002"] },
+  { bic: "PSSTFRPPXXX", name: "La Banque Postale", address: "115 Rue de Sèvres, 75006 Paris", countryCode: "FR", ibanBankCodes: ["20041"] },
+  // United Kingdom
+  { bic: "NWBKGB2LXXX", name: "National Westminster Bank plc", address: "250 Bishopsgate, London EC2M 4AA", countryCode: "GB", ibanBankCodes: ["NWBK"] },
+  { bic: "BARCGB22XXX", name: "Barclays Bank UK plc", address: "1 Churchill Place, London E14 5HP", countryCode: "GB", ibanBankCodes: ["BARC"] },
+  { bic: "LOYDGB2LXXX", name: "Lloyds Bank plc", address: "25 Gresham Street, London EC2V 7HN", countryCode: "GB", ibanBankCodes: ["LOYD"] },
+  { bic: "HBUKGB4BXXX", name: "HSBC UK Bank plc", address: "1 Centenary Square, Birmingham B1 1HQ", countryCode: "GB", ibanBankCodes: ["HBUK", "MIDL"] },
+  { bic: "HSBCGB2LXXX", name: "HSBC Bank plc", address: "8 Canada Square, London E14 5HQ", countryCode: "GB" },
+  // Ireland
+  { bic: "AIBKIE2DXXX", name: "Allied Irish Banks plc", address: "10 Molesworth Street, Dublin 2", countryCode: "IE", ibanBankCodes: ["AIBK"] },
+  { bic: "BOFIIE2DXXX", name: "Bank of Ireland", address: "40 Mespil Road, Dublin 4", countryCode: "IE", ibanBankCodes: ["BOFI"] },
+  // Italy
+  { bic: "UNCRITMMXXX", name: "UniCredit S.p.A.", address: "Piazza Gae Aulenti 3, 20154 Milano", countryCode: "IT", ibanBankCodes: ["02008"] },
+  { bic: "BCITITMMXXX", name: "Intesa Sanpaolo S.p.A.", address: "Piazza San Carlo 156, 10121 Torino", countryCode: "IT", ibanBankCodes: ["03069"] },
+  // Netherlands
+  { bic: "INGBNL2AXXX", name: "ING Bank N.V.", address: "Bijlmerdreef 106, 1102 CT Amsterdam", countryCode: "NL", ibanBankCodes: ["INGB"] },
+  { bic: "ABNANL2AXXX", name: "ABN AMRO Bank N.V.", address: "Gustav Mahlerlaan 10, 1082 PP Amsterdam", countryCode: "NL", ibanBankCodes: ["ABNA"] },
+  { bic: "RABONL2UXXX", name: "Coöperatieve Rabobank U.A.", address: "Croeselaan 18, 3521 CB Utrecht", countryCode: "NL", ibanBankCodes: ["RABO"] },
+  // Poland
+  { bic: "PKOPPLPWXXX", name: "PKO Bank Polski S.A.", address: "ul. Puławska 15, 02-515 Warszawa", countryCode: "PL", ibanBankCodes: ["102"] },
+  // United States
+  { bic: "CHASUS33XXX", name: "JPMorgan Chase Bank, N.A.", address: "383 Madison Avenue, New York, NY 10179", countryCode: "US" },
+  { bic: "BOFAUS3NXXX", name: "Bank of America, N.A.", address: "100 North Tryon Street, Charlotte, NC 28255", countryCode: "US" },
+  { bic: "CITIUS33XXX", name: "Citibank, N.A.", address: "388 Greenwich Street, New York, NY 10013", countryCode: "US" },
+];
@@ -0,0 +1,81 @@
+// Bank holiday calendars of the payment systems transfers settle through, bundled so execution dates
+// can be checked offline. Add the next year's dates here before the current tables run out.
+
+export interface HolidayCalendar {
+  // Payment system the calendar belongs to
+  system: string;
+  // IANA time zone the cut-off time is given in
+  timeZone: string;
+  // Latest local time (HH:mm) a transfer can be sent for execution the same day
+  cutOffTime: string;
+  // Holiday names keyed by ISO date (yyyy-MM-dd); weekends are always closed and not listed
+  holidays: Record<string, string>;
+}
+
+// Calendars keyed by ISO 4217 currency code; other currencies only close on weekends
+export const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  USD: {
+    system: "Fedwire",
+    timeZone: "America/New_York",
+    cutOffTime: "16:00",
+    holidays: {
+      "2026-01-01": "New Year's Day",
+      "2026-01-19": "Martin Luther King Jr. Day",
+      "2026-02-16": "Washington's Birthday",
+      "2026-05-25": "Memorial Day",
+      "2026-06-19": "Juneteenth",
+      "2026-09-07": "Labor Day",
+      "2026-10-12": "Columbus Day",
+      "2026-11-11": "Veterans Day",
+      "2026-11-26": "Thanksgiving Day",
+      "2026-12-25": "Christmas Day",
+      "2027-01-01": "New Year's Day",
+      "2027-01-18": "Martin Luther King Jr. Day",
+      "2027-02-15": "Washington's Birthday",
+      "2027-05-31": "Memorial Day",
+      "2027-07-05": "Independence Day (observed)",
+      "2027-09-06": "Labor Day",
+      "2027-10-11": "Columbus Day",
+      "2027-11-11": "Veterans Day",
+      "2027-11-25": "Thanksgiving Day",
+    },
+  },
+  EUR: {
+    system: "TARGET2",
+    timeZone: "Europe/Berlin",
+    cutOffTime: "16:00",
+    holidays: {
+      "2026-01-01": "New Year's Day",
+      "2026-04-03": "Good Friday",
+      "2026-04-06": "Easter Monday",
+      "2026-05-01": "Labour Day",
+      "2026-12-25": "Christmas Day",
+      "2027-01-01": "New Year's Day",
+      "2027-03-26": "Good Friday",
+      "2027-03-29": "Easter Monday",
+    },
+  },
+  GBP: {
+    system: "CHAPS",
+    timeZone: "Europe/London",
+    cutOffTime: "15:30",
+    holidays: {
+      "2026-01-01": "New Year's Day",
+      "2026-04-03": "Good Friday",
+      "2026-04-06": "Easter Monday",
+      "2026-05-04": "Early May bank holiday",
+      "2026-05-25": "Spring bank holiday",
+      "2026-08-31": "Summer bank holiday",
+      "2026-12-25": "Christmas Day",
+      "2026-12-28": "Boxing Day (substitute day)",
+      "2027-01-01": "New Year's Day",
+      "2027-03-26": "Good Friday",
+      "2027-03-29": "Easter Monday",
+      "2027-05-03": "Early May bank holiday",
+      "2027-05-31": "Spring bank holiday",
+      "2027-08-30": "Summer bank holiday",
+      "2027-12-27": "Christmas Day (substitute day)",
+      "2027-12-28": "Boxing Day (substitute day)",
+    },
+  },
+};
@@ -0,0 +1,53 @@
+// Local historical rate dataset: daily closing rates against the rate table's base currency.
+// Series are reproducible random walks that end at today's mid-market rate in the quote rate table.
+import { getRateTable } from "@/services/quoteService";
+
+export const MAX_HISTORY_DAYS = 90;
+
+// Typical daily volatility; pegged currencies barely move
+const DAILY_VOLATILITY: Record<string, number> = {
+  AED: 0.0002,
+  BHD: 0.0002,
+  HKD: 0.0005,
+  JOD: 0.0002,
+  KWD: 0.001,
+  SAR: 0.0002,
+  DKK: 0.004,
+};
+const DEFAULT_VOLATILITY = 0.005;
+
+// Small seeded PRNG (mulberry32) so the same currency always yields the same series
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seedFor(currencyCode: string): number {
+  return currencyCode.split("").reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261);
+}
+
+// Function to get one rate per day for the last MAX_HISTORY_DAYS days, oldest first, ending today
+export function getDailyRates(currencyCode: string): number[] | undefined {
+  const rateTable = getRateTable();
+  const currentRate = rateTable.rates[currencyCode];
+  if (!currentRate) {
+    return undefined;
+  }
+  if (currencyCode === rateTable.base) {
+    return Array(MAX_HISTORY_DAYS).fill(1);
+  }
+
+  const random = createRandom(seedFor(currencyCode));
+  const volatility = DAILY_VOLATILITY[currencyCode] ?? DEFAULT_VOLATILITY;
+  const rates = [currentRate];
+  for (let i = 1; i < MAX_HISTORY_DAYS; i++) {
+    const change = (random() - 0.5) * 2 * volatility;
+    rates.unshift(rates[0] * (1 - change));
+  }
+  return rates;
+}
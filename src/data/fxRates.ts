@@ -0,0 +1,71 @@
+// Local stand-in for an FX rate provider. Update the mid-market rates and pricing below as needed.
+
+export interface FeeRule {
+  // Fixed fee in minor units of the source currency
+  fixed: number;
+  // Percentage of the send amount
+  percent: number;
+}
+
+export interface FxRateTable {
+  // Currency the customer's account is held in, debited for every transfer
+  accountCurrency: string;
+  // Mid-market rates expressed as units of each currency per 1 unit of `base`
+  base: string;
+  rates: Record<string, number>;
+  // Margin applied on top of the mid-market rate for currency conversions
+  marginPercent: number;
+  // How long a quoted rate is guaranteed for
+  lockSeconds: number;
+  fees: {
+    domestic: FeeRule;
+    international: FeeRule;
+  };
+}
+
+export const FX_RATE_TABLE: FxRateTable = {
+  accountCurrency: "USD",
+  base: "USD",
+  rates: {
+    USD: 1,
+    EUR: 0.9215,
+    GBP: 0.7872,
+    CHF: 0.8843,
+    JPY: 151.42,
+    CAD: 1.3638,
+    AUD: 1.5274,
+    NZD: 1.6681,
+    CNY: 7.2395,
+    HKD: 7.8231,
+    SGD: 1.3497,
+    INR: 83.412,
+    MXN: 16.984,
+    BRL: 5.0647,
+    ZAR: 18.732,
+    SEK: 10.672,
+    NOK: 10.781,
+    DKK: 6.8745,
+    PLN: 3.9852,
+    CZK: 23.251,
+    HUF: 361.47,
+    RON: 4.5863,
+    TRY: 32.174,
+    ILS: 3.6823,
+    AED: 3.6725,
+    SAR: 3.7502,
+    KWD: 0.3074,
+    BHD: 0.3769,
+    JOD: 0.7090,
+    KRW: 1353.8,
+    PHP: 56.214,
+    THB: 36.457,
+    IDR: 15821,
+    MYR: 4.7425,
+  },
+  marginPercent: 0.5,
+  lockSeconds: 60,
+  fees: {
+    domestic: { fixed: 0, percent: 0 },
+    international: { fixed: 500, percent: 0.25 },
+  },
+};
@@ -0,0 +1,31 @@
+// The customer's own account, debited for every transfer. Payment files name it as the debtor or ordering
+// customer, so update these details to match the account the files are sent for.
+
+export interface OriginatorAccount {
+  // Account holder name as registered with the bank
+  name: string;
+  // Postal address of the account holder, at most 70 characters per line
+  addressLines: string[];
+  // ISO 3166 country code of the account holder
+  country: string;
+  bankName: string;
+  // BIC of the bank holding the account, in the 8 or 11 character form
+  bic: string;
+  // Set for accounts in IBAN countries; US accounts use the routing and account number instead
+  iban?: string;
+  routingNumber: string;
+  accountNumber: string;
+  // ACH company identification agreed with the bank, usually 1 followed by the employer identification number
+  achCompanyId: string;
+}
+
+export const ORIGINATOR_ACCOUNT: OriginatorAccount = {
+  name: "Purple Bank Demo Customer Inc",
+  addressLines: ["350 Fifth Avenue", "New York NY 10118"],
+  country: "US",
+  bankName: "JPMorgan Chase Bank",
+  bic: "CHASUS33",
+  routingNumber: "021000021",
+  accountNumber: "000987654321",
+  achCompanyId: "1123456789",
+};
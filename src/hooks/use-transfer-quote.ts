@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getQuote, QuoteRequest } from "@/services/quoteService";
+
+// Fetches a guaranteed-rate quote, counts down its lock and re-quotes when it expires
+export function useTransferQuote(request: QuoteRequest | null) {
+  const query = useQuery({
+    queryKey: ["transfer-quote", request],
+    queryFn: () => getQuote(request),
+    enabled: !!request,
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const quote = query.data;
+  const secondsRemaining = quote ? Math.max(0, Math.ceil((new Date(quote.expiresAt).getTime() - now) / 1000)) : 0;
+  const isExpired = !!quote && secondsRemaining === 0;
+
+  const { isFetching, refetch } = query;
+  useEffect(() => {
+    if (isExpired && !isFetching) {
+      refetch();
+    }
+  }, [isExpired, isFetching, refetch]);
+
+  return {
+    quote,
+    secondsRemaining,
+    isExpired,
+    isFetching,
+    error: query.error,
+    requote: refetch,
+  };
+}
@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { isTerminalStatus } from "@/services/transferLifecycle";
+import { getTransfer } from "@/services/transferService";
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Polls a transfer until it reaches a terminal status (completed, failed, returned or cancelled). Scheduled
+// transfers don't move until their execution date, so they aren't polled while they wait.
+export function useTransferStatus(transferId: string | undefined, pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS) {
+  const query = useQuery({
+    queryKey: ["transfer", transferId],
+    queryFn: () => getTransfer(transferId),
+    enabled: !!transferId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && (isTerminalStatus(status) || status === "scheduled") ? false : pollIntervalMs;
+    },
+  });
+
+  const status = query.data?.status;
+  return {
+    transfer: query.data,
+    status,
+    isTerminal: !!status && isTerminalStatus(status),
+    isPending: query.isPending,
+    error: query.error,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { validateAccountNumber, validateRoutingNumber } from "@/lib/aba";
+
+describe("validateRoutingNumber", () => {
+  it.each(["026009593", "021000021", "011000015", "0260-0959 3"])("accepts %j", (input) => {
+    expect(validateRoutingNumber(input)).toEqual({ valid: true });
+  });
+
+  it.each([
+    ["", "Routing number must be 9 digits."],
+    ["02600959", "Routing number must be 9 digits."],
+    ["02600959A", "Routing number must be 9 digits."],
+    ["130000000", "Routing number prefix is not a valid Federal Reserve routing symbol."],
+    ["026009594", "Routing number checksum is invalid."],
+    ["021000012", "Routing number checksum is invalid."],
+  ])("rejects %j", (input, error) => {
+    expect(validateRoutingNumber(input)).toEqual({ valid: false, error });
+  });
+});
+
+describe("validateAccountNumber", () => {
+  it.each(["1234", "12345678901234567", "0001-2345"])("accepts %j", (input) => {
+    expect(validateAccountNumber(input)).toEqual({ valid: true });
+  });
+
+  it.each([
+    ["12AB5678", "Account number may only contain digits."],
+    ["123", "Account number must be between 4 and 17 digits."],
+    ["123456789012345678", "Account number must be between 4 and 17 digits."],
+    ["00000000", "Account number cannot be all zeros."],
+  ])("rejects %j", (input, error) => {
+    expect(validateAccountNumber(input)).toEqual({ valid: false, error });
+  });
+});
@@ -0,0 +1,60 @@
+// US domestic account validation: ABA routing numbers and account numbers
+
+export type AbaValidationResult = { valid: true } | { valid: false; error: string };
+
+const ABA_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+// The first two digits identify the Federal Reserve district or a special routing purpose
+function isValidRoutingPrefix(prefix: number): boolean {
+  return (
+    (prefix >= 0 && prefix <= 12) ||
+    (prefix >= 21 && prefix <= 32) ||
+    (prefix >= 61 && prefix <= 72) ||
+    prefix === 80
+  );
+}
+
+export function normalizeRoutingNumber(input: string): string {
+  return input.replace(/[\s-]/g, "");
+}
+
+export function validateRoutingNumber(input: string): AbaValidationResult {
+  const routingNumber = normalizeRoutingNumber(input);
+
+  if (!/^[0-9]{9}$/.test(routingNumber)) {
+    return { valid: false, error: "Routing number must be 9 digits." };
+  }
+  if (!isValidRoutingPrefix(Number(routingNumber.slice(0, 2)))) {
+    return { valid: false, error: "Routing number prefix is not a valid Federal Reserve routing symbol." };
+  }
+
+  const checksum = routingNumber
+    .split("")
+    .reduce((sum, digit, index) => sum + Number(digit) * ABA_WEIGHTS[index], 0);
+  if (checksum % 10 !== 0) {
+    return { valid: false, error: "Routing number checksum is invalid." };
+  }
+
+  return { valid: true };
+}
+
+export function normalizeAccountNumber(input: string): string {
+  return input.replace(/[\s-]/g, "");
+}
+
+// US account numbers are not standardised, but ACH accepts up to 17 digits
+export function validateAccountNumber(input: string): AbaValidationResult {
+  const accountNumber = normalizeAccountNumber(input);
+
+  if (!/^[0-9]+$/.test(accountNumber)) {
+    return { valid: false, error: "Account number may only contain digits." };
+  }
+  if (accountNumber.length < 4 || accountNumber.length > 17) {
+    return { valid: false, error: "Account number must be between 4 and 17 digits." };
+  }
+  if (/^0+$/.test(accountNumber)) {
+    return { valid: false, error: "Account number cannot be all zeros." };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAccountIdentifier,
+  getAccountKey,
+  getAccountSchemes,
+  validateAccountFields,
+  validateClabe,
+} from "@/lib/accountFormats";
+
+describe("validateClabe", () => {
+  it.each(["032180000118359719", "002010077777777771"])("accepts %j", (clabe) => {
+    expect(validateClabe(clabe)).toBeUndefined();
+  });
+
+  it.each([
+    ["032180000118359718", "CLABE check digit is invalid."],
+    ["03218000011835971", "CLABE must be 18 digits."],
+    ["03218000011835971A", "CLABE may only contain digits."],
+  ])("rejects %j", (clabe, error) => {
+    expect(validateClabe(clabe)).toBe(error);
+  });
+});
+
+describe("validateAccountFields", () => {
+  it.each([
+    ["sort_code", { sortCode: "60-16-13", accountNumber: "31926819" }],
+    ["bsb", { bsb: "062-000", accountNumber: "12345678" }],
+    ["ifsc", { ifsc: "hdfc0000123", accountNumber: "50100012345678" }],
+    ["clabe", { clabe: "032 180 000118359719" }],
+    ["ca_transit", { institutionNumber: "003", transitNumber: "00012", accountNumber: "1234567" }],
+  ] as const)("accepts valid %s details", (scheme, values) => {
+    expect(validateAccountFields(scheme, values)).toEqual([]);
+  });
+
+  it.each([
+    ["sort_code", { sortCode: "60-16-1", accountNumber: "31926819" }, "sortCode", "Sort code must be 6 digits."],
+    ["sort_code", { sortCode: "601613", accountNumber: "3192681" }, "accountNumber", "Account number must be 8 digits."],
+    ["bsb", { bsb: "06200A", accountNumber: "12345678" }, "bsb", "BSB may only contain digits."],
+    ["bsb", { bsb: "062000", accountNumber: "1234" }, "accountNumber", "Account number must be between 5 and 9 digits."],
+    ["ifsc", { ifsc: "HDFC1000123", accountNumber: "50100012345678" }, "ifsc", "IFSC must be 4 letters, a zero and 6 letters or digits."],
+    ["clabe", { clabe: "032180000118359718" }, "clabe", "CLABE check digit is invalid."],
+    ["ca_transit", { institutionNumber: "03", transitNumber: "00012", accountNumber: "1234567" }, "institutionNumber", "Institution number must be 3 digits."],
+    ["ca_transit", { institutionNumber: "003", transitNumber: "0012", accountNumber: "1234567" }, "transitNumber", "Transit number must be 5 digits."],
+  ] as const)("rejects invalid %s details", (scheme, values, field, message) => {
+    expect(validateAccountFields(scheme, values)).toEqual([{ field, message }]);
+  });
+
+  it("reports every missing field", () => {
+    expect(validateAccountFields("sort_code", {}).map((error) => error.field)).toEqual(["sortCode", "accountNumber"]);
+  });
+});
+
+describe("buildAccountIdentifier", () => {
+  it("normalizes each field of the scheme and ignores the others", () => {
+    const identifier = buildAccountIdentifier("sort_code", { sortCode: "60-16-13", accountNumber: "3192 6819", iban: "GB29" });
+    expect(identifier).toEqual({ scheme: "sort_code", sortCode: "601613", accountNumber: "31926819" });
+    expect(getAccountKey(identifier)).toBe("sort_code:601613:31926819");
+  });
+});
+
+describe("getAccountSchemes", () => {
+  it("offers local schemes, IBAN or a plain account number by country", () => {
+    expect(getAccountSchemes("GB")).toEqual(["iban", "sort_code"]);
+    expect(getAccountSchemes("MX")).toEqual(["clabe"]);
+    expect(getAccountSchemes("DE")).toEqual(["iban"]);
+    expect(getAccountSchemes("JP")).toEqual(["account_number"]);
+    expect(getAccountSchemes(undefined)).toEqual(["iban"]);
+  });
+});
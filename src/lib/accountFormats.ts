@@ -0,0 +1,292 @@
+// Country-specific account identifier formats for international transfers
+import { IBAN_COUNTRIES, normalizeIban, validateIban } from "@/lib/iban";
+import { normalizeRoutingNumber, validateAccountNumber as validateUsAccountNumber, validateRoutingNumber } from "@/lib/aba";
+
+export type AccountIdentifier =
+  | { scheme: "iban"; iban: string }
+  | { scheme: "sort_code"; sortCode: string; accountNumber: string }
+  | { scheme: "bsb"; bsb: string; accountNumber: string }
+  | { scheme: "ifsc"; ifsc: string; accountNumber: string }
+  | { scheme: "clabe"; clabe: string }
+  | { scheme: "ca_transit"; institutionNumber: string; transitNumber: string; accountNumber: string }
+  | { scheme: "aba"; routingNumber: string; accountNumber: string }
+  | { scheme: "account_number"; accountNumber: string };
+
+export type AccountScheme = AccountIdentifier["scheme"];
+
+// Every form field that can hold part of an account identifier
+export type AccountFieldName =
+  | "iban"
+  | "sortCode"
+  | "bsb"
+  | "ifsc"
+  | "clabe"
+  | "institutionNumber"
+  | "transitNumber"
+  | "routingNumber"
+  | "accountNumber";
+
+export type AccountFieldValues = Partial<Record<AccountFieldName, string>>;
+
+export interface AccountFieldDefinition {
+  name: AccountFieldName;
+  label: string;
+  placeholder: string;
+  description?: string;
+  normalize: (value: string) => string;
+  // Returns an error message, or undefined when the value is valid
+  validate: (value: string) => string | undefined;
+  // Whether the value should be partially hidden on summaries
+  sensitive?: boolean;
+}
+
+export interface AccountSchemeDefinition {
+  scheme: AccountScheme;
+  label: string;
+  fields: AccountFieldDefinition[];
+}
+
+const digitsOnly = (value: string) => value.replace(/[\s-]/g, "");
+const alphanumeric = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+function digitsValidator(label: string, min: number, max = min) {
+  return (value: string) => {
+    if (!/^[0-9]+$/.test(value)) {
+      return `${label} may only contain digits.`;
+    }
+    if (value.length < min || value.length > max) {
+      return min === max ? `${label} must be ${min} digits.` : `${label} must be between ${min} and ${max} digits.`;
+    }
+    return undefined;
+  };
+}
+
+// CLABE check digit: weights 3, 7, 1 over the first 17 digits, each product taken mod 10
+export function validateClabe(clabe: string): string | undefined {
+  const lengthError = digitsValidator("CLABE", 18)(clabe);
+  if (lengthError) {
+    return lengthError;
+  }
+
+  const weights = [3, 7, 1];
+  const sum = clabe
+    .slice(0, 17)
+    .split("")
+    .reduce((total, digit, index) => total + ((Number(digit) * weights[index % 3]) % 10), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+  if (checkDigit !== Number(clabe[17])) {
+    return "CLABE check digit is invalid.";
+  }
+  return undefined;
+}
+
+const FIELDS = {
+  iban: {
+    name: "iban",
+    label: "IBAN",
+    placeholder: "GBXX XXXX XXXX XXXX XXXX XX",
+    description: "International Bank Account Number",
+    normalize: normalizeIban,
+    validate: (value) => {
+      const result = validateIban(value);
+      return result.valid === false ? result.error : undefined;
+    },
+    sensitive: true,
+  },
+  sortCode: {
+    name: "sortCode",
+    label: "Sort Code",
+    placeholder: "XX-XX-XX",
+    description: "6-digit UK sort code",
+    normalize: digitsOnly,
+    validate: digitsValidator("Sort code", 6),
+  },
+  bsb: {
+    name: "bsb",
+    label: "BSB",
+    placeholder: "XXX-XXX",
+    description: "6-digit Bank State Branch number",
+    normalize: digitsOnly,
+    validate: digitsValidator("BSB", 6),
+  },
+  ifsc: {
+    name: "ifsc",
+    label: "IFSC",
+    placeholder: "ABCD0123456",
+    description: "Indian Financial System Code",
+    normalize: alphanumeric,
+    validate: (value) =>
+      /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value)
+        ? undefined
+        : "IFSC must be 4 letters, a zero and 6 letters or digits.",
+  },
+  clabe: {
+    name: "clabe",
+    label: "CLABE",
+    placeholder: "XXXXXXXXXXXXXXXXXX",
+    description: "18-digit Mexican interbank account number",
+    normalize: digitsOnly,
+    validate: validateClabe,
+    sensitive: true,
+  },
+  institutionNumber: {
+    name: "institutionNumber",
+    label: "Institution Number",
+    placeholder: "XXX",
+    description: "3-digit bank institution number",
+    normalize: digitsOnly,
+    validate: digitsValidator("Institution number", 3),
+  },
+  transitNumber: {
+    name: "transitNumber",
+    label: "Transit Number",
+    placeholder: "XXXXX",
+    description: "5-digit branch transit number",
+    normalize: digitsOnly,
+    validate: digitsValidator("Transit number", 5),
+  },
+  routingNumber: {
+    name: "routingNumber",
+    label: "Routing Number",
+    placeholder: "XXXXXXXXX",
+    description: "9-digit ABA routing number",
+    normalize: normalizeRoutingNumber,
+    validate: (value) => {
+      const result = validateRoutingNumber(value);
+      return result.valid === false ? result.error : undefined;
+    },
+  },
+} satisfies Partial<Record<AccountFieldName, AccountFieldDefinition>>;
+
+function accountNumberField(
+  description: string,
+  validate: AccountFieldDefinition["validate"],
+  normalize = digitsOnly,
+): AccountFieldDefinition {
+  return {
+    name: "accountNumber",
+    label: "Account Number",
+    placeholder: "XXXXXXXX",
+    description,
+    normalize,
+    validate,
+    sensitive: true,
+  };
+}
+
+export const ACCOUNT_SCHEMES: Record<AccountScheme, AccountSchemeDefinition> = {
+  iban: {
+    scheme: "iban",
+    label: "IBAN",
+    fields: [FIELDS.iban],
+  },
+  sort_code: {
+    scheme: "sort_code",
+    label: "Sort code and account number",
+    fields: [FIELDS.sortCode, accountNumberField("8-digit UK account number", digitsValidator("Account number", 8))],
+  },
+  bsb: {
+    scheme: "bsb",
+    label: "BSB and account number",
+    fields: [FIELDS.bsb, accountNumberField("5 to 9 digits", digitsValidator("Account number", 5, 9))],
+  },
+  ifsc: {
+    scheme: "ifsc",
+    label: "IFSC and account number",
+    fields: [FIELDS.ifsc, accountNumberField("9 to 18 digits", digitsValidator("Account number", 9, 18))],
+  },
+  clabe: {
+    scheme: "clabe",
+    label: "CLABE",
+    fields: [FIELDS.clabe],
+  },
+  ca_transit: {
+    scheme: "ca_transit",
+    label: "Institution, transit and account number",
+    fields: [
+      FIELDS.institutionNumber,
+      FIELDS.transitNumber,
+      accountNumberField("7 to 12 digits", digitsValidator("Account number", 7, 12)),
+    ],
+  },
+  aba: {
+    scheme: "aba",
+    label: "Routing and account number",
+    fields: [
+      FIELDS.routingNumber,
+      accountNumberField("4 to 17 digits", (value) => {
+        const result = validateUsAccountNumber(value);
+        return result.valid === false ? result.error : undefined;
+      }),
+    ],
+  },
+  account_number: {
+    scheme: "account_number",
+    label: "Account number",
+    fields: [
+      accountNumberField(
+        "Account number as issued by the recipient's bank",
+        (value) =>
+          /^[A-Z0-9]{4,34}$/.test(value) ? undefined : "Account number must be 4 to 34 letters or digits.",
+        alphanumeric,
+      ),
+    ],
+  },
+};
+
+// Local schemes used instead of, or alongside, IBAN in these countries
+const LOCAL_SCHEMES: Record<string, AccountScheme[]> = {
+  AU: ["bsb"],
+  CA: ["ca_transit"],
+  GB: ["iban", "sort_code"],
+  IN: ["ifsc"],
+  MX: ["clabe"],
+  US: ["aba"],
+};
+
+// Function to list the account schemes accepted for a bank country, the first being the default
+export function getAccountSchemes(countryCode: string | undefined): AccountScheme[] {
+  if (!countryCode) {
+    return ["iban"];
+  }
+  if (LOCAL_SCHEMES[countryCode]) {
+    return LOCAL_SCHEMES[countryCode];
+  }
+  return IBAN_COUNTRIES[countryCode] ? ["iban"] : ["account_number"];
+}
+
+// Function to validate the fields of a scheme, returning one error per invalid field
+export function validateAccountFields(
+  scheme: AccountScheme,
+  values: AccountFieldValues,
+): { field: AccountFieldName; message: string }[] {
+  return ACCOUNT_SCHEMES[scheme].fields
+    .map((field) => ({ field: field.name, message: field.validate(field.normalize(values[field.name] ?? "")) }))
+    .filter((result) => result.message !== undefined);
+}
+
+// Function to build the typed identifier for a scheme from form field values
+export function buildAccountIdentifier(scheme: AccountScheme, values: AccountFieldValues): AccountIdentifier {
+  const normalized = {} as Record<AccountFieldName, string>;
+  ACCOUNT_SCHEMES[scheme].fields.forEach((field) => {
+    normalized[field.name] = field.normalize(values[field.name] ?? "");
+  });
+  return { scheme, ...normalized } as AccountIdentifier;
+}
+
+// Function to flatten an identifier back into form field values
+export function getAccountFieldValues(identifier: AccountIdentifier): AccountFieldValues {
+  const { scheme, ...values } = identifier;
+  return values;
+}
+
+// Function to get a stable string key for an account, e.g. "sort_code:601613:31926819"
+export function getAccountKey(identifier: AccountIdentifier): string {
+  const values = getAccountFieldValues(identifier);
+  return [identifier.scheme, ...ACCOUNT_SCHEMES[identifier.scheme].fields.map((field) => values[field.name] ?? "")].join(":");
+}
+
+// Function to mask all but the edges of a sensitive account value for display
+export function maskAccountValue(value: string): string {
+  return value.length > 8 ? value.slice(0, 4) + "•••••••••" + value.slice(-4) : "••••" + value.slice(-4);
+}
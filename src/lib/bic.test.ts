@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { checkBicCountry, isValidBic, validateBic } from "@/lib/bic";
+
+describe("validateBic", () => {
+  it("accepts 8 and 11 character BICs, ignoring spaces and case", () => {
+    const result = validateBic("deut de ff");
+    expect(result).toMatchObject({
+      valid: true,
+      bic: {
+        institutionCode: "DEUT",
+        countryCode: "DE",
+        locationCode: "FF",
+        branchCode: "XXX",
+        bic8: "DEUTDEFF",
+        bic11: "DEUTDEFFXXX",
+        isTestBic: false,
+      },
+    });
+    expect(validateBic("DEUTDEFF500")).toMatchObject({ valid: true, bic: { branchCode: "500", bic11: "DEUTDEFF500" } });
+    expect(isValidBic("NWBKGB2L")).toBe(true);
+    expect(isValidBic("BNPAFRPPXXX")).toBe(true);
+  });
+
+  it("flags test and training BICs", () => {
+    expect(validateBic("DEUTDEF0")).toMatchObject({ valid: true, bic: { isTestBic: true } });
+  });
+
+  it.each([
+    ["", "SWIFT/BIC code is required."],
+    ["DEUTDEF", "SWIFT/BIC code must be 8 or 11 characters."],
+    ["DEUTDEFF5", "SWIFT/BIC code must be 8 or 11 characters."],
+    ["DE1TDEFF", "SWIFT/BIC institution code must be 4 letters."],
+    ["DEUTZZFF", "ZZ is not a valid SWIFT/BIC country code."],
+    ["DEUTDEF_", "SWIFT/BIC location code must be 2 letters or digits."],
+    ["DEUTDEFF5_0", "SWIFT/BIC branch code must be 3 letters or digits."],
+  ])("rejects %j", (input, error) => {
+    expect(validateBic(input)).toEqual({ valid: false, error });
+  });
+});
+
+describe("checkBicCountry", () => {
+  const bicOf = (input: string) => {
+    const result = validateBic(input);
+    if (result.valid === false) {
+      throw new Error(result.error);
+    }
+    return result.bic;
+  };
+
+  it("accepts BICs from the same country or a territory using its IBANs", () => {
+    expect(checkBicCountry(bicOf("DEUTDEFF"), "DE", "IBAN")).toBeUndefined();
+    expect(checkBicCountry(bicOf("RBOSJESH"), "GB", "IBAN")).toBeUndefined();
+    expect(checkBicCountry(bicOf("BNPAGPGP"), "FR", "IBAN")).toBeUndefined();
+  });
+
+  it("describes a mismatch with country names", () => {
+    expect(checkBicCountry(bicOf("DEUTDEFF"), "FR", "IBAN")).toBe("SWIFT/BIC code is for Germany but the IBAN is in France.");
+  });
+});
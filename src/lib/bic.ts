@@ -0,0 +1,104 @@
+// SWIFT/BIC parsing based on ISO 9362
+import { getCountryName, isCountryCode } from "@/lib/countries";
+
+export interface Bic {
+  institutionCode: string;
+  countryCode: string;
+  locationCode: string;
+  // "XXX" when the BIC addresses the primary office
+  branchCode: string;
+  // Always the 11 character form, e.g. "DEUTDEFFXXX"
+  bic11: string;
+  // The 8 character form, e.g. "DEUTDEFF"
+  bic8: string;
+  // A "0" as the second location character marks a test and training BIC
+  isTestBic: boolean;
+}
+
+export type BicValidationResult =
+  | { valid: true; bic: Bic }
+  | { valid: false; error: string };
+
+export function normalizeBic(input: string): string {
+  return input.replace(/\s/g, "").toUpperCase();
+}
+
+export function validateBic(input: string): BicValidationResult {
+  const value = normalizeBic(input);
+
+  if (value.length === 0) {
+    return { valid: false, error: "SWIFT/BIC code is required." };
+  }
+  if (value.length !== 8 && value.length !== 11) {
+    return { valid: false, error: "SWIFT/BIC code must be 8 or 11 characters." };
+  }
+
+  const institutionCode = value.slice(0, 4);
+  const countryCode = value.slice(4, 6);
+  const locationCode = value.slice(6, 8);
+  const branchCode = value.length === 11 ? value.slice(8, 11) : "XXX";
+
+  if (!/^[A-Z]{4}$/.test(institutionCode)) {
+    return { valid: false, error: "SWIFT/BIC institution code must be 4 letters." };
+  }
+  if (!isCountryCode(countryCode)) {
+    return { valid: false, error: `${countryCode} is not a valid SWIFT/BIC country code.` };
+  }
+  if (!/^[A-Z0-9]{2}$/.test(locationCode)) {
+    return { valid: false, error: "SWIFT/BIC location code must be 2 letters or digits." };
+  }
+  if (!/^[A-Z0-9]{3}$/.test(branchCode)) {
+    return { valid: false, error: "SWIFT/BIC branch code must be 3 letters or digits." };
+  }
+
+  const bic8 = institutionCode + countryCode + locationCode;
+  return {
+    valid: true,
+    bic: {
+      institutionCode,
+      countryCode,
+      locationCode,
+      branchCode,
+      bic8,
+      bic11: bic8 + branchCode,
+      isTestBic: locationCode[1] === "0",
+    },
+  };
+}
+
+export function isValidBic(input: string): boolean {
+  return validateBic(input).valid;
+}
+
+// Territories whose banks carry their own BIC country code but issue IBANs of the parent country
+const PARENT_COUNTRIES: Record<string, string> = {
+  AX: "FI",
+  BL: "FR",
+  GF: "FR",
+  GG: "GB",
+  GP: "FR",
+  IM: "GB",
+  JE: "GB",
+  MF: "FR",
+  MQ: "FR",
+  NC: "FR",
+  PF: "FR",
+  PM: "FR",
+  RE: "FR",
+  WF: "FR",
+  YT: "FR",
+};
+
+function sameCountry(a: string, b: string): boolean {
+  return (PARENT_COUNTRIES[a] ?? a) === (PARENT_COUNTRIES[b] ?? b);
+}
+
+// Checks that a BIC belongs to the expected country, returning an error message on mismatch
+export function checkBicCountry(bic: Bic, countryCode: string, source: string): string | undefined {
+  if (sameCountry(bic.countryCode, countryCode)) {
+    return undefined;
+  }
+  const bicCountry = getCountryName(bic.countryCode) ?? bic.countryCode;
+  const expectedCountry = getCountryName(countryCode) ?? countryCode;
+  return `SWIFT/BIC code is for ${bicCountry} but the ${source} is in ${expectedCountry}.`;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  BulkTransferValues,
+  createEmptyBulkTransferValues,
+  getBulkTransferTemplate,
+  parseBulkTransferRows,
+  validateBulkTransferRow,
+} from "@/lib/bulkTransfers";
+import { parseCsv, SpreadsheetError } from "@/lib/spreadsheet";
+
+const rowValues = (values: Partial<BulkTransferValues>) => ({ ...createEmptyBulkTransferValues(), ...values });
+
+describe("parseBulkTransferRows", () => {
+  it("maps headers and their aliases to fields, skipping blank rows and unknown columns", () => {
+    const rows = parseBulkTransferRows([
+      [],
+      ["Beneficiary Name", "AMOUNT", "Bank", "SWIFT code", "notes"],
+      ["  Jane Smith ", "12.50", "Deutsche Bank", "DEUTDEFF", "ignored"],
+      ["", " ", ""],
+      ["John Doe", "3", "Chase", "", ""],
+    ]);
+    expect(rows.map(({ id, line }) => ({ id, line }))).toEqual([
+      { id: "row-3", line: 3 },
+      { id: "row-5", line: 5 },
+    ]);
+    expect(rows[0].values).toMatchObject({
+      recipientName: "Jane Smith",
+      amount: "12.50",
+      bankName: "Deutsche Bank",
+      swiftCode: "DEUTDEFF",
+      iban: "",
+    });
+  });
+
+  it("rejects files without the required columns or payments", () => {
+    expect(() => parseBulkTransferRows([])).toThrow("The file is empty.");
+    expect(() => parseBulkTransferRows([["name", "bank"], ["Jane", "Chase"]])).toThrow(
+      "The header row is missing the amount column. Download the template to see the expected columns.",
+    );
+    expect(() => parseBulkTransferRows([["name", "amount", "bank"]])).toThrow(SpreadsheetError);
+  });
+});
+
+describe("validateBulkTransferRow", () => {
+  it("accepts the rows of the template", () => {
+    const rows = parseBulkTransferRows(parseCsv(getBulkTransferTemplate()));
+    expect(rows.map((row) => validateBulkTransferRow(row.values).valid)).toEqual([true, true]);
+  });
+
+  it("infers the transfer type from the account details", () => {
+    const values = rowValues({
+      recipientName: "Jane Smith",
+      amount: "1250.00",
+      currency: "EUR",
+      bankName: "Deutsche Bank",
+      iban: "DE89 3704 0044 0532 0130 00",
+      bankAddress: "Taunusanlage 12, Frankfurt",
+      bankCountry: "DE",
+    });
+    // An IBAN without a BIC is an international payment missing its BIC, not a domestic one
+    expect(validateBulkTransferRow(values)).toEqual({
+      valid: false,
+      errors: [{ field: "swiftCode", message: "SWIFT/BIC code is required." }],
+    });
+    expect(validateBulkTransferRow({ ...values, swiftCode: "DEUTDEFF" })).toMatchObject({
+      valid: true,
+      transferData: { transferType: "international", iban: "DE89370400440532013000", amount: 125000, currency: "EUR" },
+    });
+
+    const domestic = validateBulkTransferRow(rowValues({
+      recipientName: "John Doe",
+      amount: "480",
+      bankName: "Chase",
+      accountNumber: "123456789",
+      routingNumber: "021000021",
+    }));
+    expect(domestic).toMatchObject({ valid: true, transferData: { transferType: "domestic", amount: 48000, currency: "USD" } });
+  });
+
+  it("reads ISO and spreadsheet serial execution dates", () => {
+    const values = rowValues({
+      transferType: "domestic",
+      recipientName: "John Doe",
+      amount: "480",
+      bankName: "Chase",
+      accountNumber: "123456789",
+      routingNumber: "021000021",
+    });
+    const serial = validateBulkTransferRow({ ...values, executionDate: "46000" });
+    expect(serial.valid === false && serial.errors.map((error) => error.field)).toEqual(["executionDate"]);
+    expect(validateBulkTransferRow({ ...values, executionDate: "2026-02-30" })).toEqual({
+      valid: false,
+      errors: [{ field: "executionDate", message: "Execution date must be a date in yyyy-MM-dd format." }],
+    });
+  });
+
+  it("reports each problem with the field it belongs to", () => {
+    const result = validateBulkTransferRow(rowValues({
+      transferType: "domestic",
+      recipientName: "John Doe",
+      amount: "480",
+      currency: "EUR",
+      bankName: "Chase",
+      accountNumber: "123456789",
+      routingNumber: "021000022",
+    }));
+    expect(result.valid === false && result.errors).toEqual([
+      { field: "currency", message: "Domestic transfers are paid in USD." },
+      { field: "routingNumber", message: "Routing number checksum is invalid." },
+    ]);
+    expect(validateBulkTransferRow(rowValues({ transferType: "wire" }))).toMatchObject({
+      valid: false,
+      errors: [{ field: "transferType", message: "Transfer type must be domestic or international." }],
+    });
+  });
+});
@@ -0,0 +1,322 @@
+// Bulk transfer files: spreadsheet columns are mapped to transfer fields, and every row is checked with
+// the same schemas as the single transfer form.
+import { addDays, format, isValid } from "date-fns";
+import { ACCOUNT_SCHEMES, AccountScheme, getAccountSchemes } from "@/lib/accountFormats";
+import { fromIsoDate } from "@/lib/businessDays";
+import { resolveCountryCode } from "@/lib/countries";
+import { SpreadsheetError, toCsv } from "@/lib/spreadsheet";
+import {
+  DOMESTIC_CURRENCY,
+  domesticFormSchema,
+  internationalFormSchema,
+  toTransferData,
+  TransferFormData,
+} from "@/lib/transferSchemas";
+import type { TransferData } from "@/services/transferService";
+
+// Larger batches should be split, so one bad file can't tie up the payment queue
+export const MAX_BULK_ROWS = 1000;
+
+export type BulkTransferField =
+  | "transferType"
+  | "recipientName"
+  | "amount"
+  | "currency"
+  | "bankName"
+  | "description"
+  | "executionDate"
+  | "accountScheme"
+  | "iban"
+  | "swiftCode"
+  | "bankAddress"
+  | "bankCountry"
+  | "accountNumber"
+  | "routingNumber"
+  | "sortCode"
+  | "bsb"
+  | "ifsc"
+  | "clabe"
+  | "institutionNumber"
+  | "transitNumber";
+
+export interface BulkTransferColumn {
+  field: BulkTransferField;
+  // Header written to templates and error reports
+  header: string;
+  // Other headers accepted for the column, compared ignoring case, spaces and punctuation
+  aliases: string[];
+  required?: boolean;
+}
+
+export const BULK_TRANSFER_COLUMNS: BulkTransferColumn[] = [
+  { field: "transferType", header: "transfer_type", aliases: ["type"] },
+  { field: "recipientName", header: "recipient_name", aliases: ["recipient", "beneficiary", "beneficiary_name", "name", "payee"], required: true },
+  { field: "amount", header: "amount", aliases: [], required: true },
+  { field: "currency", header: "currency", aliases: ["ccy"] },
+  { field: "bankName", header: "bank_name", aliases: ["bank"], required: true },
+  { field: "description", header: "description", aliases: ["reference", "remittance_information", "memo"] },
+  { field: "executionDate", header: "execution_date", aliases: ["date", "payment_date", "value_date"] },
+  { field: "accountScheme", header: "account_scheme", aliases: ["scheme"] },
+  { field: "iban", header: "iban", aliases: [] },
+  { field: "swiftCode", header: "bic", aliases: ["swift", "swift_code", "swift_bic", "bic_code"] },
+  { field: "bankAddress", header: "bank_address", aliases: [] },
+  { field: "bankCountry", header: "bank_country", aliases: ["country"] },
+  { field: "accountNumber", header: "account_number", aliases: ["account"] },
+  { field: "routingNumber", header: "routing_number", aliases: ["aba", "aba_routing_number"] },
+  { field: "sortCode", header: "sort_code", aliases: [] },
+  { field: "bsb", header: "bsb", aliases: [] },
+  { field: "ifsc", header: "ifsc", aliases: [] },
+  { field: "clabe", header: "clabe", aliases: [] },
+  { field: "institutionNumber", header: "institution_number", aliases: [] },
+  { field: "transitNumber", header: "transit_number", aliases: [] },
+];
+
+export type BulkTransferValues = Record<BulkTransferField, string>;
+
+export interface BulkTransferRow {
+  // Identifies the row when it is sent, so it is part of the row's idempotency key
+  id: string;
+  // Line of the uploaded file the row came from
+  line: number;
+  values: BulkTransferValues;
+}
+
+export interface BulkTransferRowError {
+  field: BulkTransferField;
+  message: string;
+}
+
+export type BulkTransferRowResult =
+  | { valid: true; transferData: TransferData }
+  | { valid: false; errors: BulkTransferRowError[] };
+
+export interface CurrencyTotal {
+  currency: string;
+  // Sum in minor units of the currency
+  amount: number;
+  count: number;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Function to create a row with every field blank
+export function createEmptyBulkTransferValues(): BulkTransferValues {
+  return Object.fromEntries(BULK_TRANSFER_COLUMNS.map((column) => [column.field, ""])) as BulkTransferValues;
+}
+
+// Function to map a header row to the field of each column; unrecognised columns are ignored
+function mapHeaders(headers: string[]): (BulkTransferField | undefined)[] {
+  const lookup = new Map<string, BulkTransferField>();
+  BULK_TRANSFER_COLUMNS.forEach((column) => {
+    [column.header, column.field, ...column.aliases].forEach((name) => lookup.set(normalizeHeader(name), column.field));
+  });
+  return headers.map((header) => lookup.get(normalizeHeader(header)));
+}
+
+// Function to turn the rows of an uploaded sheet into bulk transfer rows. The first non-empty row
+// must be a header naming at least the required columns; blank rows are skipped.
+export function parseBulkTransferRows(table: string[][]): BulkTransferRow[] {
+  const headerIndex = table.findIndex((row) => row.some((cell) => cell.trim() !== ""));
+  if (headerIndex === -1) {
+    throw new SpreadsheetError("The file is empty.");
+  }
+
+  const fields = mapHeaders(table[headerIndex]);
+  const missing = BULK_TRANSFER_COLUMNS.filter((column) => column.required && !fields.includes(column.field));
+  if (missing.length > 0) {
+    throw new SpreadsheetError(
+      `The header row is missing the ${missing.map((column) => column.header).join(", ")} column${missing.length === 1 ? "" : "s"}. ` +
+      "Download the template to see the expected columns.",
+    );
+  }
+
+  const rows: BulkTransferRow[] = [];
+  table.slice(headerIndex + 1).forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === "")) {
+      return;
+    }
+    const values = createEmptyBulkTransferValues();
+    cells.forEach((cell, column) => {
+      const field = fields[column];
+      if (field) {
+        values[field] = cell.trim();
+      }
+    });
+    const line = headerIndex + index + 2;
+    rows.push({ id: `row-${line}`, line, values });
+  });
+
+  if (rows.length === 0) {
+    throw new SpreadsheetError("The file has a header row but no payments.");
+  }
+  if (rows.length > MAX_BULK_ROWS) {
+    throw new SpreadsheetError(`Upload at most ${MAX_BULK_ROWS} payments at a time; this file has ${rows.length}.`);
+  }
+  return rows;
+}
+
+// Function to read an execution date cell: an ISO date, or a serial day number from an XLSX sheet
+function parseExecutionDate(value: string): Date | undefined | null {
+  if (value === "") {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = fromIsoDate(value);
+    return isValid(date) && format(date, "yyyy-MM-dd") === value ? date : null;
+  }
+  // Excel counts days from 30 December 1899, so 46000 is 9 December 2025
+  if (/^\d{5}$/.test(value)) {
+    return addDays(new Date(1899, 11, 30), Number(value));
+  }
+  return null;
+}
+
+// Function to pick the transfer type of a row: the transfer_type column, or international when a BIC or
+// IBAN is given
+function getTransferType(values: BulkTransferValues): TransferFormData["transferType"] | undefined {
+  const type = values.transferType.toLowerCase();
+  if (type === "") {
+    return values.swiftCode || values.iban ? "international" : "domestic";
+  }
+  if (type === "domestic" || type === "international") {
+    return type;
+  }
+  return undefined;
+}
+
+// Function to pick the account scheme of an international row: the account_scheme column, IBAN when
+// an IBAN is given, or else the bank country's default scheme
+function getAccountScheme(values: BulkTransferValues): AccountScheme | undefined {
+  const scheme = values.accountScheme.toLowerCase().replace(/[\s-]/g, "_");
+  if (scheme !== "") {
+    return scheme in ACCOUNT_SCHEMES ? (scheme as AccountScheme) : undefined;
+  }
+  return values.iban ? "iban" : getAccountSchemes(resolveCountryCode(values.bankCountry))[0];
+}
+
+// Function to validate one row with the transfer form schemas and convert it to transfer data
+export function validateBulkTransferRow(values: BulkTransferValues): BulkTransferRowResult {
+  const errors: BulkTransferRowError[] = [];
+  const transferType = getTransferType(values);
+  if (!transferType) {
+    errors.push({ field: "transferType", message: "Transfer type must be domestic or international." });
+  }
+  const executionDate = parseExecutionDate(values.executionDate);
+  if (executionDate === null) {
+    errors.push({ field: "executionDate", message: "Execution date must be a date in yyyy-MM-dd format." });
+  }
+
+  let formData: TransferFormData | undefined;
+  if (transferType === "domestic") {
+    if (values.currency && values.currency.toUpperCase() !== DOMESTIC_CURRENCY) {
+      errors.push({ field: "currency", message: `Domestic transfers are paid in ${DOMESTIC_CURRENCY}.` });
+    }
+    const result = domesticFormSchema.safeParse({
+      recipientName: values.recipientName,
+      accountNumber: values.accountNumber,
+      routingNumber: values.routingNumber,
+      bankName: values.bankName,
+      amount: values.amount,
+      description: values.description,
+      executionDate: executionDate ?? undefined,
+    });
+    if (result.success) {
+      formData = { transferType, ...result.data };
+    } else {
+      result.error.issues.forEach((issue) => errors.push({ field: issue.path[0] as BulkTransferField, message: issue.message }));
+    }
+  } else if (transferType === "international") {
+    const accountScheme = getAccountScheme(values);
+    if (!accountScheme) {
+      errors.push({
+        field: "accountScheme",
+        message: `Account scheme must be one of ${Object.keys(ACCOUNT_SCHEMES).join(", ")}.`,
+      });
+    }
+    const result = internationalFormSchema.safeParse({
+      recipientName: values.recipientName,
+      accountScheme: accountScheme ?? "iban",
+      iban: values.iban,
+      sortCode: values.sortCode,
+      bsb: values.bsb,
+      ifsc: values.ifsc,
+      clabe: values.clabe,
+      institutionNumber: values.institutionNumber,
+      transitNumber: values.transitNumber,
+      routingNumber: values.routingNumber,
+      accountNumber: values.accountNumber,
+      swiftCode: values.swiftCode,
+      bankName: values.bankName,
+      bankAddress: values.bankAddress,
+      bankCountry: values.bankCountry,
+      amount: values.amount,
+      currency: values.currency.toUpperCase(),
+      description: values.description,
+      executionDate: executionDate ?? undefined,
+      useStripe: false,
+    });
+    if (result.success) {
+      formData = { transferType, ...result.data };
+    } else {
+      result.error.issues.forEach((issue) => errors.push({ field: issue.path[0] as BulkTransferField, message: issue.message }));
+    }
+  }
+
+  if (errors.length > 0 || !formData) {
+    return { valid: false, errors };
+  }
+  return { valid: true, transferData: toTransferData(formData) };
+}
+
+// Function to total amounts per currency, largest number of payments first
+export function getCurrencyTotals(transfers: Pick<TransferData, "amount" | "currency">[]): CurrencyTotal[] {
+  const totals = new Map<string, CurrencyTotal>();
+  transfers.forEach(({ amount, currency = DOMESTIC_CURRENCY }) => {
+    const total = totals.get(currency) ?? { currency, amount: 0, count: 0 };
+    totals.set(currency, { currency, amount: total.amount + amount, count: total.count + 1 });
+  });
+  return [...totals.values()].sort((a, b) => b.count - a.count || a.currency.localeCompare(b.currency));
+}
+
+// Function to write a CSV template with the expected columns and an example of each transfer type
+export function getBulkTransferTemplate(): string {
+  const example = (values: Partial<BulkTransferValues>) =>
+    BULK_TRANSFER_COLUMNS.map((column) => values[column.field] ?? "");
+  return toCsv([
+    BULK_TRANSFER_COLUMNS.map((column) => column.header),
+    example({
+      transferType: "international",
+      recipientName: "Jane Smith",
+      amount: "1250.00",
+      currency: "EUR",
+      bankName: "Deutsche Bank",
+      description: "Invoice 1042",
+      iban: "DE89370400440532013000",
+      swiftCode: "DEUTDEFF",
+      bankAddress: "Taunusanlage 12, Frankfurt",
+      bankCountry: "DE",
+    }),
+    example({
+      transferType: "domestic",
+      recipientName: "John Doe",
+      amount: "480.00",
+      currency: DOMESTIC_CURRENCY,
+      bankName: "Chase",
+      description: "Payroll",
+      accountNumber: "123456789",
+      routingNumber: "021000021",
+    }),
+  ]);
+}
+
+// Function to write an error report: each row's original values followed by its problems
+export function getBulkTransferErrorReport(rows: { row: BulkTransferRow; errors: string[] }[]): string {
+  return toCsv([
+    ["line", ...BULK_TRANSFER_COLUMNS.map((column) => column.header), "errors"],
+    ...rows.map(({ row, errors }) => [
+      String(row.line),
+      ...BULK_TRANSFER_COLUMNS.map((column) => row.values[column.field]),
+      errors.join(" "),
+    ]),
+  ]);
+}
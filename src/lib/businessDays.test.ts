@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  fromIsoDate,
+  getCutOffs,
+  getEarliestExecutionDate,
+  getMissingCalendarWarning,
+  nextBusinessDay,
+  toIsoDate,
+} from "@/lib/businessDays";
+
+// Run as if the browser were in another time zone from the payment systems
+let browserTimeZone: string | undefined;
+beforeEach(() => {
+  browserTimeZone = process.env.TZ;
+});
+afterEach(() => {
+  process.env.TZ = browserTimeZone;
+});
+
+describe("nextBusinessDay", () => {
+  it("skips weekends and holidays of every currency", () => {
+    expect(toIsoDate(nextBusinessDay(fromIsoDate("2026-10-24"), ["USD"]))).toBe("2026-10-26");
+    expect(toIsoDate(nextBusinessDay(fromIsoDate("2026-12-25"), ["USD", "EUR"]))).toBe("2026-12-28");
+  });
+});
+
+describe("getEarliestExecutionDate", () => {
+  it("uses the payment system's day when the browser is already on the next one", () => {
+    process.env.TZ = "Asia/Tokyo";
+    // Wednesday 06:00 in Tokyo, Tuesday 17:00 in New York: past Tuesday's cut-off, so Wednesday
+    const now = new Date("2026-10-20T21:00:00Z");
+    expect(getCutOffs(["USD"], now)[0].passed).toBe(true);
+    expect(toIsoDate(getEarliestExecutionDate(["USD"], now))).toBe("2026-10-21");
+  });
+
+  it("uses the payment system's day when it is already on the next one", () => {
+    process.env.TZ = "America/Los_Angeles";
+    // Tuesday 16:30 in Los Angeles, Wednesday 01:30 in Frankfurt: before Wednesday's cut-off
+    const now = new Date("2026-10-20T23:30:00Z");
+    expect(getCutOffs(["EUR"], now)[0].passed).toBe(false);
+    expect(toIsoDate(getEarliestExecutionDate(["EUR"], now))).toBe("2026-10-21");
+  });
+
+  it("is today before every cut-off and the next business day after one", () => {
+    process.env.TZ = "America/New_York";
+    expect(toIsoDate(getEarliestExecutionDate(["USD", "EUR"], new Date("2026-10-23T12:00:00Z")))).toBe("2026-10-23");
+    expect(toIsoDate(getEarliestExecutionDate(["USD", "EUR"], new Date("2026-10-23T15:00:00Z")))).toBe("2026-10-26");
+  });
+});
+
+describe("getMissingCalendarWarning", () => {
+  it("warns about currencies without a holiday calendar", () => {
+    expect(getMissingCalendarWarning(["USD", "EUR", "GBP"])).toBeUndefined();
+    expect(getMissingCalendarWarning(["USD", "JPY"])).toBe(
+      "Public holidays and cut-off times for JPY payments aren't known, so the transfer may be sent a day or more later than shown.",
+    );
+  });
+});
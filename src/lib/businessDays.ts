@@ -0,0 +1,147 @@
+// Business-day and cut-off rules for transfer execution dates, using the bundled holiday calendars
+import { addDays, format, isWeekend, parseISO, startOfDay } from "date-fns";
+import { HOLIDAY_CALENDARS, HolidayCalendar } from "@/data/bankHolidays";
+
+// How far ahead a transfer can be scheduled
+export const MAX_SCHEDULE_DAYS = 365;
+
+export interface CutOff {
+  currency: string;
+  // Local cut-off time in the payment system's time zone, e.g. "4:00 PM New York time"
+  label: string;
+  passed: boolean;
+}
+
+// Function to format a date as an ISO date (yyyy-MM-dd) in the browser's time zone
+export function toIsoDate(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+// Function to parse an ISO date (yyyy-MM-dd) as midnight in the browser's time zone
+export function fromIsoDate(isoDate: string): Date {
+  return startOfDay(parseISO(isoDate));
+}
+
+// Function to explain why payments can't be executed on a date in any of the currencies, if they can't
+export function getNonBusinessDayReason(date: Date, currencies: string[]): string | undefined {
+  if (isWeekend(date)) {
+    return "Payments aren't executed at weekends.";
+  }
+  const isoDate = toIsoDate(date);
+  for (const currency of currencies) {
+    const calendar = HOLIDAY_CALENDARS[currency];
+    const holiday = calendar?.holidays[isoDate];
+    if (holiday) {
+      return `${calendar.system} (${currency}) is closed for ${holiday}.`;
+    }
+  }
+  return undefined;
+}
+
+// Function to explain that some currencies' holidays and cut-offs aren't known, when the bundled
+// calendars don't cover them; only weekends are checked for those currencies
+export function getMissingCalendarWarning(currencies: string[]): string | undefined {
+  const missing = [...new Set(currencies)].filter((currency) => !HOLIDAY_CALENDARS[currency]);
+  if (missing.length === 0) {
+    return undefined;
+  }
+  const list = missing.join(" and ");
+  return `Public holidays and cut-off times for ${list} payments aren't known, so the transfer may be sent a day or more later than shown.`;
+}
+
+export function isBusinessDay(date: Date, currencies: string[]): boolean {
+  return !getNonBusinessDayReason(date, currencies);
+}
+
+// Function to get the first business day on or after a date
+export function nextBusinessDay(date: Date, currencies: string[]): Date {
+  let day = startOfDay(date);
+  while (!isBusinessDay(day, currencies)) {
+    day = addDays(day, 1);
+  }
+  return day;
+}
+
+// Parts of `now` as they read on a clock in a time zone
+function partsInTimeZone(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((item) => item.type === type)?.value ?? "0";
+  return {
+    isoDate: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// Function to check whether a payment system's cut-off has passed on its own day
+function isPastCutOff(calendar: HolidayCalendar, now: Date): boolean {
+  const [hours, minutes] = calendar.cutOffTime.split(":").map(Number);
+  return partsInTimeZone(now, calendar.timeZone).minutes >= hours * 60 + minutes;
+}
+
+// Function to get today's cut-off of each currency's payment system that has a calendar
+export function getCutOffs(currencies: string[], now: Date = new Date()): CutOff[] {
+  return currencies.flatMap((currency) => {
+    const calendar = HOLIDAY_CALENDARS[currency];
+    if (!calendar) {
+      return [];
+    }
+    const [hours, minutes] = calendar.cutOffTime.split(":").map(Number);
+    const city = calendar.timeZone.split("/").pop().replace(/_/g, " ");
+    return [{
+      currency,
+      label: `${format(new Date(2000, 0, 1, hours, minutes), "h:mm a")} ${city} time`,
+      passed: isPastCutOff(calendar, now),
+    }];
+  });
+}
+
+// Function to get the earliest date a transfer sent now can be executed. Each payment system's day and
+// cut-off are read in its own time zone, so a system that is past its cut-off, or already on tomorrow,
+// can't take the transfer before tomorrow. The date is never before the browser's today, and is moved
+// on to the first day every payment system is open.
+export function getEarliestExecutionDate(currencies: string[], now: Date = new Date()): Date {
+  let earliest = startOfDay(now);
+  currencies.forEach((currency) => {
+    const calendar = HOLIDAY_CALENDARS[currency];
+    if (!calendar) {
+      return;
+    }
+    const localToday = fromIsoDate(partsInTimeZone(now, calendar.timeZone).isoDate);
+    const start = isPastCutOff(calendar, now) ? addDays(localToday, 1) : localToday;
+    if (start > earliest) {
+      earliest = start;
+    }
+  });
+  return nextBusinessDay(earliest, currencies);
+}
+
+// Function to get the date a transfer will actually be executed on: the chosen date, or the earliest
+// possible date when none was chosen or the chosen day's cut-off has passed
+export function getEffectiveExecutionDate(
+  executionDate: Date | undefined,
+  currencies: string[],
+  now: Date = new Date(),
+): Date {
+  const earliest = getEarliestExecutionDate(currencies, now);
+  return executionDate && executionDate > earliest ? startOfDay(executionDate) : earliest;
+}
+
+// Function to check an execution date; returns an error message when transfers can't be executed on it
+export function validateExecutionDate(date: Date, currencies: string[], now: Date = new Date()): string | undefined {
+  const today = startOfDay(now);
+  if (date < today) {
+    return "The execution date can't be in the past.";
+  }
+  if (date > addDays(today, MAX_SCHEDULE_DAYS)) {
+    return `Transfers can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead.`;
+  }
+  return getNonBusinessDayReason(date, currencies);
+}
@@ -0,0 +1,45 @@
+// The SWIFT X character set, used by FIN messages and, as the "Latin character set", by SEPA payment files
+
+// Every character allowed by the set, apart from line breaks
+const SWIFT_X_CHARACTER = /[A-Za-z0-9/\-?:().,'+ ]/;
+
+// Letters that don't decompose into a base letter and an accent
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: "ss",
+  Æ: "AE",
+  æ: "ae",
+  Œ: "OE",
+  œ: "oe",
+  Ø: "O",
+  ø: "o",
+  Ł: "L",
+  ł: "l",
+  Đ: "D",
+  đ: "d",
+  Þ: "TH",
+  þ: "th",
+  "&": "+",
+  "_": "-",
+  "’": "'",
+  "‘": "'",
+  "–": "-",
+  "—": "-",
+};
+
+// Function to transliterate text into the SWIFT X character set: accents are dropped, a few letters
+// are spelled out, and any other character becomes a space. Runs of whitespace are collapsed.
+export function toSwiftCharacters(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split("")
+    .map((char) => SPECIAL_LETTERS[char] ?? (SWIFT_X_CHARACTER.test(char) ? char : " "))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Function to check that text only uses the SWIFT X character set, returning the first character that doesn't
+export function findInvalidSwiftCharacter(text: string): string | undefined {
+  return text.split("").find((char) => char !== "\r" && char !== "\n" && !SWIFT_X_CHARACTER.test(char));
+}
@@ -0,0 +1,177 @@
+// ISO 4217 active currencies with the number of digits after the decimal separator
+
+export interface Currency {
+  code: string;
+  name: string;
+  minorUnits: number;
+}
+
+const currency = (code: string, name: string, minorUnits = 2): Currency => ({ code, name, minorUnits });
+
+export const CURRENCIES: Currency[] = [
+  currency("AED", "UAE Dirham"),
+  currency("AFN", "Afghani"),
+  currency("ALL", "Lek"),
+  currency("AMD", "Armenian Dram"),
+  currency("ANG", "Netherlands Antillean Guilder"),
+  currency("AOA", "Kwanza"),
+  currency("ARS", "Argentine Peso"),
+  currency("AUD", "Australian Dollar"),
+  currency("AWG", "Aruban Florin"),
+  currency("AZN", "Azerbaijan Manat"),
+  currency("BAM", "Convertible Mark"),
+  currency("BBD", "Barbados Dollar"),
+  currency("BDT", "Taka"),
+  currency("BGN", "Bulgarian Lev"),
+  currency("BHD", "Bahraini Dinar", 3),
+  currency("BIF", "Burundi Franc", 0),
+  currency("BMD", "Bermudian Dollar"),
+  currency("BND", "Brunei Dollar"),
+  currency("BOB", "Boliviano"),
+  currency("BRL", "Brazilian Real"),
+  currency("BSD", "Bahamian Dollar"),
+  currency("BTN", "Ngultrum"),
+  currency("BWP", "Pula"),
+  currency("BYN", "Belarusian Ruble"),
+  currency("BZD", "Belize Dollar"),
+  currency("CAD", "Canadian Dollar"),
+  currency("CDF", "Congolese Franc"),
+  currency("CHF", "Swiss Franc"),
+  currency("CLP", "Chilean Peso", 0),
+  currency("CNY", "Yuan Renminbi"),
+  currency("COP", "Colombian Peso"),
+  currency("CRC", "Costa Rican Colon"),
+  currency("CUP", "Cuban Peso"),
+  currency("CVE", "Cabo Verde Escudo"),
+  currency("CZK", "Czech Koruna"),
+  currency("DJF", "Djibouti Franc", 0),
+  currency("DKK", "Danish Krone"),
+  currency("DOP", "Dominican Peso"),
+  currency("DZD", "Algerian Dinar"),
+  currency("EGP", "Egyptian Pound"),
+  currency("ERN", "Nakfa"),
+  currency("ETB", "Ethiopian Birr"),
+  currency("EUR", "Euro"),
+  currency("FJD", "Fiji Dollar"),
+  currency("FKP", "Falkland Islands Pound"),
+  currency("GBP", "Pound Sterling"),
+  currency("GEL", "Lari"),
+  currency("GHS", "Ghana Cedi"),
+  currency("GIP", "Gibraltar Pound"),
+  currency("GMD", "Dalasi"),
+  currency("GNF", "Guinean Franc", 0),
+  currency("GTQ", "Quetzal"),
+  currency("GYD", "Guyana Dollar"),
+  currency("HKD", "Hong Kong Dollar"),
+  currency("HNL", "Lempira"),
+  currency("HTG", "Gourde"),
+  currency("HUF", "Forint"),
+  currency("IDR", "Rupiah"),
+  currency("ILS", "New Israeli Sheqel"),
+  currency("INR", "Indian Rupee"),
+  currency("IQD", "Iraqi Dinar", 3),
+  currency("IRR", "Iranian Rial"),
+  currency("ISK", "Iceland Krona", 0),
+  currency("JMD", "Jamaican Dollar"),
+  currency("JOD", "Jordanian Dinar", 3),
+  currency("JPY", "Yen", 0),
+  currency("KES", "Kenyan Shilling"),
+  currency("KGS", "Som"),
+  currency("KHR", "Riel"),
+  currency("KMF", "Comorian Franc", 0),
+  currency("KPW", "North Korean Won"),
+  currency("KRW", "Won", 0),
+  currency("KWD", "Kuwaiti Dinar", 3),
+  currency("KYD", "Cayman Islands Dollar"),
+  currency("KZT", "Tenge"),
+  currency("LAK", "Lao Kip"),
+  currency("LBP", "Lebanese Pound"),
+  currency("LKR", "Sri Lanka Rupee"),
+  currency("LRD", "Liberian Dollar"),
+  currency("LSL", "Loti"),
+  currency("LYD", "Libyan Dinar", 3),
+  currency("MAD", "Moroccan Dirham"),
+  currency("MDL", "Moldovan Leu"),
+  currency("MGA", "Malagasy Ariary"),
+  currency("MKD", "Denar"),
+  currency("MMK", "Kyat"),
+  currency("MNT", "Tugrik"),
+  currency("MOP", "Pataca"),
+  currency("MRU", "Ouguiya"),
+  currency("MUR", "Mauritius Rupee"),
+  currency("MVR", "Rufiyaa"),
+  currency("MWK", "Malawi Kwacha"),
+  currency("MXN", "Mexican Peso"),
+  currency("MYR", "Malaysian Ringgit"),
+  currency("MZN", "Mozambique Metical"),
+  currency("NAD", "Namibia Dollar"),
+  currency("NGN", "Naira"),
+  currency("NIO", "Cordoba Oro"),
+  currency("NOK", "Norwegian Krone"),
+  currency("NPR", "Nepalese Rupee"),
+  currency("NZD", "New Zealand Dollar"),
+  currency("OMR", "Rial Omani", 3),
+  currency("PAB", "Balboa"),
+  currency("PEN", "Sol"),
+  currency("PGK", "Kina"),
+  currency("PHP", "Philippine Peso"),
+  currency("PKR", "Pakistan Rupee"),
+  currency("PLN", "Zloty"),
+  currency("PYG", "Guarani", 0),
+  currency("QAR", "Qatari Rial"),
+  currency("RON", "Romanian Leu"),
+  currency("RSD", "Serbian Dinar"),
+  currency("RUB", "Russian Ruble"),
+  currency("RWF", "Rwanda Franc", 0),
+  currency("SAR", "Saudi Riyal"),
+  currency("SBD", "Solomon Islands Dollar"),
+  currency("SCR", "Seychelles Rupee"),
+  currency("SDG", "Sudanese Pound"),
+  currency("SEK", "Swedish Krona"),
+  currency("SGD", "Singapore Dollar"),
+  currency("SHP", "Saint Helena Pound"),
+  currency("SLE", "Leone"),
+  currency("SOS", "Somali Shilling"),
+  currency("SRD", "Surinam Dollar"),
+  currency("SSP", "South Sudanese Pound"),
+  currency("STN", "Dobra"),
+  currency("SVC", "El Salvador Colon"),
+  currency("SYP", "Syrian Pound"),
+  currency("SZL", "Lilangeni"),
+  currency("THB", "Baht"),
+  currency("TJS", "Somoni"),
+  currency("TMT", "Turkmenistan New Manat"),
+  currency("TND", "Tunisian Dinar", 3),
+  currency("TOP", "Pa'anga"),
+  currency("TRY", "Turkish Lira"),
+  currency("TTD", "Trinidad and Tobago Dollar"),
+  currency("TWD", "New Taiwan Dollar"),
+  currency("TZS", "Tanzanian Shilling"),
+  currency("UAH", "Hryvnia"),
+  currency("UGX", "Uganda Shilling", 0),
+  currency("USD", "US Dollar"),
+  currency("UYU", "Peso Uruguayo"),
+  currency("UZS", "Uzbekistan Sum"),
+  currency("VES", "Bolívar Soberano"),
+  currency("VND", "Dong", 0),
+  currency("VUV", "Vatu", 0),
+  currency("WST", "Tala"),
+  currency("XAF", "CFA Franc BEAC", 0),
+  currency("XCD", "East Caribbean Dollar"),
+  currency("XOF", "CFA Franc BCEAO", 0),
+  currency("XPF", "CFP Franc", 0),
+  currency("YER", "Yemeni Rial"),
+  currency("ZAR", "Rand"),
+  currency("ZMW", "Zambian Kwacha"),
+  currency("ZWG", "Zimbabwe Gold"),
+];
+
+const CURRENCIES_BY_CODE: Record<string, Currency> = Object.fromEntries(CURRENCIES.map((entry) => [entry.code, entry]));
+
+export function getCurrency(code: string): Currency | undefined {
+  return CURRENCIES_BY_CODE[code?.toUpperCase()];
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return !!getCurrency(code);
+}
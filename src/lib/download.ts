@@ -0,0 +1,12 @@
+// Function to save generated content, such as a CSV report, as a file in the browser
+export function downloadFile(content: string | Blob, fileName: string, type = "text/csv;charset=utf-8"): void {
+  const blob = typeof content === "string" ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
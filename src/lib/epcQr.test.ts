@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { canCreateEpcQr, createEpcQrPayload, EpcPayment, EpcQrError, getEpcPayment, isCreditorReference, parseEpcQr, parseEpcQrBytes } from "@/lib/epcQr";
+import { decodeQrModules, encodeQrCode } from "@/lib/qrCode";
+import { TransferData } from "@/services/transferService";
+
+const transfer: TransferData = {
+  transferType: "international",
+  recipientName: "Café Zoë GmbH",
+  amount: 123456,
+  currency: "EUR",
+  bankName: "BNP Paribas",
+  iban: "FR14 2004 1010 0505 0001 3M02 606",
+  swiftCode: "bnpafrpp",
+  description: "Invoice 2026-17",
+};
+
+const PAYLOAD = "BCD\n002\n1\nSCT\nBNPAFRPP\nCafé Zoë GmbH\nFR1420041010050500013M02606\nEUR1234.56\n\n\nInvoice 2026-17";
+
+describe("createEpcQrPayload", () => {
+  it("writes a transfer's payment details", () => {
+    expect(createEpcQrPayload(getEpcPayment(transfer))).toBe(PAYLOAD);
+  });
+
+  it("puts creditor references in the structured reference", () => {
+    const payment = getEpcPayment({ ...transfer, description: "rf18 5390 0754 7034" });
+    expect(payment).toMatchObject({ reference: "RF18539007547034", remittance: undefined });
+  });
+
+  it("rejects payments that can't be made by SEPA credit transfer", () => {
+    expect(() => getEpcPayment({ ...transfer, currency: "USD" })).toThrow(EpcQrError);
+    expect(() => createEpcQrPayload({ name: "Jane", iban: "GB82WEST12345698765433" })).toThrow("IBAN: Check digits invalid.");
+    expect(() => createEpcQrPayload({ name: "Jane", iban: "DE33100205000001194700", remittance: "é".repeat(140), information: "x".repeat(70) }))
+      .toThrow(/more than the 331 an EPC QR code can hold/);
+  });
+});
+
+describe("parseEpcQr", () => {
+  it("reads the payment details back", () => {
+    expect(parseEpcQr(PAYLOAD)).toEqual({
+      valid: true,
+      payment: {
+        bic: "BNPAFRPP",
+        name: "Café Zoë GmbH",
+        iban: "FR1420041010050500013M02606",
+        amount: 123456,
+        purpose: undefined,
+        reference: undefined,
+        remittance: "Invoice 2026-17",
+        information: undefined,
+      },
+    });
+  });
+
+  it("accepts Windows line endings and codes without an amount or BIC", () => {
+    const result = parseEpcQr("BCD\r\n002\r\n1\r\nSCT\r\n\r\nJane Doe\r\nDE33100205000001194700\r\n");
+    expect(result).toMatchObject({ valid: true, payment: { name: "Jane Doe", amount: undefined, bic: undefined } });
+  });
+
+  it("explains what's wrong with codes that can't be paid", () => {
+    const withLine = (index: number, value: string) => PAYLOAD.split("\n").map((line, i) => (i === index ? value : line)).join("\n");
+    expect(parseEpcQr("hello")).toMatchObject({ valid: false, error: "This is not an EPC payment code: it should start with \"BCD\"." });
+    expect(parseEpcQr(withLine(3, "INST"))).toMatchObject({ valid: false, error: "Only SEPA credit transfer (SCT) codes can be paid." });
+    expect(parseEpcQr(withLine(7, "USD12.00"))).toMatchObject({ valid: false, error: "The amount \"USD12.00\" must be in euro, e.g. \"EUR12.50\"." });
+    expect(parseEpcQr(withLine(9, "RF18539007547035"))).toMatchObject({ valid: false });
+    expect(parseEpcQr(withLine(6, "US64SVBKUS6S3300958879"))).toMatchObject({ valid: false, error: "IBAN: US is not an IBAN country." });
+  });
+});
+
+describe("isCreditorReference", () => {
+  it("checks the ISO 11649 check digits", () => {
+    expect(isCreditorReference("RF18 5390 0754 7034")).toBe(true);
+    expect(isCreditorReference("RF18539007547035")).toBe(false);
+    expect(isCreditorReference("Invoice 17")).toBe(false);
+  });
+});
+
+describe("canCreateEpcQr", () => {
+  it.each([
+    ["a euro payment to an IBAN", transfer, true],
+    ["a payment in another currency", { ...transfer, currency: "USD" }, false],
+    ["a payment to a local account", { ...transfer, iban: undefined, accountIdentifier: { scheme: "sort_code" as const, sortCode: "200000", accountNumber: "55779911" } }, false],
+    ["a domestic payment", { ...transfer, transferType: "domestic" as const, iban: undefined, accountNumber: "123456789" }, false],
+  ])("checks %s", (_, value, expected) => {
+    expect(canCreateEpcQr(value)).toBe(expected);
+  });
+});
+
+describe("EPC QR round trip", () => {
+  it("reads a transfer back from the QR code made for it", () => {
+    const payment: EpcPayment = getEpcPayment(transfer);
+    const code = encodeQrCode(new TextEncoder().encode(createEpcQrPayload(payment)), "M");
+    expect(parseEpcQrBytes(decodeQrModules(code.modules))).toEqual({ valid: true, payment });
+  });
+
+  it("decodes codes in the character set they name", () => {
+    const latin1 = Uint8Array.from("BCD\n002\n2\nSCT\n\nZoë\nDE33100205000001194700", (character) => character.charCodeAt(0));
+    expect(parseEpcQrBytes(latin1)).toMatchObject({ valid: true, payment: { name: "Zoë" } });
+    const mislabelled = new TextEncoder().encode("BCD\n002\n1\nSCT\n\nZoë\nDE33100205000001194700").map((byte) => (byte === 0xc3 ? 0xff : byte));
+    expect(parseEpcQrBytes(mislabelled)).toEqual({ valid: false, error: "The code's text doesn't match the character set it names." });
+  });
+});
@@ -0,0 +1,231 @@
+// EPC QR codes (EPC069-12): the SEPA credit transfer details suppliers print on invoices, as lines of
+// text in a QR code. Payers scan them to fill in a transfer instead of typing the IBAN and reference.
+import { normalizeBic, validateBic } from "@/lib/bic";
+import { mod97, normalizeIban, SEPA_COUNTRIES, validateIban } from "@/lib/iban";
+import { fromMinorUnits, parseAmount } from "@/lib/money";
+import { TransferData } from "@/services/transferService";
+
+export class EpcQrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EpcQrError";
+  }
+}
+
+export interface EpcPayment {
+  // The beneficiary's bank; optional from version 002 of the guidelines
+  bic?: string;
+  name: string;
+  iban: string;
+  // Amount in euro cents; left out when the payer enters it
+  amount?: number;
+  // ISO 20022 purpose code, e.g. "GDDS" for goods
+  purpose?: string;
+  // Either a structured ISO 11649 creditor reference, e.g. "RF18539007547034", or remittance text
+  reference?: string;
+  remittance?: string;
+  // Note for the payer from the beneficiary, which isn't sent with the payment
+  information?: string;
+}
+
+export type EpcQrParseResult =
+  | { valid: true; payment: EpcPayment }
+  | { valid: false; error: string };
+
+// The most bytes a payload may take, so codes stay small enough to scan from paper
+export const EPC_QR_MAX_BYTES = 331;
+
+// Encodings by the number on the third line of the payload
+const CHARACTER_SETS: Record<string, string> = {
+  "1": "utf-8",
+  "2": "iso-8859-1",
+  "3": "iso-8859-2",
+  "4": "iso-8859-4",
+  "5": "iso-8859-5",
+  "6": "iso-8859-7",
+  "7": "iso-8859-10",
+  "8": "iso-8859-15",
+};
+
+// 999,999,999.99 EUR, the largest amount a code can hold
+const MAX_AMOUNT = 99999999999;
+
+// Function to check an ISO 11649 creditor reference: "RF", two check digits and up to 21 letters and digits
+export function isCreditorReference(input: string): boolean {
+  const reference = input.replace(/\s/g, "").toUpperCase();
+  return /^RF[0-9]{2}[A-Z0-9]{1,21}$/.test(reference) && mod97(reference) === 1;
+}
+
+// Function to read the text of an EPC QR code into payment details
+export function parseEpcQr(text: string): EpcQrParseResult {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).map((line) => line.trim());
+  // Trailing empty lines may be left out, or kept
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const [serviceTag, version, characterSet, identification, bic = "", name = "", iban = "", amount = "", purpose = "", reference = "", remittance = "", information = ""] = lines;
+
+  if (serviceTag !== "BCD") {
+    return { valid: false, error: "This is not an EPC payment code: it should start with \"BCD\"." };
+  }
+  if (version !== "001" && version !== "002") {
+    return { valid: false, error: `Version "${version ?? ""}" of the EPC QR code is not supported.` };
+  }
+  if (!CHARACTER_SETS[characterSet]) {
+    return { valid: false, error: "The character set must be a number from 1 to 8." };
+  }
+  if (identification !== "SCT") {
+    return { valid: false, error: "Only SEPA credit transfer (SCT) codes can be paid." };
+  }
+  if (lines.length > 12) {
+    return { valid: false, error: "The code has more lines than an EPC QR code allows." };
+  }
+
+  if (bic) {
+    const result = validateBic(bic);
+    if (result.valid === false) {
+      return { valid: false, error: `BIC: ${result.error}` };
+    }
+  } else if (version === "001") {
+    return { valid: false, error: "Version 001 codes must include the beneficiary's BIC." };
+  }
+  if (!name) {
+    return { valid: false, error: "The code has no beneficiary name." };
+  }
+  if (name.length > 70) {
+    return { valid: false, error: "The beneficiary name is longer than 70 characters." };
+  }
+  const ibanResult = validateIban(iban);
+  if (ibanResult.valid === false) {
+    return { valid: false, error: `IBAN: ${ibanResult.error}` };
+  }
+  if (!SEPA_COUNTRIES.has(ibanResult.country.code)) {
+    return { valid: false, error: `${ibanResult.country.adjective} IBANs can't receive SEPA credit transfers.` };
+  }
+
+  let amountInCents: number | undefined;
+  if (amount) {
+    const amountResult = amount.startsWith("EUR") ? parseAmount(amount.slice(3), "EUR") : undefined;
+    if (!amountResult) {
+      return { valid: false, error: `The amount "${amount}" must be in euro, e.g. "EUR12.50".` };
+    }
+    if (amountResult.valid === false) {
+      return { valid: false, error: `Amount: ${amountResult.error}` };
+    }
+    if (amountResult.minorUnits > MAX_AMOUNT) {
+      return { valid: false, error: "The amount is more than an EPC QR code can hold." };
+    }
+    amountInCents = amountResult.minorUnits;
+  }
+  if (purpose && !/^[A-Z0-9]{4}$/.test(purpose)) {
+    return { valid: false, error: `The purpose code "${purpose}" must be 4 letters or digits.` };
+  }
+  if (reference && remittance) {
+    return { valid: false, error: "The code has both a structured reference and remittance text, but may only have one." };
+  }
+  if (reference && !isCreditorReference(reference)) {
+    return { valid: false, error: `"${reference}" is not a valid creditor reference.` };
+  }
+  if (remittance.length > 140) {
+    return { valid: false, error: "The remittance text is longer than 140 characters." };
+  }
+  if (information.length > 70) {
+    return { valid: false, error: "The note to the payer is longer than 70 characters." };
+  }
+
+  return {
+    valid: true,
+    payment: {
+      bic: bic ? normalizeBic(bic) : undefined,
+      name,
+      iban: ibanResult.iban,
+      amount: amountInCents,
+      purpose: purpose || undefined,
+      reference: reference ? reference.replace(/\s/g, "").toUpperCase() : undefined,
+      remittance: remittance || undefined,
+      information: information || undefined,
+    },
+  };
+}
+
+// Function to read the raw bytes of a scanned EPC QR code, decoding the text in the character set
+// the code names on its third line
+export function parseEpcQrBytes(bytes: Uint8Array): EpcQrParseResult {
+  // The header lines are ASCII, which every supported character set shares
+  const characterSet = new TextDecoder("iso-8859-1").decode(bytes).split(/\r?\n/)[2]?.trim();
+  let text: string;
+  try {
+    text = new TextDecoder(CHARACTER_SETS[characterSet] ?? "utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return { valid: false, error: "The code's text doesn't match the character set it names." };
+  }
+  return parseEpcQr(text);
+}
+
+// Function to write payment details as the text of an EPC QR code (version 002, UTF-8).
+// Throws EpcQrError when the details can't be paid by SEPA credit transfer or don't fit in a code.
+export function createEpcQrPayload(payment: EpcPayment): string {
+  const lines = [
+    "BCD",
+    "002",
+    "1",
+    "SCT",
+    payment.bic ?? "",
+    payment.name,
+    payment.iban,
+    payment.amount !== undefined ? `EUR${fromMinorUnits(payment.amount, "EUR")}` : "",
+    payment.purpose ?? "",
+    payment.reference ?? "",
+    payment.remittance ?? "",
+    payment.information ?? "",
+  ];
+  while (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const payload = lines.join("\n");
+
+  const result = parseEpcQr(payload);
+  if (result.valid === false) {
+    throw new EpcQrError(result.error);
+  }
+  const size = new TextEncoder().encode(payload).length;
+  if (size > EPC_QR_MAX_BYTES) {
+    throw new EpcQrError(`The details take ${size} bytes, more than the ${EPC_QR_MAX_BYTES} an EPC QR code can hold.`);
+  }
+  return payload;
+}
+
+// Function to get the payment details of a transfer for an EPC QR code, so someone else can pay the
+// same recipient. Descriptions that are creditor references go in the structured reference.
+// Throws EpcQrError for transfers that aren't euro payments to an IBAN.
+export function getEpcPayment(transfer: TransferData): EpcPayment {
+  const currency = transfer.currency ?? "USD";
+  if (currency !== "EUR") {
+    throw new EpcQrError(`EPC QR codes are for euro payments, and this transfer is in ${currency}.`);
+  }
+  const identifier = transfer.accountIdentifier ?? (transfer.iban ? { scheme: "iban" as const, iban: transfer.iban } : undefined);
+  if (identifier?.scheme !== "iban") {
+    throw new EpcQrError("EPC QR codes need the recipient's IBAN, and this transfer was sent with other account details.");
+  }
+
+  const description = transfer.description?.trim() ?? "";
+  const isReference = isCreditorReference(description);
+  return {
+    bic: transfer.swiftCode ? normalizeBic(transfer.swiftCode) : undefined,
+    name: transfer.recipientName.trim().slice(0, 70).trim(),
+    iban: normalizeIban(identifier.iban),
+    amount: transfer.amount,
+    reference: isReference ? description.replace(/\s/g, "").toUpperCase() : undefined,
+    remittance: !isReference && description ? description.slice(0, 140).trim() : undefined,
+  };
+}
+
+// Function to check that an EPC QR code can be made for a transfer: a euro payment to an IBAN whose details fit
+export function canCreateEpcQr(transfer: TransferData): boolean {
+  try {
+    createEpcQrPayload(getEpcPayment(transfer));
+    return true;
+  } catch {
+    return false;
+  }
+}
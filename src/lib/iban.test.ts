@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { formatIban, validateIban } from "@/lib/iban";
+
+describe("validateIban", () => {
+  it("accepts valid IBANs, ignoring spaces and case", () => {
+    const result = validateIban("gb82 west 1234 5698 7654 32");
+    expect(result).toMatchObject({ valid: true, iban: "GB82WEST12345698765432" });
+    expect(result.valid && result.country.code).toBe("GB");
+    expect(validateIban("DE89370400440532013000").valid).toBe(true);
+    expect(validateIban("FR1420041010050500013M02606").valid).toBe(true);
+  });
+
+  it("rejects wrong check digits", () => {
+    expect(validateIban("GB82WEST12345698765433")).toEqual({ valid: false, error: "Check digits invalid." });
+  });
+
+  it("rejects IBANs of the wrong length for their country", () => {
+    expect(validateIban("DE8937040044053201300")).toEqual({ valid: false, error: "German IBANs are 22 characters." });
+  });
+
+  it("rejects account details that don't match the country's format", () => {
+    expect(validateIban("GB82123412345698765432").valid).toBe(false);
+  });
+
+  it("rejects unknown countries, symbols and empty input", () => {
+    expect(validateIban("US64SVBKUS6S3300958879")).toEqual({ valid: false, error: "US is not an IBAN country." });
+    expect(validateIban("GB82-WEST!1234").valid).toBe(false);
+    expect(validateIban("")).toEqual({ valid: false, error: "IBAN is required." });
+  });
+});
+
+describe("formatIban", () => {
+  it("groups an IBAN into blocks of four", () => {
+    expect(formatIban("gb82west12345698765432")).toBe("GB82 WEST 1234 5698 7654 32");
+  });
+});
@@ -0,0 +1,198 @@
+// IBAN validation based on ISO 13616 and the SWIFT IBAN registry
+
+export interface IbanCountry {
+  code: string;
+  name: string;
+  // Adjective used in error messages, e.g. "German IBANs are 22 characters"
+  adjective: string;
+  length: number;
+  // BBAN structure in registry notation: n = digits, a = upper-case letters, c = alphanumeric
+  bban: string;
+}
+
+export type IbanValidationResult =
+  | { valid: true; iban: string; country: IbanCountry }
+  | { valid: false; error: string };
+
+// Every country in the SWIFT IBAN registry, keyed by ISO 3166 alpha-2 code
+export const IBAN_COUNTRIES: Record<string, IbanCountry> = {
+  AD: { code: "AD", name: "Andorra", adjective: "Andorran", length: 24, bban: "4n,4n,12c" },
+  AE: { code: "AE", name: "United Arab Emirates", adjective: "Emirati", length: 23, bban: "3n,16n" },
+  AL: { code: "AL", name: "Albania", adjective: "Albanian", length: 28, bban: "8n,16c" },
+  AT: { code: "AT", name: "Austria", adjective: "Austrian", length: 20, bban: "5n,11n" },
+  AZ: { code: "AZ", name: "Azerbaijan", adjective: "Azerbaijani", length: 28, bban: "4a,20c" },
+  BA: { code: "BA", name: "Bosnia and Herzegovina", adjective: "Bosnian", length: 20, bban: "3n,3n,8n,2n" },
+  BE: { code: "BE", name: "Belgium", adjective: "Belgian", length: 16, bban: "3n,7n,2n" },
+  BG: { code: "BG", name: "Bulgaria", adjective: "Bulgarian", length: 22, bban: "4a,4n,2n,8c" },
+  BH: { code: "BH", name: "Bahrain", adjective: "Bahraini", length: 22, bban: "4a,14c" },
+  BI: { code: "BI", name: "Burundi", adjective: "Burundian", length: 27, bban: "5n,5n,11n,2n" },
+  BR: { code: "BR", name: "Brazil", adjective: "Brazilian", length: 29, bban: "8n,5n,10n,1a,1c" },
+  BY: { code: "BY", name: "Belarus", adjective: "Belarusian", length: 28, bban: "4c,4n,16c" },
+  CH: { code: "CH", name: "Switzerland", adjective: "Swiss", length: 21, bban: "5n,12c" },
+  CR: { code: "CR", name: "Costa Rica", adjective: "Costa Rican", length: 22, bban: "4n,14n" },
+  CY: { code: "CY", name: "Cyprus", adjective: "Cypriot", length: 28, bban: "3n,5n,16c" },
+  CZ: { code: "CZ", name: "Czech Republic", adjective: "Czech", length: 24, bban: "4n,6n,10n" },
+  DE: { code: "DE", name: "Germany", adjective: "German", length: 22, bban: "8n,10n" },
+  DJ: { code: "DJ", name: "Djibouti", adjective: "Djiboutian", length: 27, bban: "5n,5n,11n,2n" },
+  DK: { code: "DK", name: "Denmark", adjective: "Danish", length: 18, bban: "4n,9n,1n" },
+  DO: { code: "DO", name: "Dominican Republic", adjective: "Dominican", length: 28, bban: "4c,20n" },
+  EE: { code: "EE", name: "Estonia", adjective: "Estonian", length: 20, bban: "2n,2n,11n,1n" },
+  EG: { code: "EG", name: "Egypt", adjective: "Egyptian", length: 29, bban: "4n,4n,17n" },
+  ES: { code: "ES", name: "Spain", adjective: "Spanish", length: 24, bban: "4n,4n,1n,1n,10n" },
+  FI: { code: "FI", name: "Finland", adjective: "Finnish", length: 18, bban: "3n,11n" },
+  FK: { code: "FK", name: "Falkland Islands", adjective: "Falkland Islands", length: 18, bban: "2a,12n" },
+  FO: { code: "FO", name: "Faroe Islands", adjective: "Faroese", length: 18, bban: "4n,9n,1n" },
+  FR: { code: "FR", name: "France", adjective: "French", length: 27, bban: "5n,5n,11c,2n" },
+  GB: { code: "GB", name: "United Kingdom", adjective: "British", length: 22, bban: "4a,6n,8n" },
+  GE: { code: "GE", name: "Georgia", adjective: "Georgian", length: 22, bban: "2a,16n" },
+  GI: { code: "GI", name: "Gibraltar", adjective: "Gibraltar", length: 23, bban: "4a,15c" },
+  GL: { code: "GL", name: "Greenland", adjective: "Greenlandic", length: 18, bban: "4n,9n,1n" },
+  GR: { code: "GR", name: "Greece", adjective: "Greek", length: 27, bban: "3n,4n,16c" },
+  GT: { code: "GT", name: "Guatemala", adjective: "Guatemalan", length: 28, bban: "4c,20c" },
+  HR: { code: "HR", name: "Croatia", adjective: "Croatian", length: 21, bban: "7n,10n" },
+  HU: { code: "HU", name: "Hungary", adjective: "Hungarian", length: 28, bban: "3n,4n,1n,15n,1n" },
+  IE: { code: "IE", name: "Ireland", adjective: "Irish", length: 22, bban: "4a,6n,8n" },
+  IL: { code: "IL", name: "Israel", adjective: "Israeli", length: 23, bban: "3n,3n,13n" },
+  IQ: { code: "IQ", name: "Iraq", adjective: "Iraqi", length: 23, bban: "4a,3n,12n" },
+  IS: { code: "IS", name: "Iceland", adjective: "Icelandic", length: 26, bban: "4n,2n,6n,10n" },
+  IT: { code: "IT", name: "Italy", adjective: "Italian", length: 27, bban: "1a,5n,5n,12c" },
+  JO: { code: "JO", name: "Jordan", adjective: "Jordanian", length: 30, bban: "4a,4n,18c" },
+  KW: { code: "KW", name: "Kuwait", adjective: "Kuwaiti", length: 30, bban: "4a,22c" },
+  KZ: { code: "KZ", name: "Kazakhstan", adjective: "Kazakh", length: 20, bban: "3n,13c" },
+  LB: { code: "LB", name: "Lebanon", adjective: "Lebanese", length: 28, bban: "4n,20c" },
+  LC: { code: "LC", name: "Saint Lucia", adjective: "Saint Lucian", length: 32, bban: "4a,24c" },
+  LI: { code: "LI", name: "Liechtenstein", adjective: "Liechtenstein", length: 21, bban: "5n,12c" },
+  LT: { code: "LT", name: "Lithuania", adjective: "Lithuanian", length: 20, bban: "5n,11n" },
+  LU: { code: "LU", name: "Luxembourg", adjective: "Luxembourgish", length: 20, bban: "3n,13c" },
+  LV: { code: "LV", name: "Latvia", adjective: "Latvian", length: 21, bban: "4a,13c" },
+  LY: { code: "LY", name: "Libya", adjective: "Libyan", length: 25, bban: "3n,3n,15n" },
+  MC: { code: "MC", name: "Monaco", adjective: "Monegasque", length: 27, bban: "5n,5n,11c,2n" },
+  MD: { code: "MD", name: "Moldova", adjective: "Moldovan", length: 24, bban: "2c,18c" },
+  ME: { code: "ME", name: "Montenegro", adjective: "Montenegrin", length: 22, bban: "3n,13n,2n" },
+  MK: { code: "MK", name: "North Macedonia", adjective: "Macedonian", length: 19, bban: "3n,10c,2n" },
+  MN: { code: "MN", name: "Mongolia", adjective: "Mongolian", length: 20, bban: "4n,12n" },
+  MR: { code: "MR", name: "Mauritania", adjective: "Mauritanian", length: 27, bban: "5n,5n,11n,2n" },
+  MT: { code: "MT", name: "Malta", adjective: "Maltese", length: 31, bban: "4a,5n,18c" },
+  MU: { code: "MU", name: "Mauritius", adjective: "Mauritian", length: 30, bban: "4a,2n,2n,12n,3n,3a" },
+  NI: { code: "NI", name: "Nicaragua", adjective: "Nicaraguan", length: 28, bban: "4a,20n" },
+  NL: { code: "NL", name: "Netherlands", adjective: "Dutch", length: 18, bban: "4a,10n" },
+  NO: { code: "NO", name: "Norway", adjective: "Norwegian", length: 15, bban: "4n,6n,1n" },
+  OM: { code: "OM", name: "Oman", adjective: "Omani", length: 23, bban: "3n,16c" },
+  PK: { code: "PK", name: "Pakistan", adjective: "Pakistani", length: 24, bban: "4a,16c" },
+  PL: { code: "PL", name: "Poland", adjective: "Polish", length: 28, bban: "8n,16n" },
+  PS: { code: "PS", name: "Palestine", adjective: "Palestinian", length: 29, bban: "4a,21c" },
+  PT: { code: "PT", name: "Portugal", adjective: "Portuguese", length: 25, bban: "4n,4n,11n,2n" },
+  QA: { code: "QA", name: "Qatar", adjective: "Qatari", length: 29, bban: "4a,21c" },
+  RO: { code: "RO", name: "Romania", adjective: "Romanian", length: 24, bban: "4a,16c" },
+  RS: { code: "RS", name: "Serbia", adjective: "Serbian", length: 22, bban: "3n,13n,2n" },
+  RU: { code: "RU", name: "Russia", adjective: "Russian", length: 33, bban: "9n,5n,15c" },
+  SA: { code: "SA", name: "Saudi Arabia", adjective: "Saudi", length: 24, bban: "2n,18c" },
+  SC: { code: "SC", name: "Seychelles", adjective: "Seychellois", length: 31, bban: "4a,2n,2n,16n,3a" },
+  SD: { code: "SD", name: "Sudan", adjective: "Sudanese", length: 18, bban: "2n,12n" },
+  SE: { code: "SE", name: "Sweden", adjective: "Swedish", length: 24, bban: "3n,16n,1n" },
+  SI: { code: "SI", name: "Slovenia", adjective: "Slovenian", length: 19, bban: "5n,8n,2n" },
+  SK: { code: "SK", name: "Slovakia", adjective: "Slovak", length: 24, bban: "4n,6n,10n" },
+  SM: { code: "SM", name: "San Marino", adjective: "Sammarinese", length: 27, bban: "1a,5n,5n,12c" },
+  SO: { code: "SO", name: "Somalia", adjective: "Somali", length: 23, bban: "4n,3n,12n" },
+  ST: { code: "ST", name: "São Tomé and Príncipe", adjective: "São Tomé", length: 25, bban: "4n,4n,11n,2n" },
+  SV: { code: "SV", name: "El Salvador", adjective: "Salvadoran", length: 28, bban: "4a,20n" },
+  TL: { code: "TL", name: "Timor-Leste", adjective: "Timorese", length: 23, bban: "3n,14n,2n" },
+  TN: { code: "TN", name: "Tunisia", adjective: "Tunisian", length: 24, bban: "2n,3n,13n,2n" },
+  TR: { code: "TR", name: "Turkey", adjective: "Turkish", length: 26, bban: "5n,1n,16c" },
+  UA: { code: "UA", name: "Ukraine", adjective: "Ukrainian", length: 29, bban: "6n,19c" },
+  VA: { code: "VA", name: "Vatican City", adjective: "Vatican", length: 22, bban: "3n,15n" },
+  VG: { code: "VG", name: "British Virgin Islands", adjective: "British Virgin Islands", length: 24, bban: "4a,16n" },
+  XK: { code: "XK", name: "Kosovo", adjective: "Kosovan", length: 20, bban: "4n,10n,2n" },
+  YE: { code: "YE", name: "Yemen", adjective: "Yemeni", length: 30, bban: "4a,4n,18c" },
+};
+
+const BBAN_CHARACTER_CLASSES: Record<string, string> = {
+  n: "[0-9]",
+  a: "[A-Z]",
+  c: "[A-Z0-9]",
+};
+
+const bbanPatternCache: Record<string, RegExp> = {};
+
+// Turn a registry structure such as "4a,6n,8n" into an anchored regular expression
+function getBbanPattern(country: IbanCountry): RegExp {
+  if (!bbanPatternCache[country.code]) {
+    const source = country.bban
+      .split(",")
+      .map((part) => {
+        const count = part.slice(0, -1);
+        const type = part.slice(-1);
+        return `${BBAN_CHARACTER_CLASSES[type]}{${count}}`;
+      })
+      .join("");
+    bbanPatternCache[country.code] = new RegExp(`^${source}$`);
+  }
+  return bbanPatternCache[country.code];
+}
+
+// Countries in the SEPA scheme: the IBAN countries of the EEA, the UK, Switzerland and a few others
+export const SEPA_COUNTRIES = new Set([
+  "AD", "AT", "BE", "BG", "CH", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GB", "GI", "GR", "HR", "HU",
+  "IE", "IS", "IT", "LI", "LT", "LU", "LV", "MC", "MT", "NL", "NO", "PL", "PT", "RO", "SE", "SI", "SK", "SM", "VA",
+]);
+
+// Strip whitespace and separators and upper-case the input
+export function normalizeIban(input: string): string {
+  return input.replace(/[\s-]/g, "").toUpperCase();
+}
+
+// Group an IBAN into blocks of four characters for display
+export function formatIban(input: string): string {
+  return normalizeIban(input).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+export function getIbanCountry(input: string): IbanCountry | undefined {
+  return IBAN_COUNTRIES[normalizeIban(input).slice(0, 2)];
+}
+
+// ISO 7064 mod 97-10 over the rearranged IBAN, processed in chunks to stay within safe integers.
+// ISO 11649 creditor references ("RF" and two check digits) are checked the same way.
+export function mod97(iban: string): number {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (char) => (char.charCodeAt(0) - 55).toString());
+
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(remainder.toString() + digits.slice(i, i + 7)) % 97;
+  }
+  return remainder;
+}
+
+export function validateIban(input: string): IbanValidationResult {
+  const iban = normalizeIban(input);
+
+  if (iban.length === 0) {
+    return { valid: false, error: "IBAN is required." };
+  }
+  if (!/^[A-Z0-9]+$/.test(iban)) {
+    return { valid: false, error: "IBAN may only contain letters and digits." };
+  }
+  if (!/^[A-Z]{2}[0-9]{2}/.test(iban)) {
+    return { valid: false, error: "IBAN must start with a country code and two check digits." };
+  }
+
+  const country = IBAN_COUNTRIES[iban.slice(0, 2)];
+  if (!country) {
+    return { valid: false, error: `${iban.slice(0, 2)} is not an IBAN country.` };
+  }
+  if (iban.length !== country.length) {
+    return { valid: false, error: `${country.adjective} IBANs are ${country.length} characters.` };
+  }
+  if (!getBbanPattern(country).test(iban.slice(4))) {
+    return { valid: false, error: `Account details do not match the ${country.adjective} IBAN format.` };
+  }
+  if (mod97(iban) !== 1) {
+    return { valid: false, error: "Check digits invalid." };
+  }
+
+  return { valid: true, iban, country };
+}
+
+export function isValidIban(input: string): boolean {
+  return validateIban(input).valid;
+}
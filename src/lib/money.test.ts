@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { formatMoney, fromMinorUnits, parseAmount } from "@/lib/money";
+
+describe("parseAmount", () => {
+  it("converts decimal amounts to minor units of the currency", () => {
+    expect(parseAmount("123.45", "USD")).toEqual({ valid: true, minorUnits: 12345 });
+    expect(parseAmount(" 7.5 ", "EUR")).toEqual({ valid: true, minorUnits: 750 });
+    expect(parseAmount(".25", "GBP")).toEqual({ valid: true, minorUnits: 25 });
+    expect(parseAmount("1500", "JPY")).toEqual({ valid: true, minorUnits: 1500 });
+    expect(parseAmount("1.234", "KWD")).toEqual({ valid: true, minorUnits: 1234 });
+  });
+
+  it("rejects more decimals than the currency has", () => {
+    expect(parseAmount("1.005", "USD")).toEqual({ valid: false, error: "USD amounts can have at most 2 decimal places." });
+    expect(parseAmount("100.5", "JPY")).toEqual({ valid: false, error: "JPY amounts cannot have decimals." });
+  });
+
+  it("rejects empty, malformed, zero and oversized amounts", () => {
+    expect(parseAmount("  ", "USD")).toEqual({ valid: false, error: "Amount is required." });
+    expect(parseAmount("1.2.3", "USD")).toEqual({ valid: false, error: "Amount can only contain one decimal point." });
+    expect(parseAmount("1,000", "USD")).toEqual({ valid: false, error: "Amount must be a number." });
+    expect(parseAmount("-5", "USD")).toEqual({ valid: false, error: "Amount must be a number." });
+    expect(parseAmount(".", "USD")).toEqual({ valid: false, error: "Amount must be a number." });
+    expect(parseAmount("0.00", "USD")).toEqual({ valid: false, error: "Amount must be a positive number." });
+    expect(parseAmount("999999999999999999", "USD")).toEqual({ valid: false, error: "Amount is too large." });
+  });
+});
+
+describe("fromMinorUnits", () => {
+  it("writes minor units back as a plain decimal", () => {
+    expect(fromMinorUnits(12345, "USD")).toBe("123.45");
+    expect(fromMinorUnits(5, "EUR")).toBe("0.05");
+    expect(fromMinorUnits(1500, "JPY")).toBe("1500");
+    expect(fromMinorUnits(-1234, "KWD")).toBe("-1.234");
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats amounts with the currency's symbol and decimals", () => {
+    expect(formatMoney(123456, "USD", "en-US")).toBe("$1,234.56");
+    expect(formatMoney(1500, "JPY", "en-US")).toBe("¥1,500");
+  });
+});
@@ -0,0 +1,90 @@
+// Amount handling in integer minor units (cents, pence, fils...) to avoid floating point errors
+import { getCurrency } from "@/lib/currencies";
+
+export type AmountParseResult = { valid: true; minorUnits: number } | { valid: false; error: string };
+
+function getMinorUnitDigits(currencyCode: string): number {
+  return getCurrency(currencyCode)?.minorUnits ?? 2;
+}
+
+// Whether a partially typed amount can still become valid, used to reject keystrokes in amount inputs
+export function isAmountInputAllowed(input: string, currencyCode: string): boolean {
+  const digits = getMinorUnitDigits(currencyCode);
+  const pattern = digits === 0 ? /^[0-9]*$/ : new RegExp(`^[0-9]*(\\.[0-9]{0,${digits}})?$`);
+  return pattern.test(input);
+}
+
+export function parseAmount(input: string, currencyCode: string): AmountParseResult {
+  const value = input.trim();
+  const digits = getMinorUnitDigits(currencyCode);
+
+  if (value.length === 0) {
+    return { valid: false, error: "Amount is required." };
+  }
+  if ((value.match(/\./g) ?? []).length > 1) {
+    return { valid: false, error: "Amount can only contain one decimal point." };
+  }
+  if (!/^[0-9]*\.?[0-9]*$/.test(value) || value === ".") {
+    return { valid: false, error: "Amount must be a number." };
+  }
+
+  const [whole, fraction = ""] = value.split(".");
+  if (fraction.length > digits) {
+    return {
+      valid: false,
+      error: digits === 0
+        ? `${currencyCode} amounts cannot have decimals.`
+        : `${currencyCode} amounts can have at most ${digits} decimal places.`,
+    };
+  }
+
+  const minorUnits = Number(whole || "0") * 10 ** digits + Number(fraction.padEnd(digits, "0") || "0");
+  if (!Number.isSafeInteger(minorUnits)) {
+    return { valid: false, error: "Amount is too large." };
+  }
+  if (minorUnits <= 0) {
+    return { valid: false, error: "Amount must be a positive number." };
+  }
+
+  return { valid: true, minorUnits };
+}
+
+// Function to convert a validated decimal string to minor units, throwing on invalid input
+export function toMinorUnits(amount: string, currencyCode: string): number {
+  const result = parseAmount(amount, currencyCode);
+  if (result.valid === false) {
+    throw new Error(result.error);
+  }
+  return result.minorUnits;
+}
+
+// Function to convert minor units back to a plain decimal string, e.g. 12345 USD -> "123.45"
+export function fromMinorUnits(minorUnits: number, currencyCode: string): string {
+  const digits = getMinorUnitDigits(currencyCode);
+  const sign = minorUnits < 0 ? "-" : "";
+  const absolute = Math.abs(minorUnits).toString().padStart(digits + 1, "0");
+  if (digits === 0) {
+    return sign + absolute;
+  }
+  return `${sign}${absolute.slice(0, -digits)}.${absolute.slice(-digits)}`;
+}
+
+export function getUserLocale(): string {
+  return typeof navigator !== "undefined" && navigator.language ? navigator.language : "en-US";
+}
+
+// Function to format minor units for display with the currency's symbol, grouping and decimals
+export function formatMoney(minorUnits: number, currencyCode: string, locale = getUserLocale()): string {
+  const digits = getMinorUnitDigits(currencyCode);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currencyCode,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(minorUnits / 10 ** digits);
+  } catch {
+    // Unknown currency codes fall back to the plain amount followed by the code
+    return `${fromMinorUnits(minorUnits, currencyCode)} ${currencyCode}`;
+  }
+}
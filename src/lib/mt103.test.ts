@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { canGenerateMt103, generateMt103, Mt103Transfer } from "@/lib/mt103";
+
+const transfer: Mt103Transfer = {
+  id: "TRX1001",
+  transferType: "international",
+  recipientName: "Deutsche Lieferanten GmbH",
+  amount: 105000,
+  currency: "EUR",
+  bankName: "Deutsche Bank",
+  iban: "DE89 3704 0044 0532 0130 00",
+  swiftCode: "DEUTDEFF",
+  executionDate: "2026-10-21",
+};
+
+const getField = (message: ReturnType<typeof generateMt103>, tag: string) =>
+  message.fields.find((field) => field.tag === tag)?.lines;
+
+describe("generateMt103 remittance lines", () => {
+  it.each([
+    ["keeps short text on one line", "Invoice 2026-17", ["Invoice 2026-17"]],
+    [
+      "breaks between words at 35 characters",
+      "Payment for consulting services rendered in September 2026",
+      ["Payment for consulting services", "rendered in September 2026"],
+    ],
+    ["splits words longer than a line", "A".repeat(40), ["A".repeat(35), "AAAAA"]],
+    ["strips a leading colon", ":20:Invoice 17", ["20:Invoice 17"]],
+    ["strips a leading hyphen from a wrapped line", `${"x".repeat(34)} -abc`, ["x".repeat(34), "abc"]],
+    ["strips a leading hyphen from a split word", `${"a".repeat(35)}-b`, ["a".repeat(35), "b"]],
+    ["transliterates into the SWIFT X character set", "Zahlung für Müller & Söhne", ["Zahlung fur Muller + Sohne"]],
+  ])("%s", (_, description, lines) => {
+    expect(getField(generateMt103({ ...transfer, description }), "70")).toEqual(lines);
+  });
+
+  it("keeps at most four lines", () => {
+    const lines = getField(generateMt103({ ...transfer, description: "word ".repeat(40) }), "70");
+    expect(lines).toHaveLength(4);
+    expect(lines.every((line) => line.length <= 35)).toBe(true);
+  });
+
+  it("leaves the field out without a description", () => {
+    expect(getField(generateMt103({ ...transfer, description: "  " }), "70")).toBeUndefined();
+  });
+});
+
+describe("generateMt103 sender's reference", () => {
+  it.each([
+    ["TRX-1001", "TRX-1001"],
+    ["INV 2026 17", "INV202617"],
+    ["/A//B/", "A/B"],
+    ["ABCDEFGHIJKLMNOPQRS", "ABCDEFGHIJKLMNOP"],
+    ["ABCDEFGHIJKLMNO/PQ", "ABCDEFGHIJKLMNO"],
+    ["///", "NONREF"],
+    ["", "NONREF"],
+  ])("writes %j as %s", (reference, expected) => {
+    expect(getField(generateMt103(transfer, { reference }), "20")).toEqual([expected]);
+  });
+
+  it("defaults to the transfer ID", () => {
+    expect(getField(generateMt103(transfer), "20")).toEqual(["TRX1001"]);
+  });
+});
+
+describe("generateMt103 amount", () => {
+  it.each([
+    [105000, "EUR", "261021EUR1050,00"],
+    [5, "USD", "261021USD0,05"],
+    [1050, "JPY", "261021JPY1050,"],
+    [1234, "BHD", "261021BHD1,234"],
+  ])("writes %i minor units of %s as %s", (amount, currency, expected) => {
+    expect(getField(generateMt103({ ...transfer, amount, currency }), "32A")).toEqual([expected]);
+  });
+});
+
+describe("generateMt103 headers", () => {
+  it.each([
+    ["DEUTDEFF", "{2:I103DEUTDEFFXXXXN}"],
+    ["deutdeff500", "{2:I103DEUTDEFFX500N}"],
+  ])("addresses %s as %s", (swiftCode, header) => {
+    const { text } = generateMt103({ ...transfer, swiftCode });
+    expect(text.startsWith(`{1:F01CHASUS33AXXX0000000000}${header}{4:\r\n:20:TRX1001\r\n`)).toBe(true);
+    expect(text.endsWith("\r\n:71A:SHA\r\n-}")).toBe(true);
+  });
+});
+
+describe("canGenerateMt103", () => {
+  it.each([
+    ["an international transfer", transfer, true],
+    ["a domestic transfer", { ...transfer, transferType: "domestic" as const }, false],
+    ["a transfer without a SWIFT/BIC code", { ...transfer, swiftCode: undefined }, false],
+    ["an account outside the SWIFT character set", { ...transfer, iban: "DE89_3704" }, false],
+  ])("checks %s", (_, value, expected) => {
+    expect(canGenerateMt103(value)).toBe(expected);
+  });
+});
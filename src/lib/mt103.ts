@@ -0,0 +1,207 @@
+// SWIFT MT103 single customer credit transfer messages, for banks that take payment instructions as FIN
+// messages. Text is transliterated into the SWIFT X character set and wrapped to each field's line format.
+import { format } from "date-fns";
+import { ORIGINATOR_ACCOUNT, OriginatorAccount } from "@/data/originatorAccount";
+import { AccountIdentifier } from "@/lib/accountFormats";
+import { fromIsoDate, getEffectiveExecutionDate } from "@/lib/businessDays";
+import { findInvalidSwiftCharacter, toSwiftCharacters } from "@/lib/characterSets";
+import { fromMinorUnits } from "@/lib/money";
+import { getSettlementCurrencies, TransferData } from "@/services/transferService";
+
+// Who pays the charges (field 71A): the ordering customer, both sides, or the beneficiary
+export type Mt103Charges = "OUR" | "SHA" | "BEN";
+
+export const MT103_CHARGES_LABELS: Record<Mt103Charges, string> = {
+  SHA: "Shared: each side pays its own bank",
+  OUR: "We pay all charges",
+  BEN: "Recipient pays all charges",
+};
+
+// A transfer to write; records with an ID use it as the sender's reference
+export type Mt103Transfer = TransferData & { id?: string };
+
+export interface Mt103Options {
+  // Defaults to the transfer ID; at most 16 characters
+  reference?: string;
+  charges?: Mt103Charges;
+  orderingCustomer?: OriginatorAccount;
+  // Used to work out the value date of transfers sent straight away
+  createdAt?: Date;
+}
+
+export interface Mt103Field {
+  tag: string;
+  label: string;
+  lines: string[];
+}
+
+export interface Mt103Message {
+  fields: Mt103Field[];
+  // The whole FIN message: basic and application headers and the text block, with CRLF line breaks
+  text: string;
+}
+
+// Narrative lines are at most 35 characters; account lines start with a slash and hold up to 34
+const LINE_LENGTH = 35;
+const ACCOUNT_LENGTH = 34;
+
+// National clearing codes (//XX prefixes) of local account schemes, used in field 57A
+const CLEARING_CODES: Partial<Record<AccountIdentifier["scheme"], string>> = {
+  aba: "FW",
+  sort_code: "SC",
+  bsb: "AU",
+  ifsc: "IN",
+  ca_transit: "CC",
+};
+
+// Function to wrap text into lines of the SWIFT X character set, breaking between words where possible.
+// Lines can't start with ":" or "-", as those would be read as the next field or the end of the block.
+function wrapText(text: string, maxLines: number, width = LINE_LENGTH): string[] {
+  const lines: string[] = [];
+  let line = "";
+  toSwiftCharacters(text).split(" ").filter(Boolean).forEach((word) => {
+    let rest = line === "" ? word.replace(/^[:-]+/, "") : word;
+    if (line !== "" && line.length + 1 + rest.length <= width) {
+      line = `${line} ${rest}`;
+      return;
+    }
+    if (line !== "") {
+      lines.push(line);
+      rest = rest.replace(/^[:-]+/, "");
+    }
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width).replace(/^[:-]+/, "");
+    }
+    line = rest;
+  });
+  if (line !== "") {
+    lines.push(line);
+  }
+  return lines.slice(0, maxLines);
+}
+
+// Function to make a sender's reference (16x): no spaces, and no slash at either end or two in a row
+function toReference(text: string): string {
+  return toSwiftCharacters(text)
+    .replace(/\s/g, "")
+    .replace(/\/{2,}/g, "/")
+    .replace(/^\/+|\/+$/g, "")
+    .slice(0, 16)
+    .replace(/\/+$/, "");
+}
+
+function accountLine(account: string): string {
+  return `/${account.replace(/\s/g, "").toUpperCase().slice(0, ACCOUNT_LENGTH)}`;
+}
+
+function getAccountIdentifier(transfer: TransferData): AccountIdentifier {
+  return transfer.accountIdentifier ?? { scheme: "iban", iban: transfer.iban ?? "" };
+}
+
+function getBeneficiaryAccount(identifier: AccountIdentifier): string {
+  switch (identifier.scheme) {
+    case "iban":
+      return identifier.iban;
+    case "clabe":
+      return identifier.clabe;
+    default:
+      return identifier.accountNumber;
+  }
+}
+
+function getClearingCode(identifier: AccountIdentifier): string | undefined {
+  const code = CLEARING_CODES[identifier.scheme];
+  const memberId = identifier.scheme === "aba" ? identifier.routingNumber
+    : identifier.scheme === "sort_code" ? identifier.sortCode
+    : identifier.scheme === "bsb" ? identifier.bsb
+    : identifier.scheme === "ifsc" ? identifier.ifsc
+    // Canadian Payments Association routing numbers are 0, the institution and the transit number
+    : identifier.scheme === "ca_transit" ? `0${identifier.institutionNumber}${identifier.transitNumber}`
+    : undefined;
+  return code && memberId ? `//${code}${memberId.replace(/\D/g, "")}` : undefined;
+}
+
+// Function to format an amount for field 32A: a comma as the decimal mark, always present, e.g. 1050,
+function formatAmount(amount: number, currency: string): string {
+  const [whole, fraction = ""] = fromMinorUnits(amount, currency).split(".");
+  return `${whole},${fraction}`;
+}
+
+// Function to turn a BIC into the 12-character logical terminal address of the basic or application header
+function toTerminalAddress(bic: string, terminal: string): string {
+  const normalized = bic.toUpperCase();
+  return `${normalized.slice(0, 8)}${terminal}${normalized.slice(8, 11) || "XXX"}`;
+}
+
+// Function to write an international transfer as an MT103 message
+export function generateMt103(transfer: Mt103Transfer, options: Mt103Options = {}): Mt103Message {
+  if (transfer.transferType !== "international") {
+    throw new Error("MT103 messages can only be created for international transfers.");
+  }
+  if (!transfer.swiftCode) {
+    throw new Error("The recipient's bank needs a SWIFT/BIC code for an MT103 message.");
+  }
+  const customer = options.orderingCustomer ?? ORIGINATOR_ACCOUNT;
+  const currency = transfer.currency ?? "USD";
+  const identifier = getAccountIdentifier(transfer);
+  const valueDate = transfer.executionDate
+    ? fromIsoDate(transfer.executionDate)
+    : getEffectiveExecutionDate(undefined, getSettlementCurrencies(transfer), options.createdAt ?? new Date());
+  const clearingCode = getClearingCode(identifier);
+  const remittance = transfer.description?.trim() ? wrapText(transfer.description, 4) : [];
+
+  const fields: Mt103Field[] = [
+    { tag: "20", label: "Sender's reference", lines: [toReference(options.reference ?? transfer.id ?? "") || "NONREF"] },
+    { tag: "23B", label: "Bank operation code", lines: ["CRED"] },
+    {
+      tag: "32A",
+      label: "Value date, currency and amount",
+      lines: [`${format(valueDate, "yyMMdd")}${currency}${formatAmount(transfer.amount, currency)}`],
+    },
+    {
+      tag: "50K",
+      label: "Ordering customer",
+      lines: [
+        accountLine(customer.iban ?? customer.accountNumber),
+        // Name first, then each address line, four lines at most
+        ...[customer.name, ...customer.addressLines].flatMap((line) => wrapText(line, 4)).slice(0, 4),
+      ],
+    },
+    {
+      tag: "57A",
+      label: "Account with institution",
+      lines: [...(clearingCode ? [clearingCode] : []), transfer.swiftCode.toUpperCase()],
+    },
+    {
+      tag: "59",
+      label: "Beneficiary customer",
+      lines: [accountLine(getBeneficiaryAccount(identifier)), ...wrapText(transfer.recipientName, 4)],
+    },
+    ...(remittance.length > 0 ? [{ tag: "70", label: "Remittance information", lines: remittance }] : []),
+    { tag: "71A", label: "Details of charges", lines: [options.charges ?? "SHA"] },
+  ];
+
+  const invalidCharacter = fields.flatMap((field) => field.lines).map(findInvalidSwiftCharacter).find(Boolean);
+  if (invalidCharacter) {
+    throw new Error(`"${invalidCharacter}" isn't in the SWIFT character set.`);
+  }
+
+  const textBlock = fields.map((field) => `:${field.tag}:${field.lines.join("\r\n")}`).join("\r\n");
+  const text = [
+    `{1:F01${toTerminalAddress(customer.bic, "A")}0000000000}`,
+    `{2:I103${toTerminalAddress(transfer.swiftCode, "X")}N}`,
+    `{4:\r\n${textBlock}\r\n-}`,
+  ].join("");
+  return { fields, text };
+}
+
+// Function to check that an MT103 message can be written for a transfer, so it's only offered when it can
+export function canGenerateMt103(transfer: Mt103Transfer): boolean {
+  try {
+    generateMt103(transfer);
+    return true;
+  } catch {
+    return false;
+  }
+}
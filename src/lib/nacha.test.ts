@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { generateNacha, NachaTransfer, parseNacha } from "@/lib/nacha";
+
+const createdAt = new Date(2026, 9, 19, 10, 15);
+
+const transfers: NachaTransfer[] = [
+  {
+    id: "TRX2001",
+    transferType: "domestic",
+    recipientName: "Acme Supplies",
+    amount: 50075,
+    currency: "USD",
+    bankName: "Bank of America",
+    routingNumber: "026009593",
+    accountNumber: "123456789",
+    description: "Invoice 4471",
+    executionDate: "2026-10-22",
+  },
+  {
+    id: "TRX2002",
+    transferType: "domestic",
+    recipientName: "Jane Doe",
+    amount: 120000,
+    currency: "USD",
+    bankName: "JPMorgan Chase Bank",
+    routingNumber: "021000021",
+    accountNumber: "987654321",
+    executionDate: "2026-10-21",
+  },
+];
+
+describe("generateNacha", () => {
+  it("writes 94-character records in whole blocks of ten", () => {
+    const lines = generateNacha(transfers, { createdAt }).split("\r\n").slice(0, -1);
+    expect(lines.every((line) => line.length === 94)).toBe(true);
+    expect(lines.length % 10).toBe(0);
+    // File header; a batch per date of header, entry, addenda when there is a description, and control; file control
+    expect(lines.map((line) => line[0]).join("").replace(/9+$/, "9")).toBe("156856789");
+  });
+
+  it("rejects transfers ACH can't carry", () => {
+    expect(() => generateNacha([{ ...transfers[0], transferType: "international" }])).toThrow(
+      "TRX2001 is an international transfer; ACH files only hold domestic transfers.",
+    );
+    expect(() => generateNacha([{ ...transfers[0], routingNumber: "026009594" }])).toThrow(/^TRX2001: /);
+    expect(() => generateNacha([])).toThrow("There are no transfers to export.");
+  });
+});
+
+describe("parseNacha", () => {
+  it("reads back the transfers a file was written from", () => {
+    const result = parseNacha(generateNacha(transfers, { createdAt }));
+    expect(result.issues).toEqual([]);
+    // Batches are written in effective date order
+    expect(result.transfers).toEqual([
+      {
+        id: "TRX2002",
+        transferType: "domestic",
+        recipientName: "JANE DOE",
+        amount: 120000,
+        currency: "USD",
+        bankName: "",
+        routingNumber: "021000021",
+        accountNumber: "987654321",
+        executionDate: "2026-10-21",
+      },
+      {
+        id: "TRX2001",
+        transferType: "domestic",
+        recipientName: "ACME SUPPLIES",
+        amount: 50075,
+        currency: "USD",
+        bankName: "",
+        routingNumber: "026009593",
+        accountNumber: "123456789",
+        description: "Invoice 4471",
+        executionDate: "2026-10-22",
+      },
+    ]);
+  });
+
+  it("reports control totals that don't match the entries", () => {
+    const lines = generateNacha([transfers[1]], { createdAt }).split("\r\n");
+    const entry = lines.findIndex((line) => line.startsWith("6"));
+    lines[entry] = lines[entry].slice(0, 29) + "0000130000" + lines[entry].slice(39);
+    const messages = parseNacha(lines.join("\r\n")).issues.map((issue) => issue.message);
+    expect(messages).toContain("The batch's debit and credit totals don't match its entries.");
+  });
+
+  it("reports files that don't start with a file header", () => {
+    expect(parseNacha("")).toEqual({ transfers: [], issues: [{ line: 0, message: "The file is empty." }] });
+    expect(parseNacha("5".padEnd(94, " ")).issues[0]).toEqual({
+      line: 1,
+      message: "The file must start with a file header (type 1) record.",
+    });
+  });
+});
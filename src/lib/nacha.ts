@@ -0,0 +1,456 @@
+// NACHA ACH files for sending domestic US transfers as ACH credits. A file holds a header, one batch per
+// effective entry date (batch header, entry details with optional addenda, batch control) and a file
+// control record, padded with lines of nines to a whole number of 10-record blocks.
+import { format } from "date-fns";
+import { ORIGINATOR_ACCOUNT, OriginatorAccount } from "@/data/originatorAccount";
+import { normalizeAccountNumber, normalizeRoutingNumber, validateAccountNumber, validateRoutingNumber } from "@/lib/aba";
+import { fromIsoDate, getEffectiveExecutionDate, toIsoDate } from "@/lib/businessDays";
+import { toSwiftCharacters } from "@/lib/characterSets";
+import { getSettlementCurrencies, TransferData } from "@/services/transferService";
+
+// Standard entry class: PPD for payments to consumer accounts, CCD for payments to business accounts
+export type NachaSecCode = "PPD" | "CCD";
+
+export const NACHA_SEC_CODE_LABELS: Record<NachaSecCode, string> = {
+  PPD: "Consumer accounts (PPD)",
+  CCD: "Business accounts (CCD)",
+};
+
+// A transfer to write; records with an ID use it as the entry's identification number
+export type NachaTransfer = TransferData & { id?: string };
+
+export interface NachaOptions {
+  // ACH company identification, 10 characters; defaults to the originator account's
+  companyId?: string;
+  companyName?: string;
+  // Date the entries should settle; defaults to each transfer's execution date or the next business day
+  effectiveDate?: Date;
+  secCode?: NachaSecCode;
+  // Shown on the recipient's statement, at most 10 characters
+  entryDescription?: string;
+  originator?: OriginatorAccount;
+  createdAt?: Date;
+}
+
+export interface NachaIssue {
+  // 1-based line of the file, or 0 for problems with the file as a whole
+  line: number;
+  message: string;
+}
+
+export interface NachaParseResult {
+  transfers: NachaTransfer[];
+  issues: NachaIssue[];
+}
+
+const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+// Service class 220: the batch holds credits only
+const CREDITS_ONLY = "220";
+// Transaction codes of credits to checking and savings accounts
+const CHECKING_CREDIT = "22";
+const SAVINGS_CREDIT = "32";
+const MAX_ENTRY_AMOUNT = 99_999_999_99;
+const ENTRY_HASH_MODULUS = BigInt(10_000_000_000);
+
+// Function to fill an alphanumeric field: upper-case text, left justified and padded with spaces
+function alpha(text: string, length: number): string {
+  return toSwiftCharacters(text).toUpperCase().slice(0, length).padEnd(length, " ");
+}
+
+// Function to fill a numeric field: right justified and padded with zeros
+function numeric(value: number | bigint | string, length: number): string {
+  const digits = String(value);
+  if (digits.length > length) {
+    throw new Error(`${digits} doesn't fit in a ${length}-digit ACH field.`);
+  }
+  return digits.padStart(length, "0");
+}
+
+function record(fields: string[]): string {
+  const line = fields.join("");
+  if (line.length !== RECORD_LENGTH) {
+    throw new Error(`ACH records must be ${RECORD_LENGTH} characters, not ${line.length}.`);
+  }
+  return line;
+}
+
+// Function to add up the first eight digits of each receiving bank's routing number, keeping the last ten digits
+function entryHash(routingNumbers: string[]): bigint {
+  return routingNumbers.reduce((sum, routingNumber) => sum + BigInt(routingNumber.slice(0, 8)), BigInt(0)) % ENTRY_HASH_MODULUS;
+}
+
+function toYyMmDd(date: Date): string {
+  return format(date, "yyMMdd");
+}
+
+// Function to check a transfer can be sent by ACH, returning its normalised routing and account numbers
+function getAchAccount(transfer: NachaTransfer): { routingNumber: string; accountNumber: string } {
+  const label = transfer.id ?? transfer.recipientName;
+  if (transfer.transferType !== "domestic") {
+    throw new Error(`${label} is an international transfer; ACH files only hold domestic transfers.`);
+  }
+  if ((transfer.currency ?? "USD") !== "USD") {
+    throw new Error(`${label} isn't in US dollars.`);
+  }
+  if (transfer.amount <= 0 || transfer.amount > MAX_ENTRY_AMOUNT) {
+    throw new Error(`${label} is outside the amounts a single ACH entry can carry.`);
+  }
+  const routingNumber = normalizeRoutingNumber(transfer.routingNumber ?? "");
+  const routingResult = validateRoutingNumber(routingNumber);
+  if (routingResult.valid === false) {
+    throw new Error(`${label}: ${routingResult.error}`);
+  }
+  const accountNumber = normalizeAccountNumber(transfer.accountNumber ?? "");
+  const accountResult = validateAccountNumber(accountNumber);
+  if (accountResult.valid === false) {
+    throw new Error(`${label}: ${accountResult.error}`);
+  }
+  return { routingNumber, accountNumber };
+}
+
+// Function to write domestic transfers as a NACHA ACH file of credit entries
+export function generateNacha(transfers: NachaTransfer[], options: NachaOptions = {}): string {
+  if (transfers.length === 0) {
+    throw new Error("There are no transfers to export.");
+  }
+  const now = options.createdAt ?? new Date();
+  const originator = options.originator ?? ORIGINATOR_ACCOUNT;
+  const companyId = alpha(options.companyId ?? originator.achCompanyId, 10);
+  const companyName = alpha(options.companyName ?? originator.name, 16);
+  const secCode = options.secCode ?? "PPD";
+  const entryDescription = alpha(options.entryDescription ?? "PAYMENT", 10);
+  // The originating bank is identified by the first eight digits of its routing number
+  const originatingBank = originator.routingNumber.slice(0, 8);
+
+  // One batch per effective entry date, in date order
+  const batches = new Map<string, { transfer: NachaTransfer; routingNumber: string; accountNumber: string }[]>();
+  transfers.forEach((transfer) => {
+    const account = getAchAccount(transfer);
+    const effectiveDate = options.effectiveDate
+      ? toIsoDate(options.effectiveDate)
+      : transfer.executionDate ?? toIsoDate(getEffectiveExecutionDate(undefined, getSettlementCurrencies(transfer), now));
+    batches.set(effectiveDate, [...(batches.get(effectiveDate) ?? []), { transfer, ...account }]);
+  });
+
+  const lines = [
+    record([
+      "1",
+      "01",
+      ` ${originator.routingNumber}`,
+      ` ${originator.routingNumber}`,
+      toYyMmDd(now),
+      format(now, "HHmm"),
+      "A",
+      "094",
+      numeric(BLOCKING_FACTOR, 2),
+      "1",
+      alpha(originator.bankName, 23),
+      alpha(originator.name, 23),
+      alpha("", 8),
+    ]),
+  ];
+
+  let traceSequence = 0;
+  let fileEntryCount = 0;
+  let fileCredit = 0;
+  const fileRoutingNumbers: string[] = [];
+  const sortedDates = [...batches.keys()].sort();
+  sortedDates.forEach((effectiveDate, index) => {
+    const entries = batches.get(effectiveDate) ?? [];
+    const batchNumber = numeric(index + 1, 7);
+    lines.push(record([
+      "5",
+      CREDITS_ONLY,
+      companyName,
+      alpha("", 20),
+      companyId,
+      secCode,
+      entryDescription,
+      alpha("", 6),
+      toYyMmDd(fromIsoDate(effectiveDate)),
+      alpha("", 3),
+      "1",
+      originatingBank,
+      batchNumber,
+    ]));
+
+    let entryCount = 0;
+    entries.forEach(({ transfer, routingNumber, accountNumber }) => {
+      traceSequence++;
+      const traceNumber = `${originatingBank}${numeric(traceSequence, 7)}`;
+      const addenda = toSwiftCharacters(transfer.description ?? "").slice(0, 80);
+      lines.push(record([
+        "6",
+        CHECKING_CREDIT,
+        routingNumber,
+        alpha(accountNumber, 17),
+        numeric(transfer.amount, 10),
+        alpha(transfer.id ?? "", 15),
+        alpha(transfer.recipientName, 22),
+        alpha("", 2),
+        addenda ? "1" : "0",
+        traceNumber,
+      ]));
+      entryCount++;
+      if (addenda) {
+        lines.push(record(["7", "05", addenda.padEnd(80, " "), numeric(1, 4), traceNumber.slice(-7)]));
+        entryCount++;
+      }
+    });
+
+    const routingNumbers = entries.map((entry) => entry.routingNumber);
+    const credit = entries.reduce((sum, entry) => sum + entry.transfer.amount, 0);
+    lines.push(record([
+      "8",
+      CREDITS_ONLY,
+      numeric(entryCount, 6),
+      numeric(entryHash(routingNumbers), 10),
+      numeric(0, 12),
+      numeric(credit, 12),
+      companyId,
+      alpha("", 19),
+      alpha("", 6),
+      originatingBank,
+      batchNumber,
+    ]));
+    fileEntryCount += entryCount;
+    fileCredit += credit;
+    fileRoutingNumbers.push(...routingNumbers);
+  });
+
+  const blockCount = Math.ceil((lines.length + 1) / BLOCKING_FACTOR);
+  lines.push(record([
+    "9",
+    numeric(sortedDates.length, 6),
+    numeric(blockCount, 6),
+    numeric(fileEntryCount, 8),
+    numeric(entryHash(fileRoutingNumbers), 10),
+    numeric(0, 12),
+    numeric(fileCredit, 12),
+    alpha("", 39),
+  ]));
+  while (lines.length % BLOCKING_FACTOR !== 0) {
+    lines.push("9".repeat(RECORD_LENGTH));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Function to turn a YYMMDD field into an ISO date, or undefined when it isn't a real date
+function parseYyMmDd(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) {
+    return undefined;
+  }
+  const isoDate = `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+  return toIsoDate(fromIsoDate(isoDate)) === isoDate ? isoDate : undefined;
+}
+
+const isNumeric = (value: string) => /^\d+$/.test(value);
+
+interface BatchState {
+  line: number;
+  serviceClass: string;
+  companyId: string;
+  batchNumber: string;
+  effectiveDate?: string;
+  entryCount: number;
+  credit: number;
+  routingNumbers: string[];
+}
+
+// Function to read an ACH file back into transfers, checking record layout, sequence and control totals
+export function parseNacha(text: string): NachaParseResult {
+  const transfers: NachaTransfer[] = [];
+  const issues: NachaIssue[] = [];
+  const lines = text.split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    return { transfers, issues: [{ line: 0, message: "The file is empty." }] };
+  }
+
+  let stage = "start" as "start" | "file" | "batch" | "done";
+  let batch: BatchState | undefined;
+  let lastEntry: { transfer: NachaTransfer; traceNumber: string; addenda: boolean } | undefined;
+  let batchCount = 0;
+  let fileEntryCount = 0;
+  let fileCredit = 0;
+  const fileRoutingNumbers: string[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const issue = (message: string) => issues.push({ line: lineNumber, message });
+    if (line.length !== RECORD_LENGTH) {
+      issue(`Records must be ${RECORD_LENGTH} characters long, but this one is ${line.length}.`);
+      return;
+    }
+    const type = line[0];
+
+    if (stage === "done") {
+      if (line !== "9".repeat(RECORD_LENGTH)) {
+        issue("Only padding records of nines may follow the file control record.");
+      }
+      return;
+    }
+    if (stage === "start") {
+      if (type !== "1") {
+        issue("The file must start with a file header (type 1) record.");
+      } else if (line.slice(34, 37) !== "094" || line.slice(37, 39) !== "10") {
+        issue("The file header must give a record size of 094 and a blocking factor of 10.");
+      }
+      stage = "file";
+      return;
+    }
+
+    switch (type) {
+      case "5": {
+        if (stage === "batch") {
+          issue("A batch header can't appear before the previous batch's control record.");
+        }
+        const effectiveDate = parseYyMmDd(line.slice(69, 75));
+        if (!effectiveDate) {
+          issue("The batch's effective entry date isn't a valid YYMMDD date.");
+        }
+        if (!["PPD", "CCD"].includes(line.slice(50, 53))) {
+          issue(`Standard entry class ${line.slice(50, 53)} isn't supported; use PPD or CCD.`);
+        }
+        batch = {
+          line: lineNumber,
+          serviceClass: line.slice(1, 4),
+          companyId: line.slice(40, 50),
+          batchNumber: line.slice(87, 94),
+          effectiveDate,
+          entryCount: 0,
+          credit: 0,
+          routingNumbers: [],
+        };
+        lastEntry = undefined;
+        stage = "batch";
+        return;
+      }
+      case "6": {
+        if (stage !== "batch" || !batch) {
+          issue("Entry detail records must be inside a batch.");
+          return;
+        }
+        if (lastEntry?.addenda) {
+          issue("The previous entry is missing its addenda record.");
+        }
+        const transactionCode = line.slice(1, 3);
+        const routingNumber = line.slice(3, 12);
+        const amountField = line.slice(29, 39);
+        batch.entryCount++;
+        batch.routingNumbers.push(routingNumber);
+        if (!isNumeric(amountField)) {
+          issue("The entry amount must be numeric.");
+          lastEntry = undefined;
+          return;
+        }
+        batch.credit += Number(amountField);
+        if (transactionCode !== CHECKING_CREDIT && transactionCode !== SAVINGS_CREDIT) {
+          issue(`Transaction code ${transactionCode} isn't a credit to a checking or savings account.`);
+        }
+        const routingResult = validateRoutingNumber(routingNumber);
+        if (routingResult.valid === false) {
+          issue(routingResult.error);
+        }
+        const transfer: NachaTransfer = {
+          id: line.slice(39, 54).trim() || undefined,
+          transferType: "domestic",
+          recipientName: line.slice(54, 76).trim(),
+          amount: Number(amountField),
+          currency: "USD",
+          // ACH entries don't name the receiving bank
+          bankName: "",
+          routingNumber,
+          accountNumber: line.slice(12, 29).trim(),
+          executionDate: batch.effectiveDate,
+        };
+        transfers.push(transfer);
+        lastEntry = { transfer, traceNumber: line.slice(79, 94), addenda: line[78] === "1" };
+        return;
+      }
+      case "7": {
+        if (stage !== "batch" || !batch || !lastEntry?.addenda) {
+          issue("Addenda records must follow an entry that announces one.");
+          return;
+        }
+        batch.entryCount++;
+        if (line.slice(83, 87) !== "0001" || line.slice(87, 94) !== lastEntry.traceNumber.slice(-7)) {
+          issue("The addenda's sequence numbers don't match its entry.");
+        }
+        const description = line.slice(3, 83).trim();
+        if (description) {
+          lastEntry.transfer.description = description;
+        }
+        lastEntry = { ...lastEntry, addenda: false };
+        return;
+      }
+      case "8": {
+        if (stage !== "batch" || !batch) {
+          issue("A batch control record must close a batch.");
+          return;
+        }
+        if (lastEntry?.addenda) {
+          issue("The previous entry is missing its addenda record.");
+        }
+        if (line.slice(1, 4) !== batch.serviceClass) {
+          issue("The batch control's service class doesn't match its header.");
+        }
+        if (Number(line.slice(4, 10)) !== batch.entryCount) {
+          issue(`The batch control counts ${Number(line.slice(4, 10))} entries and addenda, but the batch has ${batch.entryCount}.`);
+        }
+        if (line.slice(10, 20) !== numeric(entryHash(batch.routingNumbers), 10)) {
+          issue("The batch entry hash doesn't match its entries' routing numbers.");
+        }
+        if (Number(line.slice(20, 32)) !== 0 || Number(line.slice(32, 44)) !== batch.credit) {
+          issue("The batch's debit and credit totals don't match its entries.");
+        }
+        if (line.slice(44, 54) !== batch.companyId || line.slice(87, 94) !== batch.batchNumber) {
+          issue(`The batch control doesn't match the batch header on line ${batch.line}.`);
+        }
+        batchCount++;
+        fileEntryCount += batch.entryCount;
+        fileCredit += batch.credit;
+        fileRoutingNumbers.push(...batch.routingNumbers);
+        batch = undefined;
+        lastEntry = undefined;
+        stage = "file";
+        return;
+      }
+      case "9": {
+        if (stage === "batch") {
+          issue("The file control record can't appear inside a batch.");
+        }
+        if (Number(line.slice(1, 7)) !== batchCount) {
+          issue(`The file control counts ${Number(line.slice(1, 7))} batches, but the file has ${batchCount}.`);
+        }
+        if (Number(line.slice(7, 13)) !== Math.ceil(lines.length / BLOCKING_FACTOR)) {
+          issue("The file control's block count doesn't match the length of the file.");
+        }
+        if (Number(line.slice(13, 21)) !== fileEntryCount) {
+          issue(`The file control counts ${Number(line.slice(13, 21))} entries and addenda, but the file has ${fileEntryCount}.`);
+        }
+        if (line.slice(21, 31) !== numeric(entryHash(fileRoutingNumbers), 10)) {
+          issue("The file entry hash doesn't match the entries' routing numbers.");
+        }
+        if (Number(line.slice(31, 43)) !== 0 || Number(line.slice(43, 55)) !== fileCredit) {
+          issue("The file's debit and credit totals don't match its entries.");
+        }
+        stage = "done";
+        return;
+      }
+      default:
+        issue(`Record type ${type} isn't part of an ACH file.`);
+    }
+  });
+
+  if (stage !== "done") {
+    issues.push({ line: 0, message: "The file doesn't end with a file control (type 9) record." });
+  }
+  if (lines.length % BLOCKING_FACTOR !== 0) {
+    issues.push({ line: 0, message: `The file must be padded to a multiple of ${BLOCKING_FACTOR} records.` });
+  }
+  return { transfers, issues };
+}
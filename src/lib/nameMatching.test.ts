@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { compareNames, tokenizeName } from "@/lib/nameMatching";
+
+describe("tokenizeName", () => {
+  it("drops titles, accents and punctuation and folds legal forms", () => {
+    expect(tokenizeName("Dr. Zoë O'Brien")).toEqual(["zoe", "obrien"]);
+    expect(tokenizeName("Smith & Sons Limited")).toEqual(["smith", "sons", "ltd"]);
+  });
+});
+
+describe("compareNames", () => {
+  it.each([
+    ["Jane Smith", "Jane Smith"],
+    ["jane smith", "JANE SMITH"],
+    ["Smith Jane", "Jane Smith"],
+    ["Mrs Jane Smith", "Jane Smith"],
+    ["José Álvarez", "Jose Alvarez"],
+    ["Acme Ltd", "ACME LIMITED"],
+  ])("matches %j with %j", (entered, registered) => {
+    expect(compareNames(entered, registered)).toBe("match");
+  });
+
+  it.each([
+    ["Acme", "Acme Ltd"],
+    ["Acme Inc", "Acme GmbH"],
+    ["J Smith", "Jane Smith"],
+    ["Jane Smith", "Jane Mary Smith"],
+    ["Jane Smyth", "Jane Smith"],
+    ["Smith", "Jane Smith"],
+  ])("closely matches %j with %j", (entered, registered) => {
+    expect(compareNames(entered, registered)).toBe("close_match");
+  });
+
+  it.each([
+    ["John Doe", "Jane Smith"],
+    ["Jane Doe", "Jane Smith"],
+    ["Globex Ltd", "Acme Ltd"],
+    ["Mr", "Jane Smith"],
+    ["", "Jane Smith"],
+  ])("doesn't match %j with %j", (entered, registered) => {
+    expect(compareNames(entered, registered)).toBe("no_match");
+  });
+});
@@ -0,0 +1,119 @@
+// Rules-based comparison of a payee name typed by the customer with the registered account holder name
+
+export type NameMatchResult = "match" | "close_match" | "no_match";
+
+// Words that do not distinguish one account holder from another
+const IGNORED_WORDS = new Set([
+  "mr", "mrs", "ms", "miss", "mx", "dr", "prof", "sir", "herr", "frau", "mme", "mlle",
+  "the", "and", "of",
+]);
+
+// Legal form suffixes, compared as one token so "Acme Ltd" and "Acme Limited" match
+const LEGAL_FORMS: Record<string, string> = {
+  ltd: "ltd",
+  limited: "ltd",
+  plc: "plc",
+  llc: "llc",
+  inc: "inc",
+  incorporated: "inc",
+  corp: "corp",
+  corporation: "corp",
+  co: "co",
+  company: "co",
+  gmbh: "gmbh",
+  ag: "ag",
+  sa: "sa",
+  sarl: "sarl",
+  bv: "bv",
+  nv: "nv",
+  srl: "srl",
+  spa: "spa",
+  oy: "oy",
+  ab: "ab",
+  as: "as",
+  pty: "pty",
+};
+
+const LEGAL_FORM_TOKENS = new Set(Object.values(LEGAL_FORMS));
+
+// Names at or above this similarity, but not equal, are reported as close matches
+const CLOSE_MATCH_THRESHOLD = 0.85;
+
+// Function to split a name into comparable words: lower case, no accents, punctuation or titles
+export function tokenizeName(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.'’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word))
+    .map((word) => LEGAL_FORMS[word] ?? word);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity from 0 to 1 of two strings, by edit distance
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+// Whether every word of `short` matches a word of `long`, allowing initials such as "J" for "Jane"
+function wordsCovered(short: string[], long: string[]): boolean {
+  const remaining = [...long];
+  return short.every((word) => {
+    const index = remaining.findIndex((candidate) =>
+      candidate === word || (word.length === 1 && candidate.startsWith(word)) || (candidate.length === 1 && word.startsWith(candidate)),
+    );
+    if (index === -1) {
+      return false;
+    }
+    remaining.splice(index, 1);
+    return true;
+  });
+}
+
+// Function to compare the name a customer entered with the registered account holder name
+export function compareNames(enteredName: string, registeredName: string): NameMatchResult {
+  const entered = tokenizeName(enteredName);
+  const registered = tokenizeName(registeredName);
+  if (entered.length === 0 || registered.length === 0) {
+    return "no_match";
+  }
+
+  // Same words in any order, e.g. "Smith Jane" for "Jane Smith"
+  const sortedEntered = [...entered].sort().join(" ");
+  const sortedRegistered = [...registered].sort().join(" ");
+  if (sortedEntered === sortedRegistered) {
+    return "match";
+  }
+
+  // A missing or different legal form, e.g. "Acme" for "Acme Ltd"
+  const withoutLegalForm = (words: string[]) => words.filter((word) => !LEGAL_FORM_TOKENS.has(word)).sort().join(" ");
+  if (withoutLegalForm(entered) && withoutLegalForm(entered) === withoutLegalForm(registered)) {
+    return "close_match";
+  }
+
+  // Initials, a missing middle name, or a small typo
+  const [shorter, longer] = entered.length <= registered.length ? [entered, registered] : [registered, entered];
+  const sharesSurname = entered[entered.length - 1] === registered[registered.length - 1];
+  if ((shorter.length > 1 || sharesSurname) && wordsCovered(shorter, longer)) {
+    return "close_match";
+  }
+  if (similarity(sortedEntered, sortedRegistered) >= CLOSE_MATCH_THRESHOLD) {
+    return "close_match";
+  }
+  return "no_match";
+}
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { ORIGINATOR_ACCOUNT } from "@/data/originatorAccount";
+import { generatePain001, Pain001Transfer, validatePain001 } from "@/lib/pain001";
+
+const createdAt = new Date(2026, 9, 19, 10, 15);
+
+const sepaTransfer: Pain001Transfer = {
+  id: "TRX1001",
+  transferType: "international",
+  recipientName: "Café Zoë GmbH",
+  amount: 123456,
+  currency: "EUR",
+  bankName: "BNP Paribas",
+  iban: "FR1420041010050500013M02606",
+  swiftCode: "BNPAFRPP",
+  bankCountry: "FR",
+  description: "Invoice 2026-17",
+  executionDate: "2026-10-21",
+};
+
+const domesticTransfer: Pain001Transfer = {
+  transferType: "domestic",
+  recipientName: "Acme Supplies",
+  amount: 50075,
+  currency: "USD",
+  bankName: "Bank of America",
+  routingNumber: "026009593",
+  accountNumber: "123456789",
+  executionDate: "2026-10-21",
+};
+
+const europeanDebtor = { ...ORIGINATOR_ACCOUNT, iban: "DE89370400440532013000" };
+
+describe("generatePain001", () => {
+  it("writes a file that passes the schema rules, grouped by payment type", () => {
+    const xml = generatePain001([sepaTransfer, domesticTransfer], { createdAt, messageId: "MSG1", debtor: europeanDebtor });
+    expect(validatePain001(xml)).toEqual([]);
+
+    const document = new DOMParser().parseFromString(xml, "application/xml");
+    const text = (name: string) => Array.from(document.getElementsByTagName(name), (element) => element.textContent);
+    expect(text("NbOfTxs")).toEqual(["2", "1", "1"]);
+    expect(text("CtrlSum")).toEqual(["1735.31", "1234.56", "500.75"]);
+    expect(text("ChrgBr")).toEqual(["SLEV", "SHAR"]);
+    expect(text("EndToEndId")).toEqual(["TRX1001", "MSG1-2"]);
+    expect(text("Nm")).toContain("Cafe Zoe GmbH");
+  });
+
+  it("refuses to write an empty file", () => {
+    expect(() => generatePain001([])).toThrow("There are no transfers to export.");
+  });
+});
+
+describe("validatePain001", () => {
+  const xml = generatePain001([sepaTransfer], { createdAt, messageId: "MSG1", debtor: europeanDebtor });
+
+  it("reports control sums that don't add up", () => {
+    const issues = validatePain001(xml.replace("<CtrlSum>1234.56</CtrlSum>", "<CtrlSum>1234.00</CtrlSum>"));
+    expect(issues.map((issue) => issue.message)).toContain("CtrlSum is 1234.00 but the amounts add up to 1234.56.");
+  });
+
+  it("reports SEPA payments with another charge bearer", () => {
+    const issues = validatePain001(xml.replace("<ChrgBr>SLEV</ChrgBr>", "<ChrgBr>SHAR</ChrgBr>"));
+    expect(issues).toContainEqual({
+      path: "/Document/CstmrCdtTrfInitn/PmtInf[1]/ChrgBr",
+      message: "SEPA payments must use the SLEV charge bearer.",
+    });
+  });
+
+  it("reports files that aren't pain.001", () => {
+    expect(validatePain001("<Document/>")[0].path).toBe("/");
+    expect(validatePain001("not xml")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,436 @@
+// ISO 20022 customer credit transfer initiation (pain.001.001.09) files for sending transfers to a bank.
+// Transfers are grouped into one payment information block per execution date and payment type, and
+// files are checked against RULES, which mirror the XSD for the elements written here.
+import { format } from "date-fns";
+import { ORIGINATOR_ACCOUNT, OriginatorAccount } from "@/data/originatorAccount";
+import { AccountIdentifier } from "@/lib/accountFormats";
+import { getEffectiveExecutionDate, toIsoDate } from "@/lib/businessDays";
+import { toSwiftCharacters } from "@/lib/characterSets";
+import { resolveCountryCode } from "@/lib/countries";
+import { SEPA_COUNTRIES } from "@/lib/iban";
+import { fromMinorUnits } from "@/lib/money";
+import { parseXmlDocument, serializeXml, validateXmlElement, XmlElement, xmlElement, XmlElementRule, XmlIssue, XmlSimpleType } from "@/lib/xml";
+import { getAccountCurrency } from "@/services/quoteService";
+import { getSettlementCurrencies, TransferData } from "@/services/transferService";
+
+export const PAIN_001_NAMESPACE = "urn:iso:std:iso:20022:tech:xsd:pain.001.001.09";
+
+// Who pays the charges: debtor, creditor, shared, or as agreed for the payment scheme (SEPA)
+export type ChargeBearer = "DEBT" | "CRED" | "SHAR" | "SLEV";
+
+export const CHARGE_BEARER_LABELS: Record<ChargeBearer, string> = {
+  SHAR: "Shared: each side pays its own bank",
+  DEBT: "We pay all charges",
+  CRED: "Recipient pays all charges",
+  SLEV: "As agreed for the payment scheme",
+};
+
+// A transfer to export; records with an ID use it as the end-to-end ID the bank reports back
+export type Pain001Transfer = TransferData & { id?: string };
+
+export interface Pain001Options {
+  // Defaults to a timestamp-based ID; at most 35 characters
+  messageId?: string;
+  createdAt?: Date;
+  debtor?: OriginatorAccount;
+  // Charge bearer for non-SEPA payments; SEPA payments always use SLEV
+  chargeBearer?: ChargeBearer;
+  // Ask the bank to book each payment information block as one debit
+  batchBooking?: boolean;
+}
+
+// Clearing system codes (ExternalClearingSystemIdentification1Code) of local account schemes
+const CLEARING_SYSTEMS: Partial<Record<AccountIdentifier["scheme"], string>> = {
+  aba: "USABA",
+  sort_code: "GBDSC",
+  bsb: "AUBSB",
+  ifsc: "INFSC",
+  ca_transit: "CACPA",
+};
+
+// Decimal amounts are summed exactly at this many decimal places, the most the schema allows
+const SUM_SCALE = 5;
+
+function toScaled(amount: string): bigint {
+  const [whole, fraction = ""] = amount.split(".");
+  return BigInt(whole + fraction.padEnd(SUM_SCALE, "0"));
+}
+
+// Function to add up decimal amounts exactly, e.g. for control sums across currencies
+function sumAmounts(amounts: string[]): string {
+  const total = amounts.reduce((sum, amount) => sum + toScaled(amount), BigInt(0)).toString().padStart(SUM_SCALE + 1, "0");
+  const fraction = total.slice(-SUM_SCALE).replace(/0+$/, "").padEnd(2, "0");
+  return `${total.slice(0, -SUM_SCALE)}.${fraction}`;
+}
+
+const fitText = (text: string, maxLength: number) => toSwiftCharacters(text).slice(0, maxLength).trim();
+
+function getAccountIdentifier(transfer: TransferData): AccountIdentifier {
+  if (transfer.accountIdentifier) {
+    return transfer.accountIdentifier;
+  }
+  if (transfer.transferType === "domestic") {
+    return { scheme: "aba", routingNumber: transfer.routingNumber ?? "", accountNumber: transfer.accountNumber ?? "" };
+  }
+  return { scheme: "iban", iban: transfer.iban ?? "" };
+}
+
+// SEPA credit transfers are euro payments between IBANs in SEPA countries
+function isSepaPayment(transfer: TransferData, debtor: OriginatorAccount): boolean {
+  const identifier = getAccountIdentifier(transfer);
+  return transfer.currency === "EUR"
+    && identifier.scheme === "iban"
+    && SEPA_COUNTRIES.has(identifier.iban.slice(0, 2))
+    && !!debtor.iban
+    && SEPA_COUNTRIES.has(debtor.iban.slice(0, 2));
+}
+
+function getExecutionDate(transfer: TransferData, now: Date): string {
+  return transfer.executionDate
+    ?? toIsoDate(getEffectiveExecutionDate(undefined, getSettlementCurrencies(transfer), now));
+}
+
+function postalAddress(country: string | undefined, lines: string[]): XmlElement | undefined {
+  const addressLines = lines.map((line) => fitText(line, 70)).filter(Boolean).slice(0, 7);
+  if (!country && addressLines.length === 0) {
+    return undefined;
+  }
+  return xmlElement("PstlAdr", [
+    country ? xmlElement("Ctry", country) : undefined,
+    ...addressLines.map((line) => xmlElement("AdrLine", line)),
+  ]);
+}
+
+function accountId(identifier: { iban?: string; other?: string }): XmlElement {
+  return xmlElement("Id", [
+    identifier.iban
+      ? xmlElement("IBAN", identifier.iban)
+      : xmlElement("Othr", [xmlElement("Id", identifier.other ?? "")]),
+  ]);
+}
+
+function creditorAgent(transfer: TransferData, identifier: AccountIdentifier): XmlElement {
+  const clearingSystem = CLEARING_SYSTEMS[identifier.scheme];
+  const memberId = identifier.scheme === "aba" ? identifier.routingNumber
+    : identifier.scheme === "sort_code" ? identifier.sortCode
+    : identifier.scheme === "bsb" ? identifier.bsb
+    : identifier.scheme === "ifsc" ? identifier.ifsc
+    // Canadian Payments Association routing numbers are 0, the institution and the transit number
+    : identifier.scheme === "ca_transit" ? `0${identifier.institutionNumber}${identifier.transitNumber}`
+    : undefined;
+  const country = resolveCountryCode(transfer.bankCountry ?? "") ?? (transfer.transferType === "domestic" ? "US" : undefined);
+
+  return xmlElement("CdtrAgt", [
+    xmlElement("FinInstnId", [
+      transfer.swiftCode ? xmlElement("BICFI", transfer.swiftCode) : undefined,
+      clearingSystem && memberId
+        ? xmlElement("ClrSysMmbId", [xmlElement("ClrSysId", [xmlElement("Cd", clearingSystem)]), xmlElement("MmbId", memberId)])
+        : undefined,
+      xmlElement("Nm", fitText(transfer.bankName, 140)),
+      postalAddress(country, transfer.bankAddress ? [transfer.bankAddress] : []),
+    ]),
+  ]);
+}
+
+function creditorAccountId(identifier: AccountIdentifier): XmlElement {
+  switch (identifier.scheme) {
+    case "iban":
+      return accountId({ iban: identifier.iban });
+    case "clabe":
+      return accountId({ other: identifier.clabe });
+    default:
+      return accountId({ other: identifier.accountNumber });
+  }
+}
+
+function creditTransfer(transfer: Pain001Transfer, endToEndId: string, sepa: boolean): XmlElement {
+  const identifier = getAccountIdentifier(transfer);
+  const currency = transfer.currency ?? "USD";
+  return xmlElement("CdtTrfTxInf", [
+    xmlElement("PmtId", [xmlElement("InstrId", endToEndId), xmlElement("EndToEndId", endToEndId)]),
+    xmlElement("Amt", [xmlElement("InstdAmt", fromMinorUnits(transfer.amount, currency), { Ccy: currency })]),
+    // SEPA payments name the creditor's bank by IBAN alone
+    sepa && !transfer.swiftCode ? undefined : creditorAgent(transfer, identifier),
+    xmlElement("Cdtr", [xmlElement("Nm", fitText(transfer.recipientName, 140))]),
+    xmlElement("CdtrAcct", [creditorAccountId(identifier)]),
+    transfer.description?.trim()
+      ? xmlElement("RmtInf", [xmlElement("Ustrd", fitText(transfer.description, 140))])
+      : undefined,
+  ]);
+}
+
+// Function to create a message ID from the creation time, e.g. PB20261019T101500123
+function createMessageId(now: Date): string {
+  return `PB${format(now, "yyyyMMdd'T'HHmmssSSS")}`;
+}
+
+// Function to write transfers as a pain.001.001.09 credit transfer initiation file
+export function generatePain001(transfers: Pain001Transfer[], options: Pain001Options = {}): string {
+  if (transfers.length === 0) {
+    throw new Error("There are no transfers to export.");
+  }
+  const now = options.createdAt ?? new Date();
+  const debtor = options.debtor ?? ORIGINATOR_ACCOUNT;
+  const messageId = options.messageId ?? createMessageId(now);
+
+  // One payment information block per execution date and payment type, in date order
+  const groups = new Map<string, { executionDate: string; sepa: boolean; transfers: Pain001Transfer[] }>();
+  transfers.forEach((transfer) => {
+    const executionDate = getExecutionDate(transfer, now);
+    const sepa = isSepaPayment(transfer, debtor);
+    const key = `${executionDate}:${sepa}`;
+    const group = groups.get(key) ?? { executionDate, sepa, transfers: [] };
+    group.transfers.push(transfer);
+    groups.set(key, group);
+  });
+  const sortedGroups = [...groups.values()].sort((a, b) => a.executionDate.localeCompare(b.executionDate));
+
+  let transactionNumber = 0;
+  const paymentInformation = sortedGroups.map((group, index) => {
+    const amounts = group.transfers.map((transfer) => fromMinorUnits(transfer.amount, transfer.currency ?? "USD"));
+    return xmlElement("PmtInf", [
+      xmlElement("PmtInfId", `${messageId}-${index + 1}`.slice(-35)),
+      xmlElement("PmtMtd", "TRF"),
+      options.batchBooking === undefined ? undefined : xmlElement("BtchBookg", String(options.batchBooking)),
+      xmlElement("NbOfTxs", String(group.transfers.length)),
+      xmlElement("CtrlSum", sumAmounts(amounts)),
+      group.sepa ? xmlElement("PmtTpInf", [xmlElement("SvcLvl", [xmlElement("Cd", "SEPA")])]) : undefined,
+      xmlElement("ReqdExctnDt", [xmlElement("Dt", group.executionDate)]),
+      xmlElement("Dbtr", [
+        xmlElement("Nm", fitText(debtor.name, 140)),
+        postalAddress(debtor.country, debtor.addressLines),
+      ]),
+      xmlElement("DbtrAcct", [
+        accountId({ iban: debtor.iban, other: debtor.accountNumber }),
+        xmlElement("Ccy", getAccountCurrency()),
+      ]),
+      xmlElement("DbtrAgt", [xmlElement("FinInstnId", [xmlElement("BICFI", debtor.bic)])]),
+      xmlElement("ChrgBr", group.sepa ? "SLEV" : options.chargeBearer ?? "SHAR"),
+      ...group.transfers.map((transfer) => {
+        transactionNumber++;
+        const endToEndId = transfer.id ?? `${messageId}-${transactionNumber}`.slice(-35);
+        return creditTransfer(transfer, endToEndId, group.sepa);
+      }),
+    ]);
+  });
+
+  return serializeXml(xmlElement("Document", [
+    xmlElement("CstmrCdtTrfInitn", [
+      xmlElement("GrpHdr", [
+        xmlElement("MsgId", messageId),
+        xmlElement("CreDtTm", format(now, "yyyy-MM-dd'T'HH:mm:ss")),
+        xmlElement("NbOfTxs", String(transfers.length)),
+        xmlElement("CtrlSum", sumAmounts(transfers.map((transfer) => fromMinorUnits(transfer.amount, transfer.currency ?? "USD")))),
+        xmlElement("InitgPty", [xmlElement("Nm", fitText(debtor.name, 140))]),
+      ]),
+      ...paymentInformation,
+    ]),
+  ], { xmlns: PAIN_001_NAMESPACE }));
+}
+
+// Simple types of the pain.001.001.09 schema used by the elements below
+const TEXT_35: XmlSimpleType = { minLength: 1, maxLength: 35 };
+const TEXT_70: XmlSimpleType = { minLength: 1, maxLength: 70 };
+const TEXT_140: XmlSimpleType = { minLength: 1, maxLength: 140 };
+const ISO_DATE: XmlSimpleType = { pattern: /^\d{4}-\d{2}-\d{2}$/ };
+const ISO_DATE_TIME: XmlSimpleType = { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/ };
+const NUMBER_OF_TRANSACTIONS: XmlSimpleType = { pattern: /^[0-9]{1,15}$/ };
+const DECIMAL_NUMBER: XmlSimpleType = { totalDigits: 18, fractionDigits: 17 };
+const AMOUNT: XmlSimpleType = { totalDigits: 18, fractionDigits: 5 };
+const CURRENCY_CODE: XmlSimpleType = { pattern: /^[A-Z]{3}$/ };
+const COUNTRY_CODE: XmlSimpleType = { pattern: /^[A-Z]{2}$/ };
+const BIC: XmlSimpleType = { pattern: /^[A-Z0-9]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/ };
+const IBAN: XmlSimpleType = { pattern: /^[A-Z]{2}[0-9]{2}[a-zA-Z0-9]{1,30}$/ };
+
+const postalAddressRule: XmlElementRule = {
+  name: "PstlAdr",
+  minOccurs: 0,
+  children: [
+    { name: "Ctry", minOccurs: 0, type: COUNTRY_CODE },
+    { name: "AdrLine", minOccurs: 0, maxOccurs: 7, type: TEXT_70 },
+  ],
+};
+
+const accountRule = (name: string, minOccurs = 1): XmlElementRule => ({
+  name,
+  minOccurs,
+  children: [
+    {
+      name: "Id",
+      choice: true,
+      children: [
+        { name: "IBAN", type: IBAN },
+        { name: "Othr", children: [{ name: "Id", type: { minLength: 1, maxLength: 34 } }] },
+      ],
+    },
+    { name: "Ccy", minOccurs: 0, type: CURRENCY_CODE },
+  ],
+});
+
+const agentRule = (name: string, minOccurs = 1): XmlElementRule => ({
+  name,
+  minOccurs,
+  children: [
+    {
+      name: "FinInstnId",
+      children: [
+        { name: "BICFI", minOccurs: 0, type: BIC },
+        {
+          name: "ClrSysMmbId",
+          minOccurs: 0,
+          children: [
+            { name: "ClrSysId", minOccurs: 0, choice: true, children: [{ name: "Cd", type: { minLength: 1, maxLength: 5 } }] },
+            { name: "MmbId", type: TEXT_35 },
+          ],
+        },
+        { name: "Nm", minOccurs: 0, type: TEXT_140 },
+        postalAddressRule,
+      ],
+    },
+  ],
+});
+
+const partyRule = (name: string): XmlElementRule => ({
+  name,
+  children: [{ name: "Nm", minOccurs: 0, type: TEXT_140 }, postalAddressRule],
+});
+
+const chargeBearerRule: XmlElementRule = { name: "ChrgBr", minOccurs: 0, type: { values: ["DEBT", "CRED", "SHAR", "SLEV"] } };
+
+// Content model of a pain.001.001.09 document, limited to the elements this exporter writes
+const RULES: XmlElementRule = {
+  name: "Document",
+  children: [
+    {
+      name: "CstmrCdtTrfInitn",
+      children: [
+        {
+          name: "GrpHdr",
+          children: [
+            { name: "MsgId", type: TEXT_35 },
+            { name: "CreDtTm", type: ISO_DATE_TIME },
+            { name: "NbOfTxs", type: NUMBER_OF_TRANSACTIONS },
+            { name: "CtrlSum", minOccurs: 0, type: DECIMAL_NUMBER },
+            partyRule("InitgPty"),
+          ],
+        },
+        {
+          name: "PmtInf",
+          maxOccurs: Infinity,
+          children: [
+            { name: "PmtInfId", type: TEXT_35 },
+            { name: "PmtMtd", type: { values: ["CHK", "TRF", "TRA"] } },
+            { name: "BtchBookg", minOccurs: 0, type: { values: ["true", "false"] } },
+            { name: "NbOfTxs", minOccurs: 0, type: NUMBER_OF_TRANSACTIONS },
+            { name: "CtrlSum", minOccurs: 0, type: DECIMAL_NUMBER },
+            {
+              name: "PmtTpInf",
+              minOccurs: 0,
+              children: [{ name: "SvcLvl", minOccurs: 0, maxOccurs: Infinity, choice: true, children: [{ name: "Cd", type: { minLength: 1, maxLength: 4 } }] }],
+            },
+            { name: "ReqdExctnDt", choice: true, children: [{ name: "Dt", type: ISO_DATE }, { name: "DtTm", type: ISO_DATE_TIME }] },
+            partyRule("Dbtr"),
+            accountRule("DbtrAcct"),
+            agentRule("DbtrAgt"),
+            chargeBearerRule,
+            {
+              name: "CdtTrfTxInf",
+              maxOccurs: Infinity,
+              children: [
+                {
+                  name: "PmtId",
+                  children: [{ name: "InstrId", minOccurs: 0, type: TEXT_35 }, { name: "EndToEndId", type: TEXT_35 }],
+                },
+                {
+                  name: "Amt",
+                  choice: true,
+                  children: [{ name: "InstdAmt", type: AMOUNT, attributes: [{ name: "Ccy", type: CURRENCY_CODE, required: true }] }],
+                },
+                chargeBearerRule,
+                agentRule("CdtrAgt", 0),
+                partyRule("Cdtr"),
+                accountRule("CdtrAcct", 0),
+                { name: "RmtInf", minOccurs: 0, children: [{ name: "Ustrd", minOccurs: 0, maxOccurs: Infinity, type: TEXT_140 }] },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const elementsOf = (parent: Element, name: string) => Array.from(parent.children).filter((child) => child.localName === name);
+const textOf = (parent: Element, name: string) => elementsOf(parent, name)[0]?.textContent ?? "";
+
+// Function to check that the number of transactions and control sum of a block match its transfers
+function checkTotals(block: Element, amounts: string[], path: string): XmlIssue[] {
+  const issues: XmlIssue[] = [];
+  const count = textOf(block, "NbOfTxs");
+  if (count && Number(count) !== amounts.length) {
+    issues.push({ path: `${path}/NbOfTxs`, message: `NbOfTxs is ${count} but there are ${amounts.length} transactions.` });
+  }
+  const controlSum = textOf(block, "CtrlSum");
+  if (controlSum && /^\d+(\.\d+)?$/.test(controlSum) && toScaled(controlSum) !== toScaled(sumAmounts(amounts))) {
+    issues.push({ path: `${path}/CtrlSum`, message: `CtrlSum is ${controlSum} but the amounts add up to ${sumAmounts(amounts)}.` });
+  }
+  return issues;
+}
+
+// Function to check a pain.001.001.09 file: its structure and content against the schema rules, its
+// control sums, and the SEPA rules for payments sent under the SEPA service level
+export function validatePain001(xml: string): XmlIssue[] {
+  const parsed = parseXmlDocument(xml);
+  if ("error" in parsed) {
+    return [{ path: "/", message: parsed.error }];
+  }
+  const root = parsed.document.documentElement;
+  if (root.localName !== "Document" || root.namespaceURI !== PAIN_001_NAMESPACE) {
+    return [{ path: "/", message: `The root element must be Document in the ${PAIN_001_NAMESPACE} namespace.` }];
+  }
+
+  const issues = validateXmlElement(root, RULES);
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const initiation = elementsOf(root, "CstmrCdtTrfInitn")[0];
+  const allAmounts: string[] = [];
+  const paymentIds = new Set<string>();
+  const endToEndIds = new Set<string>();
+  elementsOf(initiation, "PmtInf").forEach((block, blockIndex) => {
+    const path = `/Document/CstmrCdtTrfInitn/PmtInf[${blockIndex + 1}]`;
+    const paymentId = textOf(block, "PmtInfId");
+    if (paymentIds.has(paymentId)) {
+      issues.push({ path: `${path}/PmtInfId`, message: `PmtInfId ${paymentId} is used more than once.` });
+    }
+    paymentIds.add(paymentId);
+
+    const sepa = block.getElementsByTagNameNS(PAIN_001_NAMESPACE, "SvcLvl")[0]?.textContent?.trim() === "SEPA";
+    if (sepa && textOf(block, "ChrgBr") !== "SLEV") {
+      issues.push({ path: `${path}/ChrgBr`, message: "SEPA payments must use the SLEV charge bearer." });
+    }
+
+    const amounts = elementsOf(block, "CdtTrfTxInf").map((transaction, index) => {
+      const transactionPath = `${path}/CdtTrfTxInf[${index + 1}]`;
+      const endToEndId = textOf(elementsOf(transaction, "PmtId")[0], "EndToEndId");
+      if (endToEndIds.has(endToEndId)) {
+        issues.push({ path: `${transactionPath}/PmtId/EndToEndId`, message: `EndToEndId ${endToEndId} is used more than once.` });
+      }
+      endToEndIds.add(endToEndId);
+
+      const amount = elementsOf(elementsOf(transaction, "Amt")[0], "InstdAmt")[0];
+      if (sepa && amount.getAttribute("Ccy") !== "EUR") {
+        issues.push({ path: `${transactionPath}/Amt/InstdAmt`, message: "SEPA payments must be in EUR." });
+      }
+      if (sepa && !elementsOf(transaction, "CdtrAcct")[0]?.getElementsByTagNameNS(PAIN_001_NAMESPACE, "IBAN")[0]) {
+        issues.push({ path: `${transactionPath}/CdtrAcct`, message: "SEPA payments must be made to an IBAN." });
+      }
+      return amount.textContent ?? "0";
+    });
+    allAmounts.push(...amounts);
+    issues.push(...checkTotals(block, amounts, path));
+  });
+  issues.push(...checkTotals(elementsOf(initiation, "GrpHdr")[0], allAmounts, "/Document/CstmrCdtTrfInitn/GrpHdr"));
+  return issues;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { decodeQrCodeImage, decodeQrModules, encodeQrCode, QrCode, QrCodeError, QrErrorCorrectionLevel, QrImage } from "@/lib/qrCode";
+
+const bytesOf = (length: number, seed = 1) => Uint8Array.from({ length }, (_, i) => (i * 31 + seed * 17) % 256);
+
+// Function to draw a code as a grey-scale picture, scaled, rotated and with some uneven lighting
+function renderCode(code: QrCode, scale: number, angle: number, width: number): QrImage {
+  const data = new Uint8ClampedArray(width * width * 4);
+  const total = code.size + 8;
+  const [cos, sin] = [Math.cos(-angle), Math.sin(-angle)];
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const [dx, dy] = [x + 0.5 - width / 2, y + 0.5 - width / 2];
+      const column = Math.floor((dx * cos - dy * sin) / scale + total / 2) - 4;
+      const row = Math.floor((dx * sin + dy * cos) / scale + total / 2) - 4;
+      const dark = code.modules[row]?.[column] === true;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = (dark ? 40 : 210) + (x / width) * 40;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height: width };
+}
+
+describe("encodeQrCode", () => {
+  it("picks the smallest version that holds the data", () => {
+    const cases: [QrErrorCorrectionLevel, number, number][] = [
+      ["L", 17, 1],
+      ["M", 14, 1],
+      ["H", 7, 1],
+      ["Q", 151, 10],
+      ["M", 331, 13],
+      ["M", 2331, 40],
+    ];
+    cases.forEach(([level, length, version]) => {
+      expect(encodeQrCode(bytesOf(length), level).version).toBe(version);
+      if (version < 40) {
+        expect(encodeQrCode(bytesOf(length + 1), level).version).toBe(version + 1);
+      }
+    });
+  });
+
+  it("rejects data too long for any version", () => {
+    expect(() => encodeQrCode(bytesOf(2332), "M")).toThrow(QrCodeError);
+  });
+
+  it("writes the version information of larger codes", () => {
+    const code = encodeQrCode(bytesOf(110), "M");
+    expect(code.version).toBe(7);
+    let bits = 0;
+    for (let i = 0; i < 18; i++) {
+      bits |= (code.modules[Math.floor(i / 3)][code.size - 11 + (i % 3)] ? 1 : 0) << i;
+    }
+    expect(bits).toBe(0x7c94);
+  });
+});
+
+describe("decodeQrModules", () => {
+  it("reads back what was encoded at every level", () => {
+    (["L", "M", "Q", "H"] as QrErrorCorrectionLevel[]).forEach((level, seed) => {
+      [5, 60, 300].forEach((length) => {
+        const data = bytesOf(length, seed);
+        expect(decodeQrModules(encodeQrCode(data, level).modules)).toEqual(data);
+      });
+    });
+  });
+
+  it("corrects damaged modules", () => {
+    const data = bytesOf(100);
+    const { modules, size } = encodeQrCode(data, "M");
+    const damaged = modules.map((row) => [...row]);
+    for (let i = 0; i < 4; i++) {
+      damaged[size - 1 - i][size - 1] = !damaged[size - 1 - i][size - 1];
+    }
+    expect(decodeQrModules(damaged)).toEqual(data);
+  });
+});
+
+describe("decodeQrCodeImage", () => {
+  const payload = new TextEncoder().encode("BCD\n002\n1\nSCT\nBFSWDE33BER\nWikimedia Foerdergesellschaft\nDE33100205000001194700\nEUR123.45");
+  const code = encodeQrCode(payload, "M");
+
+  it("finds the code in straight and rotated pictures", () => {
+    expect(decodeQrCodeImage(renderCode(code, 5, 0, 300))).toEqual(payload);
+    expect(decodeQrCodeImage(renderCode(code, 4, 0.4, 320))).toEqual(payload);
+    expect(decodeQrCodeImage(renderCode(code, 5, Math.PI, 300))).toEqual(payload);
+  });
+
+  it("reports pictures without a code", () => {
+    const blank = { data: new Uint8ClampedArray(100 * 100 * 4).fill(255), width: 100, height: 100 };
+    expect(() => decodeQrCodeImage(blank)).toThrow(QrCodeError);
+  });
+});
@@ -0,0 +1,975 @@
+// QR codes (ISO/IEC 18004): encoding bytes into a symbol, and reading symbols back out of images.
+// Covers what payment QR codes need: byte mode encoding at any version, and decoding of numeric,
+// alphanumeric and byte segments from uploaded pictures, screenshots and scans.
+
+export class QrCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QrCodeError";
+  }
+}
+
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  version: number;
+  // Modules per side, without the quiet zone
+  size: number;
+  // modules[row][column], true for dark modules
+  modules: boolean[][];
+}
+
+// Pixels of an image, laid out as in ImageData: four bytes (RGBA) per pixel, row by row
+export interface QrImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const LEVELS: QrErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+// Error correction codewords in each block, by level and version (index 0 is unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks the codewords are split into, by level and version (index 0 is unused)
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// How each level is written in the format information
+const LEVEL_FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Data masks, applied to every module outside the function patterns
+const MASKS: ((row: number, column: number) => boolean)[] = [
+  (row, column) => (row + column) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_row, column) => column % 3 === 0,
+  (row, column) => (row + column) % 3 === 0,
+  (row, column) => (Math.floor(row / 2) + Math.floor(column / 3)) % 2 === 0,
+  (row, column) => ((row * column) % 2) + ((row * column) % 3) === 0,
+  (row, column) => (((row * column) % 2) + ((row * column) % 3)) % 2 === 0,
+  (row, column) => (((row + column) % 2) + ((row * column) % 3)) % 2 === 0,
+];
+
+const ALPHANUMERIC_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+// Arithmetic in GF(256) with the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  GF_EXP[i] = value;
+  GF_LOG[value] = i;
+  value = value & 0x80 ? ((value << 1) ^ 0x11d) & 0xff : value << 1;
+}
+for (let i = 255; i < 512; i++) {
+  GF_EXP[i] = GF_EXP[i - 255];
+}
+
+const gfMultiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]]);
+const gfDivide = (a: number, b: number) => (a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]]);
+
+// Function to evaluate a polynomial with its lowest-degree coefficient first
+function evaluatePolynomial(coefficients: number[], x: number): number {
+  return coefficients.reduceRight((sum, coefficient) => gfMultiply(sum, x) ^ coefficient, 0);
+}
+
+// Function to get the Reed-Solomon generator polynomial of a degree, highest-degree coefficient first
+function getGeneratorPolynomial(degree: number): number[] {
+  let generator = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, j) => {
+      next[j] ^= coefficient;
+      next[j + 1] ^= gfMultiply(coefficient, GF_EXP[i]);
+    });
+    generator = next;
+  }
+  return generator;
+}
+
+// Function to compute the error correction codewords for a block of data codewords
+function getErrorCorrection(data: number[], degree: number): number[] {
+  const generator = getGeneratorPolynomial(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  data.forEach((codeword) => {
+    const factor = codeword ^ remainder.shift();
+    remainder.push(0);
+    remainder.forEach((_, i) => {
+      remainder[i] ^= gfMultiply(generator[i + 1], factor);
+    });
+  });
+  return remainder;
+}
+
+// Function to correct a block of codewords in place with the Berlekamp-Massey and Forney algorithms.
+// Throws when the block has more errors than its error correction codewords can fix.
+function correctErrors(block: number[], eccLength: number): void {
+  const evaluateBlock = (x: number) => block.reduce((sum, codeword) => gfMultiply(sum, x) ^ codeword, 0);
+  const syndromes = Array.from({ length: eccLength }, (_, i) => evaluateBlock(GF_EXP[i]));
+  if (syndromes.every((syndrome) => syndrome === 0)) {
+    return;
+  }
+
+  // Error locator polynomial, lowest-degree coefficient first
+  let locator = [1];
+  let previous = [1];
+  let errorCount = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let n = 0; n < eccLength; n++) {
+    let discrepancy = syndromes[n];
+    for (let i = 1; i <= errorCount; i++) {
+      discrepancy ^= gfMultiply(locator[i] ?? 0, syndromes[n - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const scale = gfDivide(discrepancy, previousDiscrepancy);
+    const updated = [...locator];
+    previous.forEach((coefficient, i) => {
+      updated[i + shift] = (updated[i + shift] ?? 0) ^ gfMultiply(scale, coefficient);
+    });
+    if (2 * errorCount <= n) {
+      previous = locator;
+      errorCount = n + 1 - errorCount;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = updated;
+  }
+  if (2 * errorCount > eccLength) {
+    throw new QrCodeError("The QR code is too damaged to read.");
+  }
+
+  // Chien search: an error at position i makes the locator vanish at the inverse of its location
+  const positions = block.map((_, i) => i).filter((i) => evaluatePolynomial(locator, GF_EXP[255 - ((block.length - 1 - i) % 255)]) === 0);
+  if (positions.length !== errorCount) {
+    throw new QrCodeError("The QR code is too damaged to read.");
+  }
+
+  // Forney: error values from the evaluator polynomial and the locator's formal derivative
+  const evaluator = Array.from({ length: eccLength }, (_, degree) => {
+    let coefficient = 0;
+    for (let i = 0; i <= degree; i++) {
+      coefficient ^= gfMultiply(syndromes[i], locator[degree - i] ?? 0);
+    }
+    return coefficient;
+  });
+  const derivative = locator.slice(1).map((coefficient, i) => (i % 2 === 0 ? coefficient : 0));
+  positions.forEach((position) => {
+    const location = GF_EXP[(block.length - 1 - position) % 255];
+    const inverse = gfDivide(1, location);
+    const magnitude = gfMultiply(location, gfDivide(evaluatePolynomial(evaluator, inverse), evaluatePolynomial(derivative, inverse)));
+    block[position] ^= magnitude;
+  });
+
+  if (syndromes.some((_, i) => evaluateBlock(GF_EXP[i]) !== 0)) {
+    throw new QrCodeError("The QR code is too damaged to read.");
+  }
+}
+
+// Function to count the modules of a version left for data and error correction codewords
+function getRawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    modules -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return modules;
+}
+
+// Function to describe how a version and level split their codewords into blocks
+function getBlockLayout(version: number, level: QrErrorCorrectionLevel) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  return {
+    blockCount,
+    eccLength,
+    // The first blocks are one data codeword shorter than the rest
+    shortBlockCount: blockCount - (rawCodewords % blockCount),
+    shortBlockLength: Math.floor(rawCodewords / blockCount),
+    dataCodewords: rawCodewords - eccLength * blockCount,
+  };
+}
+
+// Function to get the centre rows and columns of a version's alignment patterns
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// Function to get the 15 format bits of a level and mask, with their BCH error correction
+function getFormatBits(level: QrErrorCorrectionLevel, mask: number): number {
+  const data = (LEVEL_FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+// Function to get the 18 version bits of versions 7 and up, with their BCH error correction
+function getVersionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+}
+
+// Positions of format bit i in the two copies: around the top-left finder, and split between the other two
+function getFormatPositions(size: number): [number, number][][] {
+  const first = Array.from({ length: 15 }, (_, i): [number, number] => {
+    if (i < 6) {
+      return [i, 8];
+    }
+    // The horizontal timing pattern is skipped over
+    if (i < 8) {
+      return [i + 1, 8];
+    }
+    return i === 8 ? [8, 7] : [8, 14 - i];
+  });
+  const second = Array.from({ length: 15 }, (_, i): [number, number] => (i < 8 ? [8, size - 1 - i] : [size - 15 + i, 8]));
+  return [first, second];
+}
+
+interface Matrix {
+  size: number;
+  modules: boolean[][];
+  // Modules taken by function patterns and format and version information, which hold no data
+  reserved: boolean[][];
+}
+
+// Function to lay out the function patterns of a version, reserving the format and version areas
+function createMatrix(version: number): Matrix {
+  const size = version * 4 + 17;
+  const matrix: Matrix = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  const set = (row: number, column: number, dark: boolean) => {
+    if (row >= 0 && row < size && column >= 0 && column < size) {
+      matrix.modules[row][column] = dark;
+      matrix.reserved[row][column] = true;
+    }
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  // Finder patterns with their light separators
+  [[3, 3], [3, size - 4], [size - 4, 3]].forEach(([row, column]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        set(row + dy, column + dx, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const alignment = getAlignmentPositions(version);
+  alignment.forEach((row, i) => alignment.forEach((column, j) => {
+    // Alignment patterns would overlap the finders in three corners
+    if ((i === 0 && j === 0) || (i === 0 && j === alignment.length - 1) || (i === alignment.length - 1 && j === 0)) {
+      return;
+    }
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        set(row + dy, column + dx, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }));
+  getFormatPositions(size).flat().forEach(([row, column]) => set(row, column, false));
+  // Always dark, next to the bottom-left format bits
+  set(size - 8, 8, true);
+  if (version >= 7) {
+    const bits = getVersionBits(version);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      set(Math.floor(i / 3), size - 11 + (i % 3), dark);
+      set(size - 11 + (i % 3), Math.floor(i / 3), dark);
+    }
+  }
+  return matrix;
+}
+
+// Function to list the data modules in placement order: two-column strips from the right, zigzagging up and down
+function getDataPositions(matrix: Matrix): [number, number][] {
+  const positions: [number, number][] = [];
+  for (let right = matrix.size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern is skipped over
+    const column = right <= 6 ? right - 1 : right;
+    const upward = ((column + 1) & 2) === 0;
+    for (let step = 0; step < matrix.size; step++) {
+      const row = upward ? matrix.size - 1 - step : step;
+      [column, column - 1].forEach((current) => {
+        if (!matrix.reserved[row][current]) {
+          positions.push([row, current]);
+        }
+      });
+    }
+  }
+  return positions;
+}
+
+function writeFormatBits(matrix: Matrix, level: QrErrorCorrectionLevel, mask: number): void {
+  const bits = getFormatBits(level, mask);
+  getFormatPositions(matrix.size).forEach((positions) => positions.forEach(([row, column], i) => {
+    matrix.modules[row][column] = ((bits >>> i) & 1) === 1;
+  }));
+}
+
+function applyMask(matrix: Matrix, mask: number): void {
+  getDataPositions(matrix).forEach(([row, column]) => {
+    if (MASKS[mask](row, column)) {
+      matrix.modules[row][column] = !matrix.modules[row][column];
+    }
+  });
+}
+
+// Function to score how hard a symbol is to scan, per the penalty rules for choosing a mask
+function getPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let darkCount = 0;
+  const finderLike = [true, false, true, true, true, false, true];
+  for (let line = 0; line < size; line++) {
+    [(i: number) => modules[line][i], (i: number) => modules[i][line]].forEach((get) => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) {
+          penalty += run - 2;
+        }
+        run = 1;
+      }
+      for (let i = 0; i + 7 <= size; i++) {
+        if (!finderLike.every((dark, offset) => get(i + offset) === dark)) {
+          continue;
+        }
+        const lightBefore = [1, 2, 3, 4].every((offset) => i - offset < 0 || !get(i - offset));
+        const lightAfter = [0, 1, 2, 3].every((offset) => i + 7 + offset >= size || !get(i + 7 + offset));
+        if (lightBefore || lightAfter) {
+          penalty += 40;
+        }
+      }
+    });
+  }
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      darkCount += modules[row][column] ? 1 : 0;
+      if (row > 0 && column > 0) {
+        const dark = modules[row][column];
+        if (modules[row - 1][column] === dark && modules[row][column - 1] === dark && modules[row - 1][column - 1] === dark) {
+          penalty += 3;
+        }
+      }
+    }
+  }
+  return penalty + Math.floor(Math.abs(darkCount * 20 - size * size * 10) / (size * size)) * 10;
+}
+
+// Function to encode bytes in byte mode as a QR code of the smallest version that fits them
+export function encodeQrCode(data: Uint8Array, level: QrErrorCorrectionLevel = "M"): QrCode {
+  const version = Array.from({ length: 40 }, (_, i) => i + 1).find((candidate) => {
+    const countBits = candidate < 10 ? 8 : 16;
+    return 4 + countBits + data.length * 8 <= getBlockLayout(candidate, level).dataCodewords * 8;
+  });
+  if (!version) {
+    throw new QrCodeError(`${data.length} bytes are too many for a QR code at error correction level ${level}.`);
+  }
+  const layout = getBlockLayout(version, level);
+
+  // Mode indicator, character count and the data, then a terminator and padding up to the capacity
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0b0100, 4);
+  append(data.length, version < 10 ? 8 : 16);
+  data.forEach((byte) => append(byte, 8));
+  const capacity = layout.dataCodewords * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+  const codewords = Array.from({ length: layout.dataCodewords }, (_, i) => parseInt(bits.slice(i * 8, i * 8 + 8).join(""), 2));
+
+  // Split into blocks, add error correction to each, and interleave the blocks codeword by codeword
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < layout.blockCount; i++) {
+    const length = layout.shortBlockLength - layout.eccLength + (i < layout.shortBlockCount ? 0 : 1);
+    const blockData = codewords.slice(offset, offset + length);
+    offset += length;
+    blocks.push([...blockData, ...getErrorCorrection(blockData, layout.eccLength)]);
+  }
+  const interleaved: number[] = [];
+  for (let i = 0; i <= layout.shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks have no codeword at the end of their data
+      const index = j < layout.shortBlockCount && i > layout.shortBlockLength - layout.eccLength ? i - 1 : i;
+      if (!(j < layout.shortBlockCount && i === layout.shortBlockLength - layout.eccLength)) {
+        interleaved.push(block[index]);
+      }
+    });
+  }
+
+  const matrix = createMatrix(version);
+  getDataPositions(matrix).forEach(([row, column], i) => {
+    // Remainder bits after the last codeword stay light
+    matrix.modules[row][column] = i < interleaved.length * 8 && ((interleaved[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+  });
+
+  // Pick the mask with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  MASKS.forEach((_, mask) => {
+    applyMask(matrix, mask);
+    writeFormatBits(matrix, level, mask);
+    const penalty = getPenalty(matrix.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(matrix, mask);
+  });
+  applyMask(matrix, bestMask);
+  writeFormatBits(matrix, level, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+// Function to draw a QR code as an SVG path of unit squares, offset by the quiet zone
+export function getQrCodePath(code: QrCode, margin = 4): string {
+  return code.modules
+    .flatMap((row, y) => row.flatMap((dark, x) => (dark ? [`M${x + margin} ${y + margin}h1v1h-1z`] : [])))
+    .join("");
+}
+
+// Function to write a QR code as a standalone SVG image, e.g. for downloading
+export function toQrCodeSvg(code: QrCode, margin = 4): string {
+  const size = code.size + margin * 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size * 8}" height="${size * 8}" shape-rendering="crispEdges">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    `<path d="${getQrCodePath(code, margin)}" fill="#000000"/>`,
+    "</svg>",
+  ].join("\n");
+}
+
+// Function to read the segments of decoded data codewords into bytes. Numeric and alphanumeric
+// segments become their ASCII characters; ECI designators are skipped, so callers decide the encoding.
+function readSegments(codewords: number[], version: number): Uint8Array {
+  const bytes: number[] = [];
+  let position = 0;
+  const remaining = () => codewords.length * 8 - position;
+  const read = (length: number) => {
+    if (length > remaining()) {
+      throw new QrCodeError("The QR code's data ends too early.");
+    }
+    let value = 0;
+    for (let i = 0; i < length; i++, position++) {
+      value = (value << 1) | ((codewords[position >>> 3] >>> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  const countBits = (small: number, medium: number, large: number) => (version < 10 ? small : version < 27 ? medium : large);
+  const pushText = (text: string) => bytes.push(...Array.from(text, (character) => character.charCodeAt(0)));
+
+  while (remaining() >= 4) {
+    const mode = read(4);
+    if (mode === 0) {
+      break;
+    }
+    switch (mode) {
+      case 0b0001: {
+        let count = read(countBits(10, 12, 14));
+        for (; count >= 3; count -= 3) {
+          pushText(read(10).toString().padStart(3, "0"));
+        }
+        if (count > 0) {
+          pushText(read(count === 2 ? 7 : 4).toString().padStart(count, "0"));
+        }
+        break;
+      }
+      case 0b0010: {
+        let count = read(countBits(9, 11, 13));
+        for (; count >= 2; count -= 2) {
+          const pair = read(11);
+          pushText(ALPHANUMERIC_CHARACTERS[Math.floor(pair / 45)] + ALPHANUMERIC_CHARACTERS[pair % 45]);
+        }
+        if (count === 1) {
+          pushText(ALPHANUMERIC_CHARACTERS[read(6)]);
+        }
+        break;
+      }
+      case 0b0100: {
+        const count = read(countBits(8, 16, 16));
+        for (let i = 0; i < count; i++) {
+          bytes.push(read(8));
+        }
+        break;
+      }
+      case 0b0111: {
+        // The ECI assignment number takes one, two or three bytes
+        const first = read(8);
+        if ((first & 0xc0) === 0x80) {
+          read(8);
+        } else if ((first & 0xe0) === 0xc0) {
+          read(16);
+        }
+        break;
+      }
+      default:
+        throw new QrCodeError("The QR code uses a data mode that can't be read here.");
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function countSetBits(value: number): number {
+  let count = 0;
+  for (let rest = value; rest; rest &= rest - 1) {
+    count++;
+  }
+  return count;
+}
+
+// Function to decode a grid of modules sampled from a symbol into the bytes it holds
+export function decodeQrModules(modules: boolean[][]): Uint8Array {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) {
+    throw new QrCodeError(`A QR code can't be ${size} modules wide.`);
+  }
+
+  // Take the level and mask whose format bits are closest to either copy; up to 3 wrong bits are corrected
+  const copies = getFormatPositions(size).map((positions) => positions.reduce((bits, [row, column], i) => bits | ((modules[row][column] ? 1 : 0) << i), 0));
+  let format: { level: QrErrorCorrectionLevel; mask: number; distance: number } | undefined;
+  for (const level of LEVELS) {
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      const distance = Math.min(...copies.map((bits) => countSetBits(bits ^ getFormatBits(level, mask))));
+      if (distance <= 3 && (!format || distance < format.distance)) {
+        format = { level, mask, distance };
+      }
+    }
+  }
+  if (!format) {
+    throw new QrCodeError("The QR code's format information can't be read.");
+  }
+  const { level, mask } = format;
+
+  const matrix = createMatrix(version);
+  const layout = getBlockLayout(version, level);
+  const rawCodewords = layout.shortBlockLength * layout.blockCount + (layout.blockCount - layout.shortBlockCount);
+  const codewords = new Array<number>(rawCodewords).fill(0);
+  getDataPositions(matrix).slice(0, rawCodewords * 8).forEach(([row, column], i) => {
+    if (modules[row][column] !== MASKS[mask](row, column)) {
+      codewords[i >>> 3] |= 1 << (7 - (i & 7));
+    }
+  });
+
+  // Undo the interleaving, then correct each block and join their data codewords
+  const blocks: number[][] = Array.from({ length: layout.blockCount }, () => []);
+  let offset = 0;
+  for (let i = 0; i <= layout.shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      if (!(j < layout.shortBlockCount && i === layout.shortBlockLength - layout.eccLength)) {
+        block.push(codewords[offset++]);
+      }
+    });
+  }
+  const data = blocks.flatMap((block) => {
+    correctErrors(block, layout.eccLength);
+    return block.slice(0, block.length - layout.eccLength);
+  });
+  return readSegments(data, version);
+}
+
+// Function to turn an image into dark and light pixels against thresholds that follow the local
+// brightness, so shadows and uneven lighting in photos don't swallow parts of the symbol
+function binarize(image: QrImage): Uint8Array {
+  const { width, height, data } = image;
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const gray = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    // Transparent pixels are taken as the white page behind them
+    luminance[i] = 255 - ((255 - gray) * data[i * 4 + 3]) / 255;
+  }
+
+  const blockSize = 8;
+  const blocksX = Math.ceil(width / blockSize);
+  const blocksY = Math.ceil(height / blockSize);
+  const averages = new Float32Array(blocksX * blocksY);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      let count = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+          const value = luminance[y * width + x];
+          sum += value;
+          count++;
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+      let average = sum / count;
+      if (max - min <= 24) {
+        // A flat block is light unless its neighbours say the area is dark
+        average = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours = (averages[(by - 1) * blocksX + bx] + 2 * averages[by * blocksX + bx - 1] + averages[(by - 1) * blocksX + bx - 1]) / 4;
+          if (min < neighbours) {
+            average = neighbours;
+          }
+        }
+      }
+      averages[by * blocksX + bx] = average;
+    }
+  }
+
+  const dark = new Uint8Array(width * height);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      let count = 0;
+      for (let ny = Math.max(0, by - 2); ny <= Math.min(blocksY - 1, by + 2); ny++) {
+        for (let nx = Math.max(0, bx - 2); nx <= Math.min(blocksX - 1, bx + 2); nx++) {
+          sum += averages[ny * blocksX + nx];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+          dark[y * width + x] = luminance[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return dark;
+}
+
+interface FinderPattern {
+  x: number;
+  y: number;
+  moduleSize: number;
+  // How many scan lines found the pattern
+  count: number;
+}
+
+// Whether five run lengths look like a finder pattern's dark-light-dark-light-dark 1:1:3:1:1
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (counts.some((count) => count === 0) || total < 7) {
+    return false;
+  }
+  const moduleSize = total / 7;
+  const tolerance = moduleSize / 2;
+  return counts.every((count, i) => Math.abs((i === 2 ? 3 : 1) * moduleSize - count) < (i === 2 ? 3 : 1) * tolerance);
+}
+
+// Function to measure the finder pattern runs along a line through a point, returning the centre
+// on that line, or NaN when the runs don't match a finder pattern of about the expected size
+function crossCheck(isDark: (offset: number) => boolean | undefined, maxCount: number, expectedTotal: number): number {
+  const counts = [0, 0, 0, 0, 0];
+  // Count runs outwards from the centre: up to the edge of the pattern, then down to the other edge
+  const countRun = (state: number, start: number, step: number, dark: boolean, limit = Infinity) => {
+    let offset = start;
+    while (isDark(offset) === dark && counts[state] <= limit) {
+      counts[state]++;
+      offset += step;
+    }
+    return offset;
+  };
+  let offset = countRun(2, 0, -1, true);
+  offset = countRun(1, offset, -1, false, maxCount);
+  countRun(0, offset, -1, true, maxCount);
+  offset = countRun(2, 1, 1, true);
+  offset = countRun(3, offset, 1, false, maxCount);
+  const end = countRun(4, offset, 1, true, maxCount);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (counts[0] > maxCount || counts[4] > maxCount || 5 * Math.abs(total - expectedTotal) >= 2 * expectedTotal || !isFinderRatio(counts)) {
+    return NaN;
+  }
+  return end - counts[4] - counts[3] - counts[2] / 2;
+}
+
+// Function to find finder patterns by scanning rows for 1:1:3:1:1 runs and confirming them down the column
+function findFinderPatterns(dark: Uint8Array, width: number, height: number): FinderPattern[] {
+  const patterns: FinderPattern[] = [];
+  const pixel = (x: number, y: number) => (x >= 0 && x < width && y >= 0 && y < height ? dark[y * width + x] === 1 : undefined);
+
+  const checkCandidate = (counts: number[], y: number, endX: number) => {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const startX = Math.floor(endX - counts[4] - counts[3] - counts[2] / 2);
+    const centerY = y + crossCheck((offset) => pixel(startX, y + offset), counts[2], total);
+    if (Number.isNaN(centerY)) {
+      return;
+    }
+    const row = Math.floor(centerY);
+    const centerX = startX + crossCheck((offset) => pixel(startX + offset, row), counts[2], total);
+    if (Number.isNaN(centerX)) {
+      return;
+    }
+    const moduleSize = total / 7;
+    const existing = patterns.find((pattern) => Math.abs(pattern.x - centerX) <= moduleSize
+      && Math.abs(pattern.y - centerY) <= moduleSize
+      && Math.abs(pattern.moduleSize - moduleSize) <= Math.max(1, pattern.moduleSize));
+    if (existing) {
+      existing.x = (existing.x * existing.count + centerX) / (existing.count + 1);
+      existing.y = (existing.y * existing.count + centerY) / (existing.count + 1);
+      existing.moduleSize = (existing.moduleSize * existing.count + moduleSize) / (existing.count + 1);
+      existing.count++;
+    } else {
+      patterns.push({ x: centerX, y: centerY, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    const counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x < width; x++) {
+      if (dark[y * width + x]) {
+        // Odd states count light runs; a dark pixel starts the next dark run
+        if (state % 2 === 1) {
+          state++;
+        }
+        counts[state]++;
+      } else if (state % 2 === 1) {
+        counts[state]++;
+      } else if (state === 4) {
+        if (isFinderRatio(counts)) {
+          checkCandidate(counts, y, x);
+        }
+        counts.splice(0, 2);
+        counts.push(1, 0);
+        state = 3;
+      } else {
+        state++;
+        counts[state]++;
+      }
+    }
+    if (state === 4 && isFinderRatio(counts)) {
+      checkCandidate(counts, y, width);
+    }
+  }
+  return patterns;
+}
+
+// Function to pick likely sets of three finder patterns: similar module sizes, at the corners of a right isosceles triangle
+function getFinderTriples(patterns: FinderPattern[]): FinderPattern[][] {
+  const confirmed = patterns.filter((pattern) => pattern.count >= 2);
+  const candidates = (confirmed.length >= 3 ? confirmed : patterns).sort((a, b) => b.count - a.count).slice(0, 10);
+  const distance = (a: FinderPattern, b: FinderPattern) => Math.hypot(a.x - b.x, a.y - b.y);
+  const triples: { patterns: FinderPattern[]; score: number }[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      for (let k = j + 1; k < candidates.length; k++) {
+        const triple = [candidates[i], candidates[j], candidates[k]];
+        const sizes = triple.map((pattern) => pattern.moduleSize);
+        const sides = [distance(triple[1], triple[2]), distance(triple[0], triple[2]), distance(triple[0], triple[1])];
+        // The top-left pattern is the one opposite the longest side
+        const corner = sides.indexOf(Math.max(...sides));
+        const [legA, legB] = sides.filter((_, side) => side !== corner);
+        const hypotenuse = sides[corner];
+        const moduleSize = sizes.reduce((sum, size) => sum + size, 0) / 3;
+        if (Math.min(legA, legB) < moduleSize * 14) {
+          continue;
+        }
+        const score = (Math.max(...sizes) - Math.min(...sizes)) / moduleSize
+          + Math.abs(legA * legA + legB * legB - hypotenuse * hypotenuse) / (hypotenuse * hypotenuse)
+          + Math.abs(legA - legB) / Math.max(legA, legB);
+        if (score < 1) {
+          triples.push({ patterns: [triple[corner], ...triple.filter((_, index) => index !== corner)], score });
+        }
+      }
+    }
+  }
+  return triples.sort((a, b) => a.score - b.score).slice(0, 3).map((triple) => triple.patterns);
+}
+
+type Point = { x: number; y: number };
+
+// Function to solve for the perspective transform taking four module positions to four image points
+function getPerspectiveTransform(from: Point[], to: Point[]): (point: Point) => Point {
+  // Eight equations in the eight unknowns of the homography, solved by Gaussian elimination
+  const rows = from.flatMap((source, i) => [
+    [source.x, source.y, 1, 0, 0, 0, -source.x * to[i].x, -source.y * to[i].x, to[i].x],
+    [0, 0, 0, source.x, source.y, 1, -source.x * to[i].y, -source.y * to[i].y, to[i].y],
+  ]);
+  for (let column = 0; column < 8; column++) {
+    const pivot = rows.slice(column).reduce((best, row, i) => (Math.abs(row[column]) > Math.abs(rows[best][column]) ? column + i : best), column);
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row !== column && rows[column][column] !== 0) {
+        const factor = rows[row][column] / rows[column][column];
+        rows[row] = rows[row].map((value, i) => value - factor * rows[column][i]);
+      }
+    }
+  }
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return ({ x, y }) => {
+    const w = h[6] * x + h[7] * y + 1;
+    return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+  };
+}
+
+// Function to find the bottom-right alignment pattern near where the finder patterns place it,
+// which corrects for perspective in photos. The search widens, and allows for modules drawn larger
+// or smaller than the finders suggest, until a match turns up.
+function findAlignmentPattern(isDark: (point: Point) => boolean, transform: (point: Point) => Point, position: number): Point | undefined {
+  const predicted = transform({ x: position + 0.5, y: position + 0.5 });
+  const right = transform({ x: position + 1.5, y: position + 0.5 });
+  const down = transform({ x: position + 0.5, y: position + 1.5 });
+  const unitX = { x: right.x - predicted.x, y: right.y - predicted.y };
+  const unitY = { x: down.x - predicted.x, y: down.y - predicted.y };
+  const moduleSize = Math.max(Math.hypot(unitX.x, unitX.y), Math.hypot(unitY.x, unitY.y));
+  // A dark centre module inside a light ring inside a dark ring
+  const template: [number, number, boolean][] = [];
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      template.push([dx, dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1]);
+    }
+  }
+
+  for (const allowance of [4, 8]) {
+    const radius = Math.ceil(allowance * moduleSize);
+    for (const scale of [1, 0.85, 1.15, 0.7, 1.3]) {
+      const matches: Point[] = [];
+      for (let y = Math.floor(predicted.y) - radius; y <= predicted.y + radius; y++) {
+        for (let x = Math.floor(predicted.x) - radius; x <= predicted.x + radius; x++) {
+          const center = { x: x + 0.5, y: y + 0.5 };
+          const matchesTemplate = template.every(([dx, dy, dark]) => isDark({
+            x: center.x + scale * (dx * unitX.x + dy * unitY.x),
+            y: center.y + scale * (dx * unitX.y + dy * unitY.y),
+          }) === dark);
+          if (matchesTemplate) {
+            matches.push(center);
+          }
+        }
+      }
+      if (matches.length === 0) {
+        continue;
+      }
+      // Data modules can look like an alignment pattern too; take the match nearest the prediction
+      const distance = (point: Point, from: Point) => Math.hypot(point.x - from.x, point.y - from.y);
+      const nearest = matches.reduce((best, point) => (distance(point, predicted) < distance(best, predicted) ? point : best));
+      const cluster = matches.filter((point) => distance(point, nearest) <= moduleSize * scale);
+      return {
+        x: cluster.reduce((sum, point) => sum + point.x, 0) / cluster.length,
+        y: cluster.reduce((sum, point) => sum + point.y, 0) / cluster.length,
+      };
+    }
+  }
+  return undefined;
+}
+
+// Function to find a QR code in an image and decode the bytes it holds. Throws QrCodeError when no
+// code is found or it can't be read.
+export function decodeQrCodeImage(image: QrImage): Uint8Array {
+  const { width, height } = image;
+  const dark = binarize(image);
+  const isDark = ({ x, y }: Point) => {
+    const column = Math.floor(x);
+    const row = Math.floor(y);
+    return column >= 0 && column < width && row >= 0 && row < height && dark[row * width + column] === 1;
+  };
+
+  const triples = getFinderTriples(findFinderPatterns(dark, width, height));
+  if (triples.length === 0) {
+    throw new QrCodeError("No QR code was found in the image.");
+  }
+  let lastError: unknown;
+  for (const [topLeft, first, second] of triples) {
+    // Going clockwise from the top-left pattern, the top-right one comes before the bottom-left one
+    const clockwise = (first.x - topLeft.x) * (second.y - topLeft.y) - (first.y - topLeft.y) * (second.x - topLeft.x) > 0;
+    const topRight = clockwise ? first : second;
+    const bottomLeft = clockwise ? second : first;
+    const moduleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    const estimate = (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) + Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)) / 2 / moduleSize + 7;
+    // Sizes are 17 plus a multiple of 4; try the nearest first, then its neighbours, as perspective
+    // makes the finders look bigger or smaller than the modules between them
+    const nearest = Math.round((estimate - 17) / 4) * 4 + 17;
+    const sizes = [nearest, nearest - 4, nearest + 4, nearest - 8, nearest + 8];
+    for (const size of sizes.filter((candidate) => candidate >= 21 && candidate <= 177)) {
+      const finders = [{ x: 3.5, y: 3.5 }, { x: size - 3.5, y: 3.5 }, { x: 3.5, y: size - 3.5 }];
+      const points = [topLeft, topRight, bottomLeft].map(({ x, y }) => ({ x, y }));
+      const affine = getPerspectiveTransform(
+        [...finders, { x: size - 3.5, y: size - 3.5 }],
+        [...points, { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y }],
+      );
+      const alignment = size > 21 ? findAlignmentPattern(isDark, affine, size - 7) : undefined;
+      const transform = alignment
+        ? getPerspectiveTransform([...finders, { x: size - 6.5, y: size - 6.5 }], [...points, alignment])
+        : affine;
+      const modules = Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, column) => isDark(transform({ x: column + 0.5, y: row + 0.5 }))));
+      try {
+        return decodeQrModules(modules);
+      } catch (error) {
+        lastError = error;
+      }
+      // Codes seen from behind, e.g. through a scanned sheet, are mirrored
+      try {
+        return decodeQrModules(modules.map((row, i) => row.map((_, j) => modules[j][i])));
+      } catch {
+        // Keep the error from the unmirrored attempt
+      }
+    }
+  }
+  throw lastError instanceof QrCodeError ? lastError : new QrCodeError("The QR code in the image can't be read.");
+}
+
+// Function to decode a QR code picture on a worker thread, as decodeQrCodeImage can take a while on large
+// pictures. The image's pixels are handed to the worker, so it can't be used afterwards.
+export function decodeQrCodeImageInWorker(image: QrImage): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./qrCode.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<{ bytes?: Uint8Array; error?: string }>) => {
+      worker.terminate();
+      if (event.data.bytes) {
+        resolve(event.data.bytes);
+      } else {
+        reject(new QrCodeError(event.data.error ?? "The picture couldn't be read."));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new QrCodeError(event.message || "The picture couldn't be read."));
+    };
+    worker.postMessage(image, [image.data.buffer]);
+  });
+}
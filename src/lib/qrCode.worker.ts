@@ -0,0 +1,12 @@
+// Worker that decodes QR code pictures, so searching a large picture doesn't freeze the page.
+// Started by decodeQrCodeImageInWorker; replies with the decoded bytes or the error message.
+import { decodeQrCodeImage, QrImage } from "@/lib/qrCode";
+
+self.onmessage = (event: MessageEvent<QrImage>) => {
+  try {
+    const bytes = decodeQrCodeImage(event.data);
+    self.postMessage({ bytes }, { transfer: [bytes.buffer] });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { DATE_TOLERANCE_DAYS, reconcile } from "@/lib/reconciliation";
+import { StatementEntry } from "@/lib/statements";
+import { TransferRecord } from "@/services/transferService";
+
+function transfer(id: string, amount: number, executionDate: string, status: TransferRecord["status"] = "completed"): TransferRecord {
+  return {
+    id,
+    createdAt: `${executionDate}T09:00:00.000Z`,
+    transferType: "international",
+    recipientName: `Recipient ${id}`,
+    amount,
+    currency: "EUR",
+    bankName: "Bank",
+    executionDate,
+    status,
+    statusHistory: [],
+  };
+}
+
+function entry(id: string, amount: number, bookingDate: string, endToEndId?: string): StatementEntry {
+  return { id, bookingDate, amount, currency: "EUR", direction: "debit", endToEndId };
+}
+
+describe("reconcile", () => {
+  const transfers = [
+    transfer("TRX1", 10000, "2026-10-19"),
+    transfer("TRX2", 2500, "2026-10-19"),
+    transfer("TRX3", 4000, "2026-10-05"),
+    transfer("TRX4", 7500, "2026-10-20"),
+    transfer("TRX5", 7500, "2026-10-20"),
+    transfer("TRX6", 9900, "2026-10-20"),
+    transfer("TRX7", 1200, "2026-10-20", "cancelled"),
+  ];
+
+  it("matches entries by transfer ID, then by amount and date", () => {
+    const result = reconcile(
+      [
+        entry("A:1", 10000, "2026-10-19", "TRX1"),
+        entry("A:2", 2600, "2026-10-20", "TRX2"),
+        entry("A:3", 4000, "2026-10-20"),
+        entry("A:4", 7500, "2026-10-20"),
+        entry("A:5", 1200, "2026-10-20"),
+      ],
+      transfers,
+    );
+    expect(result.items.map((item) => [item.entry.id, item.status, item.transfer?.id])).toEqual([
+      ["A:1", "matched", "TRX1"],
+      ["A:2", "partial", "TRX2"],
+      ["A:3", "partial", "TRX3"],
+      ["A:4", "partial", "TRX4"],
+      // Cancelled transfers never leave the account
+      ["A:5", "unmatched", undefined],
+    ]);
+    expect(result.items[1].differences).toEqual(["Amount differs: booked €26.00, sent €25.00."]);
+    expect(result.items[2].differences).toEqual(["Booked 15 days after the transfer date."]);
+    expect(result.items[3].differences).toEqual(["2 transfers have this amount and date; check it's the right one."]);
+    expect(result.unmatchedTransfers.map((item) => item.id)).toEqual(["TRX5", "TRX6"]);
+  });
+
+  it("applies resolutions to their own entry only", () => {
+    // Entries of two statements at the same position
+    const entries = [entry("STMT-A:1", 9900, "2026-10-20"), entry("STMT-B:1", 9900, "2026-10-20")];
+    const result = reconcile(entries, transfers, [
+      { entryId: "STMT-A:1", kind: "ignored", note: "Bank fee", resolvedAt: "2026-10-21T09:00:00.000Z" },
+    ]);
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0]).toMatchObject({ status: "matched", resolution: { kind: "ignored" } });
+    expect(result.items[1]).toMatchObject({ status: "matched", transfer: { id: "TRX6" } });
+    expect(result.items[1].resolution).toBeUndefined();
+  });
+
+  it("links entries to the transfer chosen by hand", () => {
+    const result = reconcile([entry("A:1", 7500, "2026-10-20")], transfers, [
+      { entryId: "A:1", kind: "linked", transferId: "TRX5", resolvedAt: "2026-10-21T09:00:00.000Z" },
+    ]);
+    expect(result.items[0]).toMatchObject({ status: "matched", transfer: { id: "TRX5" } });
+  });
+
+  it.each([
+    ["2026-10-17", "matched", []],
+    ["2026-10-23", "matched", []],
+    ["2026-10-24", "partial", [`Booked ${DATE_TOLERANCE_DAYS + 1} days after the transfer date.`]],
+    ["2026-10-16", "partial", [`Booked ${DATE_TOLERANCE_DAYS + 1} days before the transfer date.`]],
+  ])("matches a booking on %s within the date tolerance only", (bookingDate, status, differences) => {
+    const result = reconcile([entry("A:1", 9900, bookingDate)], [transfer("TRX6", 9900, "2026-10-20")]);
+    expect(result.items[0]).toMatchObject({ status, transfer: { id: "TRX6" }, differences });
+  });
+
+  it("suggests the closest of several equal candidates without matching any", () => {
+    const result = reconcile([entry("A:1", 7500, "2026-10-21")], [
+      transfer("TRX4", 7500, "2026-10-19"),
+      transfer("TRX5", 7500, "2026-10-20"),
+    ]);
+    expect(result.items[0]).toMatchObject({
+      status: "partial",
+      transfer: { id: "TRX5" },
+      differences: ["2 transfers have this amount and date; check it's the right one."],
+    });
+  });
+
+  it("doesn't match an entry in another currency on amount", () => {
+    const result = reconcile([{ ...entry("A:1", 9900, "2026-10-20"), currency: "USD" }], transfers);
+    expect(result.items[0]).toMatchObject({ status: "unmatched", differences: [] });
+  });
+
+  it("reports a different currency for an entry carrying the transfer ID", () => {
+    const result = reconcile([{ ...entry("A:1", 9900, "2026-10-20", "TRX6"), currency: "USD" }], transfers);
+    expect(result.items[0]).toMatchObject({
+      status: "partial",
+      transfer: { id: "TRX6" },
+      differences: ["Currency differs: booked in USD, sent in EUR."],
+    });
+  });
+
+  it("never matches credits on amount, and flags them when they carry a transfer ID", () => {
+    const result = reconcile(
+      [
+        { ...entry("A:1", 9900, "2026-10-20"), direction: "credit" },
+        { ...entry("A:2", 10000, "2026-10-19", "TRX1"), direction: "credit" },
+      ],
+      transfers,
+    );
+    expect(result.items[0]).toMatchObject({ status: "unmatched" });
+    expect(result.items[1]).toMatchObject({
+      status: "partial",
+      transfer: { id: "TRX1" },
+      differences: ["The entry is a credit, but transfers are debits."],
+    });
+  });
+
+  it("flags a second entry carrying the ID of a matched transfer instead of matching it on amount", () => {
+    const result = reconcile(
+      [entry("A:1", 7500, "2026-10-20", "TRX4"), entry("A:2", 7500, "2026-10-20", "TRX4")],
+      [transfer("TRX4", 7500, "2026-10-20"), transfer("TRX5", 7500, "2026-10-20")],
+    );
+    expect(result.items[0]).toMatchObject({ status: "matched", transfer: { id: "TRX4" } });
+    expect(result.items[1]).toMatchObject({
+      status: "partial",
+      transfer: { id: "TRX4" },
+      differences: ["Another entry is already matched to this transfer; it may have been booked twice."],
+    });
+    expect(result.unmatchedTransfers.map((item) => item.id)).toEqual(["TRX5"]);
+  });
+});
@@ -0,0 +1,179 @@
+// Matching bank statement entries to transfers. An entry matches when its end-to-end ID is the transfer ID
+// and the amount, currency and date agree; without an ID, a single transfer with the same amount and
+// currency within the date tolerance is taken as the match. Anything less is a partial match to review.
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { formatMoney } from "@/lib/money";
+import { StatementEntry } from "@/lib/statements";
+import { TransferRecord } from "@/services/transferService";
+
+// Days a booking may fall before or after a transfer's execution date and still match
+export const DATE_TOLERANCE_DAYS = 3;
+
+export type ReconciliationStatus = "matched" | "partial" | "unmatched";
+
+// A user's decision about an entry: link it to a transfer, or set it aside as not being a transfer
+export type ReconciliationResolution =
+  | { entryId: string; kind: "linked"; transferId: string; resolvedAt: string }
+  | { entryId: string; kind: "ignored"; note?: string; resolvedAt: string };
+
+export interface ReconciliationItem {
+  entry: StatementEntry;
+  status: ReconciliationStatus;
+  // The matched transfer, or the best candidate of a partial match
+  transfer?: TransferRecord;
+  // Why a partial match isn't a full one, e.g. "Amount differs: booked $10.00, sent $12.00"
+  differences: string[];
+  resolution?: ReconciliationResolution;
+}
+
+export interface ReconciliationResult {
+  items: ReconciliationItem[];
+  // Transfers dated within the statements' period that no entry matches or suggests
+  unmatchedTransfers: TransferRecord[];
+}
+
+// Transfers that never take money from the account, so there is nothing to find on a statement
+const NOT_BOOKED: TransferRecord["status"][] = ["draft", "cancelled", "failed"];
+
+// Function to get the date a transfer should be booked around: its execution date, or the day it was created
+export function getTransferDate(transfer: TransferRecord): string {
+  return transfer.executionDate ?? transfer.createdAt.slice(0, 10);
+}
+
+// Amounts a statement may show for a transfer: the amount sent, or what was debited in the account currency
+function getExpectedAmounts(transfer: TransferRecord): { amount: number; currency: string }[] {
+  const amounts = [{ amount: transfer.amount, currency: transfer.currency ?? "USD" }];
+  if (transfer.pricing) {
+    amounts.push(
+      { amount: transfer.pricing.totalDebit, currency: transfer.pricing.sourceCurrency },
+      { amount: transfer.pricing.sendAmount, currency: transfer.pricing.sourceCurrency },
+    );
+  }
+  return amounts;
+}
+
+function amountMatches(entry: StatementEntry, transfer: TransferRecord): boolean {
+  return getExpectedAmounts(transfer).some(({ amount, currency }) => amount === entry.amount && currency === entry.currency);
+}
+
+function dayDifference(entry: StatementEntry, transfer: TransferRecord): number {
+  return differenceInCalendarDays(parseISO(entry.bookingDate), parseISO(getTransferDate(transfer)));
+}
+
+// Function to list how an entry differs from a transfer; empty when they agree
+export function describeDifferences(entry: StatementEntry, transfer: TransferRecord): string[] {
+  const differences: string[] = [];
+  const currency = transfer.currency ?? "USD";
+  if (!getExpectedAmounts(transfer).some(({ currency: expected }) => expected === entry.currency)) {
+    differences.push(`Currency differs: booked in ${entry.currency}, sent in ${currency}.`);
+  } else if (!amountMatches(entry, transfer)) {
+    differences.push(`Amount differs: booked ${formatMoney(entry.amount, entry.currency)}, sent ${formatMoney(transfer.amount, currency)}.`);
+  }
+  const days = dayDifference(entry, transfer);
+  if (Math.abs(days) > DATE_TOLERANCE_DAYS) {
+    differences.push(`Booked ${Math.abs(days)} days ${days > 0 ? "after" : "before"} the transfer date.`);
+  }
+  if (entry.direction === "credit") {
+    differences.push("The entry is a credit, but transfers are debits.");
+  }
+  return differences;
+}
+
+// Function to match statement entries to transfers, applying the user's resolutions first
+export function reconcile(
+  entries: StatementEntry[],
+  transfers: TransferRecord[],
+  resolutions: ReconciliationResolution[] = [],
+): ReconciliationResult {
+  const transfersById = new Map(transfers.map((transfer) => [transfer.id, transfer]));
+  const resolutionsByEntry = new Map(resolutions.map((resolution) => [resolution.entryId, resolution]));
+  const usedTransferIds = new Set<string>();
+  const items = new Map<string, ReconciliationItem>();
+
+  // Resolutions decide their entries outright
+  entries.forEach((entry) => {
+    const resolution = resolutionsByEntry.get(entry.id);
+    if (resolution?.kind === "linked" && transfersById.has(resolution.transferId)) {
+      usedTransferIds.add(resolution.transferId);
+      items.set(entry.id, { entry, status: "matched", transfer: transfersById.get(resolution.transferId), differences: [], resolution });
+    } else if (resolution?.kind === "ignored") {
+      items.set(entry.id, { entry, status: "matched", differences: [], resolution });
+    }
+  });
+
+  // Then entries carrying a transfer ID, which match that transfer or nothing
+  entries.forEach((entry) => {
+    const transfer = entry.endToEndId ? transfersById.get(entry.endToEndId) : undefined;
+    if (items.has(entry.id) || !transfer) {
+      return;
+    }
+    // A second entry for the same transfer may be a duplicate booking, so it's never matched elsewhere on amount
+    if (usedTransferIds.has(transfer.id)) {
+      items.set(entry.id, {
+        entry,
+        status: "partial",
+        transfer,
+        differences: ["Another entry is already matched to this transfer; it may have been booked twice."],
+      });
+      return;
+    }
+    usedTransferIds.add(transfer.id);
+    const differences = describeDifferences(entry, transfer);
+    items.set(entry.id, { entry, status: differences.length === 0 ? "matched" : "partial", transfer, differences });
+  });
+
+  // Last, debits without a usable ID are matched on amount, currency and date
+  entries.forEach((entry) => {
+    if (items.has(entry.id)) {
+      return;
+    }
+    const candidates = entry.direction === "debit"
+      ? transfers.filter((transfer) => !usedTransferIds.has(transfer.id)
+        && !NOT_BOOKED.includes(transfer.status)
+        && amountMatches(entry, transfer))
+      : [];
+    const withinTolerance = candidates.filter((transfer) => Math.abs(dayDifference(entry, transfer)) <= DATE_TOLERANCE_DAYS);
+    if (withinTolerance.length === 1) {
+      usedTransferIds.add(withinTolerance[0].id);
+      items.set(entry.id, { entry, status: "matched", transfer: withinTolerance[0], differences: [] });
+      return;
+    }
+    // Several equally good candidates, or one outside the tolerance, are suggested for review
+    const closest = [...(withinTolerance.length > 0 ? withinTolerance : candidates)]
+      .sort((a, b) => Math.abs(dayDifference(entry, a)) - Math.abs(dayDifference(entry, b)))[0];
+    if (closest) {
+      const differences = withinTolerance.length > 1
+        ? [`${withinTolerance.length} transfers have this amount and date; check it's the right one.`]
+        : describeDifferences(entry, closest);
+      items.set(entry.id, { entry, status: "partial", transfer: closest, differences });
+      return;
+    }
+    items.set(entry.id, { entry, status: "unmatched", differences: [] });
+  });
+
+  const dates = entries.map((entry) => entry.bookingDate).sort();
+  const claimed = new Set([...items.values()].flatMap((item) => (item.transfer ? [item.transfer.id] : [])));
+  const unmatchedTransfers = dates.length === 0 ? [] : transfers.filter((transfer) => {
+    const date = getTransferDate(transfer);
+    return !claimed.has(transfer.id)
+      && !NOT_BOOKED.includes(transfer.status)
+      && transfer.status !== "scheduled"
+      && date >= dates[0]
+      && date <= dates[dates.length - 1];
+  });
+
+  return { items: entries.map((entry) => items.get(entry.id)), unmatchedTransfers };
+}
+
+// Function to rank transfers an entry could be linked to by hand: the closest amounts in its currency first, then the closest dates
+export function suggestTransfers(entry: StatementEntry, transfers: TransferRecord[], limit = 20): TransferRecord[] {
+  const distance = (transfer: TransferRecord) => Math.min(
+    ...getExpectedAmounts(transfer)
+      .filter(({ currency }) => currency === entry.currency)
+      .map(({ amount }) => Math.abs(amount - entry.amount)),
+  );
+  return transfers
+    .filter((transfer) => !NOT_BOOKED.includes(transfer.status) && Number.isFinite(distance(transfer)))
+    .sort((a, b) => distance(a) - distance(b) || Math.abs(dayDifference(entry, a)) - Math.abs(dayDifference(entry, b)))
+    .slice(0, limit);
+}
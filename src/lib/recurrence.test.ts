@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { describeRecurrence, getOccurrences, RecurrenceRule, toRRule, validateRecurrenceRule } from "@/lib/recurrence";
+
+const executionDates = (rule: RecurrenceRule, currencies: string[], range?: { from?: string; to?: string; limit?: number }) =>
+  getOccurrences(rule, currencies, range).map((occurrence) => occurrence.executionDate);
+
+describe("getOccurrences", () => {
+  it("skips weekends and holidays on daily schedules instead of piling them onto one day", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 1, startDate: "2026-11-05" };
+    const occurrences = getOccurrences(rule, ["USD"], { to: "2026-11-12" });
+    // 2026-11-11 is Veterans Day
+    expect(occurrences.map((occurrence) => occurrence.executionDate)).toEqual([
+      "2026-11-05",
+      "2026-11-06",
+      "2026-11-09",
+      "2026-11-10",
+      "2026-11-12",
+    ]);
+    expect(occurrences.every((occurrence) => occurrence.scheduledDate === occurrence.executionDate)).toBe(true);
+  });
+
+  it("counts only the transfers a daily schedule makes", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 1, startDate: "2026-11-05", count: 4 };
+    expect(executionDates(rule, ["USD"], { limit: 10 })).toEqual(["2026-11-05", "2026-11-06", "2026-11-09", "2026-11-10"]);
+  });
+
+  it("rolls weekly occurrences forward to the next business day", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 1, startDate: "2026-11-19", count: 3 };
+    expect(getOccurrences(rule, ["USD"])).toEqual([
+      { index: 0, scheduledDate: "2026-11-19", executionDate: "2026-11-19" },
+      { index: 1, scheduledDate: "2026-11-26", executionDate: "2026-11-27" },
+      { index: 2, scheduledDate: "2026-12-03", executionDate: "2026-12-03" },
+    ]);
+  });
+
+  it("uses the last day of shorter months and rolls it past weekends", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 1, monthDay: 31, startDate: "2027-01-15", count: 3 };
+    expect(getOccurrences(rule, ["EUR"])).toEqual([
+      { index: 0, scheduledDate: "2027-01-31", executionDate: "2027-02-01" },
+      { index: 1, scheduledDate: "2027-02-28", executionDate: "2027-03-01" },
+      { index: 2, scheduledDate: "2027-03-31", executionDate: "2027-03-31" },
+    ]);
+  });
+
+  it("rolls the last business day back and stops at the end of the range", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 1, monthDay: "last_business_day", startDate: "2026-10-01" };
+    // October 31st 2026 is a Saturday
+    expect(executionDates(rule, ["USD"], { to: "2026-12-31" })).toEqual(["2026-10-30", "2026-11-30", "2026-12-31"]);
+    expect(executionDates(rule, ["USD"], { to: "2026-12-30" })).toEqual(["2026-10-30", "2026-11-30"]);
+    expect(executionDates(rule, ["USD"], { from: "2026-11-01", limit: 2 })).toEqual(["2026-11-30", "2026-12-31"]);
+  });
+
+  it("ends after the until date", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 2, startDate: "2026-10-20", until: "2026-11-17" };
+    expect(executionDates(rule, ["USD"])).toEqual(["2026-10-20", "2026-11-03", "2026-11-17"]);
+  });
+});
+
+describe("describeRecurrence and toRRule", () => {
+  it("describe a schedule in words and as an RRULE", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 2, startDate: "2026-10-23", count: 6 };
+    expect(describeRecurrence(rule)).toBe("Every 2 weeks on Friday, 6 times");
+    expect(toRRule(rule)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;COUNT=6");
+  });
+});
+
+describe("validateRecurrenceRule", () => {
+  it("rejects schedules that end both on a date and after a count", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 1, startDate: "2026-10-20", until: "2026-10-30", count: 3 };
+    expect(validateRecurrenceRule(rule).map((error) => error.field)).toEqual(["count"]);
+  });
+});
@@ -0,0 +1,191 @@
+// RRULE-style schedules for recurring transfers. Occurrences fall on their nominal date and are then
+// rolled to a business day in every settlement currency, using the bundled holiday calendars. Daily
+// schedules skip days that aren't business days instead.
+import { addDays, addMonths, addWeeks, format, getDaysInMonth, lastDayOfMonth, setDate, startOfMonth, subDays } from "date-fns";
+import { fromIsoDate, isBusinessDay, nextBusinessDay, toIsoDate } from "@/lib/businessDays";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Repeat every `interval` days, weeks or months
+  interval: number;
+  // Monthly schedules only: a day of the month (1-31, the last day in shorter months) or the last business day
+  monthDay?: number | "last_business_day";
+  // ISO date (yyyy-MM-dd) the schedule starts on; weekly schedules repeat on its weekday
+  startDate: string;
+  // The schedule ends after this ISO date, after `count` occurrences, or never when both are omitted
+  until?: string;
+  count?: number;
+}
+
+export interface Occurrence {
+  // Position in the schedule, starting at 0; stable while the rule is unchanged. Daily schedules skip
+  // the positions of closed days.
+  index: number;
+  // ISO date the rule puts the occurrence on
+  scheduledDate: string;
+  // ISO date it is executed on, once rolled to a business day
+  executionDate: string;
+}
+
+export interface RecurrenceRuleError {
+  field: keyof RecurrenceRule;
+  message: string;
+}
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+export const MAX_RECURRENCE_COUNT = 999;
+
+// Stops runaway loops over rules that never produce a date in range
+const MAX_ITERATIONS = 10000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Function to roll a date back to the last business day on or before it
+function previousBusinessDay(date: Date, currencies: string[]): Date {
+  let day = date;
+  while (!isBusinessDay(day, currencies)) {
+    day = subDays(day, 1);
+  }
+  return day;
+}
+
+// Function to get the first month a monthly schedule falls in: the start month, unless its day has already passed
+function getFirstMonth(rule: RecurrenceRule, start: Date, currencies: string[]): Date {
+  const month = startOfMonth(start);
+  const firstDate = getMonthlyDate(rule, month, currencies);
+  return firstDate < start ? addMonths(month, 1) : month;
+}
+
+function getMonthlyDate(rule: RecurrenceRule, month: Date, currencies: string[]): Date {
+  if (rule.monthDay === "last_business_day") {
+    return previousBusinessDay(lastDayOfMonth(month), currencies);
+  }
+  const day = rule.monthDay ?? 1;
+  return setDate(month, Math.min(day, getDaysInMonth(month)));
+}
+
+// Function to get the nominal date of an occurrence, before it is rolled to a business day
+function getScheduledDate(rule: RecurrenceRule, index: number, currencies: string[]): Date {
+  const start = fromIsoDate(rule.startDate);
+  const step = index * rule.interval;
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(start, step);
+    case "weekly":
+      return addWeeks(start, step);
+    case "monthly":
+      return getMonthlyDate(rule, addMonths(getFirstMonth(rule, start, currencies), step), currencies);
+  }
+}
+
+// Function to list a schedule's occurrences executed between `from` and `to` (ISO dates, inclusive),
+// up to `limit` of them
+export function getOccurrences(
+  rule: RecurrenceRule,
+  currencies: string[],
+  { from = rule.startDate, to, limit = 12 }: { from?: string; to?: string; limit?: number } = {},
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  // Occurrences in the schedule so far, in range or not, for ending it after `count`
+  let counted = 0;
+  for (let index = 0; index < MAX_ITERATIONS && occurrences.length < limit; index++) {
+    if (rule.count !== undefined && counted >= rule.count) {
+      break;
+    }
+    const scheduled = getScheduledDate(rule, index, currencies);
+    const scheduledDate = toIsoDate(scheduled);
+    // Scheduled dates only increase, and an occurrence is never executed before its scheduled date (the
+    // last business day is rolled back before it's scheduled), so no later occurrence can be in range either
+    if ((rule.until && scheduledDate > rule.until) || (to && scheduledDate > to)) {
+      break;
+    }
+    // Daily schedules leave out closed days: rolling them would put several occurrences on the next business day
+    if (rule.frequency === "daily" && !isBusinessDay(scheduled, currencies)) {
+      continue;
+    }
+    counted++;
+    const executionDate = toIsoDate(nextBusinessDay(scheduled, currencies));
+    if (executionDate >= from && (!to || executionDate <= to)) {
+      occurrences.push({ index, scheduledDate, executionDate });
+    }
+  }
+  return occurrences;
+}
+
+// Function to describe a schedule in words, e.g. "Every 2 weeks on Friday, 6 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const start = fromIsoDate(rule.startDate);
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  let description: string;
+  if (rule.frequency === "daily") {
+    description = every("day");
+  } else if (rule.frequency === "weekly") {
+    description = `${every("week")} on ${format(start, "EEEE")}`;
+  } else if (rule.monthDay === "last_business_day") {
+    description = `${every("month")} on the last business day`;
+  } else {
+    description = `${every("month")} on day ${rule.monthDay ?? 1}`;
+  }
+
+  if (rule.count !== undefined) {
+    return `${description}, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  }
+  if (rule.until) {
+    return `${description}, until ${format(fromIsoDate(rule.until), "MMM d, yyyy")}`;
+  }
+  return description;
+}
+
+// Function to write a schedule as an iCalendar RRULE, e.g. for exporting standing orders. Holiday
+// rolling has no RRULE equivalent; the last business day is written as the last weekday of the month.
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === "weekly") {
+    parts.push(`BYDAY=${WEEKDAY_CODES[fromIsoDate(rule.startDate).getDay()]}`);
+  }
+  if (rule.frequency === "monthly") {
+    parts.push(rule.monthDay === "last_business_day" ? "BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" : `BYMONTHDAY=${rule.monthDay ?? 1}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+// Function to validate a recurrence rule
+export function validateRecurrenceRule(rule: RecurrenceRule): RecurrenceRuleError[] {
+  const errors: RecurrenceRuleError[] = [];
+  const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_RECURRENCE_INTERVAL) {
+    errors.push({ field: "interval", message: `Repeat every 1 to ${MAX_RECURRENCE_INTERVAL} periods.` });
+  }
+  if (
+    rule.frequency === "monthly" &&
+    rule.monthDay !== "last_business_day" &&
+    !(Number.isInteger(rule.monthDay) && rule.monthDay >= 1 && rule.monthDay <= 31)
+  ) {
+    errors.push({ field: "monthDay", message: "Choose a day of the month from 1 to 31." });
+  }
+  if (!isIsoDate(rule.startDate)) {
+    errors.push({ field: "startDate", message: "Start date must be an ISO date (yyyy-MM-dd)." });
+  }
+  if (rule.until !== undefined && (!isIsoDate(rule.until) || rule.until < rule.startDate)) {
+    errors.push({ field: "until", message: "The end date must be on or after the start date." });
+  }
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_RECURRENCE_COUNT)
+  ) {
+    errors.push({ field: "count", message: `The number of transfers must be from 1 to ${MAX_RECURRENCE_COUNT}.` });
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    errors.push({ field: "count", message: "End the schedule on a date or after a number of transfers, not both." });
+  }
+  return errors;
+}
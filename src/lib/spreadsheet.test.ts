@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseCsv, readXlsx, SpreadsheetError, toCsv } from "@/lib/spreadsheet";
+
+// Function to build a zip archive in memory, with every entry stored or deflated
+async function createZip(files: Record<string, string>, deflate: boolean): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(text);
+    const data = deflate
+      ? new Uint8Array(await new Response(new Response(raw).body.pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer())
+      : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, deflate ? 8 : 0, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, deflate ? 8 : 0, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    zip.set(part, position);
+    return position + part.length;
+  }, 0);
+  return zip.buffer;
+}
+
+const WORKBOOK = {
+  "xl/workbook.xml":
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Payments" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  "xl/_rels/workbook.xml.rels":
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="worksheet" Target="worksheets/payments.xml"/></Relationships>',
+  "xl/sharedStrings.xml":
+    '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    "<si><t>recipient_name</t></si><si><t>amount</t></si>" +
+    "<si><r><t>Jane </t></r><r><t>Smith</t></r><rPh><t>ジェーン</t></rPh></si></sst>",
+  "xl/worksheets/payments.xml":
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>date</t></is></c></row>' +
+    '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3"><v>0.30000000000000004</v></c><c r="D3"><v>46000</v></c></row>' +
+    "</sheetData></worksheet>",
+};
+
+describe("parseCsv", () => {
+  it("reads quoted cells with delimiters, quotes and line breaks", () => {
+    expect(parseCsv('\uFEFFname,memo\r\n"Smith, Jane","Say ""hi""\nthere"\r\n')).toEqual([
+      ["name", "memo"],
+      ["Smith, Jane", 'Say "hi"\nthere'],
+    ]);
+  });
+
+  it("uses semicolons when the first line has more of them", () => {
+    expect(parseCsv("name;amount\nJane;1,50")).toEqual([["name", "amount"], ["Jane", "1,50"]]);
+  });
+
+  it("rejects a quote that is never closed", () => {
+    expect(() => parseCsv('name\n"Jane')).toThrow(SpreadsheetError);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells with delimiters, quotes or line breaks and round-trips", () => {
+    const rows = [["name", "memo"], ["Smith, Jane", 'Say "hi"\nthere']];
+    expect(toCsv(rows)).toBe('name,memo\r\n"Smith, Jane","Say ""hi""\nthere"');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it.each(["=HYPERLINK(\"http://x\")", "+1", "-2+3", "@SUM(A1)"])("writes %j as text, not a formula", (cell) => {
+    expect(parseCsv(toCsv([[cell]]))[0][0]).toBe(`'${cell}`);
+  });
+});
+
+describe("readXlsx", () => {
+  it.each([false, true])("reads the first sheet of a workbook (deflated: %s)", async (deflate) => {
+    expect(await readXlsx(await createZip(WORKBOOK, deflate))).toEqual([
+      ["recipient_name", "amount", "", "date"],
+      [],
+      ["Jane Smith", "0.3", "", "46000"],
+    ]);
+  });
+
+  it("rejects files that aren't zip archives", async () => {
+    await expect(readXlsx(new TextEncoder().encode("name,amount").buffer)).rejects.toThrow("The file is not a valid XLSX workbook.");
+  });
+});
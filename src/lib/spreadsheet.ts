@@ -0,0 +1,232 @@
+// Reading and writing tables for bulk uploads: CSV files (RFC 4180) and the first sheet of XLSX workbooks.
+// XLSX files are zip archives of XML parts, unpacked with the browser's DecompressionStream.
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+// Function to parse CSV text into rows of cells. The delimiter is a comma, or a semicolon when the
+// first line has more of them, as in CSV exported by spreadsheets in many European locales.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new SpreadsheetError("The CSV file has a quoted value that is never closed.");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Function to write one CSV cell. Cells starting with =, +, - or @ get a leading apostrophe so spreadsheets
+// show them as text instead of running them as formulas; cells with delimiters, quotes or line breaks are quoted.
+function toCsvCell(value: string): string {
+  const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",;\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// Function to write rows of cells as CSV
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Function to list the files in a zip archive from its central directory
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end of central directory record is at least 22 bytes and may be followed by a comment
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new SpreadsheetError("The file is not a valid XLSX workbook.");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new SpreadsheetError("The XLSX workbook is damaged.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Function to read one file from a zip archive as text, or undefined when the archive doesn't have it
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | undefined> {
+  const entry = entries.get(name);
+  if (!entry) {
+    return undefined;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset + 30
+    + view.getUint16(entry.localHeaderOffset + 26, true)
+    + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new SpreadsheetError("The XLSX workbook uses an unsupported compression method.");
+  }
+  if (typeof DecompressionStream === "undefined") {
+    throw new SpreadsheetError("This browser can't read XLSX files. Save the sheet as CSV and upload that instead.");
+  }
+  const stream = new Response(data).body.pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+// XLSX parts use namespaces, sometimes with prefixes, so elements are matched by local name
+function getElements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+// Function to convert a cell reference's column letters to a zero-based index, e.g. "AB12" -> 27
+function getColumnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Function to find the file holding the first worksheet of a workbook
+async function getFirstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readZipText(bytes, entries, "xl/workbook.xml");
+  const relations = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  const sheet = workbook && getElements(parseXml(workbook), "sheet")[0];
+  const relationId = sheet && Array.from(sheet.attributes).find((attribute) => attribute.localName === "id")?.value;
+  const target = relationId && relations && getElements(parseXml(relations), "Relationship")
+    .find((relation) => relation.getAttribute("Id") === relationId)
+    ?.getAttribute("Target");
+  if (!target) {
+    return "xl/worksheets/sheet1.xml";
+  }
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+// Function to read the first sheet of an XLSX workbook into rows of cells. Cells hold the stored
+// value: numbers are unformatted and dates are serial day numbers, as Excel keeps them.
+export async function readXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(data);
+  const entries = readZipEntries(bytes);
+
+  const sharedStringsXml = await readZipText(bytes, entries, "xl/sharedStrings.xml");
+  // Rich text strings are split into runs; phonetic guides (rPh) are not part of the value
+  const sharedStrings = sharedStringsXml
+    ? getElements(parseXml(sharedStringsXml), "si").map((item) =>
+      getElements(item, "t")
+        .filter((t) => t.parentElement?.localName !== "rPh")
+        .map((t) => t.textContent)
+        .join(""))
+    : [];
+
+  const sheetXml = await readZipText(bytes, entries, await getFirstSheetPath(bytes, entries));
+  if (!sheetXml) {
+    throw new SpreadsheetError("The XLSX workbook has no worksheets.");
+  }
+
+  const rows: string[][] = [];
+  getElements(parseXml(sheetXml), "row").forEach((rowElement, rowPosition) => {
+    const rowNumber = Number(rowElement.getAttribute("r")) || rowPosition + 1;
+    const row: string[] = [];
+    getElements(rowElement, "c").forEach((cellElement, cellPosition) => {
+      const reference = cellElement.getAttribute("r");
+      const column = reference ? getColumnIndex(reference) : cellPosition;
+      const type = cellElement.getAttribute("t");
+      const value = getElements(cellElement, "v")[0]?.textContent ?? "";
+      let text: string;
+      if (type === "s") {
+        text = sharedStrings[Number(value)] ?? "";
+      } else if (type === "inlineStr") {
+        text = getElements(cellElement, "t").map((t) => t.textContent).join("");
+      } else if ((type === null || type === "n") && value !== "") {
+        // Drop binary floating point noise such as 0.30000000000000004, as Excel does on display
+        text = String(Number(Number(value).toPrecision(15)));
+      } else {
+        text = value;
+      }
+      while (row.length < column) {
+        row.push("");
+      }
+      row[column] = text;
+    });
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows[rowNumber - 1] = row;
+  });
+  return rows;
+}
+
+// Function to read an uploaded CSV or XLSX file into rows of cells
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (name.endsWith(".xls")) {
+    throw new SpreadsheetError("Old .xls workbooks aren't supported. Save the sheet as .xlsx or CSV and try again.");
+  }
+  return parseCsv(await file.text());
+}
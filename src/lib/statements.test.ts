@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseCamt053, parseMt940, parseStatementFile, StatementError } from "@/lib/statements";
+
+// Two statements under the same reference, as some German banks write them
+const MT940 = [
+  ":20:STARTUMS",
+  ":25:DE89370400440532013000",
+  ":28C:00041/001",
+  ":60F:C261016EUR10000,00",
+  ":61:2610191019D1250,50NTRFTRX1001//BANKREF1",
+  ":86:166?00SEPA-UEBERWEISUNG?20EREF+TRX1001?21Invoice 2026-17",
+  ":61:2610191019C300,00NTRFNONREF",
+  ":86:Incoming payment",
+  ":62F:C261019EUR9049,50",
+  "-",
+  ":20:STARTUMS",
+  ":25:DE89370400440532013000",
+  ":28C:00042/001",
+  ":60F:C261019EUR9049,50",
+  ":61:2610201020D99,00NMSCNONREF",
+  ":86:Account fee",
+  ":62F:C261020EUR8950,50",
+  "-",
+].join("\n");
+
+const camt053 = (statements: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId><CreDtTm>2026-10-20T06:00:00</CreDtTm></GrpHdr>
+    ${statements}
+  </BkToCstmrStmt>
+</Document>`;
+
+const camtStatement = (openingDate: string, entries: string) => `<Stmt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>${openingDate}</Dt></Dt></Bal>
+      ${entries}
+    </Stmt>`;
+
+const CAMT_ENTRIES = `<Ntry>
+        <Amt Ccy="EUR">1250.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-10-19</Dt></BookgDt><ValDt><Dt>2026-10-19</Dt></ValDt><AcctSvcrRef>BANKREF1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>TRX1001</EndToEndId></Refs>
+          <RltdPties><Cdtr><Pty><Nm>Café Zoë GmbH</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 2026-17</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">80.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2026-10-19T12:00:00</DtTm></BookgDt>
+        <NtryDtls>
+          <TxDtls><Amt Ccy="EUR">30.00</Amt><Refs><EndToEndId>TRX1002</EndToEndId></Refs></TxDtls>
+          <TxDtls><Amt Ccy="EUR">50.00</Amt><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs></TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">5.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>PDNG</Cd></Sts><BookgDt><Dt>2026-10-19</Dt></BookgDt>
+      </Ntry>`;
+
+describe("parseMt940", () => {
+  it("reads statement lines with their references and information", () => {
+    const [first] = parseMt940(MT940);
+    expect(first).toMatchObject({ format: "mt940", statementId: "STARTUMS", sequenceNumber: "00041/001", openingDate: "2026-10-16" });
+    expect(first.accountId).toBe("DE89370400440532013000");
+    expect(first.entries).toHaveLength(2);
+    expect(first.entries[0]).toMatchObject({
+      bookingDate: "2026-10-19",
+      valueDate: "2026-10-19",
+      amount: 125050,
+      currency: "EUR",
+      direction: "debit",
+      endToEndId: "TRX1001",
+      bankReference: "BANKREF1",
+    });
+    expect(first.entries[1]).toMatchObject({ amount: 30000, direction: "credit", endToEndId: undefined, description: "Incoming payment" });
+  });
+
+  it("gives entries of statements sharing a reference different IDs", () => {
+    const statements = parseMt940(MT940);
+    const ids = statements.flatMap((statement) => statement.entries.map((entry) => entry.id));
+    expect(new Set(ids).size).toBe(3);
+    expect(statements[0].key).not.toBe(statements[1].key);
+    // Importing the same file again gives the same IDs
+    expect(parseMt940(MT940).flatMap((statement) => statement.entries.map((entry) => entry.id))).toEqual(ids);
+  });
+
+  it("numbers statements that can't be told apart", () => {
+    const statement = MT940.split("-\n")[0];
+    const statements = parseMt940(`${statement}-\n${statement}`);
+    expect(statements[0].entries[0].id).not.toBe(statements[1].entries[0].id);
+  });
+
+  it("rejects files without statements", () => {
+    expect(() => parseMt940("hello")).toThrow(StatementError);
+  });
+
+  it.each([
+    ["0,", 0],
+    ["0,00", 0],
+    ["12,500", 1250],
+    ["12,", 1200],
+    ["1250,50", 125050],
+  ])("reads the amount %s as %i minor units", (amount, minorUnits) => {
+    const file = [":20:STMT", ":60F:C261016EUR100,00", `:61:2610191019D${amount}NMSCNONREF`, "-"].join("\n");
+    expect(parseMt940(file)[0].entries[0].amount).toBe(minorUnits);
+  });
+
+  it("rejects amounts with more decimals than the currency has", () => {
+    const file = [":20:STMT", ":60F:C261016EUR100,00", ":61:2610191019D12,345NMSCNONREF", "-"].join("\n");
+    expect(() => parseMt940(file)).toThrow("EUR amounts can have at most 2 decimal places.");
+  });
+});
+
+describe("parseCamt053", () => {
+  it("reads booked entries, splitting batch bookings into their transactions", () => {
+    const [statement] = parseCamt053(camt053(camtStatement("2026-10-16", CAMT_ENTRIES)));
+    expect(statement).toMatchObject({ format: "camt053", statementId: "STMT1", accountId: "DE89370400440532013000", openingDate: "2026-10-16" });
+    expect(statement.entries.map(({ amount, endToEndId, bookingDate }) => ({ amount, endToEndId, bookingDate }))).toEqual([
+      { amount: 125050, endToEndId: "TRX1001", bookingDate: "2026-10-19" },
+      { amount: 3000, endToEndId: "TRX1002", bookingDate: "2026-10-19" },
+      { amount: 5000, endToEndId: undefined, bookingDate: "2026-10-19" },
+    ]);
+    expect(statement.entries[0]).toMatchObject({ counterpartyName: "Café Zoë GmbH", description: "Invoice 2026-17", bankReference: "BANKREF1" });
+  });
+
+  it("gives statements without an ID different entry IDs for different periods", () => {
+    const first = parseCamt053(camt053(camtStatement("2026-10-16", CAMT_ENTRIES)));
+    const second = parseCamt053(camt053(camtStatement("2026-10-19", CAMT_ENTRIES)));
+    const ids = [...first, ...second].flatMap((statement) => statement.entries.map((entry) => entry.id));
+    expect(new Set(ids).size).toBe(6);
+  });
+
+  it("rejects other XML documents", () => {
+    expect(() => parseCamt053("<Document xmlns=\"urn:iso:std:iso:20022:tech:xsd:pain.001.001.09\"/>")).toThrow(
+      "The file is not a CAMT.053 bank-to-customer statement.",
+    );
+  });
+});
+
+describe("parseStatementFile", () => {
+  it("tells the formats apart by their content", () => {
+    expect(parseStatementFile(MT940)[0].format).toBe("mt940");
+    expect(parseStatementFile(`\uFEFF${camt053(camtStatement("2026-10-16", ""))}`)[0].format).toBe("camt053");
+    expect(() => parseStatementFile("a,b,c")).toThrow(StatementError);
+  });
+});
@@ -0,0 +1,331 @@
+// Bank account statements: ISO 20022 CAMT.053 XML and SWIFT MT940 files, read into a common list of
+// booked entries for reconciling transfers against what actually left the account
+import { toMinorUnits } from "@/lib/money";
+import { parseXmlDocument } from "@/lib/xml";
+
+export class StatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementError";
+  }
+}
+
+export type StatementFormat = "camt053" | "mt940";
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  camt053: "CAMT.053",
+  mt940: "MT940",
+};
+
+export interface StatementEntry {
+  // Unique across every statement: the statement's key and the position of the entry in it
+  id: string;
+  // ISO dates (yyyy-MM-dd)
+  bookingDate: string;
+  valueDate?: string;
+  // Amount in minor units of `currency`, always positive; `direction` says which way the money went
+  amount: number;
+  currency: string;
+  direction: "debit" | "credit";
+  // End-to-end ID of the payment, which is the transfer ID for files created by this app
+  endToEndId?: string;
+  // The bank's own reference for the entry
+  bankReference?: string;
+  counterpartyName?: string;
+  description?: string;
+}
+
+export interface BankStatement {
+  format: StatementFormat;
+  // Tells the statement apart from every other; see getStatementKey
+  key: string;
+  statementId: string;
+  // The bank's statement or sequence number, e.g. "00042/001"
+  sequenceNumber?: string;
+  // ISO date of the opening balance, or of the start of the period the statement covers
+  openingDate?: string;
+  // IBAN or account number of the statement's account
+  accountId: string;
+  entries: StatementEntry[];
+}
+
+// References banks use when the payer gave none
+const NO_REFERENCE = new Set(["NOTPROVIDED", "NONREF", "NONE"]);
+
+function toReference(value: string | undefined): string | undefined {
+  const reference = value?.trim();
+  return reference && !NO_REFERENCE.has(reference.toUpperCase()) ? reference : undefined;
+}
+
+// Function to get the key of a statement. Banks reuse statement references, and some MT940 files give
+// every statement the same one (e.g. "STARTUMS"), so the account, sequence number and opening date are
+// part of it. The same statement imported again gets the same key.
+export function getStatementKey(statement: Omit<BankStatement, "key" | "entries">): string {
+  return [statement.accountId, statement.statementId, statement.sequenceNumber ?? "", statement.openingDate ?? ""].join("/");
+}
+
+// Function to give each statement in a file its key and number its entries under it. Statements in one
+// file that can't be told apart are numbered too, so no two entries ever share an ID.
+function withKeys(statements: Omit<BankStatement, "key">[]): BankStatement[] {
+  const keyCounts = new Map<string, number>();
+  return statements.map((statement) => {
+    const baseKey = getStatementKey(statement);
+    const count = (keyCounts.get(baseKey) ?? 0) + 1;
+    keyCounts.set(baseKey, count);
+    const key = count === 1 ? baseKey : `${baseKey}#${count}`;
+    return {
+      ...statement,
+      key,
+      entries: statement.entries.map((entry) => ({ ...entry, id: `${key}:${entry.id}` })),
+    };
+  });
+}
+
+// Function to read an entry amount. Banks book zero amounts, e.g. for fee-only entries, and some write more
+// decimals than the currency has, e.g. "12.500" for EUR, so zeros after the decimal mark are dropped first.
+function parseEntryAmount(amount: string, currency: string, context: string): number {
+  const normalized = amount.trim().replace(/(\.\d*?)0+$/, "$1").replace(/\.$/, "");
+  if (/^0+$/.test(normalized)) {
+    return 0;
+  }
+  try {
+    return toMinorUnits(normalized, currency);
+  } catch (error) {
+    throw new StatementError(`${context}: the amount "${amount}" can't be read (${(error as Error).message})`);
+  }
+}
+
+// Functions to walk CAMT.053 documents by local name, whatever namespace version they use
+function child(element: Element | undefined, ...path: string[]): Element | undefined {
+  return path.reduce<Element | undefined>(
+    (current, name) => current && Array.from(current.children).find((candidate) => candidate.localName === name),
+    element,
+  );
+}
+
+function children(element: Element | undefined, name: string): Element[] {
+  return element ? Array.from(element.children).filter((candidate) => candidate.localName === name) : [];
+}
+
+function text(element: Element | undefined, ...path: string[]): string | undefined {
+  return child(element, ...path)?.textContent?.trim() || undefined;
+}
+
+// Dates are given as a date or a date and time; only the date is kept
+function dateOf(element: Element | undefined): string | undefined {
+  return (text(element, "Dt") ?? text(element, "DtTm"))?.slice(0, 10);
+}
+
+// Function to get the name of the other party: the creditor of a debit, or the debtor of a credit
+function counterpartyName(details: Element | undefined, direction: StatementEntry["direction"]): string | undefined {
+  const party = child(details, "RltdPties", direction === "debit" ? "Cdtr" : "Dbtr");
+  // Version 8 and later wrap the party in a Pty element
+  return text(party, "Nm") ?? text(party, "Pty", "Nm");
+}
+
+// Function to read a CAMT.053 bank-to-customer statement file
+export function parseCamt053(xml: string): BankStatement[] {
+  const parsed = parseXmlDocument(xml);
+  if ("error" in parsed) {
+    throw new StatementError(`The file is not valid XML: ${parsed.error}`);
+  }
+  const root = parsed.document.documentElement;
+  const statementList = child(root, "BkToCstmrStmt");
+  if (root.localName !== "Document" || !statementList || !root.namespaceURI?.includes("camt.053")) {
+    throw new StatementError("The file is not a CAMT.053 bank-to-customer statement.");
+  }
+
+  return withKeys(children(statementList, "Stmt").map((statement, statementIndex) => {
+    const statementId = text(statement, "Id") ?? `STMT${statementIndex + 1}`;
+    const entries: StatementEntry[] = [];
+    children(statement, "Ntry").forEach((entry, entryIndex) => {
+      // Only booked entries have left the account; pending and information-only entries are skipped
+      const status = text(entry, "Sts", "Cd") ?? text(entry, "Sts");
+      if (status && status !== "BOOK") {
+        return;
+      }
+      const amountElement = child(entry, "Amt");
+      const currency = amountElement?.getAttribute("Ccy") ?? "";
+      const direction: StatementEntry["direction"] = text(entry, "CdtDbtInd") === "CRDT" ? "credit" : "debit";
+      const bankReference = text(entry, "AcctSvcrRef");
+      // Qualified with the statement's key once the statement is read
+      const baseId = String(entryIndex + 1);
+      const bookingDate = dateOf(child(entry, "BookgDt")) ?? dateOf(child(entry, "ValDt"));
+      if (!bookingDate) {
+        throw new StatementError(`Entry ${entryIndex + 1} of statement ${statementId} has no booking date.`);
+      }
+      const common = {
+        bookingDate,
+        valueDate: dateOf(child(entry, "ValDt")),
+        currency,
+        direction,
+        bankReference,
+      };
+
+      // Batch bookings list each payment in its own transaction details
+      const transactions = children(entry, "NtryDtls").flatMap((details) => children(details, "TxDtls"));
+      if (transactions.length <= 1) {
+        const details = transactions[0];
+        entries.push({
+          ...common,
+          id: baseId,
+          amount: parseEntryAmount(amountElement?.textContent ?? "", currency, `Entry ${baseId} of statement ${statementId}`),
+          endToEndId: toReference(text(details, "Refs", "EndToEndId")),
+          counterpartyName: counterpartyName(details, direction),
+          description: children(child(details, "RmtInf"), "Ustrd").map((line) => line.textContent?.trim()).join(" ")
+            || text(entry, "AddtlNtryInf"),
+        });
+        return;
+      }
+      transactions.forEach((details, transactionIndex) => {
+        const transactionAmount = child(details, "Amt") ?? child(details, "AmtDtls", "TxAmt", "Amt");
+        const id = `${baseId}.${transactionIndex + 1}`;
+        entries.push({
+          ...common,
+          id,
+          currency: transactionAmount?.getAttribute("Ccy") ?? currency,
+          amount: parseEntryAmount(transactionAmount?.textContent ?? "", transactionAmount?.getAttribute("Ccy") ?? currency, `Entry ${id} of statement ${statementId}`),
+          endToEndId: toReference(text(details, "Refs", "EndToEndId")),
+          counterpartyName: counterpartyName(details, direction),
+          description: children(child(details, "RmtInf"), "Ustrd").map((line) => line.textContent?.trim()).join(" ") || undefined,
+        });
+      });
+    });
+
+    const account = child(statement, "Acct", "Id");
+    const openingBalance = children(statement, "Bal").find((balance) =>
+      ["OPBD", "PRCD"].includes(text(balance, "Tp", "CdOrPrtry", "Cd") ?? ""));
+    return {
+      format: "camt053" as const,
+      statementId,
+      sequenceNumber: text(statement, "ElctrncSeqNb") ?? text(statement, "LglSeqNb"),
+      openingDate: dateOf(child(openingBalance, "Dt")) ?? text(statement, "FrToDt", "FrDtTm")?.slice(0, 10),
+      accountId: text(account, "IBAN") ?? text(account, "Othr", "Id") ?? "",
+      entries,
+    };
+  }));
+}
+
+// Function to turn a YYMMDD date into an ISO date
+function fromYyMmDd(value: string): string {
+  return `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+// Statement line (:61:): value date, optional entry date (MMDD), debit/credit mark, optional funds code,
+// amount with a decimal comma, transaction type, the account owner's reference, an optional bank
+// reference after "//", and supplementary details on the next line
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// End-to-end references in the information field, in the /EREF/ or German EREF+ structured forms
+const END_TO_END_REFERENCE = /EREF[+/:]\s*([^\s/?]+)/;
+
+// Function to read a field tag and its lines, e.g. [":61:", "2610191019D1250,50NTRFTXN100001"]
+function splitMt940Fields(text: string): { tag: string; value: string }[] {
+  const fields: { tag: string; value: string }[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line !== "-" && line !== "-}") {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+  return fields;
+}
+
+// Function to read an MT940 customer statement file, which may hold several statements
+export function parseMt940(text: string): BankStatement[] {
+  const statements: Omit<BankStatement, "key">[] = [];
+  let statement: Omit<BankStatement, "key"> | undefined;
+  let currency = "";
+  let lastEntry: StatementEntry | undefined;
+
+  splitMt940Fields(text).forEach(({ tag, value }) => {
+    switch (tag) {
+      case "20":
+        statement = { format: "mt940", statementId: value.trim(), accountId: "", entries: [] };
+        statements.push(statement);
+        currency = "";
+        lastEntry = undefined;
+        return;
+      case "25":
+        if (statement) {
+          statement.accountId = value.trim();
+        }
+        return;
+      case "28C":
+        if (statement) {
+          statement.sequenceNumber = value.trim();
+        }
+        return;
+      case "60F":
+      case "60M":
+        // Opening balance: D/C mark, date, currency and amount; the currency applies to every entry
+        if (statement) {
+          statement.openingDate = fromYyMmDd(value.slice(1, 7));
+        }
+        currency = value.slice(7, 10);
+        return;
+      case "61": {
+        if (!statement) {
+          throw new StatementError("The file has a statement line before any :20: statement reference.");
+        }
+        const match = value.match(STATEMENT_LINE);
+        if (!match) {
+          throw new StatementError(`The statement line "${value.split("\n")[0]}" can't be read.`);
+        }
+        const [, valueDate, entryDate, mark, , amount, , ownerReference, bankReference, details] = match;
+        const isoValueDate = fromYyMmDd(valueDate);
+        let bookingDate = isoValueDate;
+        if (entryDate) {
+          // The entry date has no year; it can fall in the year before or after the value date
+          const year = Number(isoValueDate.slice(0, 4));
+          const candidates = [year - 1, year, year + 1].map((candidate) => `${candidate}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`);
+          bookingDate = candidates.reduce((closest, candidate) =>
+            Math.abs(Date.parse(candidate) - Date.parse(isoValueDate)) < Math.abs(Date.parse(closest) - Date.parse(isoValueDate)) ? candidate : closest);
+        }
+        const position = statement.entries.length + 1;
+        lastEntry = {
+          // Qualified with the statement's key once the file is read
+          id: String(position),
+          bookingDate,
+          valueDate: isoValueDate,
+          amount: parseEntryAmount(amount.replace(",", "."), currency, `Statement line ${position} of ${statement.statementId}`),
+          currency,
+          // Reversals go the other way: a reversed debit credits the account
+          direction: mark === "D" || mark === "RC" ? "debit" : "credit",
+          endToEndId: toReference(ownerReference),
+          bankReference: toReference(bankReference),
+          description: details?.trim() || undefined,
+        };
+        statement.entries.push(lastEntry);
+        return;
+      }
+      case "86": {
+        if (!lastEntry) {
+          return;
+        }
+        const information = value.replace(/\n/g, "").trim();
+        lastEntry.endToEndId = toReference(information.match(END_TO_END_REFERENCE)?.[1]) ?? lastEntry.endToEndId;
+        lastEntry.description = information || lastEntry.description;
+      }
+    }
+  });
+
+  if (statements.length === 0) {
+    throw new StatementError("The file has no MT940 statements.");
+  }
+  return withKeys(statements);
+}
+
+// Function to read a statement file in either format, telling them apart by their content
+export function parseStatementFile(text: string): BankStatement[] {
+  const content = text.replace(/^\uFEFF/, "").trim();
+  if (content.startsWith("<")) {
+    return parseCamt053(content);
+  }
+  if (/^:20:/m.test(content) && /^:6[01]/m.test(content)) {
+    return parseMt940(content);
+  }
+  throw new StatementError("The file is neither a CAMT.053 XML statement nor an MT940 statement.");
+}
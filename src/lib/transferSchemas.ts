@@ -0,0 +1,404 @@
+// Form schemas for domestic and international transfers
+import { z } from "zod";
+import { normalizeIban, validateIban } from "@/lib/iban";
+import { checkBicCountry, normalizeBic, validateBic } from "@/lib/bic";
+import { resolveCountryCode } from "@/lib/countries";
+import { normalizeAccountNumber, normalizeRoutingNumber, validateAccountNumber, validateRoutingNumber } from "@/lib/aba";
+import {
+  ACCOUNT_SCHEMES,
+  AccountScheme,
+  buildAccountIdentifier,
+  getAccountSchemes,
+  validateAccountFields,
+} from "@/lib/accountFormats";
+import { isCurrencyCode } from "@/lib/currencies";
+import { fromIsoDate, getEffectiveExecutionDate, toIsoDate, validateExecutionDate } from "@/lib/businessDays";
+import { RecurrenceRule, validateRecurrenceRule } from "@/lib/recurrence";
+import { fromMinorUnits, parseAmount, toMinorUnits } from "@/lib/money";
+import { MAX_NICKNAME_LENGTH } from "@/services/beneficiaryService";
+import type { BeneficiaryInput } from "@/services/beneficiaryService";
+import { isQuotableCurrency } from "@/services/quoteService";
+import type { RecurringTransferInput } from "@/services/recurringTransferService";
+import { getRecipientDetails, getSettlementCurrencies } from "@/services/transferService";
+import type { RecipientDetails, TransferChanges, TransferData } from "@/services/transferService";
+
+// Domestic transfers are US ACH transfers and always settle in US dollars
+export const DOMESTIC_CURRENCY = "USD";
+
+// Transfers can only be made in currencies the rate table can quote
+const currencySchema = z
+  .string()
+  .refine(isCurrencyCode, { message: "Select a currency." })
+  .refine((code) => !isCurrencyCode(code) || isQuotableCurrency(code), (code) => ({
+    message: `Transfers in ${code} aren't available yet.`,
+  }));
+
+// Amounts are typed as decimal strings and checked against the minor units of their currency
+function addAmountIssues(amount: string, currency: string, ctx: z.RefinementCtx) {
+  const result = parseAmount(amount, currency);
+  if (result.valid === false) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error, path: ["amount"] });
+  }
+}
+
+// Execution dates must be business days in every currency the transfer settles in
+function addExecutionDateIssues(executionDate: Date | undefined, currencies: string[], ctx: z.RefinementCtx) {
+  const message = executionDate && validateExecutionDate(executionDate, currencies);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["executionDate"] });
+  }
+}
+
+// Recipient fields shared by the domestic transfer form and saved domestic beneficiaries
+const domesticRecipientShape = {
+  recipientName: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  accountNumber: z.string().transform(normalizeAccountNumber).superRefine((accountNumber, ctx) => {
+    const result = validateAccountNumber(accountNumber);
+    if (result.valid === false) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    }
+  }),
+  routingNumber: z.string().transform(normalizeRoutingNumber).superRefine((routingNumber, ctx) => {
+    const result = validateRoutingNumber(routingNumber);
+    if (result.valid === false) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    }
+  }),
+  bankName: z.string().min(2, { message: "Bank name is required." }),
+};
+
+export const domesticFormSchema = z.object({
+  ...domesticRecipientShape,
+  amount: z.string(),
+  description: z.string().optional(),
+  // Omitted to send the transfer straight away
+  executionDate: z.date().optional(),
+}).superRefine((data, ctx) => {
+  addAmountIssues(data.amount, DOMESTIC_CURRENCY, ctx);
+  addExecutionDateIssues(data.executionDate, getSettlementCurrencies({ transferType: "domestic" }), ctx);
+});
+
+// Recipient fields shared by the international transfer form and saved international beneficiaries
+const internationalRecipientShape = {
+  recipientName: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  // Which account identifier fields apply depends on the bank country, see getAccountSchemes
+  accountScheme: z.enum(Object.keys(ACCOUNT_SCHEMES) as [AccountScheme, ...AccountScheme[]]),
+  iban: z.string().transform(normalizeIban),
+  sortCode: z.string().optional(),
+  bsb: z.string().optional(),
+  ifsc: z.string().optional(),
+  clabe: z.string().optional(),
+  institutionNumber: z.string().optional(),
+  transitNumber: z.string().optional(),
+  routingNumber: z.string().optional(),
+  accountNumber: z.string().optional(),
+  swiftCode: z.string().transform(normalizeBic).superRefine((swiftCode, ctx) => {
+    const result = validateBic(swiftCode);
+    if (result.valid === false) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    }
+  }),
+  bankName: z.string().min(2, { message: "Bank name is required." }),
+  bankAddress: z.string().min(5, { message: "Bank address is required." }),
+  bankCountry: z.string().min(2, { message: "Bank country is required." }).refine((val) => !!resolveCountryCode(val), {
+    message: "Enter a valid country name or ISO country code.",
+  }),
+};
+
+type InternationalRecipientValues = z.infer<z.ZodObject<typeof internationalRecipientShape>>;
+
+// Account identifier and BIC checks that span several international recipient fields
+function addInternationalRecipientIssues(data: InternationalRecipientValues, ctx: z.RefinementCtx) {
+  // Validate the account identifier fields required by the selected scheme
+  const bankCountryCode = resolveCountryCode(data.bankCountry);
+  if (bankCountryCode && !getAccountSchemes(bankCountryCode).includes(data.accountScheme)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${ACCOUNT_SCHEMES[data.accountScheme].label} is not used for banks in this country.`,
+      path: ["accountScheme"],
+    });
+  }
+  validateAccountFields(data.accountScheme, data).forEach(({ field, message }) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+  });
+
+  // Cross-check that the BIC belongs to the same country as the IBAN and the bank
+  const bicResult = validateBic(data.swiftCode);
+  if (bicResult.valid === false) {
+    return;
+  }
+
+  const ibanResult = validateIban(data.iban);
+  if (data.accountScheme === "iban" && ibanResult.valid) {
+    const message = checkBicCountry(bicResult.bic, ibanResult.country.code, "IBAN");
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["swiftCode"] });
+    }
+  }
+
+  if (bankCountryCode) {
+    const message = checkBicCountry(bicResult.bic, bankCountryCode, "bank");
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["bankCountry"] });
+    }
+  }
+}
+
+// Form schema for international transfers
+export const internationalFormSchema = z.object({
+  ...internationalRecipientShape,
+  amount: z.string(),
+  currency: currencySchema,
+  description: z.string().optional(),
+  // Omitted to send the transfer straight away
+  executionDate: z.date().optional(),
+  useStripe: z.boolean().default(false),
+  // Fixed Stripe fields validation
+  stripeAccountId: z.string().optional(),
+  stripePublishableKey: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (isCurrencyCode(data.currency)) {
+    addAmountIssues(data.amount, data.currency, ctx);
+    addExecutionDateIssues(
+      data.executionDate,
+      getSettlementCurrencies({ transferType: "international", currency: data.currency }),
+      ctx,
+    );
+  }
+  addInternationalRecipientIssues(data, ctx);
+}).refine((data) => {
+  // If useStripe is true, validate that stripeAccountId is provided
+  if (data.useStripe && (!data.stripeAccountId || data.stripeAccountId.length < 3)) {
+    return false;
+  }
+  return true;
+}, {
+  message: "Stripe Account ID is required when using Stripe.",
+  path: ["stripeAccountId"],
+}).refine((data) => {
+  // If useStripe is true, validate that stripePublishableKey is provided
+  if (data.useStripe && (!data.stripePublishableKey || data.stripePublishableKey.length < 10)) {
+    return false;
+  }
+  return true;
+}, {
+  message: "Stripe Publishable Key is required when using Stripe.",
+  path: ["stripePublishableKey"],
+});
+
+export type DomesticFormValues = z.infer<typeof domesticFormSchema>;
+export type InternationalFormValues = z.infer<typeof internationalFormSchema>;
+
+// Values submitted from either form, tagged with the transfer type
+export type TransferFormData =
+  | ({ transferType: "domestic" } & DomesticFormValues)
+  | ({ transferType: "international" } & InternationalFormValues);
+
+// Function to convert submitted form values into the TransferData sent to the backend
+export function toTransferData(formData: TransferFormData): TransferData {
+  if (formData.transferType === "domestic") {
+    return {
+      transferType: "domestic",
+      recipientName: formData.recipientName,
+      amount: toMinorUnits(formData.amount, DOMESTIC_CURRENCY),
+      currency: DOMESTIC_CURRENCY,
+      bankName: formData.bankName,
+      accountNumber: formData.accountNumber,
+      routingNumber: formData.routingNumber,
+      description: formData.description,
+      executionDate: formData.executionDate && toIsoDate(formData.executionDate),
+    };
+  }
+
+  const accountIdentifier = buildAccountIdentifier(formData.accountScheme, formData);
+  return {
+    transferType: "international",
+    recipientName: formData.recipientName,
+    amount: toMinorUnits(formData.amount, formData.currency),
+    currency: formData.currency,
+    bankName: formData.bankName,
+    iban: accountIdentifier.scheme === "iban" ? accountIdentifier.iban : undefined,
+    swiftCode: formData.swiftCode,
+    bankAddress: formData.bankAddress,
+    bankCountry: formData.bankCountry,
+    accountIdentifier,
+    description: formData.description,
+    executionDate: formData.executionDate && toIsoDate(formData.executionDate),
+  };
+}
+
+// Form schema for changing a scheduled transfer, checked against the transfer's currencies
+export function createScheduledTransferSchema(transfer: Pick<TransferData, "transferType" | "currency">) {
+  const currency = transfer.transferType === "domestic" ? DOMESTIC_CURRENCY : transfer.currency;
+  return z.object({
+    amount: z.string(),
+    // Cleared to send the transfer on the earliest possible date
+    executionDate: z.date().optional(),
+    description: z.string().optional(),
+  }).superRefine((data, ctx) => {
+    addAmountIssues(data.amount, currency, ctx);
+    addExecutionDateIssues(data.executionDate, getSettlementCurrencies(transfer), ctx);
+  });
+}
+
+export type ScheduledTransferValues = z.infer<ReturnType<typeof createScheduledTransferSchema>>;
+
+// Function to convert the scheduled transfer form values into the changes sent to the backend
+export function toTransferChanges(
+  values: ScheduledTransferValues,
+  transfer: Pick<TransferData, "transferType" | "currency">,
+): TransferChanges {
+  const currency = transfer.transferType === "domestic" ? DOMESTIC_CURRENCY : transfer.currency;
+  return {
+    amount: toMinorUnits(values.amount, currency),
+    executionDate: toIsoDate(getEffectiveExecutionDate(values.executionDate, getSettlementCurrencies(transfer))),
+    description: values.description,
+  };
+}
+
+const nicknameSchema = z.string().trim().max(MAX_NICKNAME_LENGTH, {
+  message: `Nicknames are limited to ${MAX_NICKNAME_LENGTH} characters.`,
+});
+
+// Form schemas for saved beneficiaries, checked with the same rules as the transfer forms
+export const domesticBeneficiarySchema = z.object({
+  ...domesticRecipientShape,
+  nickname: nicknameSchema,
+});
+
+export const internationalBeneficiarySchema = z.object({
+  ...internationalRecipientShape,
+  nickname: nicknameSchema,
+  currency: currencySchema,
+}).superRefine(addInternationalRecipientIssues);
+
+export type DomesticBeneficiaryValues = z.infer<typeof domesticBeneficiarySchema>;
+export type InternationalBeneficiaryValues = z.infer<typeof internationalBeneficiarySchema>;
+
+export type BeneficiaryFormData =
+  | ({ transferType: "domestic" } & DomesticBeneficiaryValues)
+  | ({ transferType: "international" } & InternationalBeneficiaryValues);
+
+// Function to convert submitted beneficiary form values into the details saved for the beneficiary
+export function toBeneficiaryInput(formData: BeneficiaryFormData): BeneficiaryInput {
+  if (formData.transferType === "domestic") {
+    return {
+      transferType: "domestic",
+      nickname: formData.nickname,
+      recipientName: formData.recipientName,
+      bankName: formData.bankName,
+      accountNumber: formData.accountNumber,
+      routingNumber: formData.routingNumber,
+      currency: DOMESTIC_CURRENCY,
+    };
+  }
+
+  const accountIdentifier = buildAccountIdentifier(formData.accountScheme, formData);
+  return {
+    transferType: "international",
+    nickname: formData.nickname,
+    recipientName: formData.recipientName,
+    bankName: formData.bankName,
+    iban: accountIdentifier.scheme === "iban" ? accountIdentifier.iban : undefined,
+    swiftCode: formData.swiftCode,
+    bankAddress: formData.bankAddress,
+    bankCountry: formData.bankCountry,
+    accountIdentifier,
+    currency: formData.currency,
+  };
+}
+
+// Form schema for the payment and schedule of a recurring transfer; the recipient is picked separately
+export const recurringTransferSchema = z.object({
+  amount: z.string(),
+  currency: currencySchema,
+  description: z.string().optional(),
+  // "custom" repeats every `interval` days, weeks or months
+  pattern: z.enum(["weekly", "monthly", "last_business_day", "custom"]),
+  interval: z.string(),
+  intervalUnit: z.enum(["daily", "weekly", "monthly"]),
+  monthDay: z.string(),
+  startDate: z.date({ required_error: "Choose the date of the first transfer." }),
+  ends: z.enum(["never", "on_date", "after_count"]),
+  until: z.date().optional(),
+  count: z.string(),
+}).superRefine((data, ctx) => {
+  if (isCurrencyCode(data.currency)) {
+    addAmountIssues(data.amount, data.currency, ctx);
+  }
+  if (data.startDate && toIsoDate(data.startDate) < toIsoDate(new Date())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The schedule can't start in the past.", path: ["startDate"] });
+  }
+  if (data.ends === "on_date" && !data.until) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose the date of the last transfer.", path: ["until"] });
+  }
+  if (data.startDate) {
+    validateRecurrenceRule(toRecurrenceRule(data)).forEach(({ field, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+    });
+  }
+});
+
+export type RecurringTransferValues = z.infer<typeof recurringTransferSchema>;
+
+// Function to convert the schedule fields of the recurring transfer form into a recurrence rule
+export function toRecurrenceRule(values: Omit<RecurringTransferValues, "amount" | "currency" | "description">): RecurrenceRule {
+  const base = {
+    startDate: toIsoDate(values.startDate),
+    until: values.ends === "on_date" && values.until ? toIsoDate(values.until) : undefined,
+    count: values.ends === "after_count" ? Number(values.count) : undefined,
+  };
+  switch (values.pattern) {
+    case "weekly":
+      return { ...base, frequency: "weekly", interval: 1 };
+    case "monthly":
+      return { ...base, frequency: "monthly", interval: 1, monthDay: Number(values.monthDay) };
+    case "last_business_day":
+      return { ...base, frequency: "monthly", interval: 1, monthDay: "last_business_day" };
+    case "custom":
+      return {
+        ...base,
+        frequency: values.intervalUnit,
+        interval: Number(values.interval),
+        monthDay: values.intervalUnit === "monthly" ? Number(values.monthDay) : undefined,
+      };
+  }
+}
+
+// Function to fill the recurring transfer form from a saved recurring transfer
+export function toRecurringTransferValues(input: RecurringTransferInput): RecurringTransferValues {
+  const { transferData, rule } = input;
+  const currency = transferData.currency ?? DOMESTIC_CURRENCY;
+  const isCustom = rule.interval !== 1 || rule.frequency === "daily";
+  return {
+    amount: fromMinorUnits(transferData.amount, currency),
+    currency,
+    description: transferData.description ?? "",
+    pattern: isCustom
+      ? "custom"
+      : rule.frequency === "weekly"
+        ? "weekly"
+        : rule.monthDay === "last_business_day" ? "last_business_day" : "monthly",
+    interval: String(rule.interval),
+    intervalUnit: rule.frequency,
+    monthDay: typeof rule.monthDay === "number" ? String(rule.monthDay) : "1",
+    startDate: fromIsoDate(rule.startDate),
+    ends: rule.count !== undefined ? "after_count" : rule.until ? "on_date" : "never",
+    until: rule.until ? fromIsoDate(rule.until) : undefined,
+    count: rule.count !== undefined ? String(rule.count) : "12",
+  };
+}
+
+// Function to convert the recurring transfer form values and the chosen recipient into a recurring transfer
+export function toRecurringTransferInput(values: RecurringTransferValues, recipient: RecipientDetails): RecurringTransferInput {
+  const currency = recipient.transferType === "domestic" ? DOMESTIC_CURRENCY : values.currency;
+  return {
+    transferData: {
+      ...getRecipientDetails(recipient),
+      amount: toMinorUnits(values.amount, currency),
+      currency,
+      description: values.description,
+    },
+    rule: toRecurrenceRule(values),
+  };
+}
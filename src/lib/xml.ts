@@ -0,0 +1,210 @@
+// Writing XML documents and checking them against element rules equivalent to an XSD content model
+
+export interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  // Text content, or child elements; omitted elements (undefined) are skipped
+  content?: string | (XmlElement | undefined)[];
+}
+
+// Function to build an element; children that are undefined are left out, for optional elements
+export function xmlElement(
+  name: string,
+  content?: XmlElement["content"],
+  attributes?: Record<string, string>,
+): XmlElement {
+  return { name, content, attributes };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function serializeElement(element: XmlElement, indent: string): string {
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+  if (typeof element.content === "string") {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.content)}</${element.name}>`;
+  }
+  const children = (element.content ?? []).filter((child): child is XmlElement => child !== undefined);
+  if (children.length === 0) {
+    return `${indent}<${element.name}${attributes}/>`;
+  }
+  return [
+    `${indent}<${element.name}${attributes}>`,
+    ...children.map((child) => serializeElement(child, indent + "  ")),
+    `${indent}</${element.name}>`,
+  ].join("\n");
+}
+
+// Function to write an XML document with a UTF-8 declaration, indented by two spaces
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, "")}\n`;
+}
+
+// Restrictions on text content, as in an XSD simple type
+export interface XmlSimpleType {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  values?: string[];
+  // Decimal numbers: at most this many digits in total and after the decimal point
+  totalDigits?: number;
+  fractionDigits?: number;
+}
+
+export interface XmlAttributeRule {
+  name: string;
+  type: XmlSimpleType;
+  required?: boolean;
+}
+
+export interface XmlElementRule {
+  name: string;
+  // Occurrences allowed; both default to 1, and maxOccurs may be Infinity
+  minOccurs?: number;
+  maxOccurs?: number;
+  // Elements with a type hold text; others hold the child elements listed in `children`
+  type?: XmlSimpleType;
+  attributes?: XmlAttributeRule[];
+  // Child elements in sequence order, or alternatives of which exactly one appears when `choice` is set
+  children?: XmlElementRule[];
+  choice?: boolean;
+}
+
+export interface XmlIssue {
+  // Location of the problem, e.g. /Document/CstmrCdtTrfInitn/PmtInf[2]/PmtInfId
+  path: string;
+  message: string;
+}
+
+// Function to check text against a simple type, returning a message when it doesn't conform
+function checkSimpleType(value: string, type: XmlSimpleType): string | undefined {
+  if (type.minLength !== undefined && value.length < type.minLength) {
+    return type.minLength === 1 ? "must not be empty" : `must be at least ${type.minLength} characters`;
+  }
+  if (type.maxLength !== undefined && value.length > type.maxLength) {
+    return `must be at most ${type.maxLength} characters`;
+  }
+  if (type.values && !type.values.includes(value)) {
+    return `must be one of ${type.values.join(", ")}`;
+  }
+  if (type.pattern && !type.pattern.test(value)) {
+    return `"${value}" doesn't match the required format`;
+  }
+  if (type.totalDigits !== undefined || type.fractionDigits !== undefined) {
+    const match = value.match(/^(\d+)(?:\.(\d+))?$/);
+    if (!match) {
+      return `"${value}" must be a decimal number`;
+    }
+    const [, whole, fraction = ""] = match;
+    const digits = whole.replace(/^0+(?=\d)/, "").length + fraction.replace(/0+$/, "").length;
+    if (type.totalDigits !== undefined && digits > type.totalDigits) {
+      return `must have at most ${type.totalDigits} digits`;
+    }
+    if (type.fractionDigits !== undefined && fraction.replace(/0+$/, "").length > type.fractionDigits) {
+      return `must have at most ${type.fractionDigits} decimal places`;
+    }
+  }
+  return undefined;
+}
+
+const childElements = (element: Element) => Array.from(element.children);
+
+// Function to check an element, its attributes and its descendants against a rule
+export function validateXmlElement(element: Element, rule: XmlElementRule, path = `/${rule.name}`): XmlIssue[] {
+  const issues: XmlIssue[] = [];
+
+  rule.attributes?.forEach((attribute) => {
+    const value = element.getAttribute(attribute.name);
+    if (value === null) {
+      if (attribute.required) {
+        issues.push({ path, message: `The ${attribute.name} attribute is required.` });
+      }
+      return;
+    }
+    const message = checkSimpleType(value, attribute.type);
+    if (message) {
+      issues.push({ path: `${path}/@${attribute.name}`, message: `The ${attribute.name} attribute ${message}.` });
+    }
+  });
+
+  const children = childElements(element);
+  if (rule.type) {
+    if (children.length > 0) {
+      issues.push({ path, message: `${rule.name} must hold text, not elements.` });
+    } else {
+      const message = checkSimpleType(element.textContent ?? "", rule.type);
+      if (message) {
+        issues.push({ path, message: `${rule.name} ${message}.` });
+      }
+    }
+    return issues;
+  }
+
+  const rules = rule.children ?? [];
+  if (rule.choice) {
+    const chosen = children.length === 1 && rules.find((option) => option.name === children[0].localName);
+    if (!chosen) {
+      issues.push({ path, message: `${rule.name} must contain exactly one of ${rules.map((option) => option.name).join(", ")}.` });
+      return issues;
+    }
+    return [...issues, ...validateXmlElement(children[0], chosen, `${path}/${chosen.name}`)];
+  }
+
+  // Elements the content model doesn't know are reported once, then left out of the sequence
+  const known = children.filter((child) => {
+    if (rules.some((childRule) => childRule.name === child.localName)) {
+      return true;
+    }
+    issues.push({ path, message: `${child.localName} is not allowed in ${rule.name}.` });
+    return false;
+  });
+
+  // Match the children against the sequence in order, taking as many of each element as allowed
+  let position = 0;
+  for (const childRule of rules) {
+    const minOccurs = childRule.minOccurs ?? 1;
+    const maxOccurs = childRule.maxOccurs ?? 1;
+    const matched: Element[] = [];
+    while (position < known.length && matched.length < maxOccurs && known[position].localName === childRule.name) {
+      matched.push(known[position]);
+      position++;
+    }
+    if (matched.length < minOccurs) {
+      issues.push({
+        path,
+        message: minOccurs === 1
+          ? `${rule.name} is missing the required ${childRule.name} element.`
+          : `${rule.name} needs at least ${minOccurs} ${childRule.name} elements.`,
+      });
+    }
+    matched.forEach((child, index) => {
+      const childPath = maxOccurs > 1 ? `${path}/${childRule.name}[${index + 1}]` : `${path}/${childRule.name}`;
+      issues.push(...validateXmlElement(child, childRule, childPath));
+    });
+  }
+  if (position < known.length) {
+    issues.push({
+      path,
+      message: `${known[position].localName} is out of order, or appears too many times, in ${rule.name}.`,
+    });
+  }
+  return issues;
+}
+
+// Function to parse XML text, returning the document or the parser's error message
+export function parseXmlDocument(text: string): { document: Document } | { error: string } {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  const parserError = document.getElementsByTagName("parsererror")[0];
+  if (parserError) {
+    return { error: parserError.textContent?.trim() || "The file is not well-formed XML." };
+  }
+  return { document };
+}
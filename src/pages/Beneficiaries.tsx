@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import BeneficiaryDialog from "@/components/BeneficiaryDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Beneficiary,
+  deleteBeneficiary,
+  getBeneficiaries,
+  getBeneficiaryAccountHint,
+  getBeneficiaryLabel,
+} from "@/services/beneficiaryService";
+
+const Beneficiaries = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Beneficiary | undefined>();
+
+  const { data: beneficiaries = [], isPending } = useQuery({
+    queryKey: ["beneficiaries"],
+    queryFn: getBeneficiaries,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (beneficiary: Beneficiary) => deleteBeneficiary(beneficiary.id),
+    onSuccess: (_, beneficiary) => {
+      queryClient.invalidateQueries({ queryKey: ["beneficiaries"] });
+      toast({ title: "Recipient deleted", description: `${getBeneficiaryLabel(beneficiary)} was removed.` });
+    },
+  });
+
+  const query = search.trim().toLowerCase();
+  const visible = beneficiaries.filter((beneficiary) =>
+    [beneficiary.nickname, beneficiary.recipientName, beneficiary.bankName]
+      .some((text) => text?.toLowerCase().includes(query)),
+  );
+
+  const openDialog = (beneficiary?: Beneficiary) => {
+    setEditing(beneficiary);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto px-4 py-16">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl md:text-4xl font-bold text-gradient">Saved Recipients</h1>
+          <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" /> New Transfer
+            </Link>
+          </Button>
+        </header>
+
+        <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+          <CardHeader className="border-b border-white/10">
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <CardTitle className="text-lg text-white">
+                {beneficiaries.length} saved recipient{beneficiaries.length === 1 ? "" : "s"}
+              </CardTitle>
+              <div className="flex gap-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-500" />
+                  <Input
+                    value={search}
+                    onChange={(event) => setSearch(event.target.value)}
+                    placeholder="Search recipients"
+                    className="pl-9 bg-black/50"
+                    aria-label="Search recipients"
+                  />
+                </div>
+                <Button className="bg-primary-purple hover:bg-secondary-purple" onClick={() => openDialog()}>
+                  <Plus className="mr-2 h-4 w-4" /> Add recipient
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="text-gray-400">Recipient</TableHead>
+                  <TableHead className="text-gray-400">Bank</TableHead>
+                  <TableHead className="text-gray-400">Account</TableHead>
+                  <TableHead className="text-gray-400">Type</TableHead>
+                  <TableHead className="text-right text-gray-400">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isPending && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                      <Loader2 className="mr-2 inline h-4 w-4 animate-spin" /> Loading recipients…
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isPending && visible.length === 0 && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                      {beneficiaries.length === 0
+                        ? "No saved recipients yet. Add one here or save a recipient after sending a transfer."
+                        : "No recipients match your search."}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visible.map((beneficiary) => (
+                  <TableRow key={beneficiary.id} className="border-white/10">
+                    <TableCell>
+                      <div className="text-white font-medium">{getBeneficiaryLabel(beneficiary)}</div>
+                      {beneficiary.nickname && <div className="text-xs text-gray-500">{beneficiary.recipientName}</div>}
+                    </TableCell>
+                    <TableCell className="text-gray-300">
+                      {beneficiary.bankName}
+                      {beneficiary.swiftCode && <div className="font-mono text-xs text-gray-500">{beneficiary.swiftCode}</div>}
+                    </TableCell>
+                    <TableCell className="text-gray-300">{getBeneficiaryAccountHint(beneficiary)}</TableCell>
+                    <TableCell className="text-gray-300 capitalize">{beneficiary.transferType}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-gray-400 hover:text-white"
+                        aria-label={`Edit ${getBeneficiaryLabel(beneficiary)}`}
+                        onClick={() => openDialog(beneficiary)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-gray-400 hover:text-red-400"
+                            aria-label={`Delete ${getBeneficiaryLabel(beneficiary)}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {getBeneficiaryLabel(beneficiary)}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The recipient is removed from your saved recipients. Past transfers are not affected.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-red-600 hover:bg-red-700"
+                              onClick={() => deleteMutation.mutate(beneficiary)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BeneficiaryDialog open={dialogOpen} onOpenChange={setDialogOpen} beneficiary={editing} />
+    </div>
+  );
+};
+
+export default Beneficiaries;
@@ -0,0 +1,567 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  FileCode,
+  FileSpreadsheet,
+  Loader2,
+  Send,
+  Trash2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import Pain001ExportDialog from "@/components/Pain001ExportDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BULK_TRANSFER_COLUMNS,
+  BulkTransferField,
+  BulkTransferRow,
+  BulkTransferRowResult,
+  BulkTransferValues,
+  CurrencyTotal,
+  getBulkTransferErrorReport,
+  getBulkTransferTemplate,
+  getCurrencyTotals,
+  parseBulkTransferRows,
+  validateBulkTransferRow,
+} from "@/lib/bulkTransfers";
+import { downloadFile } from "@/lib/download";
+import { formatMoney } from "@/lib/money";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import { cn } from "@/lib/utils";
+import {
+  BulkTransferItem,
+  BulkTransferResult,
+  createBatchId,
+  submitBulkTransfers,
+} from "@/services/bulkTransferService";
+
+const PAGE_SIZE = 50;
+
+const COLUMN_HEADERS = Object.fromEntries(
+  BULK_TRANSFER_COLUMNS.map((column) => [column.field, column.header]),
+) as Record<BulkTransferField, string>;
+
+interface CurrencyTotalsProps {
+  title: string;
+  totals: CurrencyTotal[];
+}
+
+const CurrencyTotals: React.FC<CurrencyTotalsProps> = ({ title, totals }) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-white">{title}</h3>
+    {totals.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {totals.map((total) => (
+          <li key={total.currency} className="flex justify-between gap-4 text-gray-300">
+            <span>
+              {total.currency} · {total.count} payment{total.count === 1 ? "" : "s"}
+            </span>
+            <span className="font-medium text-white">{formatMoney(total.amount, total.currency)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const BulkTransfers = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [fileError, setFileError] = useState<string | undefined>();
+  const [reading, setReading] = useState(false);
+  const [rows, setRows] = useState<BulkTransferRow[]>([]);
+  const [batchId, setBatchId] = useState(createBatchId);
+  const [results, setResults] = useState<Record<string, BulkTransferResult>>({});
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  // Edited rows get a new ID, so a corrected row is never sent under the key of its earlier attempt
+  const revision = useRef(0);
+
+  // Validation results are cached per row values, so editing one row only revalidates that row
+  const validationCache = useRef(new WeakMap<BulkTransferValues, BulkTransferRowResult>());
+  const validations = useMemo(() => {
+    const cache = validationCache.current;
+    return new Map(rows.map((row) => {
+      let result = cache.get(row.values);
+      if (!result) {
+        result = validateBulkTransferRow(row.values);
+        cache.set(row.values, result);
+      }
+      return [row.id, result];
+    }));
+  }, [rows]);
+
+  const sentRows = rows.filter((row) => results[row.id]?.status === "sent");
+  const failedRows = rows.filter((row) => results[row.id]?.status === "failed");
+  const exportedRows = rows.filter((row) => results[row.id]?.status === "exported");
+  const invalidRows = rows.filter((row) => !validations.get(row.id)?.valid);
+  // Sent and exported rows are left out, so no payment is made twice
+  const readyItems = rows.flatMap((row) => {
+    const validation = validations.get(row.id);
+    return validation?.valid && (!results[row.id] || results[row.id].status === "failed")
+      ? [{ id: row.id, transferData: validation.transferData }]
+      : [];
+  });
+  // Valid rows that haven't been sent, failed or exported; the bank would pay sent ones a second time
+  const exportItems = rows.flatMap((row) => {
+    const validation = validations.get(row.id);
+    return validation?.valid && !results[row.id] ? [{ id: row.id, transferData: validation.transferData }] : [];
+  });
+  const readyTotals = getCurrencyTotals(readyItems.map((item) => item.transferData));
+  const sentTotals = getCurrencyTotals(sentRows.flatMap((row) => {
+    const result = results[row.id];
+    return result?.status === "sent" ? [result.transfer] : [];
+  }));
+
+  // Only columns used by the file, or holding an error, are shown
+  const visibleColumns = BULK_TRANSFER_COLUMNS.filter((column) =>
+    column.required || rows.some((row) => {
+      const validation = validations.get(row.id);
+      return row.values[column.field] !== ""
+        || (validation?.valid === false && validation.errors.some((error) => error.field === column.field));
+    }),
+  );
+
+  const visibleRows = errorsOnly
+    ? rows.filter((row) => !validations.get(row.id)?.valid || results[row.id]?.status === "failed")
+    : rows;
+  const pageCount = Math.max(1, Math.ceil(visibleRows.length / PAGE_SIZE));
+  const currentPage = Math.min(pageIndex, pageCount - 1);
+  const pageRows = visibleRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const submitMutation = useMutation({
+    mutationFn: (items: BulkTransferItem[]) => submitBulkTransfers(batchId, items, (result) => {
+      setResults((current) => ({ ...current, [result.id]: result }));
+    }),
+    onMutate: (items) => {
+      // Failed rows sent again start over
+      setResults((current) => {
+        const next = { ...current };
+        items.forEach((item) => delete next[item.id]);
+        return next;
+      });
+    },
+    onSuccess: (batchResults) => {
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      const failed = batchResults.filter((result) => result.status === "failed").length;
+      toast({
+        title: failed === 0 ? "Payments sent" : "Some payments weren't sent",
+        description: `${batchResults.length - failed} of ${batchResults.length} payments were sent.`
+          + (failed > 0 ? " Fix or retry the failed rows, or download the error report." : ""),
+        variant: failed === 0 ? "default" : "destructive",
+      });
+    },
+  });
+  const sending = submitMutation.isPending;
+  const sendingItems = submitMutation.variables ?? [];
+  const processedCount = sendingItems.filter((item) => results[item.id]).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setReading(true);
+    setFileError(undefined);
+    try {
+      const parsed = parseBulkTransferRows(await readSpreadsheet(file));
+      setRows(parsed);
+      setFileName(file.name);
+      setBatchId(createBatchId());
+      setResults({});
+      setPageIndex(0);
+      submitMutation.reset();
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file couldn't be read.");
+    } finally {
+      setReading(false);
+      if (fileInput.current) {
+        fileInput.current.value = "";
+      }
+    }
+  };
+
+  const updateRow = (id: string, field: BulkTransferField, value: string) => {
+    setRows((current) => current.map((row) =>
+      row.id === id
+        ? { ...row, id: `row-${row.line}.${++revision.current}`, values: { ...row.values, [field]: value } }
+        : row,
+    ));
+  };
+
+  const removeRow = (id: string) => {
+    setRows((current) => current.filter((row) => row.id !== id));
+  };
+
+  // Function to mark the rows in a downloaded payment file as exported, so they can't also be sent
+  const markRowsExported = (ids: string[]) => {
+    setResults((current) => ({
+      ...current,
+      ...Object.fromEntries(ids.map((id): [string, BulkTransferResult] => [id, { id, status: "exported" }])),
+    }));
+  };
+
+  const downloadErrorReport = () => {
+    const report = getBulkTransferErrorReport(
+      rows.flatMap((row) => {
+        const validation = validations.get(row.id);
+        const result = results[row.id];
+        if (validation?.valid === false) {
+          return [{ row, errors: validation.errors.map((error) => `${COLUMN_HEADERS[error.field]}: ${error.message}`) }];
+        }
+        if (result?.status === "failed") {
+          return [{ row, errors: [result.error] }];
+        }
+        return [];
+      }),
+    );
+    downloadFile(report, `${(fileName ?? "payments").replace(/\.[^.]+$/, "")}-errors.csv`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto px-4 py-16">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl md:text-4xl font-bold text-gradient">Bulk Payments</h1>
+          <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+            <Link to="/transfers">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Transfer History
+            </Link>
+          </Button>
+        </header>
+
+        <Card className="mb-6 shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+          <CardHeader className="border-b border-white/10">
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <CardTitle className="text-lg text-white">Upload payments</CardTitle>
+              <Button
+                variant="outline"
+                className="border-white/20 text-gray-300 hover:text-white"
+                onClick={() => downloadFile(getBulkTransferTemplate(), "bulk-payments-template.csv")}
+              >
+                <Download className="mr-2 h-4 w-4" /> Download template
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <label
+              className={cn(
+                "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-white/20 p-8 text-center hover:border-primary-purple/60",
+                (reading || sending) && "pointer-events-none opacity-50",
+              )}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                handleFile(event.dataTransfer.files[0]);
+              }}
+            >
+              {reading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-primary-purple" />
+              ) : (
+                <Upload className="h-8 w-8 text-primary-purple" />
+              )}
+              <span className="text-white">
+                {fileName ? `Replace ${fileName}` : "Drop a CSV or XLSX file here, or click to choose one"}
+              </span>
+              <span className="text-xs text-gray-500">
+                One payment per row, with a header row naming the columns. The first sheet of a workbook is used.
+              </span>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="sr-only"
+                disabled={reading || sending}
+                onChange={(event) => handleFile(event.target.files?.[0])}
+              />
+            </label>
+
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>The file couldn't be used</AlertTitle>
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        {rows.length > 0 && (
+          <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+            <CardHeader className="border-b border-white/10 space-y-4">
+              <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                <CardTitle className="text-lg text-white flex items-center">
+                  <FileSpreadsheet className="mr-2 h-5 w-5 text-primary-purple" />
+                  {fileName} · {rows.length} payment{rows.length === 1 ? "" : "s"}
+                </CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    className="border-white/20 text-gray-300 hover:text-white"
+                    disabled={invalidRows.length === 0 && failedRows.length === 0}
+                    onClick={downloadErrorReport}
+                  >
+                    <Download className="mr-2 h-4 w-4" /> Error report
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="border-white/20 text-gray-300 hover:text-white"
+                    disabled={exportItems.length === 0 || sending}
+                    onClick={() => setExportOpen(true)}
+                  >
+                    <FileCode className="mr-2 h-4 w-4" /> Download pain.001
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        className="bg-primary-purple hover:bg-secondary-purple"
+                        disabled={readyItems.length === 0 || sending}
+                      >
+                        {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                        Send {readyItems.length} payment{readyItems.length === 1 ? "" : "s"}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          Send {readyItems.length} payment{readyItems.length === 1 ? "" : "s"}?
+                        </AlertDialogTitle>
+                        <AlertDialogDescription asChild>
+                          <div className="space-y-3">
+                            <CurrencyTotals title="Totals" totals={readyTotals} />
+                            {invalidRows.length > 0 && (
+                              <p className="text-yellow-500">
+                                {invalidRows.length} row{invalidRows.length === 1 ? " has" : "s have"} errors and won't be sent.
+                              </p>
+                            )}
+                          </div>
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          className="bg-primary-purple hover:bg-secondary-purple"
+                          onClick={() => submitMutation.mutate(readyItems)}
+                        >
+                          Send payments
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-3">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center text-green-400">
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    {readyItems.length} ready to send
+                  </div>
+                  {invalidRows.length > 0 && (
+                    <div className="flex items-center text-red-400">
+                      <XCircle className="mr-2 h-4 w-4" />
+                      {invalidRows.length} with errors
+                    </div>
+                  )}
+                  {sentRows.length > 0 && (
+                    <div className="flex items-center text-gray-300">
+                      <Send className="mr-2 h-4 w-4" />
+                      {sentRows.length} sent
+                    </div>
+                  )}
+                  {exportedRows.length > 0 && (
+                    <div className="flex items-center text-gray-300">
+                      <FileCode className="mr-2 h-4 w-4" />
+                      {exportedRows.length} exported to a payment file
+                    </div>
+                  )}
+                  {failedRows.length > 0 && (
+                    <div className="flex items-center text-red-400">
+                      <AlertCircle className="mr-2 h-4 w-4" />
+                      {failedRows.length} failed to send
+                    </div>
+                  )}
+                </div>
+                <CurrencyTotals title="Ready to send" totals={readyTotals} />
+                {sentRows.length > 0 && <CurrencyTotals title="Sent" totals={sentTotals} />}
+              </div>
+
+              {sending && (
+                <div className="space-y-1">
+                  <Progress value={(processedCount / sendingItems.length) * 100} />
+                  <p className="text-xs text-gray-500">
+                    Sending… {processedCount} of {sendingItems.length} payments processed
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="errors-only"
+                  checked={errorsOnly}
+                  onCheckedChange={(checked) => {
+                    setErrorsOnly(checked === true);
+                    setPageIndex(0);
+                  }}
+                />
+                <Label htmlFor="errors-only" className="text-sm text-gray-300">Only show rows that need attention</Label>
+              </div>
+            </CardHeader>
+
+            <CardContent className="pt-6">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10 hover:bg-transparent">
+                      <TableHead className="text-gray-400">Line</TableHead>
+                      <TableHead className="min-w-56 text-gray-400">Status</TableHead>
+                      {visibleColumns.map((column) => (
+                        <TableHead key={column.field} className="min-w-36 font-mono text-xs text-gray-400">
+                          {column.header}
+                        </TableHead>
+                      ))}
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageRows.length === 0 && (
+                      <TableRow className="border-white/10">
+                        <TableCell colSpan={visibleColumns.length + 3} className="h-24 text-center text-gray-500">
+                          Every row is ready to send.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {pageRows.map((row) => {
+                      const validation = validations.get(row.id);
+                      const result = results[row.id];
+                      const sent = result?.status === "sent";
+                      const exported = result?.status === "exported";
+                      const fieldErrors = new Map(
+                        validation?.valid === false ? validation.errors.map((error) => [error.field, error.message]) : [],
+                      );
+
+                      return (
+                        <TableRow key={row.id} className="border-white/10 align-top">
+                          <TableCell className="text-gray-500">{row.line}</TableCell>
+                          <TableCell className="text-sm">
+                            {sent && (
+                              <Link to={`/transfers/${result.transfer.id}`} className="text-green-400 hover:underline">
+                                Sent as {result.transfer.id}
+                              </Link>
+                            )}
+                            {exported && <span className="text-gray-300">Exported to a payment file</span>}
+                            {result?.status === "failed" && <span className="text-red-400">Not sent: {result.error}</span>}
+                            {!result && validation?.valid && <span className="text-green-400">Ready</span>}
+                            {validation?.valid === false && (
+                              <ul className="space-y-1 text-red-400">
+                                {validation.errors.map((error, index) => (
+                                  <li key={index}>
+                                    <span className="font-mono text-xs">{COLUMN_HEADERS[error.field]}</span>: {error.message}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                          {visibleColumns.map((column) => (
+                            <TableCell key={column.field}>
+                              <Input
+                                value={row.values[column.field]}
+                                onChange={(event) => updateRow(row.id, column.field, event.target.value)}
+                                disabled={sent || exported || sending}
+                                aria-label={`${column.header}, line ${row.line}`}
+                                aria-invalid={fieldErrors.has(column.field)}
+                                title={fieldErrors.get(column.field)}
+                                className={cn("h-8 bg-black/50 text-sm", fieldErrors.has(column.field) && "border-red-500")}
+                              />
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            {!sent && !exported && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-gray-400 hover:text-red-400"
+                                aria-label={`Remove line ${row.line}`}
+                                disabled={sending}
+                                onClick={() => removeRow(row.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {pageCount > 1 && (
+                <div className="mt-4 flex items-center justify-end gap-2 text-sm text-gray-500">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-white/20"
+                    disabled={currentPage === 0}
+                    onClick={() => setPageIndex(currentPage - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <span>Page {currentPage + 1} of {pageCount}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-white/20"
+                    disabled={currentPage >= pageCount - 1}
+                    onClick={() => setPageIndex(currentPage + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Pain001ExportDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          description={`the ${exportItems.length} valid payment${exportItems.length === 1 ? "" : "s"} from ${fileName} that haven't been sent`}
+          loadTransfers={() => exportItems.map((item) => item.transferData)}
+          markExported={() => markRowsExported(exportItems.map((item) => item.id))}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BulkTransfers;
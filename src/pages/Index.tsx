@@ -1,5 +1,8 @@
 
 import React from "react";
+import { Link } from "react-router-dom";
+import { BookUser, History, ListChecks, Repeat, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import TransferForm from "@/components/TransferForm";
 
 const Index = () => {
@@ -11,6 +14,33 @@ const Index = () => {
           <p className="text-gray-400 max-w-2xl mx-auto">
             Securely transfer money internationally with our fast banking service and optional Stripe integration.
           </p>
+          <div className="mt-2 flex justify-center gap-2">
+            <Button asChild variant="link" className="text-primary-purple">
+              <Link to="/transfers">
+                <History className="mr-2 h-4 w-4" /> View transfer history
+              </Link>
+            </Button>
+            <Button asChild variant="link" className="text-primary-purple">
+              <Link to="/beneficiaries">
+                <BookUser className="mr-2 h-4 w-4" /> Saved recipients
+              </Link>
+            </Button>
+            <Button asChild variant="link" className="text-primary-purple">
+              <Link to="/recurring">
+                <Repeat className="mr-2 h-4 w-4" /> Recurring transfers
+              </Link>
+            </Button>
+            <Button asChild variant="link" className="text-primary-purple">
+              <Link to="/transfers/bulk">
+                <Upload className="mr-2 h-4 w-4" /> Bulk payments
+              </Link>
+            </Button>
+            <Button asChild variant="link" className="text-primary-purple">
+              <Link to="/reconciliation">
+                <ListChecks className="mr-2 h-4 w-4" /> Reconciliation
+              </Link>
+            </Button>
+          </div>
         </header>
         
         <main>
@@ -0,0 +1,506 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, Check, FileText, Link2, Loader2, Trash2, Undo2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { fromIsoDate } from "@/lib/businessDays";
+import { formatMoney } from "@/lib/money";
+import {
+  DATE_TOLERANCE_DAYS,
+  getTransferDate,
+  ReconciliationItem,
+  ReconciliationStatus,
+  suggestTransfers,
+} from "@/lib/reconciliation";
+import { STATEMENT_FORMAT_LABELS, StatementEntry } from "@/lib/statements";
+import { cn } from "@/lib/utils";
+import {
+  clearResolution,
+  getReconciliation,
+  ignoreEntry,
+  importStatementFile,
+  linkEntry,
+  removeStatement,
+} from "@/services/reconciliationService";
+import { TransferRecord } from "@/services/transferService";
+
+const STATUS_STYLES: Record<ReconciliationStatus, string> = {
+  matched: "bg-green-500/20 text-green-300",
+  partial: "bg-yellow-500/20 text-yellow-300",
+  unmatched: "bg-red-500/20 text-red-300",
+};
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  matched: "Matched",
+  partial: "Partly matched",
+  unmatched: "Unmatched",
+};
+
+const formatDate = (isoDate: string) => format(fromIsoDate(isoDate), "MMM d, yyyy");
+
+const formatEntryAmount = (entry: StatementEntry) =>
+  `${entry.direction === "debit" ? "−" : "+"}${formatMoney(entry.amount, entry.currency)}`;
+
+interface LinkEntryDialogProps {
+  item?: ReconciliationItem;
+  transfers: TransferRecord[];
+  onOpenChange: (open: boolean) => void;
+  onLink: (entryId: string, transferId: string) => void;
+}
+
+// Dialog for linking a statement entry to a transfer chosen by the user
+const LinkEntryDialog: React.FC<LinkEntryDialogProps> = ({ item, transfers, onOpenChange, onLink }) => {
+  const [transferId, setTransferId] = useState<string | undefined>();
+  const candidates = item ? suggestTransfers(item.entry, transfers) : [];
+
+  return (
+    <Dialog
+      open={!!item}
+      onOpenChange={(open) => {
+        setTransferId(undefined);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Link to a transfer</DialogTitle>
+          <DialogDescription>
+            {item && `${formatEntryAmount(item.entry)} booked on ${formatDate(item.entry.bookingDate)}. `}
+            Transfers in the same currency are listed with the closest amounts first.
+          </DialogDescription>
+        </DialogHeader>
+        {candidates.length > 0 ? (
+          <div className="space-y-2">
+            <Label htmlFor="link-transfer">Transfer</Label>
+            <Select value={transferId} onValueChange={setTransferId}>
+              <SelectTrigger id="link-transfer" className="bg-black/50">
+                <SelectValue placeholder="Choose a transfer" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((transfer) => (
+                  <SelectItem key={transfer.id} value={transfer.id}>
+                    {formatMoney(transfer.amount, transfer.currency ?? "USD")} to {transfer.recipientName} ·{" "}
+                    {formatDate(getTransferDate(transfer))} · {transfer.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">No transfers in {item?.entry.currency} to link this entry to.</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!transferId}
+            onClick={() => {
+              if (item && transferId) {
+                onLink(item.entry.id, transferId);
+                setTransferId(undefined);
+              }
+            }}
+          >
+            <Link2 className="mr-2 h-4 w-4" /> Link transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface IgnoreEntryDialogProps {
+  item?: ReconciliationItem;
+  onOpenChange: (open: boolean) => void;
+  onIgnore: (entryId: string, note: string) => void;
+}
+
+// Dialog for setting an entry aside as not being a transfer, with a note saying what it is
+const IgnoreEntryDialog: React.FC<IgnoreEntryDialogProps> = ({ item, onOpenChange, onIgnore }) => {
+  const [note, setNote] = useState("");
+
+  return (
+    <Dialog
+      open={!!item}
+      onOpenChange={(open) => {
+        setNote("");
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Not a transfer</DialogTitle>
+          <DialogDescription>
+            Mark this entry as reconciled without a transfer, for example a bank fee or an incoming payment.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="ignore-note">Note (optional)</Label>
+          <Input
+            id="ignore-note"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="e.g. Monthly account fee"
+            className="bg-black/50"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              if (item) {
+                onIgnore(item.entry.id, note);
+                setNote("");
+              }
+            }}
+          >
+            <Check className="mr-2 h-4 w-4" /> Mark as reconciled
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Reconciliation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [linking, setLinking] = useState<ReconciliationItem | undefined>();
+  const [ignoring, setIgnoring] = useState<ReconciliationItem | undefined>();
+
+  const { data: reconciliation, isPending, error } = useQuery({
+    queryKey: ["reconciliation"],
+    queryFn: getReconciliation,
+  });
+
+  const onChanged = () => queryClient.invalidateQueries({ queryKey: ["reconciliation"] });
+
+  const importMutation = useMutation({
+    mutationFn: importStatementFile,
+    onSuccess: (statements) => {
+      const entryCount = statements.reduce((sum, statement) => sum + statement.entries.length, 0);
+      toast({
+        title: "Statement imported",
+        description: `${statements.length} statement${statements.length === 1 ? "" : "s"} with ${entryCount} booked entr${entryCount === 1 ? "y" : "ies"}.`,
+      });
+      onChanged();
+    },
+    onError: (importError) => {
+      toast({ title: "Couldn't import the statement", description: importError.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (action: () => Promise<void>) => action(),
+    onSuccess: onChanged,
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
+
+  const items = reconciliation?.items ?? [];
+  const byStatus = (status: ReconciliationStatus) => items.filter((item) => item.status === status);
+  const partialItems = byStatus("partial");
+  const unmatchedItems = byStatus("unmatched");
+  const matchedItems = byStatus("matched");
+  const unmatchedTransfers = reconciliation?.unmatchedTransfers ?? [];
+  // Transfers already matched to another entry aren't offered for linking
+  const matchedTransferIds = new Set(matchedItems.flatMap((item) => (item.transfer ? [item.transfer.id] : [])));
+  const linkableTransfers = (reconciliation?.transfers ?? []).filter((transfer) => !matchedTransferIds.has(transfer.id));
+
+  const renderActions = (item: ReconciliationItem) => {
+    if (item.resolution) {
+      return (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-400 hover:text-white"
+          onClick={() => resolveMutation.mutate(() => clearResolution(item.entry.id))}
+        >
+          <Undo2 className="mr-1 h-3 w-3" /> Undo
+        </Button>
+      );
+    }
+    if (item.status === "matched") {
+      return null;
+    }
+    return (
+      <div className="flex justify-end gap-1">
+        {item.status === "partial" && item.transfer && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-green-300 hover:text-green-200"
+            onClick={() => resolveMutation.mutate(() => linkEntry(item.entry.id, item.transfer.id))}
+          >
+            <Check className="mr-1 h-3 w-3" /> Confirm
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white" onClick={() => setLinking(item)}>
+          <Link2 className="mr-1 h-3 w-3" /> Link
+        </Button>
+        <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white" onClick={() => setIgnoring(item)}>
+          <Ban className="mr-1 h-3 w-3" /> Not a transfer
+        </Button>
+      </div>
+    );
+  };
+
+  const renderItems = (list: ReconciliationItem[], emptyMessage: string) => (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-white/10 hover:bg-transparent">
+          <TableHead className="text-gray-400">Booked</TableHead>
+          <TableHead className="text-gray-400">Amount</TableHead>
+          <TableHead className="text-gray-400">Statement entry</TableHead>
+          <TableHead className="text-gray-400">Transfer</TableHead>
+          <TableHead className="text-gray-400">Status</TableHead>
+          <TableHead className="text-right text-gray-400">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {list.length === 0 && (
+          <TableRow className="border-white/10">
+            <TableCell colSpan={6} className="h-20 text-center text-gray-500">{emptyMessage}</TableCell>
+          </TableRow>
+        )}
+        {list.map((item) => (
+          <TableRow key={item.entry.id} className="border-white/10 align-top">
+            <TableCell className="text-gray-300 whitespace-nowrap">{formatDate(item.entry.bookingDate)}</TableCell>
+            <TableCell
+              className={cn("font-medium whitespace-nowrap", item.entry.direction === "debit" ? "text-white" : "text-green-300")}
+            >
+              {formatEntryAmount(item.entry)}
+            </TableCell>
+            <TableCell className="max-w-xs">
+              <div className="text-white">{item.entry.counterpartyName ?? item.entry.description ?? "No details"}</div>
+              {item.entry.counterpartyName && item.entry.description && (
+                <div className="truncate text-xs text-gray-500">{item.entry.description}</div>
+              )}
+              {item.entry.endToEndId && (
+                <div className="font-mono text-xs text-gray-500">Ref {item.entry.endToEndId}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              {item.transfer ? (
+                <Link to={`/transfers/${item.transfer.id}`} className="hover:underline">
+                  <div className="text-white">{item.transfer.recipientName}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatMoney(item.transfer.amount, item.transfer.currency ?? "USD")} · {formatDate(getTransferDate(item.transfer))}
+                  </div>
+                </Link>
+              ) : (
+                <span className="text-gray-500">—</span>
+              )}
+            </TableCell>
+            <TableCell className="max-w-xs">
+              <Badge variant="outline" className={cn("border-transparent", STATUS_STYLES[item.status])}>
+                {STATUS_LABELS[item.status]}
+              </Badge>
+              {item.resolution && (
+                <div className="mt-1 text-xs text-gray-500">
+                  {item.resolution.kind === "linked" ? "Linked by you" : `Not a transfer${item.resolution.note ? `: ${item.resolution.note}` : ""}`}
+                </div>
+              )}
+              {item.differences.map((difference) => (
+                <div key={difference} className="mt-1 text-xs text-yellow-300/80">{difference}</div>
+              ))}
+            </TableCell>
+            <TableCell className="text-right">{renderActions(item)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto px-4 py-16">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl md:text-4xl font-bold text-gradient">Reconciliation</h1>
+          <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+            <Link to="/transfers">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Transfer History
+            </Link>
+          </Button>
+        </header>
+
+        <Card className="mb-6 shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+          <CardHeader className="border-b border-white/10">
+            <CardTitle className="text-lg text-white">Bank statements</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <label
+              className={cn(
+                "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-white/20 p-8 text-center hover:border-primary-purple/60",
+                importMutation.isPending && "pointer-events-none opacity-50",
+              )}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                handleFile(event.dataTransfer.files[0]);
+              }}
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="h-8 w-8 animate-spin text-primary-purple" />
+              ) : (
+                <Upload className="h-8 w-8 text-primary-purple" />
+              )}
+              <span className="text-white">Drop a CAMT.053 or MT940 statement here, or click to choose one</span>
+              <span className="text-xs text-gray-500">
+                Booked debits are matched to your transfers by reference, amount and currency, within{" "}
+                {DATE_TOLERANCE_DAYS} days of the transfer date.
+              </span>
+              <input
+                type="file"
+                accept=".xml,.sta,.940,.mt940,.txt,application/xml,text/xml,text/plain"
+                className="sr-only"
+                disabled={importMutation.isPending}
+                onChange={(event) => {
+                  handleFile(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+
+            {reconciliation?.statements.map((statement) => (
+              <div
+                key={statement.key}
+                className="flex items-center justify-between gap-4 rounded-md bg-black/30 p-3 text-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <FileText className="h-4 w-4 text-primary-purple" />
+                  <div>
+                    <div className="text-white">
+                      {STATEMENT_FORMAT_LABELS[statement.format]} statement {statement.statementId}
+                      {statement.sequenceNumber && ` no. ${statement.sequenceNumber}`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Account {statement.accountId || "not given"}
+                      {statement.openingDate && ` · from ${formatDate(statement.openingDate)}`}
+                      {" "}· {statement.entries.length} entr
+                      {statement.entries.length === 1 ? "y" : "ies"} · {statement.fileName}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-gray-400 hover:text-red-300"
+                  aria-label={`Remove statement ${statement.statementId}`}
+                  onClick={() => resolveMutation.mutate(() => removeStatement(statement))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {isPending && (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Matching entries…
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">Couldn't load the reconciliation: {error.message}</p>}
+
+        {reconciliation && reconciliation.statements.length > 0 && (
+          <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+            <CardContent className="pt-6">
+              <Tabs defaultValue="review">
+                <TabsList className="mb-6 grid w-full grid-cols-2 bg-black/50 md:grid-cols-4">
+                  <TabsTrigger value="review">Partly matched ({partialItems.length})</TabsTrigger>
+                  <TabsTrigger value="unmatched">Unmatched ({unmatchedItems.length})</TabsTrigger>
+                  <TabsTrigger value="matched">Matched ({matchedItems.length})</TabsTrigger>
+                  <TabsTrigger value="transfers">Not on statement ({unmatchedTransfers.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="review">
+                  {renderItems(partialItems, "No entries need reviewing.")}
+                </TabsContent>
+                <TabsContent value="unmatched">
+                  {renderItems(unmatchedItems, "Every entry has been matched.")}
+                </TabsContent>
+                <TabsContent value="matched">
+                  {renderItems(matchedItems, "No entries have been matched yet.")}
+                </TabsContent>
+                <TabsContent value="transfers">
+                  <p className="mb-4 text-sm text-gray-400">
+                    Transfers dated within the statements' period that no booked entry accounts for.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-white/10 hover:bg-transparent">
+                        <TableHead className="text-gray-400">Date</TableHead>
+                        <TableHead className="text-gray-400">Recipient</TableHead>
+                        <TableHead className="text-gray-400">Amount</TableHead>
+                        <TableHead className="text-gray-400">Reference</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unmatchedTransfers.length === 0 && (
+                        <TableRow className="border-white/10">
+                          <TableCell colSpan={4} className="h-20 text-center text-gray-500">
+                            Every transfer in the period is on a statement.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {unmatchedTransfers.map((transfer) => (
+                        <TableRow key={transfer.id} className="border-white/10">
+                          <TableCell className="text-gray-300 whitespace-nowrap">{formatDate(getTransferDate(transfer))}</TableCell>
+                          <TableCell className="text-white">{transfer.recipientName}</TableCell>
+                          <TableCell className="text-white whitespace-nowrap">
+                            {formatMoney(transfer.amount, transfer.currency ?? "USD")}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            <Link to={`/transfers/${transfer.id}`} className="text-gray-400 hover:underline">{transfer.id}</Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+
+        <LinkEntryDialog
+          item={linking}
+          transfers={linkableTransfers}
+          onOpenChange={(open) => !open && setLinking(undefined)}
+          onLink={(entryId, transferId) => {
+            resolveMutation.mutate(() => linkEntry(entryId, transferId));
+            setLinking(undefined);
+          }}
+        />
+        <IgnoreEntryDialog
+          item={ignoring}
+          onOpenChange={(open) => !open && setIgnoring(undefined)}
+          onIgnore={(entryId, note) => {
+            resolveMutation.mutate(() => ignoreEntry(entryId, note));
+            setIgnoring(undefined);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Reconciliation;
@@ -0,0 +1,315 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ArrowLeft,
+  CalendarPlus,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  SkipForward,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import RecurrencePreview from "@/components/RecurrencePreview";
+import RecurringTransferDialog from "@/components/RecurringTransferDialog";
+import { useToast } from "@/hooks/use-toast";
+import { fromIsoDate } from "@/lib/businessDays";
+import { formatMoney } from "@/lib/money";
+import { describeRecurrence } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import { getBeneficiaryAccountHint } from "@/services/beneficiaryService";
+import {
+  bookRecurringTransfer,
+  getNextOccurrence,
+  getRecurringTransfers,
+  getRecurringTransferStatus,
+  getSentOccurrences,
+  getUnbookedOccurrences,
+  getUpcomingOccurrences,
+  pauseRecurringTransfer,
+  RecurringTransfer,
+  RecurringTransferStatus,
+  resumeRecurringTransfer,
+  skipNextOccurrence,
+} from "@/services/recurringTransferService";
+
+const STATUS_STYLES: Record<RecurringTransferStatus, string> = {
+  active: "bg-green-500/20 text-green-300",
+  paused: "bg-yellow-500/20 text-yellow-300",
+  ended: "bg-gray-500/20 text-gray-400",
+};
+
+const STATUS_LABELS: Record<RecurringTransferStatus, string> = {
+  active: "Active",
+  paused: "Paused",
+  ended: "Ended",
+};
+
+// Number of past transfers listed when a recurring transfer is expanded
+const RECENT_TRANSFERS = 5;
+
+const formatDate = (isoDate: string) => format(fromIsoDate(isoDate), "MMM d, yyyy");
+
+const RecurringTransfers = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringTransfer | undefined>();
+  const [expandedId, setExpandedId] = useState<string | undefined>();
+
+  const { data: recurringTransfers = [], isPending } = useQuery({
+    queryKey: ["recurring-transfers"],
+    queryFn: getRecurringTransfers,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "pause" | "resume" | "skip" | "book" }) => {
+      switch (action) {
+        case "book":
+          return bookRecurringTransfer(id);
+        case "pause":
+          return pauseRecurringTransfer(id);
+        case "resume":
+          return resumeRecurringTransfer(id);
+        case "skip":
+          return skipNextOccurrence(id);
+      }
+    },
+    onSuccess: (recurring, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-transfers"] });
+      // Booked and cancelled occurrences show up in the transfer history
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      const next = getNextOccurrence(recurring);
+      const titles = {
+        pause: "Recurring transfer paused",
+        resume: "Recurring transfer resumed",
+        skip: "Next transfer skipped",
+        book: "Transfers scheduled",
+      };
+      toast({
+        title: titles[action],
+        description: recurring.paused
+          ? "No more transfers will be sent until it is resumed."
+          : next
+            ? `The next transfer will be sent on ${formatDate(next.executionDate)}.`
+            : "There are no more transfers in this schedule.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't update the recurring transfer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (recurring?: RecurringTransfer) => {
+    setEditing(recurring);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto px-4 py-16">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl md:text-4xl font-bold text-gradient">Recurring Transfers</h1>
+          <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" /> New Transfer
+            </Link>
+          </Button>
+        </header>
+
+        <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+          <CardHeader className="border-b border-white/10">
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <CardTitle className="text-lg text-white">
+                {recurringTransfers.length} recurring transfer{recurringTransfers.length === 1 ? "" : "s"}
+              </CardTitle>
+              <Button className="bg-primary-purple hover:bg-secondary-purple" onClick={() => openDialog()}>
+                <Plus className="mr-2 h-4 w-4" /> New recurring transfer
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="w-8" />
+                  <TableHead className="text-gray-400">Recipient</TableHead>
+                  <TableHead className="text-right text-gray-400">Amount</TableHead>
+                  <TableHead className="text-gray-400">Schedule</TableHead>
+                  <TableHead className="text-gray-400">Next Transfer</TableHead>
+                  <TableHead className="text-gray-400">Status</TableHead>
+                  <TableHead className="text-right text-gray-400">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isPending && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                      <Loader2 className="mr-2 inline h-4 w-4 animate-spin" /> Loading recurring transfers…
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isPending && recurringTransfers.length === 0 && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                      No recurring transfers yet. Set one up for payments you make on a schedule, such as rent.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {recurringTransfers.map((recurring) => {
+                  const { transferData } = recurring;
+                  const status = getRecurringTransferStatus(recurring);
+                  const next = getNextOccurrence(recurring);
+                  const expanded = expandedId === recurring.id;
+                  const busy = actionMutation.isPending && actionMutation.variables?.id === recurring.id;
+
+                  return (
+                    <React.Fragment key={recurring.id}>
+                      <TableRow className="border-white/10">
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-gray-400 hover:text-white"
+                            aria-label={expanded ? "Hide schedule" : "Show schedule"}
+                            aria-expanded={expanded}
+                            onClick={() => setExpandedId(expanded ? undefined : recurring.id)}
+                          >
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-white font-medium">{transferData.recipientName}</div>
+                          <div className="text-xs text-gray-500">
+                            {transferData.bankName} · {getBeneficiaryAccountHint(transferData)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-medium text-white whitespace-nowrap">
+                          {formatMoney(transferData.amount, transferData.currency ?? "USD")}
+                        </TableCell>
+                        <TableCell className="text-gray-300">{describeRecurrence(recurring.rule)}</TableCell>
+                        <TableCell className="text-gray-300 whitespace-nowrap">
+                          {next && status === "active" ? formatDate(next.executionDate) : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("border-transparent", STATUS_STYLES[status])}>
+                            {STATUS_LABELS[status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {status !== "ended" && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-gray-400 hover:text-white"
+                                aria-label={recurring.paused ? "Resume" : "Pause"}
+                                title={recurring.paused ? "Resume" : "Pause"}
+                                disabled={busy}
+                                onClick={() => actionMutation.mutate({
+                                  id: recurring.id,
+                                  action: recurring.paused ? "resume" : "pause",
+                                })}
+                              >
+                                {recurring.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                              </Button>
+                              {getUnbookedOccurrences(recurring).length > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-gray-400 hover:text-white"
+                                  aria-label="Schedule the next transfers"
+                                  title="Schedule the next transfers"
+                                  disabled={busy}
+                                  onClick={() => actionMutation.mutate({ id: recurring.id, action: "book" })}
+                                >
+                                  <CalendarPlus className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-gray-400 hover:text-white"
+                                aria-label="Skip next transfer"
+                                title={next ? `Skip the transfer on ${formatDate(next.executionDate)}` : "Skip next transfer"}
+                                disabled={busy}
+                                onClick={() => actionMutation.mutate({ id: recurring.id, action: "skip" })}
+                              >
+                                <SkipForward className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-gray-400 hover:text-white"
+                            aria-label="Change future transfers"
+                            title="Change future transfers"
+                            onClick={() => openDialog(recurring)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow className="border-white/10 hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <div className="grid gap-6 py-2 md:grid-cols-2">
+                              <div className="space-y-2">
+                                <h4 className="text-sm font-medium text-white">Upcoming</h4>
+                                <RecurrencePreview occurrences={getUpcomingOccurrences(recurring)} />
+                              </div>
+                              <div className="space-y-2">
+                                <h4 className="text-sm font-medium text-white">Recently sent</h4>
+                                {getSentOccurrences(recurring).length === 0 ? (
+                                  <p className="text-sm text-gray-500">Nothing has been sent yet.</p>
+                                ) : (
+                                  <ul className="space-y-1 text-sm">
+                                    {getSentOccurrences(recurring).slice(-RECENT_TRANSFERS).reverse().map((occurrence) => (
+                                      <li key={occurrence.index} className="flex gap-2 text-gray-300">
+                                        <span>{formatDate(occurrence.executionDate)}</span>
+                                        {occurrence.transferId ? (
+                                          <Link
+                                            to={`/transfers/${occurrence.transferId}`}
+                                            className="font-mono text-primary-purple hover:underline"
+                                          >
+                                            {occurrence.transferId}
+                                          </Link>
+                                        ) : (
+                                          <span className="text-red-400">Not sent: {occurrence.error}</span>
+                                        )}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <RecurringTransferDialog open={dialogOpen} onOpenChange={setDialogOpen} recurring={editing} />
+    </div>
+  );
+};
+
+export default RecurringTransfers;
@@ -0,0 +1,309 @@
+import React, { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Ban, Loader2, Pencil, Printer, Repeat } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import EpcQrCode from "@/components/EpcQrCode";
+import Mt103Preview from "@/components/Mt103Preview";
+import RecurringTransferDialog from "@/components/RecurringTransferDialog";
+import ScheduledTransferDialog from "@/components/ScheduledTransferDialog";
+import TransferStatusBadge from "@/components/TransferStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+import { useTransferStatus } from "@/hooks/use-transfer-status";
+import { ACCOUNT_SCHEMES, getAccountFieldValues, maskAccountValue } from "@/lib/accountFormats";
+import { fromIsoDate } from "@/lib/businessDays";
+import { canCreateEpcQr } from "@/lib/epcQr";
+import { formatMoney } from "@/lib/money";
+import { canGenerateMt103 } from "@/lib/mt103";
+import { cn } from "@/lib/utils";
+import { isCancellable, isEditable, TRANSFER_STATUS_LABELS } from "@/services/transferLifecycle";
+import { cancelTransfer, TransferError, TransferRecord } from "@/services/transferService";
+
+const DetailRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-400">{label}:</span>
+    <span className="text-white font-medium text-right">{value}</span>
+  </div>
+);
+
+// Rows identifying the recipient's account, masking sensitive values
+function getAccountRows(transfer: TransferRecord): { label: string; value: string }[] {
+  if (transfer.transferType === "domestic") {
+    return [
+      { label: "Routing Number", value: transfer.routingNumber ?? "" },
+      { label: "Account Number", value: maskAccountValue(transfer.accountNumber ?? "") },
+    ];
+  }
+
+  const identifier = transfer.accountIdentifier ?? { scheme: "iban" as const, iban: transfer.iban ?? "" };
+  const values = getAccountFieldValues(identifier);
+  return [
+    ...ACCOUNT_SCHEMES[identifier.scheme].fields.map((definition) => ({
+      label: definition.label,
+      value: definition.sensitive ? maskAccountValue(values[definition.name] ?? "") : values[definition.name] ?? "",
+    })),
+    { label: "SWIFT/BIC", value: transfer.swiftCode ?? "" },
+    { label: "Bank Address", value: transfer.bankAddress ?? "" },
+    { label: "Bank Country", value: transfer.bankCountry ?? "" },
+  ];
+}
+
+const TransferDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { transfer, isPending, error } = useTransferStatus(id);
+  const [editOpen, setEditOpen] = useState(false);
+  // Snapshot of the transfer being repeated, so status updates don't reset the open dialog
+  const [repeatSource, setRepeatSource] = useState<TransferRecord | undefined>();
+  // The message preview and QR code are only offered for transfers they can be made for
+  const showMessage = useMemo(() => !!transfer && canGenerateMt103(transfer), [transfer]);
+  const showEpcQr = useMemo(() => !!transfer && canCreateEpcQr(transfer), [transfer]);
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelTransfer(id),
+    onSuccess: (cancelled) => {
+      queryClient.setQueryData(["transfer", id], cancelled);
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      toast({
+        title: "Transfer cancelled",
+        description: `Transfer ${cancelled.id} has been cancelled.`,
+      });
+    },
+    onError: (cancelError) => {
+      toast({
+        title: "Couldn't cancel transfer",
+        description: cancelError.message,
+        variant: "destructive",
+      });
+      // The status may have moved on since it was last polled
+      queryClient.invalidateQueries({ queryKey: ["transfer", id] });
+    },
+  });
+
+  const notFound = error instanceof TransferError && error.reason === "not_found";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto max-w-3xl px-4 py-16">
+        <header className="mb-8 flex items-center justify-between print:hidden">
+          <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+            <Link to="/transfers">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Transfer History
+            </Link>
+          </Button>
+          {transfer && (
+            <Button variant="ghost" className="text-gray-400 hover:text-white" onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" /> Print receipt
+            </Button>
+          )}
+        </header>
+
+        {isPending && (
+          <div className="flex items-center justify-center py-24 text-gray-500">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading transfer…
+          </div>
+        )}
+
+        {error && !transfer && (
+          <Card className="bg-black/30 border-white/10">
+            <CardContent className="py-12 text-center space-y-2">
+              <h2 className="text-xl font-bold text-white">{notFound ? "Transfer not found" : "Couldn't load transfer"}</h2>
+              <p className="text-gray-400">{notFound ? `There is no transfer with reference ${id}.` : error.message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {transfer && (
+          <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20 animate-fade-in">
+            <CardHeader className="border-b border-white/10 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-3xl font-bold text-white">
+                    {formatMoney(transfer.amount, transfer.currency ?? "USD")}
+                  </CardTitle>
+                  <p className="text-gray-400 mt-1">to {transfer.recipientName}</p>
+                </div>
+                <TransferStatusBadge status={transfer.status} className="text-sm" />
+              </div>
+              <p className="text-xs text-gray-500">
+                Reference <span className="font-mono text-gray-300">{transfer.id}</span> · Created{" "}
+                {format(parseISO(transfer.createdAt), "PPpp")}
+              </p>
+            </CardHeader>
+
+            <CardContent className="pt-6 space-y-6">
+              <Tabs defaultValue="details">
+                {(showMessage || showEpcQr) && (
+                  <TabsList
+                    className={cn("grid w-full bg-black/50 mb-6 print:hidden", showMessage && showEpcQr ? "grid-cols-3" : "grid-cols-2")}
+                  >
+                    <TabsTrigger value="details">Details</TabsTrigger>
+                    {showMessage && <TabsTrigger value="message">Message preview</TabsTrigger>}
+                    {showEpcQr && <TabsTrigger value="epc-qr">EPC QR code</TabsTrigger>}
+                  </TabsList>
+                )}
+                <TabsContent value="details" className="mt-0 space-y-6">
+                  <section className="space-y-3 bg-black/30 p-4 rounded-lg text-sm">
+                    <DetailRow label="Transfer Type" value={transfer.transferType === "domestic" ? "Domestic Transfer" : "International Transfer"} />
+                    {transfer.executionDate && (
+                      <DetailRow label="Execution Date" value={format(fromIsoDate(transfer.executionDate), "PPP")} />
+                    )}
+                    <DetailRow label="Recipient" value={transfer.recipientName} />
+                    <DetailRow label="Bank" value={transfer.bankName} />
+                    {getAccountRows(transfer).map((row) => (
+                      <DetailRow key={row.label} label={row.label} value={row.value} />
+                    ))}
+                    {transfer.description && <DetailRow label="Description" value={transfer.description} />}
+                  </section>
+
+                  <section className="space-y-3 bg-primary-purple/5 p-4 rounded-lg text-sm">
+                    <h3 className="font-medium text-white">Fees and charges</h3>
+                    {transfer.pricing ? (
+                      <>
+                        {transfer.pricing.sourceCurrency !== transfer.currency && (
+                          <DetailRow
+                            label="Exchange Rate"
+                            value={`1 ${transfer.pricing.sourceCurrency} = ${transfer.pricing.rate.toFixed(4)} ${transfer.currency}`}
+                          />
+                        )}
+                        <DetailRow label="Amount Converted" value={formatMoney(transfer.pricing.sendAmount, transfer.pricing.sourceCurrency)} />
+                        {transfer.pricing.fees.map((fee) => (
+                          <DetailRow key={fee.label} label={fee.label} value={formatMoney(fee.amount, transfer.pricing.sourceCurrency)} />
+                        ))}
+                        {transfer.pricing.fees.length === 0 && (
+                          <DetailRow label="Fees" value={formatMoney(0, transfer.pricing.sourceCurrency)} />
+                        )}
+                        <Separator className="bg-white/10" />
+                        <DetailRow label="Total Debited" value={formatMoney(transfer.pricing.totalDebit, transfer.pricing.sourceCurrency)} />
+                      </>
+                    ) : (
+                      <p className="text-gray-500">Fee details are not available for this transfer.</p>
+                    )}
+                  </section>
+
+                  <section className="space-y-3">
+                    <h3 className="font-medium text-white">Timeline</h3>
+                    <ol className="relative border-l border-white/10 ml-2 space-y-4">
+                      {transfer.statusHistory.map((event, index) => {
+                        const isCurrent = index === transfer.statusHistory.length - 1;
+                        return (
+                          <li key={`${event.status}-${event.at}`} className="ml-4">
+                            <span
+                              className={cn(
+                                "absolute -left-1.5 mt-1 h-3 w-3 rounded-full border border-black",
+                                isCurrent ? "bg-primary-purple" : "bg-gray-600",
+                              )}
+                            />
+                            <div className={cn("text-sm font-medium", isCurrent ? "text-white" : "text-gray-400")}>
+                              {TRANSFER_STATUS_LABELS[event.status]}
+                            </div>
+                            <time className="text-xs text-gray-500" dateTime={event.at}>
+                              {format(parseISO(event.at), "PPpp")}
+                            </time>
+                            {event.reason && <p className="text-xs text-gray-400">{event.reason}</p>}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </section>
+                </TabsContent>
+                {showMessage && (
+                  <TabsContent value="message" className="mt-0">
+                    <Mt103Preview transfer={transfer} />
+                  </TabsContent>
+                )}
+                {showEpcQr && (
+                  <TabsContent value="epc-qr" className="mt-0">
+                    <EpcQrCode transfer={transfer} />
+                  </TabsContent>
+                )}
+              </Tabs>
+
+              {isEditable(transfer.status) && (
+                <>
+                  <Button
+                    variant="outline"
+                    className="w-full border-white/20 text-gray-300 hover:text-white print:hidden"
+                    onClick={() => setEditOpen(true)}
+                  >
+                    <Pencil className="mr-2 h-4 w-4" /> Change scheduled transfer
+                  </Button>
+                  <ScheduledTransferDialog open={editOpen} onOpenChange={setEditOpen} transfer={transfer} />
+                </>
+              )}
+
+              <Button
+                variant="outline"
+                className="w-full border-white/20 text-gray-300 hover:text-white print:hidden"
+                onClick={() => setRepeatSource(transfer)}
+              >
+                <Repeat className="mr-2 h-4 w-4" /> Repeat this transfer
+              </Button>
+              <RecurringTransferDialog
+                open={!!repeatSource}
+                onOpenChange={(open) => !open && setRepeatSource(undefined)}
+                source={repeatSource}
+              />
+
+              {isCancellable(transfer.status) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full border-red-600/40 text-red-400 hover:bg-red-500/10 hover:text-red-300 print:hidden"
+                      disabled={cancelMutation.isPending}
+                    >
+                      {cancelMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Ban className="mr-2 h-4 w-4" />
+                      )}
+                      Cancel transfer
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Cancel this transfer?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {formatMoney(transfer.amount, transfer.currency ?? "USD")} to {transfer.recipientName} will not be sent.
+                        This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep transfer</AlertDialogCancel>
+                      <AlertDialogAction
+                        className="bg-red-600 hover:bg-red-700"
+                        onClick={() => cancelMutation.mutate()}
+                      >
+                        Cancel transfer
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferDetail;
@@ -0,0 +1,383 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, CalendarIcon, ChevronDown, FileCode, FileText, Loader2, Search, Upload, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import AchExportDialog from "@/components/AchExportDialog";
+import CurrencyCombobox from "@/components/CurrencyCombobox";
+import Pain001ExportDialog from "@/components/Pain001ExportDialog";
+import TransferStatusBadge from "@/components/TransferStatusBadge";
+import { fromIsoDate } from "@/lib/businessDays";
+import { formatMoney } from "@/lib/money";
+import { cn } from "@/lib/utils";
+import { TRANSFER_STATUS_LABELS, TransferStatus } from "@/services/transferLifecycle";
+import {
+  getTransferHistory,
+  listTransfers,
+  markTransfersExported,
+  SortDirection,
+  TransferListQuery,
+  TransferSortField,
+} from "@/services/transferService";
+
+const ALL = "all";
+const PAGE_SIZE = 10;
+
+// Only transfers that haven't been sent yet go in payment files; the bank would pay sent ones a second time.
+// Exported ones are left out too, as they're already in an earlier file.
+const EXPORTABLE: TransferStatus[] = ["scheduled", "pending_approval"];
+
+interface SortableHeadProps {
+  field: TransferSortField;
+  label: string;
+  sortBy: TransferSortField;
+  sortDirection: SortDirection;
+  onSort: (field: TransferSortField) => void;
+  className?: string;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({ field, label, sortBy, sortDirection, onSort, className }) => {
+  const SortIcon = sortBy !== field ? ArrowUpDown : sortDirection === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className} aria-sort={sortBy === field ? (sortDirection === "asc" ? "ascending" : "descending") : "none"}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8 text-gray-400 hover:text-white" onClick={() => onSort(field)}>
+        {label}
+        <SortIcon className={cn("ml-2 h-3 w-3", sortBy !== field && "opacity-50")} />
+      </Button>
+    </TableHead>
+  );
+};
+
+const TransferHistory = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [transferType, setTransferType] = useState<TransferListQuery["transferType"] | typeof ALL>(ALL);
+  const [currency, setCurrency] = useState("");
+  const [status, setStatus] = useState<TransferStatus | typeof ALL>(ALL);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [sortBy, setSortBy] = useState<TransferSortField>("createdAt");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [exportFormat, setExportFormat] = useState<"pain001" | "ach" | undefined>();
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters: TransferListQuery = {
+    search: search || undefined,
+    transferType: transferType === ALL ? undefined : transferType,
+    currency: currency || undefined,
+    status: status === ALL ? undefined : status,
+    createdFrom: dateRange?.from ? startOfDay(dateRange.from).toISOString() : undefined,
+    createdTo: dateRange?.from ? endOfDay(dateRange.to ?? dateRange.from).toISOString() : undefined,
+    sortBy,
+    sortDirection,
+  };
+  const filterKey = JSON.stringify(filters);
+
+  // Cursors of the pages visited so far; the first page has no cursor.
+  // Any change to the filters or sorting starts again from the first page.
+  const [pagination, setPagination] = useState<{ filterKey: string; cursors: (string | undefined)[] }>({
+    filterKey,
+    cursors: [undefined],
+  });
+  const cursors = pagination.filterKey === filterKey ? pagination.cursors : [undefined];
+  const setCursors = (next: (string | undefined)[]) => setPagination({ filterKey, cursors: next });
+  const pageIndex = cursors.length - 1;
+
+  const { data: page, isPending, isFetching, isPlaceholderData, error } = useQuery({
+    queryKey: ["transfers", filters, cursors[pageIndex]],
+    queryFn: () => listTransfers({ ...filters, cursor: cursors[pageIndex], limit: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const handleSort = (field: TransferSortField) => {
+    if (field === sortBy) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortDirection(field === "recipientName" ? "asc" : "desc");
+    }
+  };
+
+  const hasFilters = !!(searchInput || transferType !== ALL || currency || status !== ALL || dateRange?.from);
+  const clearFilters = () => {
+    setSearchInput("");
+    setTransferType(ALL);
+    setCurrency("");
+    setStatus(ALL);
+    setDateRange(undefined);
+  };
+
+  const pageCount = page ? Math.max(1, Math.ceil(page.totalCount / PAGE_SIZE)) : 1;
+
+  // Function to load every transfer matching the filters that hasn't been sent yet, for payment files
+  const loadExportTransfers = async () => {
+    const transfers = await getTransferHistory(filters);
+    return transfers.filter((transfer) => EXPORTABLE.includes(transfer.status));
+  };
+
+  // Function to mark the transfers in a payment file as exported, so the scheduled ones aren't also sent
+  const markExported = async (transfers: { id?: string }[]) => {
+    await markTransfersExported(transfers.map((transfer) => transfer.id));
+    queryClient.invalidateQueries({ queryKey: ["transfers"] });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-dark-purple to-black">
+      <div className="container mx-auto px-4 py-16">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl md:text-4xl font-bold text-gradient">Transfer History</h1>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="border-white/20 text-gray-400 hover:text-white"
+                  disabled={!page || page.totalCount === 0}
+                >
+                  Payment file <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => setExportFormat("pain001")}>
+                  <FileCode className="mr-2 h-4 w-4" /> ISO 20022 pain.001
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setExportFormat("ach")}>
+                  <FileText className="mr-2 h-4 w-4" /> NACHA ACH (domestic)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+              <Link to="/transfers/bulk">
+                <Upload className="mr-2 h-4 w-4" /> Bulk payments
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="border-white/20 text-gray-400 hover:text-white">
+              <Link to="/">
+                <ArrowLeft className="mr-2 h-4 w-4" /> New Transfer
+              </Link>
+            </Button>
+          </div>
+        </header>
+
+        <Card className="shadow-lg bg-gradient-to-b from-dark-purple to-black border-primary-purple/20">
+          <CardHeader className="border-b border-white/10 space-y-4">
+            <CardTitle className="text-lg text-white flex items-center">
+              Your transfers
+              {isFetching && <Loader2 className="ml-2 h-4 w-4 animate-spin text-primary-purple" />}
+            </CardTitle>
+            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-6">
+              <div className="relative lg:col-span-2">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-500" />
+                <Input
+                  value={searchInput}
+                  onChange={(event) => setSearchInput(event.target.value)}
+                  placeholder="Search recipient or description"
+                  className="pl-9 bg-black/50"
+                  aria-label="Search transfers"
+                />
+              </div>
+              <Select value={transferType} onValueChange={(value) => setTransferType(value as typeof transferType)}>
+                <SelectTrigger className="bg-black/50" aria-label="Transfer type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  <SelectItem value="domestic">Domestic</SelectItem>
+                  <SelectItem value="international">International</SelectItem>
+                </SelectContent>
+              </Select>
+              <CurrencyCombobox value={currency} onChange={setCurrency} placeholder="All currencies" />
+              <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                <SelectTrigger className="bg-black/50" aria-label="Status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {Object.entries(TRANSFER_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn("justify-start bg-black/50 font-normal", !dateRange?.from && "text-muted-foreground")}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dateRange?.from
+                      ? dateRange.to
+                        ? `${format(dateRange.from, "MMM d")} – ${format(dateRange.to, "MMM d, yyyy")}`
+                        : format(dateRange.from, "MMM d, yyyy")
+                      : "Any date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={setDateRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" className="self-start text-gray-400 hover:text-white" onClick={clearFilters}>
+                <X className="mr-1 h-3 w-3" /> Clear filters
+              </Button>
+            )}
+          </CardHeader>
+
+          <CardContent className="pt-6 space-y-4">
+            {error && <p className="text-sm text-red-400">Couldn't load transfers: {error.message}</p>}
+
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <SortableHead field="createdAt" label="Date" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  <SortableHead field="recipientName" label="Recipient" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  <TableHead className="text-gray-400">Type</TableHead>
+                  <SortableHead field="amount" label="Amount" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  <SortableHead field="status" label="Status" sortBy={sortBy} sortDirection={sortDirection} onSort={handleSort} />
+                  <TableHead className="text-gray-400">Reference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isPending && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                      <Loader2 className="mr-2 inline h-4 w-4 animate-spin" /> Loading transfers…
+                    </TableCell>
+                  </TableRow>
+                )}
+                {page?.items.length === 0 && (
+                  <TableRow className="border-white/10">
+                    <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                      No transfers match your filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {page?.items.map((transfer) => (
+                  <TableRow
+                    key={transfer.id}
+                    className="border-white/10 cursor-pointer"
+                    onClick={() => navigate(`/transfers/${transfer.id}`)}
+                  >
+                    <TableCell className="text-gray-300 whitespace-nowrap">{format(parseISO(transfer.createdAt), "PP")}</TableCell>
+                    <TableCell>
+                      <div className="text-white font-medium">{transfer.recipientName}</div>
+                      {transfer.description && <div className="text-xs text-gray-500">{transfer.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-gray-300 capitalize">{transfer.transferType}</TableCell>
+                    <TableCell className="text-white font-medium whitespace-nowrap">
+                      {formatMoney(transfer.amount, transfer.currency ?? "USD")}
+                    </TableCell>
+                    <TableCell>
+                      <TransferStatusBadge status={transfer.status} />
+                      {transfer.status === "scheduled" && transfer.executionDate && (
+                        <div className="mt-1 text-xs text-gray-500">for {format(fromIsoDate(transfer.executionDate), "PP")}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-gray-400">{transfer.id}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {page && page.totalCount > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>
+                  {page.totalCount} transfer{page.totalCount === 1 ? "" : "s"}
+                </span>
+                <Pagination className="mx-0 w-auto">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        aria-disabled={pageIndex === 0}
+                        className={cn(pageIndex === 0 && "pointer-events-none opacity-50")}
+                        onClick={(event) => {
+                          event.preventDefault();
+                          setCursors(cursors.slice(0, -1));
+                        }}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationLink href="#" isActive size="default" onClick={(event) => event.preventDefault()}>
+                        Page {pageIndex + 1} of {pageCount}
+                      </PaginationLink>
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        aria-disabled={!page.nextCursor || isPlaceholderData}
+                        className={cn((!page.nextCursor || isPlaceholderData) && "pointer-events-none opacity-50")}
+                        onClick={(event) => {
+                          event.preventDefault();
+                          if (page.nextCursor && !isPlaceholderData) {
+                            setCursors([...cursors, page.nextCursor]);
+                          }
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Pain001ExportDialog
+          open={exportFormat === "pain001"}
+          onOpenChange={(open) => !open && setExportFormat(undefined)}
+          description={hasFilters
+            ? "the scheduled and pending approval transfers matching your filters, which haven't been sent yet"
+            : "all your scheduled and pending approval transfers, which haven't been sent yet"}
+          loadTransfers={loadExportTransfers}
+          markExported={markExported}
+        />
+        <AchExportDialog
+          open={exportFormat === "ach"}
+          onOpenChange={(open) => !open && setExportFormat(undefined)}
+          description={hasFilters
+            ? "the scheduled and pending approval domestic transfers matching your filters, which haven't been sent yet"
+            : "all your scheduled and pending approval domestic transfers, which haven't been sent yet"}
+          loadTransfers={async () => {
+            const transfers = await loadExportTransfers();
+            return transfers.filter((transfer) => transfer.transferType === "domestic");
+          }}
+          markExported={markExported}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TransferHistory;
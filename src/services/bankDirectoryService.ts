@@ -0,0 +1,75 @@
+// Offline bank directory lookups by BIC or IBAN
+import { BANK_DIRECTORY, BankDirectoryEntry, IBAN_BANK_CODE_POSITIONS } from "@/data/bankDirectory";
+import { validateBic } from "@/lib/bic";
+import { validateIban } from "@/lib/iban";
+
+export type { BankDirectoryEntry } from "@/data/bankDirectory";
+
+const LOCAL_DIRECTORY_KEY = "purple-bank:bank-directory";
+
+// Entries added on this device, persisted in localStorage
+function getLocalEntries(): BankDirectoryEntry[] {
+  try {
+    const stored = localStorage.getItem(LOCAL_DIRECTORY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Function to get the full directory, with local entries taking precedence over bundled ones
+export function getBankDirectory(): BankDirectoryEntry[] {
+  const localEntries = getLocalEntries();
+  const localBics = new Set(localEntries.map((entry) => entry.bic));
+  return [...localEntries, ...BANK_DIRECTORY.filter((entry) => !localBics.has(entry.bic))];
+}
+
+// Function to add or replace a directory entry on this device
+export function saveBankDirectoryEntry(entry: BankDirectoryEntry): void {
+  const bicResult = validateBic(entry.bic);
+  if (bicResult.valid === false) {
+    throw new Error(bicResult.error);
+  }
+
+  const normalized = { ...entry, bic: bicResult.bic.bic11 };
+  const localEntries = getLocalEntries().filter((existing) => existing.bic !== normalized.bic);
+  localStorage.setItem(LOCAL_DIRECTORY_KEY, JSON.stringify([...localEntries, normalized]));
+}
+
+// Function to find a bank by BIC, falling back to the primary office for unknown branches
+export function lookupBankByBic(bic: string): BankDirectoryEntry | undefined {
+  const bicResult = validateBic(bic);
+  if (bicResult.valid === false) {
+    return undefined;
+  }
+
+  const directory = getBankDirectory();
+  return (
+    directory.find((entry) => entry.bic === bicResult.bic.bic11) ??
+    directory.find((entry) => entry.bic === bicResult.bic.bic8 + "XXX")
+  );
+}
+
+// Function to find a bank from the national bank code embedded in an IBAN
+export function lookupBankByIban(iban: string): BankDirectoryEntry | undefined {
+  const ibanResult = validateIban(iban);
+  if (ibanResult.valid === false) {
+    return undefined;
+  }
+
+  const countryCode = ibanResult.country.code;
+  const position = IBAN_BANK_CODE_POSITIONS[countryCode];
+  if (!position) {
+    return undefined;
+  }
+
+  const bankCode = ibanResult.iban.slice(4).slice(position[0], position[1]);
+  return getBankDirectory().find(
+    (entry) => entry.countryCode === countryCode && entry.ibanBankCodes?.includes(bankCode),
+  );
+}
+
+// Function to find a bank from whichever identifiers are available, preferring the BIC
+export function lookupBank({ iban, swiftCode }: { iban?: string; swiftCode?: string }): BankDirectoryEntry | undefined {
+  return (swiftCode && lookupBankByBic(swiftCode)) || (iban && lookupBankByIban(iban)) || undefined;
+}
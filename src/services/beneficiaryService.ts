@@ -0,0 +1,164 @@
+// Saved beneficiaries (the payee address book), persisted in localStorage on this device
+import { getAccountFieldValues, getAccountKey } from "@/lib/accountFormats";
+import {
+  getRecipientAccount,
+  RecipientDetails,
+  TransferData,
+  TransferValidationError,
+  validateRecipientDetails,
+} from "@/services/transferService";
+
+const STORAGE_KEY = "purple-bank:beneficiaries";
+
+export interface Beneficiary extends RecipientDetails {
+  id: string;
+  // Short name shown in pickers, e.g. "Office rent"
+  nickname?: string;
+  // Currency usually paid to this beneficiary, used to prefill international transfers
+  currency?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+}
+
+export type BeneficiaryInput = Omit<Beneficiary, "id" | "createdAt" | "updatedAt" | "lastUsedAt">;
+
+export interface BeneficiaryFieldError {
+  field: TransferValidationError["field"] | "nickname";
+  message: string;
+}
+
+export class BeneficiaryValidationError extends Error {
+  errors: BeneficiaryFieldError[];
+
+  constructor(errors: BeneficiaryFieldError[]) {
+    super(errors.map((error) => error.message).join(" "));
+    this.name = "BeneficiaryValidationError";
+    this.errors = errors;
+  }
+}
+
+export const MAX_NICKNAME_LENGTH = 40;
+
+function loadBeneficiaries(): Beneficiary[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveBeneficiaries(beneficiaries: Beneficiary[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(beneficiaries));
+}
+
+// Function to get the name a beneficiary is listed under
+export function getBeneficiaryLabel(beneficiary: Beneficiary): string {
+  return beneficiary.nickname || beneficiary.recipientName;
+}
+
+// Function to describe a beneficiary's account briefly, e.g. "IBAN ••••1234"
+export function getBeneficiaryAccountHint(beneficiary: RecipientDetails): string {
+  const identifier = getRecipientAccount(beneficiary);
+  const values = Object.values(getAccountFieldValues(identifier));
+  return `${identifier.scheme === "iban" ? "IBAN" : "Account"} ••••${(values[values.length - 1] ?? "").slice(-4)}`;
+}
+
+// Function to take the recipient details of a transfer, e.g. to save them after it was sent
+export function getTransferRecipient(transferData: TransferData): BeneficiaryInput {
+  return {
+    transferType: transferData.transferType,
+    recipientName: transferData.recipientName,
+    bankName: transferData.bankName,
+    accountNumber: transferData.accountNumber,
+    routingNumber: transferData.routingNumber,
+    iban: transferData.iban,
+    swiftCode: transferData.swiftCode,
+    bankAddress: transferData.bankAddress,
+    bankCountry: transferData.bankCountry,
+    accountIdentifier: transferData.accountIdentifier,
+    currency: transferData.currency,
+  };
+}
+
+// Key identifying the account a beneficiary is paid into, ignoring names and nicknames
+function getBeneficiaryKey(details: RecipientDetails): string {
+  return [getAccountKey(getRecipientAccount(details)), details.swiftCode ?? ""].join(":");
+}
+
+// Function to validate a beneficiary with the same rules used for transfers
+export function validateBeneficiary(input: BeneficiaryInput): BeneficiaryFieldError[] {
+  const errors: BeneficiaryFieldError[] = validateRecipientDetails(input);
+  if ((input.nickname ?? "").trim().length > MAX_NICKNAME_LENGTH) {
+    errors.push({ field: "nickname", message: `Nicknames are limited to ${MAX_NICKNAME_LENGTH} characters.` });
+  }
+  return errors;
+}
+
+// Function to list beneficiaries, most recently used first, then alphabetically
+export async function getBeneficiaries(): Promise<Beneficiary[]> {
+  return loadBeneficiaries().sort((a, b) =>
+    (b.lastUsedAt ?? "").localeCompare(a.lastUsedAt ?? "") || getBeneficiaryLabel(a).localeCompare(getBeneficiaryLabel(b)),
+  );
+}
+
+// Function to find a saved beneficiary paid into the same account
+export async function findBeneficiary(details: RecipientDetails): Promise<Beneficiary | undefined> {
+  const key = getBeneficiaryKey(details);
+  return loadBeneficiaries().find((beneficiary) => getBeneficiaryKey(beneficiary) === key);
+}
+
+export async function createBeneficiary(input: BeneficiaryInput): Promise<Beneficiary> {
+  const errors = validateBeneficiary(input);
+  if (errors.length > 0) {
+    throw new BeneficiaryValidationError(errors);
+  }
+
+  const now = new Date().toISOString();
+  const beneficiary: Beneficiary = {
+    ...input,
+    nickname: input.nickname?.trim() || undefined,
+    id: "BEN" + Date.now().toString(36).toUpperCase() + Math.floor(Math.random() * 1000).toString().padStart(3, "0"),
+    createdAt: now,
+    updatedAt: now,
+  };
+  saveBeneficiaries([...loadBeneficiaries(), beneficiary]);
+  return beneficiary;
+}
+
+export async function updateBeneficiary(id: string, input: BeneficiaryInput): Promise<Beneficiary> {
+  const errors = validateBeneficiary(input);
+  if (errors.length > 0) {
+    throw new BeneficiaryValidationError(errors);
+  }
+
+  const beneficiaries = loadBeneficiaries();
+  const existing = beneficiaries.find((beneficiary) => beneficiary.id === id);
+  if (!existing) {
+    throw new Error("This beneficiary no longer exists.");
+  }
+
+  const updated: Beneficiary = {
+    ...input,
+    nickname: input.nickname?.trim() || undefined,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+    lastUsedAt: existing.lastUsedAt,
+  };
+  saveBeneficiaries(beneficiaries.map((beneficiary) => (beneficiary.id === id ? updated : beneficiary)));
+  return updated;
+}
+
+export async function deleteBeneficiary(id: string): Promise<void> {
+  saveBeneficiaries(loadBeneficiaries().filter((beneficiary) => beneficiary.id !== id));
+}
+
+// Function to record that a beneficiary was picked for a transfer, so it sorts first next time
+export async function markBeneficiaryUsed(id: string): Promise<void> {
+  const now = new Date().toISOString();
+  saveBeneficiaries(loadBeneficiaries().map((beneficiary) =>
+    beneficiary.id === id ? { ...beneficiary, lastUsedAt: now } : beneficiary,
+  ));
+}
@@ -0,0 +1,52 @@
+// Sends a batch of validated transfers, a few at a time, reporting the outcome of each one
+import { createTransfer, TransferData, TransferRecord } from "@/services/transferService";
+
+// Transfers sent at once; keeps large batches from flooding the backend
+const BULK_CONCURRENCY = 5;
+
+export interface BulkTransferItem {
+  // Identifies the item within its batch, e.g. the row of the uploaded file
+  id: string;
+  transferData: TransferData;
+}
+
+export type BulkTransferResult =
+  | { id: string; status: "sent"; transfer: TransferRecord }
+  | { id: string; status: "failed"; error: string }
+  // Handed off in a payment file instead, so never sent from here
+  | { id: string; status: "exported" };
+
+// Function to create a batch ID; items sent again under the same batch reuse their idempotency keys
+export function createBatchId(): string {
+  return "BATCH" + Date.now().toString(36).toUpperCase();
+}
+
+// Function to send a batch of transfers. Each item is keyed by batch and item ID, so retrying a
+// batch after a partial failure never pays an item twice. Items never reject: failures are results.
+export async function submitBulkTransfers(
+  batchId: string,
+  items: BulkTransferItem[],
+  onResult?: (result: BulkTransferResult) => void,
+): Promise<BulkTransferResult[]> {
+  const results: BulkTransferResult[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const { id, transferData } = items[index];
+      let result: BulkTransferResult;
+      try {
+        const transfer = await createTransfer({ ...transferData, idempotencyKey: `${batchId}:${id}` });
+        result = { id, status: "sent", transfer };
+      } catch (error) {
+        result = { id, status: "failed", error: error instanceof Error ? error.message : "The transfer couldn't be sent." };
+      }
+      results[index] = result;
+      onResult?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,102 @@
+// HTTP backend for the transfer REST API.
+//
+// Contract (all bodies are JSON, amounts are integer minor units):
+//   POST /transfers              body: TransferData        -> 201 TransferRecord
+//                                header Idempotency-Key    -> replays return the original TransferRecord
+//                                quoteId must be unexpired -> 422 { reason: "quote_expired" } otherwise
+//   GET  /transfers/:id                                    -> 200 TransferRecord
+//   GET  /transfers?search=&transferType=&currency=&status=&createdFrom=&createdTo=
+//                   &sortBy=&sortDirection=&cursor=&limit= -> 200 TransferPage
+//   PATCH /transfers/:id         body: TransferChanges     -> 200 TransferRecord, 409 if no longer scheduled
+//   POST /transfers/:id/cancel                             -> 200 TransferRecord, 409 if no longer cancellable
+//   POST /transfers/export       body: { transferIds }     -> 200 TransferRecord[], 409 if any is no longer
+//                                                             scheduled or pending approval; none are exported then
+// Errors respond with a non-2xx status and { reason?: TransferFailureReason, message: string }.
+import type { TransferBackend, TransferFailureReason, TransferRecord } from "@/services/transferBackend";
+import { TransferError } from "@/services/transferBackend";
+import { toSearchParams, TransferPage } from "@/services/transferQuery";
+
+const KNOWN_REASONS: TransferFailureReason[] = [
+  "validation",
+  "limit_exceeded",
+  "quote_expired",
+  "network",
+  "server",
+  "not_found",
+  "invalid_transition",
+];
+
+const STATUS_REASONS: Record<number, TransferFailureReason> = {
+  400: "validation",
+  404: "not_found",
+  409: "invalid_transition",
+  422: "validation",
+};
+
+// Map an error response to a typed failure, preferring the reason the server sent
+async function toTransferError(response: Response): Promise<TransferError> {
+  let body: { reason?: string; message?: string } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not a JSON error body
+  }
+
+  const reason = KNOWN_REASONS.find((known) => known === body.reason) ?? STATUS_REASONS[response.status] ?? "server";
+  return new TransferError(reason, body.message ?? `Request failed with status ${response.status}.`);
+}
+
+export function createHttpTransferBackend(baseUrl: string): TransferBackend {
+  const apiUrl = baseUrl.replace(/\/+$/, "");
+
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(apiUrl + path, {
+        ...init,
+        headers: { "Content-Type": "application/json", Accept: "application/json", ...init?.headers },
+      });
+    } catch {
+      throw new TransferError("network", "The transfer service could not be reached.");
+    }
+
+    if (!response.ok) {
+      throw await toTransferError(response);
+    }
+    return response.json();
+  }
+
+  return {
+    createTransfer(transferData) {
+      return request<TransferRecord>("/transfers", {
+        method: "POST",
+        headers: transferData.idempotencyKey ? { "Idempotency-Key": transferData.idempotencyKey } : undefined,
+        body: JSON.stringify(transferData),
+      });
+    },
+
+    getTransfer(transferId) {
+      return request<TransferRecord>(`/transfers/${encodeURIComponent(transferId)}`);
+    },
+
+    listTransfers(query) {
+      const params = toSearchParams(query).toString();
+      return request<TransferPage>(params ? `/transfers?${params}` : "/transfers");
+    },
+
+    updateTransfer(transferId, changes) {
+      return request<TransferRecord>(`/transfers/${encodeURIComponent(transferId)}`, {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+      });
+    },
+
+    cancelTransfer(transferId) {
+      return request<TransferRecord>(`/transfers/${encodeURIComponent(transferId)}/cancel`, { method: "POST" });
+    },
+
+    exportTransfers(transferIds) {
+      return request<TransferRecord[]>("/transfers/export", { method: "POST", body: JSON.stringify({ transferIds }) });
+    },
+  };
+}
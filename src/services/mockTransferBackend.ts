@@ -0,0 +1,292 @@
+// In-browser mock backend that remembers created transfers in localStorage
+import { fromIsoDate, toIsoDate } from "@/lib/businessDays";
+import { formatMoney } from "@/lib/money";
+import {
+  calculateQuote,
+  findIssuedQuote,
+  getAccountCurrency,
+  isQuoteExpired,
+  QuoteUnavailableError,
+} from "@/services/quoteService";
+import { TransferBackend, TransferError, TransferPricing, TransferRecord } from "@/services/transferBackend";
+import { queryTransfers } from "@/services/transferQuery";
+import {
+  assertEditable,
+  createLifecycle,
+  TransferStatus,
+  TransferStatusEvent,
+  transitionTransfer,
+} from "@/services/transferLifecycle";
+import type { TransferData } from "@/services/transferService";
+
+const STORAGE_KEY = "purple-bank:transfers";
+
+// Largest amount a single transfer may debit, in minor units of the account currency
+const TRANSFER_LIMIT = 5000000;
+// Transfers debiting more than this wait for a (simulated) second approver
+const APPROVAL_THRESHOLD = 1000000;
+
+// How long the simulated bank takes to move a transfer on from each in-flight status
+const SIMULATED_STEPS: Partial<Record<TransferStatus, { next: TransferStatus; afterMs: number }>> = {
+  pending_approval: { next: "submitted", afterMs: 20000 },
+  submitted: { next: "processing", afterMs: 5000 },
+  processing: { next: "completed", afterMs: 15000 },
+};
+
+function completedHistory(createdAt: string): TransferStatusEvent[] {
+  const at = (offsetMinutes: number) => new Date(new Date(createdAt).getTime() + offsetMinutes * 60000).toISOString();
+  return [
+    { status: "draft", at: at(0) },
+    { status: "submitted", at: at(0) },
+    { status: "processing", at: at(2) },
+    { status: "completed", at: at(45) },
+  ];
+}
+
+// Transfers shown in history the first time the mock is used, priced when the mock loads
+const SEED_TRANSFERS: TransferRecord[] = [
+  {
+    id: "TXN100001",
+    createdAt: "2025-03-28T09:15:00.000Z",
+    transferType: "domestic",
+    recipientName: "John Doe",
+    amount: 25000,
+    currency: "USD",
+    bankName: "Bank of America",
+    accountNumber: "****1234",
+    routingNumber: "026009593",
+    description: "Rent payment",
+    status: "completed",
+    statusHistory: completedHistory("2025-03-28T09:15:00.000Z"),
+  },
+  {
+    id: "TXN100002",
+    createdAt: "2025-04-02T14:40:00.000Z",
+    transferType: "international",
+    recipientName: "Jane Smith",
+    amount: 100000,
+    bankName: "HSBC",
+    iban: "GB29NWBK****1234",
+    swiftCode: "HSBCGB2L",
+    bankAddress: "8 Canada Square, London",
+    bankCountry: "United Kingdom",
+    currency: "GBP",
+    description: "Invoice payment",
+    status: "completed",
+    statusHistory: completedHistory("2025-04-02T14:40:00.000Z"),
+  },
+];
+SEED_TRANSFERS.forEach((transfer) => {
+  transfer.pricing = priceTransfer(transfer);
+});
+
+interface TransferStore {
+  load(): TransferRecord[];
+  save(transfers: TransferRecord[]): void;
+}
+
+// Falls back to memory when localStorage is unavailable, e.g. in private browsing or tests
+function createStore(): TransferStore {
+  let memory: TransferRecord[] = SEED_TRANSFERS;
+  return {
+    load() {
+      try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : SEED_TRANSFERS;
+      } catch {
+        return memory;
+      }
+    },
+    save(transfers) {
+      memory = transfers;
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(transfers));
+      } catch {
+        // Keep the in-memory copy only
+      }
+    },
+  };
+}
+
+// Function to price a transfer in the account currency, if the rate table covers its currency
+function priceTransfer(transferData: TransferData): TransferPricing | undefined {
+  const accountCurrency = getAccountCurrency();
+  try {
+    const { sourceCurrency, rate, sendAmount, fees, totalFee, totalDebit } = calculateQuote({
+      transferType: transferData.transferType,
+      sourceCurrency: accountCurrency,
+      targetCurrency: transferData.currency ?? accountCurrency,
+      amount: transferData.amount,
+      side: "receive",
+    });
+    return { sourceCurrency, rate, sendAmount, fees, totalFee, totalDebit };
+  } catch (error) {
+    if (error instanceof QuoteUnavailableError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// Function to price a transfer at the rate its quote guaranteed, rejecting quotes that weren't issued for it
+// or have expired. Transfers created without a quote, e.g. from a bulk file, are priced at today's rate.
+function priceQuotedTransfer(transferData: TransferData): TransferPricing | undefined {
+  if (!transferData.quoteId) {
+    return priceTransfer(transferData);
+  }
+  const quote = findIssuedQuote(transferData.quoteId);
+  if (!quote || isQuoteExpired(quote)) {
+    throw new TransferError("quote_expired", "The rate you were quoted is no longer guaranteed. Confirm the transfer at the new rate.");
+  }
+  if (quote.targetCurrency !== (transferData.currency ?? getAccountCurrency()) || quote.recipientAmount !== transferData.amount) {
+    throw new TransferError("validation", "The quote doesn't match the transfer's amount and currency.");
+  }
+  const { sourceCurrency, rate, sendAmount, fees, totalFee, totalDebit } = quote;
+  return { sourceCurrency, rate, sendAmount, fees, totalFee, totalDebit };
+}
+
+// Function to get the status a transfer is submitted with, once it is due to be sent
+function getSubmissionStatus(pricing: TransferPricing | undefined): TransferStatus {
+  return pricing && pricing.totalDebit > APPROVAL_THRESHOLD ? "pending_approval" : "submitted";
+}
+
+// Function to apply every simulated step that is due by `now`, backdating each to when it fell due.
+// Scheduled transfers are submitted at the start of their execution date.
+function advanceTransfer(transfer: TransferRecord, now: number): TransferRecord {
+  let current = transfer;
+  if (current.status === "scheduled") {
+    const dueAt = fromIsoDate(current.executionDate).getTime();
+    if (dueAt > now) {
+      return current;
+    }
+    current = transitionTransfer(current, getSubmissionStatus(current.pricing), new Date(dueAt).toISOString());
+  }
+
+  let step = SIMULATED_STEPS[current.status];
+  while (step) {
+    const dueAt = new Date(current.statusHistory[current.statusHistory.length - 1].at).getTime() + step.afterMs;
+    if (dueAt > now) {
+      break;
+    }
+    current = transitionTransfer(current, step.next, new Date(dueAt).toISOString());
+    step = SIMULATED_STEPS[current.status];
+  }
+  return current;
+}
+
+// Function to reject transfers debiting more than the per-transfer limit
+function checkTransferLimit(pricing: TransferPricing | undefined) {
+  if (pricing && pricing.totalDebit > TRANSFER_LIMIT) {
+    throw new TransferError(
+      "limit_exceeded",
+      `Transfers are limited to ${formatMoney(TRANSFER_LIMIT, getAccountCurrency())} each.`,
+    );
+  }
+}
+
+function delay<T>(ms: number, action: () => T): Promise<T> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        resolve(action());
+      } catch (error) {
+        reject(error);
+      }
+    }, ms);
+  });
+}
+
+export function createMockTransferBackend(store: TransferStore = createStore()): TransferBackend {
+  // Loads every transfer with its simulated progress applied
+  const loadTransfers = () => {
+    const now = Date.now();
+    const transfers = store.load();
+    const advanced = transfers.map((transfer) => advanceTransfer(transfer, now));
+    if (advanced.some((transfer, index) => transfer !== transfers[index])) {
+      store.save(advanced);
+    }
+    return advanced;
+  };
+
+  const findTransfer = (transferId: string) => {
+    const transfer = loadTransfers().find((record) => record.id === transferId);
+    if (!transfer) {
+      throw new TransferError("not_found", `Transfer ${transferId} was not found.`);
+    }
+    return transfer;
+  };
+
+  return {
+    createTransfer(transferData) {
+      return delay(1500, () => {
+        // Replaying a key returns the transfer it already created
+        const existing = transferData.idempotencyKey
+          && loadTransfers().find((record) => record.idempotencyKey === transferData.idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+
+        const pricing = priceQuotedTransfer(transferData);
+        checkTransferLimit(pricing);
+
+        // Generate a mock transaction ID
+        const transactionId = "TXN" + Math.floor(Math.random() * 1000000).toString().padStart(6, "0");
+        const createdAt = new Date().toISOString();
+        const draft: TransferRecord = {
+          ...transferData,
+          id: transactionId,
+          createdAt,
+          pricing,
+          ...createLifecycle(createdAt),
+        };
+        const isScheduled = !!transferData.executionDate && transferData.executionDate > toIsoDate(new Date());
+        const record = transitionTransfer(draft, isScheduled ? "scheduled" : getSubmissionStatus(pricing), createdAt);
+        store.save([record, ...loadTransfers()]);
+
+        return record;
+      });
+    },
+
+    getTransfer(transferId) {
+      return delay(300, () => findTransfer(transferId));
+    },
+
+    listTransfers(query) {
+      return delay(600, () => queryTransfers(loadTransfers(), query));
+    },
+
+    updateTransfer(transferId, changes) {
+      return delay(1000, () => {
+        const transfer = findTransfer(transferId);
+        assertEditable(transfer);
+
+        const changed = { ...transfer, ...changes };
+        const pricing = priceTransfer(changed);
+        checkTransferLimit(pricing);
+        // A date moved to today is sent straight away
+        const updated = changed.executionDate > toIsoDate(new Date())
+          ? { ...changed, pricing }
+          : transitionTransfer({ ...changed, pricing }, getSubmissionStatus(pricing));
+        store.save(loadTransfers().map((record) => (record.id === transferId ? updated : record)));
+        return updated;
+      });
+    },
+
+    cancelTransfer(transferId) {
+      return delay(1000, () => {
+        const cancelled = transitionTransfer(findTransfer(transferId), "cancelled");
+        store.save(loadTransfers().map((record) => (record.id === transferId ? cancelled : record)));
+        return cancelled;
+      });
+    },
+
+    exportTransfers(transferIds) {
+      return delay(1000, () => {
+        // Every transfer is checked before any is saved, so a rejected one leaves the rest unexported
+        const exported = new Map(transferIds.map((id) => [id, transitionTransfer(findTransfer(id), "exported")]));
+        store.save(loadTransfers().map((record) => exported.get(record.id) ?? record));
+        return [...exported.values()];
+      });
+    },
+  };
+}
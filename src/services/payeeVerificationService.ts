@@ -0,0 +1,55 @@
+// Confirmation of payee: checks the recipient name against the name registered for the account
+// before money is sent. The local verifier stands in for the banks' name-checking service.
+import { ACCOUNT_HOLDERS } from "@/data/accountHolders";
+import { getAccountKey } from "@/lib/accountFormats";
+import { compareNames } from "@/lib/nameMatching";
+import { getRecipientAccount, RecipientDetails } from "@/services/transferService";
+
+export type PayeeVerificationResult =
+  | { status: "match" }
+  // The registered name is only revealed when it is close to what the customer typed
+  | { status: "close_match"; suggestedName: string }
+  | { status: "no_match" }
+  // The recipient's bank does not take part in the scheme or could not be reached
+  | { status: "unavailable"; message: string };
+
+export type PayeeVerificationStatus = PayeeVerificationResult["status"];
+
+export interface PayeeVerifier {
+  verify(details: RecipientDetails): Promise<PayeeVerificationResult>;
+}
+
+// Function to create a verifier that checks names against a local table of account holders
+export function createLocalPayeeVerifier(accountHolders: Record<string, string> = ACCOUNT_HOLDERS): PayeeVerifier {
+  return {
+    verify(details) {
+      return new Promise((resolve) => {
+        setTimeout(() => {
+          const registeredName = accountHolders[getAccountKey(getRecipientAccount(details))];
+          if (!registeredName) {
+            resolve({
+              status: "unavailable",
+              message: "The recipient's bank didn't confirm the account name. Check the details with the recipient.",
+            });
+            return;
+          }
+
+          const result = compareNames(details.recipientName, registeredName);
+          resolve(result === "close_match" ? { status: result, suggestedName: registeredName } : { status: result });
+        }, 600);
+      });
+    },
+  };
+}
+
+let activeVerifier: PayeeVerifier = createLocalPayeeVerifier();
+
+// Function to swap the verifier, e.g. for a bank's confirmation-of-payee API
+export function setPayeeVerifier(verifier: PayeeVerifier): void {
+  activeVerifier = verifier;
+}
+
+// Function to check a recipient's name against the name registered for their account
+export async function verifyPayee(details: RecipientDetails): Promise<PayeeVerificationResult> {
+  return activeVerifier.verify(details);
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  calculateQuote,
+  findIssuedQuote,
+  getQuotableCurrencies,
+  getQuote,
+  isQuotableCurrency,
+  isQuoteExpired,
+  QuoteUnavailableError,
+} from "@/services/quoteService";
+import { internationalFormSchema } from "@/lib/transferSchemas";
+
+describe("quotable currencies", () => {
+  it("only offers currencies in the rate table", () => {
+    expect(isQuotableCurrency("EUR")).toBe(true);
+    expect(isQuotableCurrency("ISK")).toBe(false);
+    const codes = getQuotableCurrencies().map((currency) => currency.code);
+    expect(codes).toContain("USD");
+    expect(codes).not.toContain("ISK");
+  });
+
+  it("can't price transfers in other currencies", () => {
+    const request = { transferType: "international" as const, sourceCurrency: "USD", targetCurrency: "ISK", amount: 10000, side: "send" as const };
+    expect(() => calculateQuote(request)).toThrow(QuoteUnavailableError);
+  });
+
+  it("rejects unquotable currencies on the transfer form", () => {
+    const result = internationalFormSchema.safeParse({ currency: "ISK" });
+    expect(result.success).toBe(false);
+    const issue = result.error.issues.find((candidate) => candidate.path[0] === "currency");
+    expect(issue?.message).toBe("Transfers in ISK aren't available yet.");
+  });
+});
+
+describe("calculateQuote", () => {
+  it("converts the send amount at the rate less margin and adds fees", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    const quote = calculateQuote(
+      { transferType: "international", sourceCurrency: "USD", targetCurrency: "EUR", amount: 100000, side: "send" },
+      now,
+    );
+    expect(quote.sendAmount).toBe(100000);
+    expect(quote.recipientAmount).toBe(Math.floor(100000 * 0.9215 * 0.995));
+    expect(quote.fees).toEqual([
+      { label: "Transfer fee", amount: 500 },
+      { label: "Conversion fee", amount: 250 },
+    ]);
+    expect(quote.totalDebit).toBe(100750);
+    expect(quote.expiresAt).toBe("2026-10-19T12:01:00.000Z");
+  });
+});
+
+describe("getQuote", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("remembers the quotes it issues until they expire", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T12:00:00Z") });
+    const pending = getQuote({ transferType: "domestic", sourceCurrency: "USD", targetCurrency: "USD", amount: 2500, side: "receive" });
+    await vi.advanceTimersByTimeAsync(500);
+    const quote = await pending;
+
+    expect(findIssuedQuote(quote.id)).toEqual(quote);
+    expect(findIssuedQuote("QTE000000")).toBeUndefined();
+    expect(isQuoteExpired(quote, Date.parse("2026-10-19T12:01:00Z"))).toBe(false);
+    expect(isQuoteExpired(quote, Date.parse("2026-10-19T12:01:00.500Z"))).toBe(true);
+  });
+});
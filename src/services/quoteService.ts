@@ -0,0 +1,148 @@
+// FX quotes for transfers, priced from the local rate table in src/data/fxRates.ts
+import { FX_RATE_TABLE, FxRateTable } from "@/data/fxRates";
+import { Currency, CURRENCIES, getCurrency } from "@/lib/currencies";
+
+export interface QuoteRequest {
+  transferType: "domestic" | "international";
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Amount in minor units of the source currency when side is "send", of the target currency when "receive"
+  amount: number;
+  side: "send" | "receive";
+}
+
+export interface QuoteFee {
+  label: string;
+  // Minor units of the source currency
+  amount: number;
+}
+
+export interface TransferQuote {
+  id: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  // Units of target currency per unit of source currency, including margin
+  rate: number;
+  midRate: number;
+  // Amount converted, in minor units of the source currency
+  sendAmount: number;
+  fees: QuoteFee[];
+  totalFee: number;
+  // What leaves the customer's account, in minor units of the source currency
+  totalDebit: number;
+  // What the recipient gets, in minor units of the target currency
+  recipientAmount: number;
+  createdAt: string;
+  // The rate is guaranteed until this time, after which a new quote is needed
+  expiresAt: string;
+}
+
+export class QuoteUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteUnavailableError";
+  }
+}
+
+// Function to get the rate table quotes and rate history are priced from; nothing else reads FX_RATE_TABLE
+export function getRateTable(): FxRateTable {
+  return FX_RATE_TABLE;
+}
+
+export function getAccountCurrency(): string {
+  return getRateTable().accountCurrency;
+}
+
+// Function to check whether the rate table can price transfers in a currency
+export function isQuotableCurrency(code: string): boolean {
+  return Boolean(getRateTable().rates[code]);
+}
+
+// Function to list the currencies transfers can be made in, for currency pickers
+export function getQuotableCurrencies(): Currency[] {
+  return CURRENCIES.filter((currency) => isQuotableCurrency(currency.code));
+}
+
+const minorUnitFactor = (currencyCode: string) => 10 ** (getCurrency(currencyCode)?.minorUnits ?? 2);
+
+function getMidRate(sourceCurrency: string, targetCurrency: string): number {
+  const { rates } = getRateTable();
+  const sourceRate = rates[sourceCurrency];
+  const targetRate = rates[targetCurrency];
+  if (!sourceRate || !targetRate) {
+    const missing = sourceRate ? targetCurrency : sourceCurrency;
+    throw new QuoteUnavailableError(`No exchange rate is available for ${missing}.`);
+  }
+  return targetRate / sourceRate;
+}
+
+// Function to price a transfer synchronously; getQuote wraps it in the provider's async API
+export function calculateQuote(request: QuoteRequest, now = new Date()): TransferQuote {
+  const { sourceCurrency, targetCurrency } = request;
+  const rateTable = getRateTable();
+  const sameCurrency = sourceCurrency === targetCurrency;
+  const midRate = sameCurrency ? 1 : getMidRate(sourceCurrency, targetCurrency);
+  const rate = sameCurrency ? 1 : midRate * (1 - rateTable.marginPercent / 100);
+
+  // Convert between minor units of the two currencies through their major unit amounts
+  const conversion = (rate * minorUnitFactor(targetCurrency)) / minorUnitFactor(sourceCurrency);
+  const sendAmount = request.side === "send" ? request.amount : Math.ceil(request.amount / conversion);
+  const recipientAmount = request.side === "receive" ? request.amount : Math.floor(request.amount * conversion);
+
+  const feeRule = rateTable.fees[request.transferType];
+  const fees: QuoteFee[] = [];
+  if (feeRule.fixed > 0) {
+    fees.push({ label: "Transfer fee", amount: feeRule.fixed });
+  }
+  if (feeRule.percent > 0 && !sameCurrency) {
+    fees.push({ label: "Conversion fee", amount: Math.round((sendAmount * feeRule.percent) / 100) });
+  }
+  const totalFee = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+  return {
+    id: "QTE" + Math.floor(Math.random() * 1000000).toString().padStart(6, "0"),
+    sourceCurrency,
+    targetCurrency,
+    rate,
+    midRate,
+    sendAmount,
+    fees,
+    totalFee,
+    totalDebit: sendAmount + totalFee,
+    recipientAmount,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + rateTable.lockSeconds * 1000).toISOString(),
+  };
+}
+
+export function isQuoteExpired(quote: TransferQuote, now = Date.now()): boolean {
+  return new Date(quote.expiresAt).getTime() <= now;
+}
+
+// Quotes handed out by getQuote, so a transfer can only be created at a rate that was actually offered
+const issuedQuotes = new Map<string, TransferQuote>();
+
+// Function to simulate API call for getting a guaranteed-rate quote
+export async function getQuote(request: QuoteRequest): Promise<TransferQuote> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        const quote = calculateQuote(request);
+        issuedQuotes.forEach((issued, id) => {
+          if (isQuoteExpired(issued)) {
+            issuedQuotes.delete(id);
+          }
+        });
+        issuedQuotes.set(quote.id, quote);
+        resolve(quote);
+      } catch (error) {
+        reject(error);
+      }
+    }, 500);
+  });
+}
+
+// Function to look up a quote issued by getQuote; expired quotes may already have been forgotten
+export function findIssuedQuote(quoteId: string): TransferQuote | undefined {
+  return issuedQuotes.get(quoteId);
+}
@@ -0,0 +1,64 @@
+// Historical exchange rates for a currency pair, read from the local dataset in src/data/fxHistory.ts
+import { format, subDays } from "date-fns";
+import { getDailyRates, MAX_HISTORY_DAYS } from "@/data/fxHistory";
+
+export type RateHistoryRange = 7 | 30 | 90;
+
+export interface RatePoint {
+  // ISO date, e.g. "2024-05-01"
+  date: string;
+  // Units of target currency per unit of source currency
+  rate: number;
+}
+
+export interface RateHistory {
+  sourceCurrency: string;
+  targetCurrency: string;
+  points: RatePoint[];
+  min: RatePoint;
+  max: RatePoint;
+  average: number;
+}
+
+// Function to build a pair's history and its min, max and average over the range
+export function calculateRateHistory(
+  sourceCurrency: string,
+  targetCurrency: string,
+  days: RateHistoryRange,
+  today = new Date(),
+): RateHistory {
+  const sourceRates = getDailyRates(sourceCurrency);
+  const targetRates = getDailyRates(targetCurrency);
+  if (!sourceRates || !targetRates) {
+    throw new Error(`No rate history is available for ${sourceCurrency}/${targetCurrency}.`);
+  }
+
+  const count = Math.min(days, MAX_HISTORY_DAYS);
+  const points = targetRates.slice(-count).map((targetRate, index) => ({
+    date: format(subDays(today, count - 1 - index), "yyyy-MM-dd"),
+    rate: targetRate / sourceRates[sourceRates.length - count + index],
+  }));
+
+  const min = points.reduce((lowest, point) => (point.rate < lowest.rate ? point : lowest));
+  const max = points.reduce((highest, point) => (point.rate > highest.rate ? point : highest));
+  const average = points.reduce((sum, point) => sum + point.rate, 0) / points.length;
+
+  return { sourceCurrency, targetCurrency, points, min, max, average };
+}
+
+// Function to simulate API call for getting a currency pair's rate history
+export async function getRateHistory(
+  sourceCurrency: string,
+  targetCurrency: string,
+  days: RateHistoryRange,
+): Promise<RateHistory> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        resolve(calculateRateHistory(sourceCurrency, targetCurrency, days));
+      } catch (error) {
+        reject(error);
+      }
+    }, 300);
+  });
+}
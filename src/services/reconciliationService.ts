@@ -0,0 +1,96 @@
+// Imported bank statements and the user's reconciliation decisions, persisted in localStorage on this device.
+// Entries are matched against the whole transfer history each time the reconciliation is loaded.
+import { reconcile, ReconciliationResolution, ReconciliationResult } from "@/lib/reconciliation";
+import { BankStatement, parseStatementFile } from "@/lib/statements";
+import { getTransferHistory, TransferRecord } from "@/services/transferService";
+
+const STORAGE_KEY = "purple-bank:reconciliation";
+
+export interface ImportedStatement extends BankStatement {
+  fileName: string;
+  importedAt: string;
+}
+
+interface ReconciliationState {
+  statements: ImportedStatement[];
+  resolutions: ReconciliationResolution[];
+}
+
+export interface Reconciliation extends ReconciliationResult {
+  statements: ImportedStatement[];
+  // The transfer history the entries were matched against
+  transfers: TransferRecord[];
+}
+
+function loadState(): ReconciliationState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { statements: [], resolutions: [] };
+  } catch {
+    return { statements: [], resolutions: [] };
+  }
+}
+
+function saveState(state: ReconciliationState): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+const isSameStatement = (a: BankStatement, b: BankStatement) => a.key === b.key;
+
+// Function to get the imported statements matched against the transfer history
+export async function getReconciliation(): Promise<Reconciliation> {
+  const { statements, resolutions } = loadState();
+  const transfers = statements.length > 0 ? await getTransferHistory() : [];
+  const entries = statements.flatMap((statement) => statement.entries);
+  return { statements, transfers, ...reconcile(entries, transfers, resolutions) };
+}
+
+// Function to import a CAMT.053 or MT940 file; statements imported before are replaced by the new copy.
+// Throws StatementError when the file can't be read.
+export async function importStatementFile(file: File): Promise<ImportedStatement[]> {
+  const importedAt = new Date().toISOString();
+  const imported = parseStatementFile(await file.text()).map((statement) => ({ ...statement, fileName: file.name, importedAt }));
+  const state = loadState();
+  saveState({
+    ...state,
+    statements: [
+      ...state.statements.filter((existing) => !imported.some((statement) => isSameStatement(existing, statement))),
+      ...imported,
+    ],
+  });
+  return imported;
+}
+
+// Function to remove an imported statement along with the decisions about its entries
+export async function removeStatement(statement: BankStatement): Promise<void> {
+  const state = loadState();
+  const entryIds = new Set(statement.entries.map((entry) => entry.id));
+  saveState({
+    statements: state.statements.filter((existing) => !isSameStatement(existing, statement)),
+    resolutions: state.resolutions.filter((resolution) => !entryIds.has(resolution.entryId)),
+  });
+}
+
+// Function to link an entry to a transfer by hand
+export async function linkEntry(entryId: string, transferId: string): Promise<void> {
+  saveResolution({ entryId, kind: "linked", transferId, resolvedAt: new Date().toISOString() });
+}
+
+// Function to set an entry aside as not being one of our transfers, e.g. a bank fee or incoming payment
+export async function ignoreEntry(entryId: string, note?: string): Promise<void> {
+  saveResolution({ entryId, kind: "ignored", note: note?.trim() || undefined, resolvedAt: new Date().toISOString() });
+}
+
+// Function to undo a decision, so the entry is matched automatically again
+export async function clearResolution(entryId: string): Promise<void> {
+  const state = loadState();
+  saveState({ ...state, resolutions: state.resolutions.filter((resolution) => resolution.entryId !== entryId) });
+}
+
+function saveResolution(resolution: ReconciliationResolution): void {
+  const state = loadState();
+  saveState({
+    ...state,
+    resolutions: [...state.resolutions.filter((existing) => existing.entryId !== resolution.entryId), resolution],
+  });
+}
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createRecurringTransfer,
+  getRecurringTransfers,
+  pauseRecurringTransfer,
+  RecurringTransferData,
+  resumeRecurringTransfer,
+  skipNextOccurrence,
+} from "@/services/recurringTransferService";
+import { getTransferHistory } from "@/services/transferService";
+
+const rent: RecurringTransferData = {
+  transferType: "domestic",
+  recipientName: "Jane Smith",
+  amount: 150000,
+  currency: "USD",
+  bankName: "Bank of America",
+  accountNumber: "12345678",
+  routingNumber: "026009593",
+  description: "Rent",
+};
+
+// Runs a service call to completion through the mock backend's simulated delays
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+const scheduledTransfers = async () =>
+  (await settle(getTransferHistory({ status: "scheduled" })))
+    .map((transfer) => transfer.executionDate)
+    .sort();
+
+describe("recurring transfers", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ now: new Date(2026, 9, 19, 10) });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("books each occurrence as a transfer scheduled for its execution date", async () => {
+    const recurring = await settle(createRecurringTransfer({
+      transferData: rent,
+      rule: { frequency: "monthly", interval: 1, monthDay: 1, startDate: "2026-11-01", count: 3 },
+    }));
+
+    // November 1 is a Sunday, so the first transfer moves to Monday
+    expect(recurring.booked.map((occurrence) => occurrence.executionDate)).toEqual(["2026-11-02", "2026-12-01", "2027-01-04"]);
+    expect(recurring.booked.every((occurrence) => occurrence.transferId)).toBe(true);
+    expect(await scheduledTransfers()).toEqual(["2026-11-02", "2026-12-01", "2027-01-04"]);
+  });
+
+  it("doesn't book or send anything when the list is loaded", async () => {
+    await settle(createRecurringTransfer({
+      transferData: rent,
+      rule: { frequency: "weekly", interval: 1, startDate: "2026-10-19", count: 2 },
+    }));
+    const before = await settle(getTransferHistory());
+
+    vi.setSystemTime(new Date(2026, 9, 27, 10));
+    await settle(getRecurringTransfers());
+    expect(await settle(getTransferHistory())).toHaveLength(before.length);
+  });
+
+  it("cancels booked transfers on pause and skip, and books them again on resume", async () => {
+    const recurring = await settle(createRecurringTransfer({
+      transferData: rent,
+      rule: { frequency: "monthly", interval: 1, monthDay: 15, startDate: "2026-11-15", count: 3 },
+    }));
+    expect(await scheduledTransfers()).toEqual(["2026-11-16", "2026-12-15", "2027-01-15"]);
+
+    await settle(pauseRecurringTransfer(recurring.id));
+    expect(await scheduledTransfers()).toEqual([]);
+
+    const resumed = await settle(resumeRecurringTransfer(recurring.id));
+    expect(resumed.booked.map((occurrence) => occurrence.transferId)).not.toContain(recurring.booked[0].transferId);
+    expect(await scheduledTransfers()).toEqual(["2026-11-16", "2026-12-15", "2027-01-15"]);
+
+    await settle(skipNextOccurrence(recurring.id));
+    expect(await scheduledTransfers()).toEqual(["2026-12-15", "2027-01-15"]);
+  });
+});
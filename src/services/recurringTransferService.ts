@@ -0,0 +1,307 @@
+// Recurring transfers (standing orders), persisted in localStorage on this device. Whenever a schedule is
+// saved, its occurrences up to MAX_SCHEDULE_DAYS ahead are booked as scheduled transfers through
+// transferService, and the backend sends each one on its execution date.
+import { addDays } from "date-fns";
+import { MAX_SCHEDULE_DAYS, toIsoDate } from "@/lib/businessDays";
+import { getOccurrences, Occurrence, RecurrenceRule, RecurrenceRuleError, validateRecurrenceRule } from "@/lib/recurrence";
+import {
+  cancelTransfer,
+  createTransfer,
+  getSettlementCurrencies,
+  TransferData,
+  TransferError,
+  TransferValidationError,
+  validateTransferData,
+} from "@/services/transferService";
+
+const STORAGE_KEY = "purple-bank:recurring-transfers";
+
+// The payment repeated by a recurring transfer; dates and keys are set per occurrence
+export type RecurringTransferData = Omit<TransferData, "executionDate" | "idempotencyKey" | "quoteId">;
+
+export type RecurringTransferStatus = "active" | "paused" | "ended";
+
+// Occurrence booked with the backend: the scheduled transfer created for it, or why the transfer was rejected
+export interface BookedOccurrence extends Occurrence {
+  transferId?: string;
+  error?: string;
+}
+
+export interface RecurringTransfer {
+  id: string;
+  transferData: RecurringTransferData;
+  rule: RecurrenceRule;
+  // Paused schedules have no transfers booked until resumed; occurrences that fall due meanwhile are not sent
+  paused: boolean;
+  // Indexes of occurrences that will not be sent
+  skipped: number[];
+  // Occurrences booked under the current rule, oldest first; those up to today have been sent
+  booked: BookedOccurrence[];
+  // Bumped whenever booked transfers are cancelled, so occurrences booked again get new idempotency keys
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurringTransferInput {
+  transferData: RecurringTransferData;
+  rule: RecurrenceRule;
+}
+
+// Occurrence in the upcoming schedule of a recurring transfer
+export interface UpcomingOccurrence extends Occurrence {
+  skipped: boolean;
+}
+
+export class RecurringTransferValidationError extends Error {
+  errors: (TransferValidationError | RecurrenceRuleError)[];
+
+  constructor(errors: (TransferValidationError | RecurrenceRuleError)[]) {
+    super(errors.map((error) => error.message).join(" "));
+    this.name = "RecurringTransferValidationError";
+    this.errors = errors;
+  }
+}
+
+function loadRecurringTransfers(): RecurringTransfer[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecurringTransfers(recurringTransfers: RecurringTransfer[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recurringTransfers));
+}
+
+function findRecurringTransfer(id: string): RecurringTransfer {
+  const recurring = loadRecurringTransfers().find((item) => item.id === id);
+  if (!recurring) {
+    throw new Error("This recurring transfer no longer exists.");
+  }
+  return recurring;
+}
+
+function replaceRecurringTransfer(updated: RecurringTransfer): RecurringTransfer {
+  saveRecurringTransfers(loadRecurringTransfers().map((item) => (item.id === updated.id ? updated : item)));
+  return updated;
+}
+
+// Function to validate the payment and schedule of a recurring transfer. New schedules can't start in
+// the past, or on or before the last occurrence already sent, so no occurrence is sent twice.
+export function validateRecurringTransfer(
+  input: RecurringTransferInput,
+  lastExecutionDate?: string,
+): (TransferValidationError | RecurrenceRuleError)[] {
+  const errors: (TransferValidationError | RecurrenceRuleError)[] = [
+    ...validateTransferData(input.transferData),
+    ...validateRecurrenceRule(input.rule),
+  ];
+  if (input.rule.startDate < toIsoDate(new Date())) {
+    errors.push({ field: "startDate", message: "The schedule can't start in the past." });
+  } else if (lastExecutionDate && input.rule.startDate <= lastExecutionDate) {
+    errors.push({ field: "startDate", message: "The new schedule must start after the last transfer sent." });
+  }
+  return errors;
+}
+
+// Function to list the booked occurrences that have been sent, i.e. whose execution date has come
+export function getSentOccurrences(recurring: RecurringTransfer): BookedOccurrence[] {
+  const today = toIsoDate(new Date());
+  return recurring.booked.filter((occurrence) => occurrence.executionDate <= today);
+}
+
+// Function to list the next occurrences of a recurring transfer that haven't been sent, including skipped ones
+export function getUpcomingOccurrences(recurring: RecurringTransfer, limit = 12): UpcomingOccurrence[] {
+  const sent = new Set(getSentOccurrences(recurring).map((occurrence) => occurrence.index));
+  return getOccurrences(recurring.rule, getSettlementCurrencies(recurring.transferData), {
+    from: toIsoDate(new Date()),
+    // Occurrences sent earlier today are still in range
+    limit: limit + sent.size,
+  })
+    .filter((occurrence) => !sent.has(occurrence.index))
+    .slice(0, limit)
+    .map((occurrence) => ({ ...occurrence, skipped: recurring.skipped.includes(occurrence.index) }));
+}
+
+// Function to get the next occurrence that will be sent, if the schedule hasn't ended
+export function getNextOccurrence(recurring: RecurringTransfer): Occurrence | undefined {
+  return getUpcomingOccurrences(recurring, recurring.skipped.length + 1).find((occurrence) => !occurrence.skipped);
+}
+
+export function getRecurringTransferStatus(recurring: RecurringTransfer): RecurringTransferStatus {
+  if (!getNextOccurrence(recurring)) {
+    return "ended";
+  }
+  return recurring.paused ? "paused" : "active";
+}
+
+// Function to list the occurrences up to MAX_SCHEDULE_DAYS ahead that should be booked but aren't yet,
+// e.g. because the window has moved on since the schedule was saved or the bank couldn't be reached
+export function getUnbookedOccurrences(recurring: RecurringTransfer): Occurrence[] {
+  if (recurring.paused) {
+    return [];
+  }
+  const booked = new Set(recurring.booked.map((occurrence) => occurrence.index));
+  return getOccurrences(recurring.rule, getSettlementCurrencies(recurring.transferData), {
+    from: toIsoDate(new Date()),
+    to: toIsoDate(addDays(new Date(), MAX_SCHEDULE_DAYS)),
+    limit: Number.MAX_SAFE_INTEGER,
+  }).filter((occurrence) => !booked.has(occurrence.index) && !recurring.skipped.includes(occurrence.index));
+}
+
+// Function to book unbooked occurrences as transfers scheduled for their execution dates. The key of each
+// transfer is derived from its schedule position, so booking twice, or on two tabs, never books an
+// occurrence twice. Occurrences the bank couldn't be reached for stay unbooked, to be booked again later.
+async function bookOccurrences(recurring: RecurringTransfer): Promise<RecurringTransfer> {
+  const results = await Promise.all(
+    getUnbookedOccurrences(recurring).map(async (occurrence): Promise<BookedOccurrence | undefined> => {
+      try {
+        const transfer = await createTransfer({
+          ...recurring.transferData,
+          executionDate: occurrence.executionDate,
+          idempotencyKey: `${recurring.id}:${recurring.revision}:${occurrence.index}`,
+        });
+        return { ...occurrence, transferId: transfer.id };
+      } catch (error) {
+        // Rejected transfers are recorded; network and server errors leave the occurrence unbooked
+        if (!(error instanceof TransferError) || error.reason === "network" || error.reason === "server") {
+          return undefined;
+        }
+        return { ...occurrence, error: error.message };
+      }
+    }),
+  );
+  const booked = results.filter((occurrence) => occurrence !== undefined);
+  if (booked.length === 0) {
+    return recurring;
+  }
+  return replaceRecurringTransfer({
+    ...recurring,
+    booked: [...recurring.booked, ...booked].sort((a, b) => a.index - b.index),
+  });
+}
+
+// Function to cancel the booked transfers of occurrences that haven't been sent yet, leaving the ones
+// `keep` returns true for. Transfers that were already cancelled, e.g. from their detail page, are dropped too.
+async function cancelBookedOccurrences(
+  recurring: RecurringTransfer,
+  keep: (occurrence: BookedOccurrence) => boolean = () => false,
+): Promise<BookedOccurrence[]> {
+  const today = toIsoDate(new Date());
+  const remaining: BookedOccurrence[] = [];
+  for (const occurrence of recurring.booked) {
+    if (occurrence.executionDate <= today || keep(occurrence)) {
+      remaining.push(occurrence);
+      continue;
+    }
+    if (occurrence.transferId) {
+      try {
+        await cancelTransfer(occurrence.transferId);
+      } catch (error) {
+        if (!(error instanceof TransferError) || error.reason !== "invalid_transition") {
+          throw error;
+        }
+      }
+    }
+  }
+  return remaining;
+}
+
+// Function to list recurring transfers, newest first. Listing never books or sends anything.
+export async function getRecurringTransfers(): Promise<RecurringTransfer[]> {
+  return loadRecurringTransfers().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createRecurringTransfer(input: RecurringTransferInput): Promise<RecurringTransfer> {
+  const errors = validateRecurringTransfer(input);
+  if (errors.length > 0) {
+    throw new RecurringTransferValidationError(errors);
+  }
+
+  const now = new Date().toISOString();
+  const recurring: RecurringTransfer = {
+    ...input,
+    id: "REC" + Date.now().toString(36).toUpperCase() + Math.floor(Math.random() * 1000).toString().padStart(3, "0"),
+    paused: false,
+    skipped: [],
+    booked: [],
+    revision: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  saveRecurringTransfers([...loadRecurringTransfers(), recurring]);
+  return bookOccurrences(recurring);
+}
+
+// Function to change the payment or schedule of future occurrences. Transfers booked for occurrences that
+// haven't been sent are cancelled and booked again with the new details. A changed schedule starts afresh
+// from its start date, so skipped occurrences and any count apply to the new schedule only.
+export async function updateRecurringTransfer(id: string, input: RecurringTransferInput): Promise<RecurringTransfer> {
+  const existing = findRecurringTransfer(id);
+  const ruleChanged = JSON.stringify(existing.rule) !== JSON.stringify(input.rule);
+  const sent = getSentOccurrences(existing);
+  const errors = ruleChanged
+    ? validateRecurringTransfer(input, sent[sent.length - 1]?.executionDate)
+    : validateTransferData(input.transferData);
+  if (errors.length > 0) {
+    throw new RecurringTransferValidationError(errors);
+  }
+
+  const booked = await cancelBookedOccurrences(existing);
+  return bookOccurrences(replaceRecurringTransfer({
+    ...existing,
+    ...input,
+    skipped: ruleChanged ? [] : existing.skipped,
+    booked: ruleChanged ? [] : booked,
+    revision: existing.revision + 1,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+// Function to pause a schedule, cancelling the transfers booked for occurrences that haven't been sent
+export async function pauseRecurringTransfer(id: string): Promise<RecurringTransfer> {
+  const recurring = findRecurringTransfer(id);
+  const booked = await cancelBookedOccurrences(recurring);
+  return replaceRecurringTransfer({
+    ...recurring,
+    paused: true,
+    booked,
+    revision: recurring.revision + 1,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Function to resume a paused schedule, booking its occurrences again from today; occurrences that fell
+// due while it was paused are not sent
+export async function resumeRecurringTransfer(id: string): Promise<RecurringTransfer> {
+  return bookOccurrences(replaceRecurringTransfer({
+    ...findRecurringTransfer(id),
+    paused: false,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+// Function to book the occurrences that have come within MAX_SCHEDULE_DAYS since the schedule was saved,
+// or that couldn't be booked then
+export async function bookRecurringTransfer(id: string): Promise<RecurringTransfer> {
+  return bookOccurrences(findRecurringTransfer(id));
+}
+
+// Function to skip the next occurrence that would be sent, cancelling its transfer if it was booked
+export async function skipNextOccurrence(id: string): Promise<RecurringTransfer> {
+  const recurring = findRecurringTransfer(id);
+  const next = getNextOccurrence(recurring);
+  if (!next) {
+    throw new Error("This recurring transfer has no more transfers to skip.");
+  }
+  const booked = await cancelBookedOccurrences(recurring, (occurrence) => occurrence.index !== next.index);
+  return replaceRecurringTransfer({
+    ...recurring,
+    skipped: [...recurring.skipped, next.index],
+    booked,
+    updatedAt: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,87 @@
+// Backend adapters for transfers, selected at startup from Vite env variables:
+//   VITE_TRANSFER_BACKEND = "mock" (default) | "http"
+//   VITE_TRANSFER_API_URL = base URL of the REST API, required for "http"
+import type { TransferData } from "@/services/transferService";
+import type { TransferLifecycle } from "@/services/transferLifecycle";
+import type { TransferListQuery, TransferPage } from "@/services/transferQuery";
+import type { TransferQuote } from "@/services/quoteService";
+import { createHttpTransferBackend } from "@/services/httpTransferBackend";
+import { createMockTransferBackend } from "@/services/mockTransferBackend";
+
+// How the backend priced a transfer: the rate, the fees and what it debited, in the account currency
+export type TransferPricing = Pick<TransferQuote, "sourceCurrency" | "rate" | "sendAmount" | "fees" | "totalFee" | "totalDebit">;
+
+// A transfer as stored by the backend
+export interface TransferRecord extends TransferData, TransferLifecycle {
+  id: string;
+  createdAt: string;
+  pricing?: TransferPricing;
+}
+
+// What can still be changed on a scheduled transfer; change the recipient by cancelling and sending a new one
+export type TransferChanges = Partial<Pick<TransferData, "amount" | "executionDate" | "description">>;
+
+export type TransferFailureReason =
+  | "validation"
+  | "limit_exceeded"
+  | "quote_expired"
+  | "network"
+  | "server"
+  | "not_found"
+  | "invalid_transition";
+
+export class TransferError extends Error {
+  reason: TransferFailureReason;
+
+  constructor(reason: TransferFailureReason, message: string) {
+    super(message);
+    this.name = "TransferError";
+    this.reason = reason;
+  }
+}
+
+export interface TransferBackend {
+  createTransfer(transferData: TransferData): Promise<TransferRecord>;
+  getTransfer(transferId: string): Promise<TransferRecord>;
+  listTransfers(query: TransferListQuery): Promise<TransferPage>;
+  updateTransfer(transferId: string, changes: TransferChanges): Promise<TransferRecord>;
+  cancelTransfer(transferId: string): Promise<TransferRecord>;
+  // Marks transfers as handed off in a payment file; none are marked unless all of them can be
+  exportTransfers(transferIds: string[]): Promise<TransferRecord[]>;
+}
+
+export interface TransferBackendConfig {
+  backend: "mock" | "http";
+  apiUrl?: string;
+}
+
+export function getTransferBackendConfig(env: ImportMetaEnv = import.meta.env): TransferBackendConfig {
+  return {
+    backend: env.VITE_TRANSFER_BACKEND === "http" ? "http" : "mock",
+    apiUrl: env.VITE_TRANSFER_API_URL,
+  };
+}
+
+export function createTransferBackend(config: TransferBackendConfig): TransferBackend {
+  if (config.backend === "http") {
+    if (!config.apiUrl) {
+      throw new Error("VITE_TRANSFER_API_URL must be set when VITE_TRANSFER_BACKEND is \"http\".");
+    }
+    return createHttpTransferBackend(config.apiUrl);
+  }
+  return createMockTransferBackend();
+}
+
+let activeBackend: TransferBackend | null = null;
+
+export function getTransferBackend(): TransferBackend {
+  if (!activeBackend) {
+    activeBackend = createTransferBackend(getTransferBackendConfig());
+  }
+  return activeBackend;
+}
+
+// Function to swap the backend at runtime, e.g. in tests or a developer menu
+export function setTransferBackend(backend: TransferBackend): void {
+  activeBackend = backend;
+}
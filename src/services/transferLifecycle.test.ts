@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { TransferError } from "@/services/transferBackend";
+import {
+  assertEditable,
+  canTransition,
+  createLifecycle,
+  isCancellable,
+  isTerminalStatus,
+  transitionTransfer,
+  TransferStatus,
+} from "@/services/transferLifecycle";
+
+const lifecycleIn = (status: TransferStatus) => ({ status, statusHistory: [{ status, at: "2026-10-19T09:00:00.000Z" }] });
+
+describe("canTransition", () => {
+  it.each([
+    ["draft", "scheduled"],
+    ["draft", "submitted"],
+    ["scheduled", "pending_approval"],
+    ["scheduled", "cancelled"],
+    ["scheduled", "exported"],
+    ["pending_approval", "submitted"],
+    ["pending_approval", "exported"],
+    ["submitted", "processing"],
+    ["submitted", "failed"],
+    ["processing", "completed"],
+    ["processing", "returned"],
+  ] as const)("allows %s to %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    ["draft", "completed"],
+    ["scheduled", "processing"],
+    ["submitted", "scheduled"],
+    ["processing", "cancelled"],
+    ["completed", "returned"],
+    ["cancelled", "submitted"],
+    ["submitted", "exported"],
+    ["exported", "submitted"],
+  ] as const)("forbids %s to %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe("terminal statuses", () => {
+  it.each(["completed", "failed", "returned", "cancelled", "exported"] as const)("%s is terminal and can't be cancelled", (status) => {
+    expect(isTerminalStatus(status)).toBe(true);
+    expect(isCancellable(status)).toBe(false);
+  });
+
+  it.each(["draft", "scheduled", "pending_approval", "submitted", "processing"] as const)("%s is not terminal", (status) => {
+    expect(isTerminalStatus(status)).toBe(false);
+  });
+});
+
+describe("transitionTransfer", () => {
+  it("records each status change in the history", () => {
+    const draft = createLifecycle("2026-10-19T09:00:00.000Z");
+    const submitted = transitionTransfer(draft, "submitted", "2026-10-19T09:00:01.000Z");
+    const failed = transitionTransfer(submitted, "failed", "2026-10-19T09:05:00.000Z", "Account closed");
+    expect(failed).toEqual({
+      status: "failed",
+      statusHistory: [
+        { status: "draft", at: "2026-10-19T09:00:00.000Z" },
+        { status: "submitted", at: "2026-10-19T09:00:01.000Z" },
+        { status: "failed", at: "2026-10-19T09:05:00.000Z", reason: "Account closed" },
+      ],
+    });
+    expect(draft.status).toBe("draft");
+  });
+
+  it("rejects forbidden moves with an invalid transition error", () => {
+    expect(() => transitionTransfer(lifecycleIn("completed"), "cancelled")).toThrow(
+      new TransferError("invalid_transition", "A completed transfer cannot be cancelled."),
+    );
+    expect(() => transitionTransfer(lifecycleIn("processing"), "scheduled")).toThrow(
+      "A processing transfer cannot be moved to scheduled.",
+    );
+  });
+});
+
+describe("assertEditable", () => {
+  it("only lets scheduled transfers be changed", () => {
+    expect(() => assertEditable(lifecycleIn("scheduled"))).not.toThrow();
+    expect(() => assertEditable(lifecycleIn("submitted"))).toThrow("A submitted transfer can no longer be changed.");
+  });
+});
@@ -0,0 +1,117 @@
+// Transfer status lifecycle. Every status change goes through transitionTransfer so illegal
+// moves, such as cancelling a completed transfer, are rejected the same way by every backend.
+import { TransferError } from "@/services/transferBackend";
+
+export type TransferStatus =
+  | "draft"
+  | "scheduled"
+  | "pending_approval"
+  | "submitted"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "returned"
+  | "cancelled"
+  | "exported";
+
+export interface TransferStatusEvent {
+  status: TransferStatus;
+  // ISO 8601 timestamp of the transition
+  at: string;
+  reason?: string;
+}
+
+// Fields a transfer needs to move through the lifecycle
+export interface TransferLifecycle {
+  status: TransferStatus;
+  statusHistory: TransferStatusEvent[];
+}
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  pending_approval: "Pending approval",
+  submitted: "Submitted",
+  processing: "Processing",
+  completed: "Completed",
+  failed: "Failed",
+  returned: "Returned",
+  cancelled: "Cancelled",
+  exported: "Exported",
+};
+
+const TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  draft: ["scheduled", "pending_approval", "submitted", "cancelled"],
+  // Waiting for its execution date; still editable until then
+  scheduled: ["pending_approval", "submitted", "cancelled", "exported"],
+  pending_approval: ["submitted", "cancelled", "exported"],
+  submitted: ["processing", "failed", "cancelled"],
+  processing: ["completed", "failed", "returned"],
+  completed: [],
+  failed: [],
+  returned: [],
+  cancelled: [],
+  // Handed off in a payment file for the user to upload to their bank, so it's never sent from here
+  exported: [],
+};
+
+export function isTerminalStatus(status: TransferStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: TransferStatus, to: TransferStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function isCancellable(status: TransferStatus): boolean {
+  return canTransition(status, "cancelled");
+}
+
+// Only transfers waiting for their execution date can still be changed
+export function isEditable(status: TransferStatus): boolean {
+  return status === "scheduled";
+}
+
+// Function to reject changes to a transfer that is no longer editable, the same way transitionTransfer
+// rejects illegal moves
+export function assertEditable(transfer: TransferLifecycle): void {
+  if (!isEditable(transfer.status)) {
+    throw new TransferError(
+      "invalid_transition",
+      `A ${TRANSFER_STATUS_LABELS[transfer.status].toLowerCase()} transfer can no longer be changed.`,
+    );
+  }
+}
+
+// Function to start a lifecycle in the draft status
+export function createLifecycle(at: string = new Date().toISOString()): TransferLifecycle {
+  return { status: "draft", statusHistory: [{ status: "draft", at }] };
+}
+
+// Function to move a transfer to a new status, recording when it happened
+export function transitionTransfer<T extends TransferLifecycle>(
+  transfer: T,
+  to: TransferStatus,
+  at: string = new Date().toISOString(),
+  reason?: string,
+): T {
+  if (!canTransition(transfer.status, to)) {
+    const from = TRANSFER_STATUS_LABELS[transfer.status].toLowerCase();
+    throw new TransferError(
+      "invalid_transition",
+      to === "cancelled"
+        ? `A ${from} transfer cannot be cancelled.`
+        : `A ${from} transfer cannot be moved to ${TRANSFER_STATUS_LABELS[to].toLowerCase()}.`,
+    );
+  }
+  return {
+    ...transfer,
+    status: to,
+    statusHistory: [...transfer.statusHistory, reason ? { status: to, at, reason } : { status: to, at }],
+  };
+}
+
+// Function to get when a transfer entered a status, if it has
+export function getStatusTimestamp(transfer: TransferLifecycle, status: TransferStatus): string | undefined {
+  return transfer.statusHistory.find((event) => event.status === status)?.at;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { TransferError, TransferRecord } from "@/services/transferBackend";
+import { decodeCursor, encodeCursor, queryTransfers } from "@/services/transferQuery";
+
+function transfer(id: string, recipientName: string, amount: number, currency: string): TransferRecord {
+  return {
+    id,
+    createdAt: `2026-10-${id.padStart(2, "0")}T09:00:00.000Z`,
+    transferType: currency === "USD" ? "domestic" : "international",
+    recipientName,
+    amount,
+    currency,
+    bankName: "Bank",
+    status: "completed",
+    statusHistory: [],
+  };
+}
+
+describe("encodeCursor and decodeCursor", () => {
+  it("round-trip positions with any characters", () => {
+    const position = { value: "zoë 🐝 café", id: "TRX1" };
+    const cursor = encodeCursor(position);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(position);
+    expect(decodeCursor(encodeCursor({ value: 1250, id: "TRX2" }))).toEqual({ value: 1250, id: "TRX2" });
+  });
+
+  it("rejects cursors that weren't made by encodeCursor", () => {
+    expect(() => decodeCursor("not a cursor")).toThrow(TransferError);
+    expect(() => decodeCursor(encodeCursor({ value: null, id: "TRX1" } as never))).toThrow("The page cursor is invalid or has expired.");
+  });
+});
+
+describe("queryTransfers", () => {
+  const transfers = [
+    transfer("1", "Zoë", 5000, "JPY"),
+    transfer("2", "Ana", 1000, "USD"),
+    transfer("3", "Émile", 20000, "EUR"),
+    transfer("4", "Bo", 300, "USD"),
+    transfer("5", "Chen", 7000, "EUR"),
+  ];
+
+  it("pages through every transfer without repeats using the cursor", () => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = queryTransfers(transfers, { sortBy: "recipientName", sortDirection: "asc", limit: 2, cursor });
+      expect(page.totalCount).toBe(5);
+      ids.push(...page.items.map((item) => item.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(ids).toEqual(["2", "4", "5", "3", "1"]);
+  });
+
+  it("sorts amounts by currency, then amount", () => {
+    const page = queryTransfers(transfers, { sortBy: "amount", sortDirection: "asc" });
+    expect(page.items.map((item) => `${item.currency} ${item.amount}`)).toEqual([
+      "EUR 7000",
+      "EUR 20000",
+      "JPY 5000",
+      "USD 300",
+      "USD 1000",
+    ]);
+  });
+
+  it("filters by currency and search text", () => {
+    expect(queryTransfers(transfers, { currency: "EUR" }).items.map((item) => item.id)).toEqual(["5", "3"]);
+    expect(queryTransfers(transfers, { search: "zoë" }).items.map((item) => item.id)).toEqual(["1"]);
+  });
+});
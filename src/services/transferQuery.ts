@@ -0,0 +1,149 @@
+// Searching, filtering, sorting and cursor pagination of transfer history.
+// The mock backend runs these in the browser; the HTTP backend sends the same query to the server.
+import { TransferError, TransferRecord } from "@/services/transferBackend";
+import type { TransferStatus } from "@/services/transferLifecycle";
+
+export type TransferSortField = "createdAt" | "recipientName" | "amount" | "status";
+export type SortDirection = "asc" | "desc";
+
+export interface TransferListQuery {
+  // Matched case-insensitively against the recipient name and description
+  search?: string;
+  transferType?: TransferRecord["transferType"];
+  currency?: string;
+  status?: TransferStatus;
+  // Inclusive ISO 8601 bounds on createdAt
+  createdFrom?: string;
+  createdTo?: string;
+  sortBy?: TransferSortField;
+  sortDirection?: SortDirection;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TransferPage {
+  items: TransferRecord[];
+  // Cursor for the page after this one, or null on the last page
+  nextCursor: string | null;
+  // Number of transfers matching the filters across all pages
+  totalCount: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+// The sort value and id of the last item on a page; the next page starts strictly after it
+interface CursorPosition {
+  value: string | number;
+  id: string;
+}
+
+function getSortValue(transfer: TransferRecord, sortBy: TransferSortField): string | number {
+  switch (sortBy) {
+    case "recipientName":
+      return transfer.recipientName;
+    // Amounts are only comparable within a currency, so they're grouped by currency first. Minor units are
+    // zero-padded to keep the string order numeric.
+    case "amount":
+      return `${transfer.currency ?? "USD"} ${transfer.amount.toString().padStart(16, "0")}`;
+    case "status":
+      return transfer.status;
+    default:
+      return transfer.createdAt;
+  }
+}
+
+// Names sort the way people read them, so "Émile" comes before "Zoë" and case is ignored
+const nameCollator = new Intl.Collator("en", { sensitivity: "base" });
+
+function comparePositions(sortBy: TransferSortField, a: CursorPosition, b: CursorPosition): number {
+  const order =
+    sortBy === "recipientName"
+      ? nameCollator.compare(String(a.value), String(b.value))
+      : a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  if (order !== 0) {
+    return order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Cursors are base64url-encoded UTF-8 JSON, so they can hold any recipient name and go in URLs as they are
+export function encodeCursor(position: CursorPosition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(position));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (character) => character.charCodeAt(0));
+    const position = JSON.parse(new TextDecoder("utf-8", { fatal: true }).decode(bytes));
+    if ((typeof position.value === "string" || typeof position.value === "number") && typeof position.id === "string") {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new TransferError("validation", "The page cursor is invalid or has expired.");
+}
+
+// Function to check whether a transfer matches every filter in the query
+export function matchesTransferQuery(transfer: TransferRecord, query: TransferListQuery): boolean {
+  const search = query.search?.trim().toLowerCase();
+  if (search && ![transfer.recipientName, transfer.description ?? ""].some((text) => text.toLowerCase().includes(search))) {
+    return false;
+  }
+  if (query.transferType && transfer.transferType !== query.transferType) {
+    return false;
+  }
+  if (query.currency && transfer.currency !== query.currency) {
+    return false;
+  }
+  if (query.status && transfer.status !== query.status) {
+    return false;
+  }
+  if (query.createdFrom && transfer.createdAt < new Date(query.createdFrom).toISOString()) {
+    return false;
+  }
+  if (query.createdTo && transfer.createdAt > new Date(query.createdTo).toISOString()) {
+    return false;
+  }
+  return true;
+}
+
+// Function to get one page of transfers matching the query
+export function queryTransfers(transfers: TransferRecord[], query: TransferListQuery = {}): TransferPage {
+  const sortBy = query.sortBy ?? "createdAt";
+  const direction = query.sortDirection === "asc" ? 1 : -1;
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const positionOf = (transfer: TransferRecord): CursorPosition => ({ value: getSortValue(transfer, sortBy), id: transfer.id });
+
+  const matching = transfers
+    .filter((transfer) => matchesTransferQuery(transfer, query))
+    .sort((a, b) => direction * comparePositions(sortBy, positionOf(a), positionOf(b)));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after
+    ? matching.filter((transfer) => direction * comparePositions(sortBy, positionOf(transfer), after) > 0)
+    : matching;
+  const items = remaining.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: remaining.length > limit ? encodeCursor(positionOf(items[items.length - 1])) : null,
+    totalCount: matching.length,
+  };
+}
+
+// Function to serialize a query as URL search parameters, leaving out unset fields
+export function toSearchParams(query: TransferListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+}
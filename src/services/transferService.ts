@@ -1,10 +1,28 @@
 
 // This service would typically interact with your backend API
+import { validateIban } from "@/lib/iban";
+import { checkBicCountry, validateBic } from "@/lib/bic";
+import { resolveCountryCode } from "@/lib/countries";
+import { validateAccountNumber, validateRoutingNumber } from "@/lib/aba";
+import { AccountIdentifier, getAccountFieldValues, validateAccountFields } from "@/lib/accountFormats";
+import { isCurrencyCode } from "@/lib/currencies";
+import { fromIsoDate, validateExecutionDate } from "@/lib/businessDays";
+import { getAccountCurrency } from "@/services/quoteService";
+import { getTransferBackend, TransferChanges, TransferError, TransferRecord } from "@/services/transferBackend";
+import { assertEditable, transitionTransfer } from "@/services/transferLifecycle";
+import { MAX_PAGE_SIZE, TransferListQuery, TransferPage } from "@/services/transferQuery";
+
+export type { AccountIdentifier } from "@/lib/accountFormats";
+export { TransferError } from "@/services/transferBackend";
+export type { TransferChanges, TransferFailureReason, TransferRecord } from "@/services/transferBackend";
+export type { TransferStatus, TransferStatusEvent } from "@/services/transferLifecycle";
+export type { SortDirection, TransferListQuery, TransferPage, TransferSortField } from "@/services/transferQuery";
 
 export interface TransferData {
   transferType: "domestic" | "international";
   recipientName: string;
-  amount: string;
+  // Amount in minor units of `currency`, e.g. 1050 for 10.50 USD or 1050 for 1,050 JPY
+  amount: number;
   bankName: string;
   description?: string;
   // Domestic specific fields
@@ -16,70 +34,244 @@ export interface TransferData {
   bankAddress?: string;
   bankCountry?: string;
   currency?: string;
+  // Typed account identifier for international transfers; IBAN transfers also set `iban`
+  accountIdentifier?: AccountIdentifier;
+  // Quote the customer accepted on the summary step
+  quoteId?: string;
+  // Client-generated key shared by every attempt to send this transfer, so retries never pay twice
+  idempotencyKey?: string;
+  // ISO date (yyyy-MM-dd) to execute the transfer on; omitted to send it straight away
+  executionDate?: string;
+}
+
+// Transfers to the same recipient for the same amount within this window are flagged as possible duplicates
+export const DUPLICATE_WINDOW_MINUTES = 10;
+
+export interface TransferValidationError {
+  field: keyof TransferData;
+  message: string;
+}
+
+// Who a transfer is paid to: everything in TransferData except the payment itself
+export type RecipientDetails = Pick<
+  TransferData,
+  | "transferType"
+  | "recipientName"
+  | "bankName"
+  | "accountNumber"
+  | "routingNumber"
+  | "iban"
+  | "swiftCode"
+  | "bankAddress"
+  | "bankCountry"
+  | "accountIdentifier"
+>;
+
+// Function to copy just the recipient fields, e.g. from a saved beneficiary or a transfer record
+export function getRecipientDetails(details: RecipientDetails): RecipientDetails {
+  return {
+    transferType: details.transferType,
+    recipientName: details.recipientName,
+    bankName: details.bankName,
+    accountNumber: details.accountNumber,
+    routingNumber: details.routingNumber,
+    iban: details.iban,
+    swiftCode: details.swiftCode,
+    bankAddress: details.bankAddress,
+    bankCountry: details.bankCountry,
+    accountIdentifier: details.accountIdentifier,
+  };
+}
+
+// Function to get the account a recipient is paid into; domestic accounts use the ABA scheme
+export function getRecipientAccount(details: RecipientDetails): AccountIdentifier {
+  if (details.transferType === "domestic") {
+    return { scheme: "aba", routingNumber: details.routingNumber ?? "", accountNumber: details.accountNumber ?? "" };
+  }
+  return details.accountIdentifier ?? { scheme: "iban", iban: details.iban ?? "" };
+}
+
+// Function to get the currencies whose payment systems must be open on a transfer's execution date
+export function getSettlementCurrencies(transferData: Pick<TransferData, "transferType" | "currency">): string[] {
+  const accountCurrency = getAccountCurrency();
+  const currency = transferData.transferType === "domestic" ? "USD" : transferData.currency ?? accountCurrency;
+  return currency === accountCurrency ? [accountCurrency] : [accountCurrency, currency];
+}
+
+// Function to validate transfer data before it is sent to the backend
+export function validateTransferData(transferData: TransferData): TransferValidationError[] {
+  const errors: TransferValidationError[] = [];
+
+  if (!Number.isSafeInteger(transferData.amount) || transferData.amount <= 0) {
+    errors.push({ field: "amount", message: "Amount must be a positive whole number of minor units." });
+  }
+  if (transferData.transferType === "international" && !isCurrencyCode(transferData.currency ?? "")) {
+    errors.push({ field: "currency", message: "Currency must be an ISO 4217 currency code." });
+  }
+  if (transferData.executionDate) {
+    const message = /^\d{4}-\d{2}-\d{2}$/.test(transferData.executionDate)
+      ? validateExecutionDate(fromIsoDate(transferData.executionDate), getSettlementCurrencies(transferData))
+      : "Execution date must be an ISO date (yyyy-MM-dd).";
+    if (message) {
+      errors.push({ field: "executionDate", message });
+    }
+  }
+
+  return [...errors, ...validateRecipientDetails(transferData)];
+}
+
+// Function to validate the recipient's name, bank and account details
+export function validateRecipientDetails(transferData: RecipientDetails): TransferValidationError[] {
+  const errors: TransferValidationError[] = [];
+
+  if ((transferData.recipientName ?? "").trim().length < 2) {
+    errors.push({ field: "recipientName", message: "Name must be at least 2 characters." });
+  }
+
+  if (transferData.transferType === "domestic") {
+    const routingResult = validateRoutingNumber(transferData.routingNumber ?? "");
+    if (routingResult.valid === false) {
+      errors.push({ field: "routingNumber", message: routingResult.error });
+    }
+
+    const accountResult = validateAccountNumber(transferData.accountNumber ?? "");
+    if (accountResult.valid === false) {
+      errors.push({ field: "accountNumber", message: accountResult.error });
+    }
+  }
+
+  if (transferData.transferType === "international") {
+    const identifier = transferData.accountIdentifier ?? { scheme: "iban", iban: transferData.iban ?? "" };
+    validateAccountFields(identifier.scheme, getAccountFieldValues(identifier)).forEach(({ field, message }) => {
+      errors.push({ field: field === "iban" ? "iban" : "accountIdentifier", message });
+    });
+
+    const ibanResult = validateIban(identifier.scheme === "iban" ? identifier.iban : "");
+
+    const bicResult = validateBic(transferData.swiftCode ?? "");
+    if (bicResult.valid === false) {
+      errors.push({ field: "swiftCode", message: bicResult.error });
+    } else {
+      const bankCountryCode = resolveCountryCode(transferData.bankCountry ?? "");
+      const ibanMismatch = ibanResult.valid && checkBicCountry(bicResult.bic, ibanResult.country.code, "IBAN");
+      const bankMismatch = bankCountryCode && checkBicCountry(bicResult.bic, bankCountryCode, "bank");
+      if (ibanMismatch) {
+        errors.push({ field: "swiftCode", message: ibanMismatch });
+      }
+      if (bankMismatch) {
+        errors.push({ field: "bankCountry", message: bankMismatch });
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Function to generate a key for one transfer attempt; reuse it when retrying that transfer
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return Date.now().toString(36) + "-" + Math.random().toString(36).slice(2, 12);
 }
 
-// Function to simulate API call for creating a transfer
-export async function createTransfer(transferData: TransferData): Promise<{ success: boolean; id: string }> {
+// Results per idempotency key, so a double click or a retry returns the original transfer
+const transfersByKey = new Map<string, Promise<TransferRecord>>();
+
+// Function to create a transfer through the configured backend
+export async function createTransfer(transferData: TransferData): Promise<TransferRecord> {
   console.log("Creating transfer with data:", transferData);
-  
-  // Simulate API delay
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Generate a mock transaction ID
-      const transactionId = "TXN" + Math.floor(Math.random() * 1000000).toString().padStart(6, "0");
-      
-      resolve({
-        success: true,
-        id: transactionId,
-      });
-    }, 1500);
+
+  const validationErrors = validateTransferData(transferData);
+  if (validationErrors.length > 0) {
+    throw new TransferError("validation", validationErrors.map((error) => error.message).join(" "));
+  }
+
+  const idempotencyKey = transferData.idempotencyKey ?? createIdempotencyKey();
+  const existing = transfersByKey.get(idempotencyKey);
+  if (existing) {
+    return existing;
+  }
+
+  const result = getTransferBackend().createTransfer({ ...transferData, idempotencyKey });
+  transfersByKey.set(idempotencyKey, result);
+  // A failed attempt may be retried with the same key
+  result.catch(() => transfersByKey.delete(idempotencyKey));
+  return result;
+}
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Function to find transfers to the same recipient for the same amount and currency created in the last few minutes
+export async function findRecentDuplicates(
+  transferData: TransferData,
+  withinMinutes: number = DUPLICATE_WINDOW_MINUTES,
+): Promise<TransferRecord[]> {
+  const { items } = await getTransferBackend().listTransfers({
+    search: transferData.recipientName.trim(),
+    currency: transferData.currency,
+    createdFrom: new Date(Date.now() - withinMinutes * 60 * 1000).toISOString(),
+    limit: MAX_PAGE_SIZE,
   });
+  return items.filter((record) =>
+    record.status !== "cancelled" &&
+    record.status !== "failed" &&
+    record.idempotencyKey !== transferData.idempotencyKey &&
+    normalizeName(record.recipientName) === normalizeName(transferData.recipientName) &&
+    record.amount === transferData.amount,
+  );
 }
 
-// Function to simulate API call for getting a user's transfer history
-export async function getTransferHistory(): Promise<TransferData[]> {
+// Function to get a single transfer with its current status
+export async function getTransfer(transferId: string): Promise<TransferRecord> {
+  return getTransferBackend().getTransfer(transferId);
+}
+
+// Function to get one page of a user's transfer history, newest first unless the query sorts otherwise
+export async function listTransfers(query: TransferListQuery = {}): Promise<TransferPage> {
+  return getTransferBackend().listTransfers(query);
+}
+
+// Function to get a user's whole transfer history, newest first, or every transfer matching a query
+export async function getTransferHistory(
+  query: Omit<TransferListQuery, "cursor" | "limit"> = {},
+): Promise<TransferRecord[]> {
   console.log("Fetching transfer history");
-  
-  // Simulate API delay
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve([
-        {
-          transferType: "domestic",
-          recipientName: "John Doe",
-          amount: "250.00",
-          bankName: "Bank of America",
-          accountNumber: "****1234",
-          routingNumber: "123456789",
-          description: "Rent payment",
-        },
-        {
-          transferType: "international",
-          recipientName: "Jane Smith",
-          amount: "1000.00",
-          bankName: "HSBC",
-          iban: "GB29NWBK****1234",
-          swiftCode: "HSBCGB2L",
-          bankAddress: "8 Canada Square, London",
-          bankCountry: "United Kingdom",
-          currency: "GBP",
-          description: "Invoice payment",
-        },
-      ]);
-    }, 1000);
-  });
+  const transfers: TransferRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listTransfers({ ...query, cursor, limit: MAX_PAGE_SIZE });
+    transfers.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return transfers;
 }
 
-// Function to cancel a transfer (if possible)
-export async function cancelTransfer(transferId: string): Promise<{ success: boolean }> {
+// Function to change the amount, execution date or description of a scheduled transfer;
+// throws TransferError("invalid_transition") once it has been executed or cancelled
+export async function updateScheduledTransfer(transferId: string, changes: TransferChanges): Promise<TransferRecord> {
+  const backend = getTransferBackend();
+  const transfer = await backend.getTransfer(transferId);
+  assertEditable(transfer);
+
+  const validationErrors = validateTransferData({ ...transfer, ...changes });
+  if (validationErrors.length > 0) {
+    throw new TransferError("validation", validationErrors.map((error) => error.message).join(" "));
+  }
+  return backend.updateTransfer(transferId, changes);
+}
+
+// Function to cancel a transfer; throws TransferError("invalid_transition") once it can no longer be cancelled
+export async function cancelTransfer(transferId: string): Promise<TransferRecord> {
   console.log("Cancelling transfer:", transferId);
-  
-  // Simulate API delay
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve({
-        success: true,
-      });
-    }, 1000);
-  });
+  const backend = getTransferBackend();
+  transitionTransfer(await backend.getTransfer(transferId), "cancelled");
+  return backend.cancelTransfer(transferId);
+}
+
+// Function to mark transfers as exported once they're in a payment file, so they're never also sent from here;
+// throws TransferError("invalid_transition") and marks none if any was sent or cancelled in the meantime
+export async function markTransfersExported(transferIds: string[]): Promise<TransferRecord[]> {
+  console.log("Marking transfers as exported:", transferIds);
+  return getTransferBackend().exportTransfers(transferIds);
 }